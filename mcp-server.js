@@ -14,6 +14,7 @@
  *       "args": ["/Users/nb/Projects/development/chittyreception/mcp-server.js"],
  *       "env": {
  *         "OPENPHONE_API_KEY": "your_openphone_api_key",
+ *         "OPENPHONE_API_BASE_URL": "http://localhost:8790/v1 (optional, fake API for local development)",
  *         "NEON_DATABASE_URL": "postgresql://...",
  *         "CHITTY_ID_SERVICE_TOKEN": "your_token",
  *         "CHITTY_AUTH_SERVICE_TOKEN": "your_token"
@@ -54,16 +55,18 @@ class OpenPhoneClient {
         return response.json();
     }
     async sendMessage(request) {
-        return this.request('/messages', {
+        const response = await this.request('/messages', {
             method: 'POST',
             body: JSON.stringify(request),
         });
+        return response.data;
     }
     async makeCall(request) {
-        return this.request('/calls', {
+        const response = await this.request('/calls', {
             method: 'POST',
             body: JSON.stringify(request),
         });
+        return response.data;
     }
     async getPhoneNumbers() {
         return this.request('/phone-numbers', {
@@ -73,6 +76,7 @@ class OpenPhoneClient {
 }
 // Environment validation
 const OPENPHONE_API_KEY = process.env.OPENPHONE_API_KEY;
+const OPENPHONE_API_BASE_URL = process.env.OPENPHONE_API_BASE_URL || undefined;
 const NEON_DATABASE_URL = process.env.NEON_DATABASE_URL;
 if (!OPENPHONE_API_KEY) {
     throw new Error('OPENPHONE_API_KEY environment variable is required');
@@ -81,7 +85,7 @@ if (!NEON_DATABASE_URL) {
     throw new Error('NEON_DATABASE_URL environment variable is required');
 }
 // Initialize clients
-const openphone = new OpenPhoneClient(OPENPHONE_API_KEY);
+const openphone = new OpenPhoneClient(OPENPHONE_API_KEY, OPENPHONE_API_BASE_URL);
 const sql = neon(NEON_DATABASE_URL);
 // MCP Tool definitions
 const tools = [
@@ -104,6 +108,11 @@ const tools = [
                     type: 'string',
                     description: 'The message content to send. Keep professional and concise.',
                 },
+                mediaUrls: {
+                    type: 'array',
+                    items: { type: 'string' },
+                    description: 'Optional public URLs of images or files to send as MMS (e.g., a parking map or check-in photo).',
+                },
             },
             required: ['from', 'to', 'content'],
         },
@@ -198,7 +207,7 @@ const tools = [
     },
     {
         name: 'get_conversation_context',
-        description: 'Retrieve the full conversation context for a phone number, including recent calls and messages in chronological order. Provides complete interaction history for better context in guest communications.',
+        description: 'Retrieve the full conversation context for a phone number, including recent calls (with transcripts) and messages in chronological order. Provides complete interaction history for better context in guest communications.',
         inputSchema: {
             type: 'object',
             properties: {
@@ -217,7 +226,7 @@ const tools = [
 ];
 // Tool handlers
 async function handleSendSMS(args) {
-    const { from, to, content } = args;
+    const { from, to, content, mediaUrls } = args;
     // Validate inputs
     if (!from || !to || !content) {
         throw new McpError(ErrorCode.InvalidParams, 'Missing required parameters: from, to, content');
@@ -225,8 +234,11 @@ async function handleSendSMS(args) {
     if (!Array.isArray(to) || to.length === 0) {
         throw new McpError(ErrorCode.InvalidParams, 'Parameter "to" must be a non-empty array');
     }
+    if (mediaUrls !== undefined && (!Array.isArray(mediaUrls) || !mediaUrls.every((url) => typeof url === 'string'))) {
+        throw new McpError(ErrorCode.InvalidParams, 'Parameter "mediaUrls" must be an array of URLs');
+    }
     // Send message via OpenPhone
-    const result = await openphone.sendMessage({ from, to, content });
+    const result = await openphone.sendMessage({ from, to, content, mediaUrls });
     // Store in database
     try {
         for (const recipient of to) {
@@ -475,18 +487,22 @@ async function handleGetConversationContext(args) {
     // Get calls
     const calls = await sql `
     SELECT
-      id,
+      c.id,
       'call' as type,
-      from_number,
-      to_number,
-      direction,
-      status,
-      duration_seconds,
-      created_at
-    FROM reception_calls
-    WHERE (from_number = ${phoneNumber} OR to_number = ${phoneNumber})
-      AND created_at >= ${sinceDate.toISOString()}
-    ORDER BY created_at ASC
+      c.from_number,
+      c.to_number,
+      c.direction,
+      c.status,
+      c.duration_seconds,
+      c.transcription,
+      t.segments AS transcript_segments,
+      t.source AS transcript_source,
+      c.created_at
+    FROM reception_calls c
+    LEFT JOIN reception_transcripts t ON t.call_id = c.call_id
+    WHERE (c.from_number = ${phoneNumber} OR c.to_number = ${phoneNumber})
+      AND c.created_at >= ${sinceDate.toISOString()}
+    ORDER BY c.created_at ASC
   `;
     // Get messages
     const messages = await sql `
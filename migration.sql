@@ -40,12 +40,19 @@ CREATE TABLE IF NOT EXISTS reception_messages (
   from_number VARCHAR(50) NOT NULL,
   to_number VARCHAR(50) NOT NULL,
   body TEXT NOT NULL, -- Message content
-  status VARCHAR(50) DEFAULT 'sent', -- sent, delivered, read, failed
-  metadata JSONB DEFAULT '{}', -- Additional OpenPhone metadata
+  status VARCHAR(50) DEFAULT 'sent', -- queued, sending, sent, delivered, failed, undelivered, received
+  status_updated_at TIMESTAMPTZ, -- Last delivery status transition (message.updated)
+  session_id UUID, -- reception_sessions.id the message belongs to, when known
+  metadata JSONB DEFAULT '{}', -- Additional OpenPhone metadata; statusHistory holds delivery transitions
   created_at TIMESTAMPTZ DEFAULT NOW(),
   updated_at TIMESTAMPTZ DEFAULT NOW()
 );
 
+-- Columns added since reception_messages first shipped (CREATE TABLE IF NOT EXISTS leaves an
+-- existing table as it is)
+ALTER TABLE reception_messages ADD COLUMN IF NOT EXISTS status_updated_at TIMESTAMPTZ;
+ALTER TABLE reception_messages ADD COLUMN IF NOT EXISTS session_id UUID;
+
 -- Identity phone numbers table
 -- Maps phone numbers to ChittyID identities for caller resolution
 CREATE TABLE IF NOT EXISTS identity_phones (
@@ -75,6 +82,188 @@ CREATE TABLE IF NOT EXISTS reception_sessions (
   updated_at TIMESTAMPTZ DEFAULT NOW()
 );
 
+-- Reception voicemails table
+-- Voicemails left on OpenPhone lines with AI triage results
+CREATE TABLE IF NOT EXISTS reception_voicemails (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  identity_id UUID REFERENCES identities(id) ON DELETE SET NULL,
+  voicemail_id VARCHAR(255) NOT NULL UNIQUE, -- OpenPhone voicemail ID
+  from_number VARCHAR(50) NOT NULL,
+  to_number VARCHAR(50) NOT NULL,
+  duration_seconds INTEGER,
+  recording_url TEXT,
+  transcription TEXT,
+  intent VARCHAR(50), -- booking_inquiry, maintenance, billing, ...
+  urgency VARCHAR(20) NOT NULL DEFAULT 'normal' CHECK (urgency IN ('emergency', 'high', 'normal', 'low')),
+  is_emergency BOOLEAN DEFAULT false,
+  classification JSONB DEFAULT '{}', -- full triage result
+  status VARCHAR(20) NOT NULL DEFAULT 'new' CHECK (status IN ('new', 'assigned', 'handled')),
+  assigned_to VARCHAR(255), -- staff identity or team handling the callback
+  handled_by UUID,
+  handled_at TIMESTAMPTZ,
+  metadata JSONB DEFAULT '{}', -- Additional OpenPhone metadata
+  received_at TIMESTAMPTZ DEFAULT NOW(),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Reception callback tasks table
+-- Callbacks owed to callers, with an SLA deadline derived from urgency
+CREATE TABLE IF NOT EXISTS reception_callback_tasks (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  voicemail_id UUID REFERENCES reception_voicemails(id) ON DELETE CASCADE,
+  identity_id UUID REFERENCES identities(id) ON DELETE SET NULL,
+  phone_number VARCHAR(50) NOT NULL, -- number to call back
+  line_number VARCHAR(50), -- our OpenPhone number the caller reached
+  reason TEXT,
+  priority VARCHAR(20) NOT NULL DEFAULT 'normal' CHECK (priority IN ('emergency', 'high', 'normal', 'low')),
+  status VARCHAR(20) NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'completed', 'cancelled')),
+  assigned_to VARCHAR(255),
+  due_at TIMESTAMPTZ NOT NULL, -- SLA deadline
+  completed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Reception phone lines table
+-- Our phone numbers, the provider serving each, and per-line settings
+CREATE TABLE IF NOT EXISTS reception_phone_lines (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  phone_number VARCHAR(50) NOT NULL UNIQUE, -- E.164
+  phone_number_id VARCHAR(255), -- provider's phone number ID
+  label VARCHAR(255),
+  provider VARCHAR(20) NOT NULL DEFAULT 'openphone' CHECK (provider IN ('openphone', 'twilio')),
+  auto_reply_enabled BOOLEAN NOT NULL DEFAULT false, -- send AI suggested responses to inbound SMS
+  metadata JSONB DEFAULT '{}',
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Reception opt-outs table
+-- Numbers that texted STOP (or similar) to one of our lines; that line never sends them automated
+-- messages until they text START to it
+CREATE TABLE IF NOT EXISTS reception_opt_outs (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  phone_number VARCHAR(50) NOT NULL,
+  keyword VARCHAR(50), -- keyword that triggered the opt-out
+  line_number VARCHAR(50) NOT NULL, -- our number the opt-out was sent to
+  opted_out_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (phone_number, line_number)
+);
+
+-- Reception webhook events table
+-- Ledger of every webhook delivery, keyed by the provider event ID, used to
+-- de-duplicate retries and record the processing outcome of each event
+CREATE TABLE IF NOT EXISTS reception_webhook_events (
+  event_id VARCHAR(255) PRIMARY KEY, -- OpenPhone event ID
+  event_type VARCHAR(100) NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'received'
+    CHECK (status IN ('received', 'queued', 'processing', 'processed', 'failed', 'dead_lettered')),
+  delivery_count INTEGER NOT NULL DEFAULT 1, -- number of times the provider delivered this event
+  attempts INTEGER NOT NULL DEFAULT 0, -- processing attempts since the event was received, replayed or re-driven
+  payload JSONB NOT NULL, -- raw webhook event
+  minted_identity_id UUID, -- ChittyID minted for an unknown number, reused when the event is retried
+  outcome JSONB, -- summary of what processing did
+  last_error TEXT,
+  first_received_at TIMESTAMPTZ DEFAULT NOW(),
+  last_received_at TIMESTAMPTZ DEFAULT NOW(),
+  processing_started_at TIMESTAMPTZ,
+  processed_at TIMESTAMPTZ
+);
+
+-- Reception webhook dead letters table
+-- Events that exhausted their processing attempts, kept for inspection and re-drive
+CREATE TABLE IF NOT EXISTS reception_webhook_dead_letters (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  event_id VARCHAR(255) NOT NULL UNIQUE REFERENCES reception_webhook_events(event_id) ON DELETE CASCADE,
+  event_type VARCHAR(100) NOT NULL,
+  payload JSONB NOT NULL, -- raw webhook event
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'redriven')),
+  redrive_count INTEGER NOT NULL DEFAULT 0,
+  dead_lettered_at TIMESTAMPTZ DEFAULT NOW(),
+  redriven_at TIMESTAMPTZ
+);
+
+-- Reception backfill jobs table
+-- Imports of OpenPhone call and message history for one line; the checkpoint lets a job resume
+CREATE TABLE IF NOT EXISTS reception_backfill_jobs (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  phone_number VARCHAR(50) NOT NULL, -- our line (E.164)
+  phone_number_id VARCHAR(255), -- OpenPhone phone number ID, resolved on the first run
+  status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'running', 'completed', 'failed', 'cancelled')),
+  since TIMESTAMPTZ, -- only import history created after this
+  checkpoint JSONB NOT NULL DEFAULT '{}', -- { pageToken, offset }: the next conversation to import
+  stats JSONB NOT NULL DEFAULT '{}', -- conversations, calls and messages imported so far
+  last_error TEXT,
+  requested_by UUID, -- identity that started the job (null for the CLI)
+  started_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Reception message media table
+-- MMS attachments: inbound media downloaded from the provider and outbound uploads,
+-- stored in the media bucket under storage_key
+CREATE TABLE IF NOT EXISTS reception_message_media (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  message_id VARCHAR(255), -- provider message ID; null until an upload is sent
+  provider_media_id VARCHAR(255) UNIQUE, -- provider media ID of inbound media (de-duplicates webhook retries)
+  direction VARCHAR(10) NOT NULL CHECK (direction IN ('inbound', 'outbound')),
+  position INTEGER, -- order within the message
+  source_url TEXT, -- provider URL inbound media was downloaded from
+  storage_key TEXT, -- object key in the media bucket once stored
+  content_type VARCHAR(255),
+  size_bytes INTEGER,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'stored', 'rejected', 'failed')),
+  error TEXT, -- why the media was rejected or could not be downloaded
+  uploaded_by UUID, -- identity that uploaded outbound media
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Reception call recordings table
+-- Call and voicemail recordings copied from the provider into the recordings bucket,
+-- since provider recording URLs expire; purged after RECORDING_RETENTION_DAYS
+CREATE TABLE IF NOT EXISTS reception_call_recordings (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  call_id VARCHAR(255), -- provider call ID (call recordings)
+  voicemail_id VARCHAR(255), -- provider voicemail ID (voicemail recordings)
+  source VARCHAR(20) NOT NULL CHECK (source IN ('call', 'voicemail')),
+  provider_recording_id VARCHAR(255) NOT NULL UNIQUE, -- de-duplicates webhook retries
+  source_url TEXT, -- provider URL the recording was downloaded from
+  storage_key TEXT, -- object key in the recordings bucket once stored
+  content_type VARCHAR(255),
+  size_bytes BIGINT,
+  duration_seconds INTEGER,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'stored', 'failed', 'deleted')),
+  error TEXT, -- why the recording could not be archived
+  recorded_at TIMESTAMPTZ, -- when the provider made the recording; retention counts from here
+  deleted_at TIMESTAMPTZ, -- when retention removed the stored copy
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Reception transcripts table
+-- Speech-to-text of calls and voicemails: the provider's transcript when it has one, otherwise
+-- Workers AI Whisper over the archived recording. One transcript per call or voicemail
+CREATE TABLE IF NOT EXISTS reception_transcripts (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  call_id VARCHAR(255) UNIQUE, -- provider call ID (call transcripts)
+  voicemail_id VARCHAR(255) UNIQUE, -- provider voicemail ID (voicemail transcripts)
+  recording_id UUID REFERENCES reception_call_recordings(id) ON DELETE SET NULL, -- recording Whisper ran over
+  source VARCHAR(20) NOT NULL CHECK (source IN ('provider', 'whisper')),
+  model VARCHAR(255), -- Workers AI model of Whisper transcripts
+  language VARCHAR(20),
+  text TEXT NOT NULL,
+  segments JSONB NOT NULL DEFAULT '[]', -- [{ start, end, speaker, text }], seconds from the start
+  speaker_detection VARCHAR(20) NOT NULL CHECK (speaker_detection IN ('provider', 'single', 'pauses')),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
 -- ============================================================================
 -- INDEXES FOR PERFORMANCE
 -- ============================================================================
@@ -86,6 +275,9 @@ CREATE INDEX IF NOT EXISTS idx_reception_calls_from_number ON reception_calls(fr
 CREATE INDEX IF NOT EXISTS idx_reception_calls_to_number ON reception_calls(to_number);
 CREATE INDEX IF NOT EXISTS idx_reception_calls_status ON reception_calls(status);
 CREATE INDEX IF NOT EXISTS idx_reception_calls_started_at ON reception_calls(started_at DESC);
+-- Call history: keyset pagination per identity and full-text search over transcripts
+CREATE INDEX IF NOT EXISTS idx_reception_calls_identity_history ON reception_calls(identity_id, (COALESCE(started_at, created_at)) DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_reception_calls_transcription_search ON reception_calls USING GIN (to_tsvector('english', COALESCE(transcription, '')));
 
 -- Reception messages indexes
 CREATE INDEX IF NOT EXISTS idx_reception_messages_identity_id ON reception_messages(identity_id);
@@ -93,6 +285,11 @@ CREATE INDEX IF NOT EXISTS idx_reception_messages_message_id ON reception_messag
 CREATE INDEX IF NOT EXISTS idx_reception_messages_from_number ON reception_messages(from_number);
 CREATE INDEX IF NOT EXISTS idx_reception_messages_to_number ON reception_messages(to_number);
 CREATE INDEX IF NOT EXISTS idx_reception_messages_created_at ON reception_messages(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_reception_messages_status ON reception_messages(status);
+CREATE INDEX IF NOT EXISTS idx_reception_messages_session_id ON reception_messages(session_id);
+-- Message history: keyset pagination per identity and full-text search over bodies
+CREATE INDEX IF NOT EXISTS idx_reception_messages_identity_history ON reception_messages(identity_id, created_at DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_reception_messages_body_search ON reception_messages USING GIN (to_tsvector('english', body));
 
 -- Identity phones indexes
 CREATE INDEX IF NOT EXISTS idx_identity_phones_identity_id ON identity_phones(identity_id);
@@ -105,6 +302,43 @@ CREATE INDEX IF NOT EXISTS idx_reception_sessions_phone_number ON reception_sess
 CREATE INDEX IF NOT EXISTS idx_reception_sessions_status ON reception_sessions(status);
 CREATE INDEX IF NOT EXISTS idx_reception_sessions_last_interaction ON reception_sessions(last_interaction_at DESC);
 
+-- Reception voicemails indexes
+CREATE INDEX IF NOT EXISTS idx_reception_voicemails_identity_id ON reception_voicemails(identity_id);
+CREATE INDEX IF NOT EXISTS idx_reception_voicemails_from_number ON reception_voicemails(from_number);
+CREATE INDEX IF NOT EXISTS idx_reception_voicemails_status ON reception_voicemails(status);
+CREATE INDEX IF NOT EXISTS idx_reception_voicemails_received_at ON reception_voicemails(received_at DESC);
+
+-- Reception callback tasks indexes
+-- One callback task per voicemail (createCallbackTask relies on it for ON CONFLICT)
+DROP INDEX IF EXISTS idx_reception_callback_tasks_voicemail_id;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_reception_callback_tasks_voicemail_id_unique ON reception_callback_tasks(voicemail_id);
+CREATE INDEX IF NOT EXISTS idx_reception_callback_tasks_status_due ON reception_callback_tasks(status, due_at);
+
+-- Reception phone lines indexes
+CREATE INDEX IF NOT EXISTS idx_reception_phone_lines_phone_number_id ON reception_phone_lines(phone_number_id);
+
+-- Reception webhook events indexes
+CREATE INDEX IF NOT EXISTS idx_reception_webhook_events_status ON reception_webhook_events(status);
+CREATE INDEX IF NOT EXISTS idx_reception_webhook_events_type ON reception_webhook_events(event_type);
+CREATE INDEX IF NOT EXISTS idx_reception_webhook_events_first_received ON reception_webhook_events(first_received_at DESC);
+
+-- Reception webhook dead letters indexes
+CREATE INDEX IF NOT EXISTS idx_reception_webhook_dead_letters_status ON reception_webhook_dead_letters(status);
+CREATE INDEX IF NOT EXISTS idx_reception_webhook_dead_letters_dead_lettered_at ON reception_webhook_dead_letters(dead_lettered_at DESC);
+
+-- Reception backfill jobs indexes
+CREATE INDEX IF NOT EXISTS idx_reception_backfill_jobs_status ON reception_backfill_jobs(status);
+CREATE INDEX IF NOT EXISTS idx_reception_backfill_jobs_phone_number ON reception_backfill_jobs(phone_number);
+
+-- Reception message media indexes
+CREATE INDEX IF NOT EXISTS idx_reception_message_media_message_id ON reception_message_media(message_id);
+CREATE INDEX IF NOT EXISTS idx_reception_message_media_status ON reception_message_media(status);
+
+-- Reception call recordings indexes
+CREATE INDEX IF NOT EXISTS idx_reception_call_recordings_call_id ON reception_call_recordings(call_id);
+CREATE INDEX IF NOT EXISTS idx_reception_call_recordings_voicemail_id ON reception_call_recordings(voicemail_id);
+CREATE INDEX IF NOT EXISTS idx_reception_call_recordings_retention ON reception_call_recordings(status, recorded_at);
+
 -- ============================================================================
 -- TRIGGERS FOR UPDATED_AT
 -- ============================================================================
@@ -135,6 +369,34 @@ CREATE TRIGGER update_reception_sessions_updated_at
   BEFORE UPDATE ON reception_sessions
   FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
+CREATE TRIGGER update_reception_voicemails_updated_at
+  BEFORE UPDATE ON reception_voicemails
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_reception_callback_tasks_updated_at
+  BEFORE UPDATE ON reception_callback_tasks
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_reception_phone_lines_updated_at
+  BEFORE UPDATE ON reception_phone_lines
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_reception_backfill_jobs_updated_at
+  BEFORE UPDATE ON reception_backfill_jobs
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_reception_message_media_updated_at
+  BEFORE UPDATE ON reception_message_media
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_reception_call_recordings_updated_at
+  BEFORE UPDATE ON reception_call_recordings
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_reception_transcripts_updated_at
+  BEFORE UPDATE ON reception_transcripts
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
 -- ============================================================================
 -- VIEWS FOR COMMON QUERIES
 -- ============================================================================
@@ -152,7 +414,9 @@ SELECT
   c.started_at,
   c.ended_at,
   i.did as identity_did,
-  i.metadata as identity_metadata
+  i.metadata as identity_metadata,
+  c.created_at, -- appended: CREATE OR REPLACE VIEW can only add columns at the end
+  c.transcription
 FROM reception_calls c
 JOIN identities i ON c.identity_id = i.id
 ORDER BY c.started_at DESC;
@@ -0,0 +1,108 @@
+#!/usr/bin/env ts-node
+/**
+ * Backfill OpenPhone history into reception tables
+ *
+ * Runs the same job as POST /api/v1/backfill-jobs, in-process instead of on the backfill
+ * queue. Progress is checkpointed after every conversation: an interrupted run (Ctrl-C,
+ * crash, rate limit) continues where it stopped when started again with --job-id.
+ *
+ * Usage:
+ *   pnpm backfill:openphone +13125550100
+ *   pnpm backfill:openphone +13125550100 --since 2024-01-01
+ *   pnpm backfill:openphone --job-id 6f1c2d3e-...
+ *
+ * Environment:
+ *   OPENPHONE_API_KEY        OpenPhone API key (required)
+ *   OPENPHONE_API_BASE_URL   API base URL (default: https://api.openphone.com/v1)
+ *   NEON_DATABASE_URL        chittyos-core database (required)
+ *   CHITTY_ID_SERVICE_TOKEN  Resolves and mints identities for unknown numbers (required)
+ */
+
+import { config } from 'dotenv';
+import type { Env } from '../src/types/env';
+import { createDatabase, queries } from '../src/lib/database';
+import { runBackfillSlice, type BackfillJob } from '../src/lib/backfill';
+
+config();
+
+interface BackfillOptions {
+  phoneNumber?: string;
+  since?: string;
+  jobId?: string;
+}
+
+function parseArgs(argv: string[]): BackfillOptions {
+  const options: BackfillOptions = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--since') {
+      options.since = argv[++i];
+      if (!options.since || Number.isNaN(Date.parse(options.since))) throw new Error('--since requires an ISO date');
+    } else if (arg === '--job-id') {
+      options.jobId = argv[++i];
+      if (!options.jobId) throw new Error('--job-id requires a value');
+    } else {
+      options.phoneNumber = arg;
+    }
+  }
+
+  if (!options.jobId && !options.phoneNumber) {
+    throw new Error('Pass the line to backfill (E.164) or --job-id to resume a job');
+  }
+  return options;
+}
+
+function loadEnv(): Env {
+  for (const name of ['OPENPHONE_API_KEY', 'NEON_DATABASE_URL', 'CHITTY_ID_SERVICE_TOKEN']) {
+    if (!process.env[name]) throw new Error(`${name} environment variable is required`);
+  }
+
+  // Only the bindings the backfill touches; it never uses KV, queues or AI
+  return {
+    OPENPHONE_API_KEY: process.env.OPENPHONE_API_KEY,
+    OPENPHONE_API_BASE_URL: process.env.OPENPHONE_API_BASE_URL,
+    NEON_DATABASE_URL: process.env.NEON_DATABASE_URL,
+    CHITTY_ID_SERVICE_TOKEN: process.env.CHITTY_ID_SERVICE_TOKEN,
+  } as Env;
+}
+
+async function main(): Promise<void> {
+  const options = parseArgs(process.argv.slice(2));
+  const env = loadEnv();
+  const db = createDatabase(env);
+
+  let jobId = options.jobId;
+  if (!jobId) {
+    const since = options.since ? new Date(options.since).toISOString() : null;
+    const jobQuery = queries.createBackfillJob(options.phoneNumber!, since, null);
+    const job = await db.queryOne<BackfillJob>(jobQuery.sql, jobQuery.params);
+    jobId = job!.id;
+    console.log(`Created backfill job ${jobId} for ${options.phoneNumber}`);
+  } else {
+    // Failed and cancelled jobs must be put back to pending before they run again
+    const resumeQuery = queries.resumeBackfillJob(jobId);
+    await db.execute(resumeQuery.sql, resumeQuery.params);
+    console.log(`Resuming backfill job ${jobId}`);
+  }
+
+  for (;;) {
+    const result = await runBackfillSlice(env, db, jobId);
+    const { conversations, calls, messages, existing, skipped } = result.stats;
+    console.log(
+      `[${result.status}] ${conversations} conversations, ${calls} new calls, ${messages} new messages, ` +
+        `${existing} already stored, ${skipped} skipped`
+    );
+
+    if (result.done) {
+      if (result.status !== 'completed') process.exitCode = 1;
+      return;
+    }
+  }
+}
+
+main().catch((error) => {
+  console.error('❌ Backfill failed:', error instanceof Error ? error.message : error);
+  console.error('Resume with: pnpm backfill:openphone --job-id <id>');
+  process.exit(1);
+});
@@ -0,0 +1,134 @@
+#!/usr/bin/env ts-node
+/**
+ * Local fake OpenPhone API
+ *
+ * Serves messages, calls, conversations, contacts, call recordings/transcripts and
+ * phone numbers under /v1 from memory and sends signed webhooks back to the worker,
+ * so development and CI work offline. Point the worker
+ * (OPENPHONE_API_BASE_URL in .dev.vars) and mcp-server.ts at http://localhost:8790/v1.
+ *
+ * Usage:
+ *   pnpm fake:openphone
+ *   pnpm fake:openphone --scenario rate-limited
+ *
+ * Scenarios: rate-limited, upstream-error, delivery-failure, slow-delivery. More can be
+ * scripted at runtime by POSTing FakeScenario JSON (or an array of them) to /__scenarios.
+ *
+ * Control endpoints:
+ *   POST /__scenarios        Queue scenarios
+ *   POST /__inbound/message  Simulate an inbound SMS   { "from": "+1...", "body": "..." }
+ *                            (MMS: add "media": [{ "contentType": "image/png", "content": "..." }])
+ *   POST /__inbound/call     Simulate an inbound call  { "from": "+1..." }
+ *   GET  /__state            Messages, calls and webhooks sent so far
+ *   POST /__reset            Clear state and scenarios
+ *
+ * Environment:
+ *   OPENPHONE_WEBHOOK_SECRET     Key used to sign webhooks (required to send webhooks)
+ *   FAKE_OPENPHONE_PORT          Port to listen on (default: 8790)
+ *   FAKE_OPENPHONE_WEBHOOK_URL   Worker webhook URL (default: http://localhost:8787/webhooks/openphone)
+ *   FAKE_OPENPHONE_API_KEY       Require this API key on requests (default: accept any)
+ */
+
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import { config } from 'dotenv';
+import {
+  FAKE_OPENPHONE_SCENARIOS,
+  FakeOpenPhoneServer,
+  type FakeScenario,
+} from '../tests/helpers/fake-openphone';
+
+config();
+
+function parseScenario(argv: string[]): FakeScenario[] {
+  const index = argv.indexOf('--scenario');
+  if (index === -1) return [];
+
+  const name = argv[index + 1];
+  const scenarios = name ? FAKE_OPENPHONE_SCENARIOS[name] : undefined;
+  if (!scenarios) {
+    throw new Error(`Unknown scenario "${name}". Available: ${Object.keys(FAKE_OPENPHONE_SCENARIOS).join(', ')}`);
+  }
+  return scenarios;
+}
+
+async function readBody(req: IncomingMessage): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+async function control(server: FakeOpenPhoneServer, method: string, path: string, body: any): Promise<Response | null> {
+  if (method === 'POST' && path === '/__scenarios') {
+    server.script(...(Array.isArray(body) ? body : [body]));
+    return Response.json({ queued: Array.isArray(body) ? body.length : 1 });
+  }
+  if (method === 'POST' && path === '/__inbound/message') {
+    return Response.json({ data: await server.receiveMessage(body.from, body.body, body.to, body.media) });
+  }
+  if (method === 'POST' && path === '/__inbound/call') {
+    return Response.json({ data: await server.receiveCall(body.from, body.to) });
+  }
+  if (method === 'GET' && path === '/__state') {
+    return Response.json({
+      messages: [...server.messages.values()],
+      calls: [...server.calls.values()],
+      webhooks: server.webhooks,
+    });
+  }
+  if (method === 'POST' && path === '/__reset') {
+    server.reset();
+    return Response.json({ reset: true });
+  }
+  return null;
+}
+
+async function main() {
+  const port = parseInt(process.env.FAKE_OPENPHONE_PORT || '8790', 10);
+  const webhookSecret = process.env.OPENPHONE_WEBHOOK_SECRET?.split(',')[0]?.trim();
+
+  const server = new FakeOpenPhoneServer({
+    apiKey: process.env.FAKE_OPENPHONE_API_KEY,
+    webhookUrl: process.env.FAKE_OPENPHONE_WEBHOOK_URL,
+    webhookSecret,
+    origin: `http://localhost:${port}`,
+  }).script(...parseScenario(process.argv.slice(2)));
+
+  if (!webhookSecret) {
+    console.warn('⚠️  OPENPHONE_WEBHOOK_SECRET is not set; webhooks will not be sent');
+  }
+
+  createServer(async (req: IncomingMessage, res: ServerResponse) => {
+    try {
+      const url = new URL(req.url || '/', `http://localhost:${port}`);
+      const method = req.method || 'GET';
+      const text = method === 'GET' ? '' : await readBody(req);
+
+      const response =
+        (url.pathname.startsWith('/__') && (await control(server, method, url.pathname, text ? JSON.parse(text) : {}))) ||
+        (await server.fetch(
+          new Request(url, {
+            method,
+            headers: req.headers as Record<string, string>,
+            body: text || undefined,
+          })
+        ));
+
+      console.log(`${method} ${url.pathname} -> ${response.status}`);
+      res.writeHead(response.status, Object.fromEntries(response.headers));
+      res.end(Buffer.from(await response.arrayBuffer()));
+    } catch (error) {
+      console.error('Fake OpenPhone error:', error);
+      res.writeHead(500, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ message: error instanceof Error ? error.message : 'Unknown error' }));
+    }
+  }).listen(port, () => {
+    console.log(`📞 Fake OpenPhone API listening on http://localhost:${port}/v1`);
+  });
+}
+
+main().catch((error) => {
+  console.error('❌ Fake OpenPhone failed to start:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,101 @@
+#!/usr/bin/env ts-node
+/**
+ * Replay OpenPhone webhooks against a running worker
+ *
+ * Re-signs events with OPENPHONE_WEBHOOK_SECRET (same scheme as verifyOpenPhoneWebhook)
+ * and POSTs them to the webhook endpoint. Events come from JSON fixture files or from
+ * the production ledger via GET /api/v1/webhook-events/:eventId.
+ *
+ * Usage:
+ *   pnpm replay:webhook tests/fixtures/openphone/call.initiated.json
+ *   pnpm replay:webhook --event-id EVc67ec998b35c41d388af50799aeeba3e --fresh-id
+ *
+ * Environment:
+ *   OPENPHONE_WEBHOOK_SECRET  Secret used to sign the replayed request (required)
+ *   REPLAY_TARGET_URL         Webhook URL (default: http://localhost:8787/webhooks/openphone)
+ *   RECEPTION_API_URL         API to fetch ledger events from (default: https://reception.chitty.cc)
+ *   RECEPTION_API_TOKEN       Bearer token for RECEPTION_API_URL (required with --event-id)
+ */
+
+import { readFile } from 'node:fs/promises';
+import { config } from 'dotenv';
+import type { OpenPhoneWebhookEvent } from '../src/types/openphone';
+import { DEFAULT_REPLAY_URL, replayWebhookEvent, withFreshEventId } from '../src/lib/webhook-replay';
+
+config();
+
+interface ReplayOptions {
+  files: string[];
+  eventIds: string[];
+  freshId: boolean;
+}
+
+function parseArgs(argv: string[]): ReplayOptions {
+  const options: ReplayOptions = { files: [], eventIds: [], freshId: false };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--event-id') {
+      const eventId = argv[++i];
+      if (!eventId) throw new Error('--event-id requires a value');
+      options.eventIds.push(eventId);
+    } else if (arg === '--fresh-id') {
+      options.freshId = true;
+    } else {
+      options.files.push(arg);
+    }
+  }
+
+  return options;
+}
+
+async function loadFromLedger(eventId: string): Promise<OpenPhoneWebhookEvent> {
+  const apiUrl = process.env.RECEPTION_API_URL || 'https://reception.chitty.cc';
+  const token = process.env.RECEPTION_API_TOKEN;
+  if (!token) {
+    throw new Error('RECEPTION_API_TOKEN is required to load events from the ledger');
+  }
+
+  const response = await fetch(`${apiUrl}/api/v1/webhook-events/${encodeURIComponent(eventId)}`, {
+    headers: { Authorization: `Bearer ${token}` },
+  });
+  if (!response.ok) {
+    throw new Error(`Failed to load ${eventId} from ledger: ${response.status} ${await response.text()}`);
+  }
+
+  const result = await response.json() as { data: { payload: OpenPhoneWebhookEvent } };
+  return result.data.payload;
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+  // First of possibly several comma-separated secrets
+  const secret = process.env.OPENPHONE_WEBHOOK_SECRET?.split(',')[0]?.trim();
+  const target = process.env.REPLAY_TARGET_URL || DEFAULT_REPLAY_URL;
+
+  if (!secret) {
+    throw new Error('OPENPHONE_WEBHOOK_SECRET environment variable is required');
+  }
+  if (options.files.length === 0 && options.eventIds.length === 0) {
+    throw new Error('Provide at least one fixture file or --event-id');
+  }
+
+  const events: OpenPhoneWebhookEvent[] = [];
+  for (const file of options.files) {
+    events.push(JSON.parse(await readFile(file, 'utf8')));
+  }
+  for (const eventId of options.eventIds) {
+    events.push(await loadFromLedger(eventId));
+  }
+
+  for (const original of events) {
+    const event = options.freshId ? withFreshEventId(original) : original;
+    const response = await replayWebhookEvent((request) => fetch(request), event, secret, target);
+    console.log(`${event.type} ${event.id} -> ${response.status} ${await response.text()}`);
+  }
+}
+
+main().catch((error) => {
+  console.error('❌ Replay failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
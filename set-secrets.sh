@@ -47,6 +47,7 @@ SECRETS=(
   "NEON_DATABASE_URL"
   "JWT_SECRET"
   "ENCRYPTION_KEY"
+  "MEDIA_URL_SECRET"
   "CHITTY_ID_SERVICE_TOKEN"
   "CHITTY_AUTH_SERVICE_TOKEN"
   "CHITTY_CONNECT_SERVICE_TOKEN"
@@ -4,12 +4,26 @@
 import { Hono } from 'hono';
 import { cors } from 'hono/cors';
 import { logger } from 'hono/logger';
-import type { Env, HonoVariables } from '@/types/env';
+import type { BackfillQueueMessage, Env, HonoVariables, WebhookQueueMessage } from '@/types/env';
+import { handleWebhookQueue } from '@/lib/webhook-queue';
+import { handleBackfillQueue } from '@/lib/backfill';
+import { createDatabase } from '@/lib/database';
+import { purgeExpiredRecordings } from '@/lib/recordings';
 
 import api from '@/routes/api';
 import webhooks from '@/routes/webhooks';
 import mcp from '@/routes/mcp';
 import sona from '@/routes/sona';
+import webhookEvents from '@/routes/webhook-events';
+import deadLetters from '@/routes/dead-letters';
+import voicemails from '@/routes/voicemails';
+import phoneLines from '@/routes/phone-lines';
+import contacts from '@/routes/contacts';
+import backfillJobs from '@/routes/backfill-jobs';
+import media from '@/routes/media';
+import historyExports from '@/routes/exports';
+import internal from '@/routes/internal';
+import apiTokens from '@/routes/tokens';
 
 const app = new Hono<{ Bindings: Env; Variables: HonoVariables }>();
 
@@ -23,9 +37,19 @@ app.use('*', cors({
 
 // Routes
 app.route('/api/v1', api);
+app.route('/api/v1/webhook-events', webhookEvents);
+app.route('/api/v1/dead-letters', deadLetters);
+app.route('/api/v1/voicemails', voicemails);
+app.route('/api/v1/phone-lines', phoneLines);
+app.route('/api/v1/contacts', contacts);
+app.route('/api/v1/backfill-jobs', backfillJobs);
+app.route('/api/v1/media', media);
+app.route('/api/v1/exports', historyExports);
+app.route('/api/v1/tokens', apiTokens);
 app.route('/webhooks', webhooks);
 app.route('/mcp', mcp);
 app.route('/sona', sona);
+app.route('/internal/v1', internal);
 
 // Root health endpoint (required by ChittyRegister)
 app.get('/health', (c) => {
@@ -50,6 +74,20 @@ app.get('/', (c) => {
       sendMessage: 'POST /api/v1/send-message',
       makeCall: 'POST /api/v1/make-call',
       webhooks: 'POST /webhooks/openphone',
+      twilioWebhooks: 'POST /webhooks/twilio',
+      webhookEvents: 'GET /api/v1/webhook-events',
+      deadLetters: 'GET /api/v1/dead-letters',
+      voicemails: 'GET /api/v1/voicemails',
+      phoneLines: 'GET /api/v1/phone-lines',
+      contactSync: 'POST /api/v1/contacts/:identityId/sync',
+      contactTimeline: 'GET /api/v1/contacts/:phone/timeline',
+      backfillJobs: 'POST /api/v1/backfill-jobs',
+      media: 'POST /api/v1/media',
+      call: 'GET /api/v1/calls/:id',
+      callRecording: 'GET /api/v1/calls/:id/recording',
+      callExport: 'GET /api/v1/exports/calls',
+      messageExport: 'GET /api/v1/exports/messages',
+      tokens: 'POST /api/v1/tokens',
     },
     documentation: 'https://docs.chitty.cc/reception',
   });
@@ -93,4 +131,18 @@ export class CallState {
   }
 }
 
-export default app;
+export { app };
+export { RateLimiter } from '@/lib/rate-limit';
+
+export default {
+  fetch: app.fetch,
+  // One consumer entry point for both queues; backfill queues are named chittyreception-backfill*
+  queue: (batch, env) =>
+    batch.queue.startsWith('chittyreception-backfill')
+      ? handleBackfillQueue(batch as MessageBatch<BackfillQueueMessage>, env)
+      : handleWebhookQueue(batch as MessageBatch<WebhookQueueMessage>, env),
+  // Daily cron (wrangler.toml [triggers]): recording retention
+  scheduled: async (_controller, env) => {
+    await purgeExpiredRecordings(env, createDatabase(env));
+  },
+} satisfies ExportedHandler<Env, WebhookQueueMessage | BackfillQueueMessage>;
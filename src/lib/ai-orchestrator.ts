@@ -175,32 +175,40 @@ function parseAIResponse(response: any): { intent: string; message: string } {
   };
 }
 
+// Keywords that indicate an emergency maintenance situation
+export const EMERGENCY_KEYWORDS = [
+  'no heat',
+  'no ac',
+  'no air',
+  'freezing',
+  'boiling',
+  'water leak',
+  'leak',
+  'flooding',
+  'flood',
+  'gas smell',
+  'smell gas',
+  'electrical',
+  'sparks',
+  'fire',
+  'locked out',
+  'lockout',
+  'emergency',
+];
+
 /**
- * Check if message indicates emergency
+ * Find the emergency keywords present in a message
  */
-function isEmergency(message: string): boolean {
-  const emergencyKeywords = [
-    'no heat',
-    'no ac',
-    'no air',
-    'freezing',
-    'boiling',
-    'water leak',
-    'leak',
-    'flooding',
-    'flood',
-    'gas smell',
-    'smell gas',
-    'electrical',
-    'sparks',
-    'fire',
-    'locked out',
-    'lockout',
-    'emergency',
-  ];
-
+export function findEmergencyKeywords(message: string): string[] {
   const lowerMessage = message.toLowerCase();
-  return emergencyKeywords.some((keyword) => lowerMessage.includes(keyword));
+  return EMERGENCY_KEYWORDS.filter((keyword) => lowerMessage.includes(keyword));
+}
+
+/**
+ * Check if message indicates emergency
+ */
+export function isEmergency(message: string): boolean {
+  return findEmergencyKeywords(message).length > 0;
 }
 
 /**
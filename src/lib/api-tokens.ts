@@ -0,0 +1,52 @@
+// API token management
+// Minting tokens for the shared api_tokens table and the rules for the scopes and expiry they carry
+
+import { z } from 'zod';
+import { hashToken } from '@/lib/auth';
+import { isScopePattern } from '@/lib/scopes';
+import { isoDate } from '@/lib/validation';
+
+// Prefix of tokens minted here, matching the ChittyOS token format
+export const API_TOKEN_PREFIX = 'chittyos_';
+
+export const API_TOKEN_STATUSES = ['active', 'revoked'] as const;
+
+export type ApiTokenStatus = (typeof API_TOKEN_STATUSES)[number];
+
+/** An api_tokens row as returned to clients (the hash is never exposed) */
+export interface ApiToken {
+  id: string;
+  identity_id: string;
+  name: string;
+  scopes: string[];
+  status: ApiTokenStatus;
+  expires_at: string | null;
+  last_used_at: string | null;
+  created_at: string;
+}
+
+/**
+ * A new random token and the SHA-256 hash stored for it
+ * The token itself is shown to the caller once and never stored
+ */
+export async function generateApiToken(): Promise<{ token: string; tokenHash: string }> {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  const token = `${API_TOKEN_PREFIX}${[...bytes].map((byte) => byte.toString(16).padStart(2, '0')).join('')}`;
+  return { token, tokenHash: await hashToken(token) };
+}
+
+/**
+ * Scopes to grant: catalog scopes or wildcards over them, de-duplicated
+ */
+export const tokenScopes = z
+  .array(z.string().refine(isScopePattern, 'Must be a scope from the catalog or a wildcard over it'))
+  .min(1)
+  .max(50)
+  .transform((scopes) => [...new Set(scopes)]);
+
+/**
+ * An expiry in the future; null never expires
+ */
+export const tokenExpiry = isoDate
+  .refine((value) => Date.parse(value) > Date.now(), 'Must be in the future')
+  .nullable();
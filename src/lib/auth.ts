@@ -1,19 +1,29 @@
 // Authentication middleware for ChittyReception
 // Validates tokens against the shared chittyos-core database
 
-import { Context, Next } from 'hono';
+import { Context, Next, type MiddlewareHandler } from 'hono';
 import type { Env, HonoVariables, AuthContext } from '@/types/env';
-import { createDatabase, queries } from '@/lib/database';
-import { createHash } from 'node:crypto';
+import { createDatabase } from '@/lib/database';
+import { forbiddenBody, getMissingScopes, hasScope, type Scope } from '@/lib/scopes';
+import { getTokenRecord, recordTokenUse } from '@/lib/token-cache';
+import { isServiceRouteAllowed, verifyServiceRequest } from '@/lib/service-auth';
+
+/**
+ * SHA-256 hex digest of a token, as stored in api_tokens.token_hash
+ */
+export async function hashToken(token: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token));
+  return [...new Uint8Array(digest)].map((byte) => byte.toString(16).padStart(2, '0')).join('');
+}
 
 /**
  * Authentication middleware that validates Bearer tokens
  * Token validation pattern:
  * 1. Extract token from Authorization header
  * 2. Hash token with SHA-256
- * 3. Look up in api_tokens table (shared database)
+ * 3. Look up in api_tokens table (shared database), through the token cache
  * 4. Verify status='active' and not expired
- * 5. Update last_used_at timestamp
+ * 5. Update last_used_at timestamp (at most once per token per interval)
  */
 export async function authenticate(c: Context<{ Bindings: Env; Variables: HonoVariables }>, next: Next) {
   try {
@@ -48,20 +58,11 @@ export async function authenticate(c: Context<{ Bindings: Env; Variables: HonoVa
     }
 
     // Hash the token with SHA-256 (same as stored in database)
-    const tokenHash = createHash('sha256').update(token).digest('hex');
+    const tokenHash = await hashToken(token);
 
-    // Validate token against database
+    // Validate token against the cache, falling back to the database
     const db = createDatabase(c.env);
-    const { sql, params } = queries.validateToken(tokenHash);
-    const tokenRecord = await db.queryOne<{
-      id: string;
-      identity_id: string;
-      identity_did: string;
-      name: string;
-      scopes: string[];
-      status: string;
-      expires_at: string | null;
-    }>(sql, params);
+    const tokenRecord = await getTokenRecord(c.env, db, tokenHash);
 
     if (!tokenRecord) {
       return c.json(
@@ -76,14 +77,14 @@ export async function authenticate(c: Context<{ Bindings: Env; Variables: HonoVa
       );
     }
 
-    // Update last_used_at timestamp (fire and forget)
-    const updateQuery = queries.updateTokenLastUsed(tokenHash);
-    db.execute(updateQuery.sql, updateQuery.params).catch((err) => {
+    // Update last_used_at timestamp (fire and forget, batched per interval)
+    recordTokenUse(c.env, db, tokenHash).catch((err) => {
       console.error('Failed to update token last_used_at:', err);
     });
 
     // Store auth context for downstream handlers
     c.set('auth', {
+      tokenId: tokenRecord.id,
       identityId: tokenRecord.identity_id,
       identityDid: tokenRecord.identity_did,
       tokenScopes: tokenRecord.scopes,
@@ -125,10 +126,13 @@ export async function optionalAuthenticate(c: Context<{ Bindings: Env; Variables
 
 /**
  * Scope checking middleware
- * Verifies the authenticated user has required scope
+ * Verifies the authenticated token has every required scope (wildcards allowed, see
+ * src/lib/scopes.ts); answers 403 with the scopes that are missing
  */
-export function requireScope(scope: string) {
-  return async (c: Context<{ Bindings: Env; Variables: HonoVariables }>, next: Next) => {
+export function requireScope<P extends string = string>(
+  ...scopes: Scope[]
+): MiddlewareHandler<{ Bindings: Env; Variables: HonoVariables }, P> {
+  return async (c, next) => {
     const auth = c.get('auth');
 
     if (!auth) {
@@ -144,18 +148,9 @@ export function requireScope(scope: string) {
       );
     }
 
-    if (!auth.tokenScopes.includes(scope)) {
-      return c.json(
-        {
-          success: false,
-          error: {
-            code: 'FORBIDDEN',
-            message: `Missing required scope: ${scope}`,
-            details: `Your token has scopes: ${auth.tokenScopes.join(', ')}`,
-          },
-        },
-        403
-      );
+    const missingScopes = getMissingScopes(auth.tokenScopes, scopes);
+    if (missingScopes.length > 0) {
+      return c.json(forbiddenBody(missingScopes), 403);
     }
 
     await next();
@@ -163,46 +158,61 @@ export function requireScope(scope: string) {
 }
 
 /**
- * Service-to-service authentication
- * Validates that the request comes from another ChittyOS service
+ * The identity whose calls, messages and recordings a token may read, or null for every
+ * identity (reception:admin)
+ */
+export function getReadableIdentity(auth: { identityId: string; tokenScopes: readonly string[] }): string | null {
+  return hasScope(auth.tokenScopes, 'reception:admin') ? null : auth.identityId;
+}
+
+/**
+ * Service-to-service authentication for /internal/v1
+ * Accepts HMAC-signed requests or short-lived service JWTs (see src/lib/service-auth.ts),
+ * then checks the calling service is registered for the route
  */
 export async function authenticateService(c: Context<{ Bindings: Env; Variables: HonoVariables }>, next: Next) {
   try {
-    const authHeader = c.req.header('Authorization');
-    const serviceName = c.req.header('X-Service-Name');
+    const url = new URL(c.req.url);
+    const result = await verifyServiceRequest(c.env, {
+      method: c.req.method,
+      pathAndQuery: `${url.pathname}${url.search}`,
+      body: await c.req.text(),
+      headers: {
+        authorization: c.req.header('Authorization'),
+        serviceName: c.req.header('X-Service-Name'),
+        timestamp: c.req.header('X-Service-Timestamp'),
+        signature: c.req.header('X-Service-Signature'),
+      },
+    });
 
-    if (!authHeader || !serviceName) {
+    if (!result.valid) {
       return c.json(
         {
           success: false,
           error: {
             code: 'UNAUTHORIZED',
             message: 'Service authentication required',
-            details: 'Missing Authorization header or X-Service-Name',
+            details: result.reason,
           },
         },
         401
       );
     }
 
-    const token = authHeader.substring(7);
-
-    // Verify service token matches expected token for the service
-    const expectedToken = getServiceToken(c.env, serviceName);
-    if (token !== expectedToken) {
+    if (!isServiceRouteAllowed(result.registration, c.req.method, url.pathname)) {
       return c.json(
         {
           success: false,
           error: {
-            code: 'UNAUTHORIZED',
-            message: 'Invalid service token',
+            code: 'FORBIDDEN',
+            message: `Service ${result.serviceName} may not call ${c.req.method} ${url.pathname}`,
           },
         },
-        401
+        403
       );
     }
 
-    c.set('serviceName', serviceName);
+    c.set('serviceName', result.serviceName);
     await next();
   } catch (error) {
     console.error('Service authentication error:', error);
@@ -218,17 +228,3 @@ export async function authenticateService(c: Context<{ Bindings: Env; Variables:
     );
   }
 }
-
-/**
- * Get the expected service token for a given service name
- */
-function getServiceToken(env: Env, serviceName: string): string | null {
-  const serviceTokenMap: Record<string, keyof Env> = {
-    'ChittyID': 'CHITTY_ID_SERVICE_TOKEN',
-    'ChittyAuth': 'CHITTY_AUTH_SERVICE_TOKEN',
-    'ChittyConnect': 'CHITTY_CONNECT_SERVICE_TOKEN',
-  };
-
-  const tokenKey = serviceTokenMap[serviceName];
-  return tokenKey ? env[tokenKey] as string : null;
-}
@@ -0,0 +1,18 @@
+import { describe, it, expect } from 'vitest';
+import { isAutomatedSender, parseOptKeyword } from './auto-reply';
+
+describe('auto-reply policy', () => {
+  it('recognises opt-out and opt-in keywords only when sent on their own', () => {
+    expect(parseOptKeyword('STOP')).toEqual({ action: 'opt_out', keyword: 'STOP' });
+    expect(parseOptKeyword('  unsubscribe. ')).toEqual({ action: 'opt_out', keyword: 'UNSUBSCRIBE' });
+    expect(parseOptKeyword('Start')).toEqual({ action: 'opt_in', keyword: 'START' });
+    expect(parseOptKeyword('Please stop by the unit at 3pm')).toBeNull();
+  });
+
+  it('treats short codes, sender IDs and self-declared automated bodies as automated', () => {
+    expect(isAutomatedSender('72975', 'Your code is 123456')).toBe(true);
+    expect(isAutomatedSender('AIRBNB', 'New reservation')).toBe(true);
+    expect(isAutomatedSender('+13125550147', 'This is an automated message, do not reply.')).toBe(true);
+    expect(isAutomatedSender('+13125550147', 'Is the River North unit free in April?')).toBe(false);
+  });
+});
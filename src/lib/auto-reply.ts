@@ -0,0 +1,183 @@
+// SMS auto-reply
+// Decides whether an AI suggested response may be sent to an inbound SMS, sends it
+// from the line the message arrived on, and tracks STOP/START opt-outs
+
+import type { Env } from '@/types/env';
+import type { Database } from '@/lib/database';
+import { queries } from '@/lib/database';
+import { getTelephonyProvider, isTelephonyProviderName } from '@/lib/telephony';
+import businessRules from '../../config/business-rules.json';
+
+export const OPT_OUT_KEYWORDS = ['STOP', 'STOPALL', 'UNSUBSCRIBE', 'CANCEL', 'END', 'QUIT'];
+export const OPT_IN_KEYWORDS = ['START', 'UNSTOP'];
+
+export type AutoReplySkipReason =
+  | 'line_disabled'
+  | 'opted_out'
+  | 'automated_sender'
+  | 'already_replied'
+  | 'rate_limited'
+  | 'send_failed';
+
+export interface AutoReplyRequest {
+  inboundMessageId: string;
+  inboundBody: string;
+  lineNumber: string; // our number the message was received on
+  contactNumber: string; // the sender, who receives the reply
+  identityId: string;
+  sessionId: string | null;
+  content: string;
+}
+
+export interface AutoReplyResult {
+  sent: boolean;
+  reason?: AutoReplySkipReason;
+  messageId?: string;
+}
+
+interface RateWindow {
+  count: number;
+  windowStart: number; // ms since epoch
+}
+
+// Phrases that mark a message as machine-generated; replying to these risks reply loops
+const AUTOMATED_BODY_PATTERN =
+  /\b(do not reply|don't reply|no-?reply|automated message|auto-?reply|out of office|this is an automated)\b/i;
+
+/**
+ * Match a message body against the carrier opt-out/opt-in keywords
+ * Only a body consisting of the keyword alone counts
+ */
+export function parseOptKeyword(body: string): { action: 'opt_out' | 'opt_in'; keyword: string } | null {
+  const keyword = body.trim().replace(/[.!]+$/, '').toUpperCase();
+  if (OPT_OUT_KEYWORDS.includes(keyword)) return { action: 'opt_out', keyword };
+  if (OPT_IN_KEYWORDS.includes(keyword)) return { action: 'opt_in', keyword };
+  return null;
+}
+
+/**
+ * Whether a sender looks automated: short codes, alphanumeric sender IDs,
+ * or bodies announcing themselves as automated
+ */
+export function isAutomatedSender(phoneNumber: string, body: string): boolean {
+  if (!/^\+\d{10,15}$/.test(phoneNumber)) return true;
+  return AUTOMATED_BODY_PATTERN.test(body);
+}
+
+/**
+ * Record a STOP (or START) from a contact to one of our lines
+ * Both apply to that line only. Returns the keyword action when the body was an opt keyword
+ */
+export async function applyOptKeyword(
+  db: Database,
+  contactNumber: string,
+  lineNumber: string,
+  body: string
+): Promise<'opt_out' | 'opt_in' | null> {
+  const match = parseOptKeyword(body);
+  if (!match) return null;
+
+  const query =
+    match.action === 'opt_out'
+      ? queries.createOptOut(contactNumber, match.keyword, lineNumber)
+      : queries.deleteOptOut(contactNumber, lineNumber);
+  await db.execute(query.sql, query.params);
+
+  return match.action;
+}
+
+/**
+ * Send the suggested response if the line, the contact and the rate limit allow it
+ */
+export async function sendAutoReply(env: Env, db: Database, request: AutoReplyRequest): Promise<AutoReplyResult> {
+  const { lineNumber, contactNumber } = request;
+
+  // Step 1: The receiving line must have auto-reply switched on
+  const lineQuery = queries.getPhoneLine(lineNumber);
+  const line = await db.queryOne<{ auto_reply_enabled: boolean; provider: string }>(lineQuery.sql, lineQuery.params);
+  if (!line?.auto_reply_enabled) {
+    return { sent: false, reason: 'line_disabled' };
+  }
+
+  // Step 2: Never reply to numbers that opted out of this line
+  const optOutQuery = queries.getOptOut(contactNumber, lineNumber);
+  if (await db.queryOne(optOutQuery.sql, optOutQuery.params)) {
+    return { sent: false, reason: 'opted_out' };
+  }
+
+  // Step 3: Never reply to automated senders, including our own lines
+  const senderLineQuery = queries.getPhoneLine(contactNumber);
+  if (
+    isAutomatedSender(contactNumber, request.inboundBody) ||
+    (await db.queryOne(senderLineQuery.sql, senderLineQuery.params))
+  ) {
+    return { sent: false, reason: 'automated_sender' };
+  }
+
+  // Step 4: One reply per inbound message, and a capped number per conversation window
+  const repliedKey = `auto-reply:sent:${request.inboundMessageId}`;
+  if (await env.RECEPTION_KV.get(repliedKey)) {
+    return { sent: false, reason: 'already_replied' };
+  }
+
+  const { max_per_conversation: maxReplies, window_minutes: windowMinutes } = businessRules.reception.auto_reply;
+  const windowMs = windowMinutes * 60 * 1000;
+  const rateKey = `auto-reply:rate:${lineNumber}:${contactNumber}`;
+  const now = Date.now();
+  const stored = await env.RECEPTION_KV.get<RateWindow>(rateKey, 'json');
+  const window = stored && now - stored.windowStart < windowMs ? stored : { count: 0, windowStart: now };
+
+  if (window.count >= maxReplies) {
+    return { sent: false, reason: 'rate_limited' };
+  }
+
+  // Step 5: Send from the line the message arrived on, through the provider serving it
+  let result;
+  try {
+    const provider = getTelephonyProvider(env, isTelephonyProviderName(line.provider) ? line.provider : 'openphone');
+    result = await provider.sendMessage({
+      from: lineNumber,
+      to: [contactNumber],
+      content: request.content,
+    });
+  } catch (error) {
+    console.error('Auto-reply send failed:', error);
+    return { sent: false, reason: 'send_failed' };
+  }
+
+  const ttlSeconds = Math.ceil((window.windowStart + windowMs - now) / 1000);
+  await env.RECEPTION_KV.put(rateKey, JSON.stringify({ ...window, count: window.count + 1 }), {
+    expirationTtl: Math.max(ttlSeconds, 60),
+  });
+  await env.RECEPTION_KV.put(repliedKey, result.id, { expirationTtl: 86400 });
+
+  // Step 6: Record the reply as an outbound message in the conversation's session
+  const messageQuery = queries.createMessageRecord(
+    request.identityId,
+    result.id,
+    'outbound',
+    lineNumber,
+    contactNumber,
+    request.content,
+    {
+      autoReply: true,
+      inReplyTo: request.inboundMessageId,
+      result,
+    },
+    result.status,
+    request.sessionId
+  );
+  await db.execute(messageQuery.sql, messageQuery.params);
+
+  if (request.sessionId) {
+    const sessionQuery = queries.appendMessageToSession(request.sessionId, {
+      messageId: result.id,
+      direction: 'outbound',
+      autoReply: true,
+      at: new Date().toISOString(),
+    });
+    await db.execute(sessionQuery.sql, sessionQuery.params);
+  }
+
+  return { sent: true, messageId: result.id };
+}
@@ -0,0 +1,307 @@
+// OpenPhone history backfill
+// Imports a line's call and message history into reception_calls/reception_messages,
+// one conversation at a time, checkpointing after each so a job can resume after interruption
+
+import type { BackfillQueueMessage, Env } from '@/types/env';
+import type { CallObject, ConversationObject, MessageObject } from '@/types/openphone';
+import type { Database } from '@/lib/database';
+import { createDatabase, queries } from '@/lib/database';
+import { ChittyIDClient } from '@/lib/chittyos-integration';
+import { OpenPhoneApiError, OpenPhoneClient, createOpenPhoneClient } from '@/lib/openphone';
+import { getRetryDelaySeconds } from '@/lib/webhook-queue';
+
+// Conversations imported per run of the queue consumer, and per conversations page
+export const BACKFILL_SLICE_CONVERSATIONS = 25;
+const CONVERSATIONS_PAGE_SIZE = 50;
+const HISTORY_PAGE_SIZE = 100;
+const MAX_QUEUE_ATTEMPTS = 5;
+
+export const BACKFILL_JOB_STATUSES = ['pending', 'running', 'completed', 'failed', 'cancelled'] as const;
+
+export type BackfillJobStatus = (typeof BACKFILL_JOB_STATUSES)[number];
+
+export interface BackfillCheckpoint {
+  pageToken?: string | null; // conversations page holding the next conversation
+  offset?: number; // conversations already imported from that page
+}
+
+export interface BackfillStats {
+  conversations: number;
+  calls: number; // new rows
+  messages: number; // new rows
+  existing: number; // already recorded by webhooks or an earlier run
+  skipped: number; // no identity could be resolved
+}
+
+export interface BackfillJob {
+  id: string;
+  phone_number: string;
+  phone_number_id: string | null;
+  status: BackfillJobStatus;
+  since: string | Date | null;
+  checkpoint: BackfillCheckpoint;
+  stats: Partial<BackfillStats>;
+  last_error: string | null;
+}
+
+export interface BackfillSliceResult {
+  jobId: string;
+  status: BackfillJobStatus;
+  done: boolean; // no further slices are needed (completed, cancelled or not runnable)
+  stats: BackfillStats;
+}
+
+interface SliceContext {
+  env: Env;
+  db: Database;
+  client: OpenPhoneClient;
+  job: BackfillJob;
+  lineId: string;
+  stats: BackfillStats;
+  identities: Map<string, string | null>; // phone number -> identity id
+}
+
+function emptyStats(stats: Partial<BackfillStats> = {}): BackfillStats {
+  return { conversations: 0, calls: 0, messages: 0, existing: 0, skipped: 0, ...stats };
+}
+
+/**
+ * Run one slice of a backfill job: up to `maxConversations` conversations from the checkpoint
+ * Marks the job failed (and rethrows) when OpenPhone or the database errors
+ */
+export async function runBackfillSlice(
+  env: Env,
+  db: Database,
+  jobId: string,
+  options: { maxConversations?: number; client?: OpenPhoneClient } = {}
+): Promise<BackfillSliceResult> {
+  const maxConversations = options.maxConversations ?? BACKFILL_SLICE_CONVERSATIONS;
+  const client = options.client ?? createOpenPhoneClient(env);
+
+  // Step 1: Claim the job; completed and cancelled jobs are left alone
+  const startQuery = queries.startBackfillJob(jobId);
+  const job = await db.queryOne<BackfillJob>(startQuery.sql, startQuery.params);
+  if (!job) {
+    const currentQuery = queries.getBackfillJob(jobId);
+    const current = await db.queryOne<BackfillJob>(currentQuery.sql, currentQuery.params);
+    return { jobId, status: current?.status ?? 'cancelled', done: true, stats: emptyStats(current?.stats) };
+  }
+
+  const stats = emptyStats(job.stats);
+  try {
+    // Step 2: Resolve the OpenPhone phone number ID of the line
+    const lineId = job.phone_number_id || (await findLineId(client, job.phone_number));
+    const context: SliceContext = { env, db, client, job, lineId, stats, identities: new Map() };
+
+    // Step 3: Import conversations from the checkpoint, saving progress after each
+    let { pageToken = null, offset = 0 } = job.checkpoint || {};
+    let imported = 0;
+
+    while (imported < maxConversations) {
+      const page = await client.getConversationsPage(
+        {
+          phoneNumbers: [lineId],
+          updatedAfter: sinceIso(job),
+          maxResults: CONVERSATIONS_PAGE_SIZE,
+        },
+        pageToken
+      );
+
+      while (offset < page.data.length && imported < maxConversations) {
+        await importConversation(context, page.data[offset]);
+        offset++;
+        imported++;
+        stats.conversations++;
+
+        if (!(await saveProgress(context, { pageToken, offset }))) {
+          return { jobId, status: 'cancelled', done: true, stats };
+        }
+      }
+
+      if (offset < page.data.length) break;
+
+      pageToken = page.nextPageToken;
+      offset = 0;
+      if (!(await saveProgress(context, { pageToken, offset }))) {
+        return { jobId, status: 'cancelled', done: true, stats };
+      }
+
+      // Step 4: No pages left - the line's history is imported
+      if (!pageToken) {
+        const completeQuery = queries.completeBackfillJob(jobId);
+        await db.execute(completeQuery.sql, completeQuery.params);
+        return { jobId, status: 'completed', done: true, stats };
+      }
+    }
+
+    return { jobId, status: 'running', done: false, stats };
+  } catch (error) {
+    const failQuery = queries.failBackfillJob(jobId, error instanceof Error ? error.message : String(error));
+    await db.execute(failQuery.sql, failQuery.params).catch((err) => {
+      console.error('Failed to record backfill failure:', err);
+    });
+    throw error;
+  }
+}
+
+function sinceIso(job: BackfillJob): string | undefined {
+  return job.since ? new Date(job.since).toISOString() : undefined;
+}
+
+async function findLineId(client: OpenPhoneClient, phoneNumber: string): Promise<string> {
+  const numbers = await client.getPhoneNumbers();
+  const line = numbers.data.find((number) => number.number === phoneNumber);
+  if (!line) {
+    throw new Error(`${phoneNumber} is not an OpenPhone number on this account`);
+  }
+  return line.id;
+}
+
+async function saveProgress(context: SliceContext, checkpoint: BackfillCheckpoint): Promise<boolean> {
+  const query = queries.saveBackfillProgress(context.job.id, context.lineId, checkpoint, context.stats);
+  return (await context.db.queryOne(query.sql, query.params)) !== null;
+}
+
+/**
+ * Import the calls and messages of one conversation
+ * Re-importing is harmless, so a conversation interrupted halfway is simply imported again
+ */
+async function importConversation(context: SliceContext, conversation: ConversationObject): Promise<void> {
+  const { client, job, lineId } = context;
+
+  for (const participant of conversation.participants) {
+    const params = {
+      phoneNumberId: lineId,
+      participants: [participant],
+      createdAfter: sinceIso(job),
+      maxResults: HISTORY_PAGE_SIZE,
+    };
+
+    for await (const call of client.listCalls(params)) {
+      await importCall(context, call, participant);
+    }
+    for await (const message of client.listMessages(params)) {
+      await importMessage(context, message, participant);
+    }
+  }
+}
+
+async function importCall(context: SliceContext, call: CallObject, participant: string): Promise<void> {
+  const identityId = await resolveIdentityId(context, participant);
+  if (!identityId) {
+    context.stats.skipped++;
+    return;
+  }
+
+  const query = queries.upsertBackfilledCall({
+    identityId,
+    callId: call.id,
+    direction: call.direction === 'incoming' ? 'inbound' : 'outbound',
+    from: call.from.phoneNumber,
+    to: call.to[0]?.phoneNumber || context.job.phone_number,
+    status: call.status,
+    durationSeconds: call.duration ?? null,
+    recordingUrl: call.recording?.url ?? null,
+    startedAt: call.createdAt,
+    answeredAt: call.answeredAt ?? null,
+    endedAt: call.completedAt ?? null,
+    metadata: { backfillJobId: context.job.id, phoneNumberId: call.phoneNumberId, userId: call.userId },
+  });
+  const row = await context.db.queryOne<{ inserted: boolean }>(query.sql, query.params);
+  if (row?.inserted) context.stats.calls++;
+  else context.stats.existing++;
+}
+
+async function importMessage(context: SliceContext, message: MessageObject, participant: string): Promise<void> {
+  const identityId = await resolveIdentityId(context, participant);
+  if (!identityId) {
+    context.stats.skipped++;
+    return;
+  }
+
+  const direction = message.direction === 'incoming' ? 'inbound' : 'outbound';
+  const query = queries.upsertBackfilledMessage({
+    identityId,
+    messageId: message.id,
+    direction,
+    from: message.from.phoneNumber,
+    to: message.to.map((recipient) => recipient.phoneNumber).join(','),
+    body: message.body,
+    status: message.status ?? (direction === 'inbound' ? 'received' : 'sent'),
+    createdAt: message.createdAt,
+    metadata: { backfillJobId: context.job.id, phoneNumberId: message.phoneNumberId },
+  });
+  const row = await context.db.queryOne<{ inserted: boolean }>(query.sql, query.params);
+  if (row?.inserted) context.stats.messages++;
+  else context.stats.existing++;
+}
+
+/**
+ * Identity for a contact number: our identity_phones first, then ChittyID, minting as a last resort
+ */
+async function resolveIdentityId(context: SliceContext, phoneNumber: string): Promise<string | null> {
+  if (context.identities.has(phoneNumber)) {
+    return context.identities.get(phoneNumber)!;
+  }
+
+  let identityId: string | null = null;
+
+  const identityQuery = queries.findIdentityByPhone(phoneNumber);
+  const local = await context.db.queryOne<{ id: string }>(identityQuery.sql, identityQuery.params);
+  if (local) {
+    identityId = local.id;
+  } else {
+    const chittyId = new ChittyIDClient(context.env);
+    const resolved = await chittyId.resolveIdentityByPhone(phoneNumber);
+    if (resolved.success && resolved.data) {
+      identityId = resolved.data.identityId;
+    } else {
+      const minted = await chittyId.mintIdentity('PERSON', {
+        phoneNumber,
+        source: 'openphone_backfill',
+        firstContactDate: new Date().toISOString(),
+      });
+      identityId = minted.success && minted.data ? minted.data.id : null;
+    }
+  }
+
+  context.identities.set(phoneNumber, identityId);
+  return identityId;
+}
+
+/**
+ * Backfill queue consumer (wired up in src/index.ts)
+ * Each delivery runs one slice and re-enqueues the job until it is done
+ */
+export async function handleBackfillQueue(batch: MessageBatch<BackfillQueueMessage>, env: Env): Promise<void> {
+  const db = createDatabase(env);
+
+  for (const message of batch.messages) {
+    const { jobId } = message.body;
+
+    try {
+      const result = await runBackfillSlice(env, db, jobId);
+      console.log('Backfill slice finished:', result);
+
+      if (!result.done) {
+        await env.BACKFILL_QUEUE.send({ jobId });
+      }
+      message.ack();
+    } catch (error) {
+      console.error('Backfill slice failed:', {
+        jobId,
+        attempt: message.attempts,
+        error: error instanceof Error ? error.message : error,
+      });
+
+      // The job stays failed once retries run out; POST /api/v1/backfill-jobs/:id/resume restarts it
+      if (message.attempts >= MAX_QUEUE_ATTEMPTS) {
+        message.ack();
+        continue;
+      }
+
+      const retryAfter = error instanceof OpenPhoneApiError ? error.retryAfterSeconds ?? 0 : 0;
+      message.retry({ delaySeconds: Math.max(getRetryDelaySeconds(message.attempts), retryAfter) });
+    }
+  }
+}
@@ -0,0 +1,108 @@
+// AI call summaries
+// Generates a short summary and action items for completed calls with Workers AI
+
+import type { Env } from '@/types/env';
+import type { CallObject } from '@/types/openphone';
+
+export interface CallSummaryInput {
+  call: CallObject;
+  callerName?: string;
+  transcript?: string | null;
+  routingAnalysis?: string;
+}
+
+export interface CallSummary {
+  summary: string;
+  actionItems: string[];
+  generatedBy: 'workers-ai' | 'fallback';
+}
+
+/**
+ * Summarize a completed call
+ * Falls back to a metadata-only summary when Workers AI is unavailable or returns unusable output
+ */
+export async function generateCallSummary(input: CallSummaryInput, env: Env): Promise<CallSummary> {
+  const fallback = buildFallbackSummary(input);
+
+  try {
+    // @ts-ignore - Model name is valid but may not be in type definitions
+    const aiResponse = await env.AI.run('@cf/meta/llama-3.1-8b-instruct', {
+      messages: [
+        { role: 'system', content: SUMMARY_PROMPT },
+        { role: 'user', content: describeCall(input) },
+      ],
+      max_tokens: 400,
+    });
+
+    const parsed = parseSummaryResponse(aiResponse);
+    return parsed ? { ...parsed, generatedBy: 'workers-ai' } : fallback;
+  } catch (error) {
+    console.error('Call summary generation failed:', error);
+    return fallback;
+  }
+}
+
+const SUMMARY_PROMPT = `You summarize phone calls for the front desk team at Chicago Furnished Condos.
+
+Given call details (and a transcript when available), respond with JSON only:
+{"summary": "<2-3 sentences: who called, why, and the outcome>", "actionItems": ["<follow-up task>", ...]}
+
+Action items must be concrete follow-ups for staff (e.g. "Call back to confirm April 1 move-in").
+Use an empty array when nothing needs to be done. Never invent details that are not in the input.`;
+
+function describeCall(input: CallSummaryInput): string {
+  const { call } = input;
+  const lines = [
+    `Direction: ${call.direction}`,
+    `Status: ${call.status}`,
+    `From: ${input.callerName ? `${input.callerName} ` : ''}${call.from.phoneNumber}`,
+    `To: ${call.to.map((to) => to.phoneNumber).join(', ')}`,
+    `Duration: ${call.duration ?? 0} seconds`,
+  ];
+
+  if (input.routingAnalysis) {
+    lines.push(`Routing analysis: ${input.routingAnalysis}`);
+  }
+
+  lines.push(input.transcript ? `Transcript:\n${input.transcript}` : 'Transcript: not available');
+  return lines.join('\n');
+}
+
+/**
+ * Extract the JSON object from the model output
+ */
+export function parseSummaryResponse(response: any): Omit<CallSummary, 'generatedBy'> | null {
+  const content: string = response?.response || '';
+  const match = content.match(/\{[\s\S]*\}/);
+  if (!match) return null;
+
+  try {
+    const parsed = JSON.parse(match[0]);
+    if (typeof parsed.summary !== 'string' || !parsed.summary.trim()) return null;
+
+    const actionItems = Array.isArray(parsed.actionItems)
+      ? parsed.actionItems.filter((item: unknown): item is string => typeof item === 'string' && item.trim() !== '')
+      : [];
+
+    return { summary: parsed.summary.trim(), actionItems };
+  } catch {
+    return null;
+  }
+}
+
+function buildFallbackSummary(input: CallSummaryInput): CallSummary {
+  const { call } = input;
+  const counterparty = call.direction === 'incoming' ? call.from.phoneNumber : call.to[0]?.phoneNumber;
+  const minutes = Math.round((call.duration ?? 0) / 60);
+  const actionItems: string[] = [];
+
+  if (call.direction === 'incoming' && call.status !== 'completed') {
+    actionItems.push(`Return missed call from ${counterparty}`);
+  }
+
+  return {
+    summary: `${call.direction === 'incoming' ? 'Inbound' : 'Outbound'} call with ${counterparty} ended with status "${call.status}" after ${minutes} minute(s).`,
+    actionItems,
+    generatedBy: 'fallback',
+  };
+}
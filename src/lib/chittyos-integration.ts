@@ -255,6 +255,8 @@ export class ChittyChronicleClient {
 
   /**
    * Log an event to ChittyChronicle
+   * Best-effort: failures are logged, never thrown. The request is awaited so a Worker does not
+   * drop it once its response is sent
    */
   async logEvent(event: {
     service: string;
@@ -266,8 +268,7 @@ export class ChittyChronicleClient {
     severity?: 'info' | 'warning' | 'error' | 'critical';
   }): Promise<void> {
     try {
-      // Fire and forget - don't block on audit logging
-      fetch(`${CHITTYCHRONICLE_SERVICE}/api/v1/events`, {
+      await fetch(`${CHITTYCHRONICLE_SERVICE}/api/v1/events`, {
         method: 'POST',
         headers: {
           'Authorization': `Bearer ${this.env.CHITTY_CONNECT_SERVICE_TOKEN}`,
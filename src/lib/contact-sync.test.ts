@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import type { ContactObject } from '@/types/openphone';
+import { CONTACT_SOURCE, contactNeedsUpdate, identityToContact } from './contact-sync';
+
+const IDENTITY = {
+  id: 'identity-1',
+  did: 'did:chitty:person:7f3a',
+  metadata: { name: 'Dana Whitfield Ross', email: 'dana@example.com', company: 'Lakeview Rentals' },
+  phone_numbers: ['+13125550147', '+17735550199'],
+};
+
+function existingContact(overrides: Partial<ContactObject['defaultFields']> = {}): ContactObject {
+  return {
+    id: 'CT1',
+    externalId: IDENTITY.did,
+    source: CONTACT_SOURCE,
+    defaultFields: {
+      firstName: 'Dana',
+      lastName: 'Whitfield Ross',
+      company: 'Lakeview Rentals',
+      role: null,
+      emails: [{ id: 'e1', name: 'work', value: 'dana@example.com' }],
+      phoneNumbers: [
+        { id: 'p2', name: 'other', value: '+17735550199' },
+        { id: 'p1', name: 'primary', value: '+13125550147' },
+      ],
+      ...overrides,
+    },
+    createdAt: '2025-03-01T10:00:00.000Z',
+    updatedAt: '2025-03-01T10:00:00.000Z',
+  };
+}
+
+describe('contact sync mapping', () => {
+  it('maps identity metadata and phones to contact fields', () => {
+    expect(identityToContact(IDENTITY)).toEqual({
+      externalId: 'did:chitty:person:7f3a',
+      source: CONTACT_SOURCE,
+      defaultFields: {
+        firstName: 'Dana',
+        lastName: 'Whitfield Ross',
+        company: 'Lakeview Rentals',
+        role: null,
+        emails: [{ name: 'email', value: 'dana@example.com' }],
+        phoneNumbers: [
+          { name: 'primary', value: '+13125550147' },
+          { name: 'other', value: '+17735550199' },
+        ],
+      },
+    });
+  });
+
+  it('names identities minted for unknown callers after their number', () => {
+    const contact = identityToContact({
+      id: 'identity-2',
+      did: 'did:chitty:person:9b21',
+      metadata: { phoneNumber: '+13125550123', source: 'openphone_call' },
+      phone_numbers: [],
+    });
+
+    expect(contact.defaultFields).toMatchObject({
+      firstName: '+13125550123',
+      lastName: null,
+      phoneNumbers: [{ name: 'primary', value: '+13125550123' }],
+    });
+  });
+
+  it('ignores labels and ordering when comparing contacts', () => {
+    const desired = identityToContact(IDENTITY);
+
+    expect(contactNeedsUpdate(existingContact(), desired)).toBe(false);
+    expect(contactNeedsUpdate(existingContact({ company: 'Old Co' }), desired)).toBe(true);
+    expect(contactNeedsUpdate(existingContact({ phoneNumbers: [] }), desired)).toBe(true);
+  });
+});
@@ -0,0 +1,106 @@
+// OpenPhone contact sync
+// Pushes ChittyID identities to OpenPhone as contacts, matched by externalId (the identity DID)
+
+import type { Env } from '@/types/env';
+import type { ContactDefaultFields, ContactInput, ContactObject } from '@/types/openphone';
+import type { Database } from '@/lib/database';
+import { queries } from '@/lib/database';
+import { OpenPhoneClient, createOpenPhoneClient } from '@/lib/openphone';
+
+// Marks contacts created by reception in OpenPhone
+export const CONTACT_SOURCE = 'chittyreception';
+
+export interface IdentityContactRow {
+  id: string;
+  did: string;
+  metadata: Record<string, any> | null;
+  phone_numbers: string[];
+}
+
+export interface ContactSyncResult {
+  action: 'created' | 'updated' | 'unchanged';
+  contactId: string;
+  externalId: string;
+}
+
+function text(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() ? value.trim() : null;
+}
+
+/**
+ * Build the OpenPhone contact for an identity
+ * Names come from identity metadata (firstName/lastName or name); identities minted
+ * for unknown callers only have a phone number, which then stands in as the first name
+ */
+export function identityToContact(identity: IdentityContactRow): ContactInput {
+  const metadata = identity.metadata || {};
+  const [first, ...rest] = (text(metadata.name) || '').split(/\s+/);
+  const phoneNumbers = identity.phone_numbers.length > 0 ? identity.phone_numbers : [text(metadata.phoneNumber)].filter(Boolean) as string[];
+  const email = text(metadata.email);
+
+  return {
+    externalId: identity.did,
+    source: CONTACT_SOURCE,
+    defaultFields: {
+      firstName: text(metadata.firstName) || first || phoneNumbers[0] || identity.did,
+      lastName: text(metadata.lastName) || text(rest.join(' ')),
+      company: text(metadata.company),
+      role: text(metadata.role),
+      emails: email ? [{ name: 'email', value: email }] : [],
+      phoneNumbers: phoneNumbers.map((value, index) => ({ name: index === 0 ? 'primary' : 'other', value })),
+    },
+  };
+}
+
+/**
+ * Whether an existing contact differs from the desired default fields
+ * Compares values only; OpenPhone assigns its own ids and may reorder labels
+ */
+export function contactNeedsUpdate(existing: ContactObject, desired: ContactInput): boolean {
+  const fields = desired.defaultFields;
+  const scalar: (keyof ContactDefaultFields)[] = ['firstName', 'lastName', 'company', 'role'];
+  if (scalar.some((key) => (existing.defaultFields[key] ?? null) !== (fields[key] ?? null))) {
+    return true;
+  }
+
+  const values = (list: { value: string }[] | undefined) => (list || []).map((item) => item.value).sort().join('|');
+  return (
+    values(existing.defaultFields.emails) !== values(fields.emails) ||
+    values(existing.defaultFields.phoneNumbers) !== values(fields.phoneNumbers)
+  );
+}
+
+/**
+ * Create or update the OpenPhone contact for an identity
+ * Returns null when the identity does not exist
+ */
+export async function syncIdentityContact(
+  env: Env,
+  db: Database,
+  identityId: string,
+  client: OpenPhoneClient = createOpenPhoneClient(env)
+): Promise<ContactSyncResult | null> {
+  const identityQuery = queries.getIdentityContact(identityId);
+  const identity = await db.queryOne<IdentityContactRow>(identityQuery.sql, identityQuery.params);
+  if (!identity) return null;
+
+  const desired = identityToContact(identity);
+
+  let existing: ContactObject | null = null;
+  for await (const contact of client.listContacts({ externalIds: [identity.did], maxResults: 1 })) {
+    existing = contact;
+    break;
+  }
+
+  if (!existing) {
+    const created = await client.createContact(desired);
+    return { action: 'created', contactId: created.id, externalId: identity.did };
+  }
+
+  if (!contactNeedsUpdate(existing, desired)) {
+    return { action: 'unchanged', contactId: existing.id, externalId: identity.did };
+  }
+
+  await client.updateContact(existing.id, { defaultFields: desired.defaultFields });
+  return { action: 'updated', contactId: existing.id, externalId: identity.did };
+}
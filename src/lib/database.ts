@@ -3,6 +3,7 @@
 
 import { neon, neonConfig } from '@neondatabase/serverless';
 import type { Env } from '@/types/env';
+import type { HistoryFilters } from '@/lib/history';
 
 neonConfig.fetchConnectionCache = true;
 
@@ -51,6 +52,19 @@ export function createDatabase(env: Env): Database {
   return new Database(env.NEON_DATABASE_URL);
 }
 
+// api_tokens columns safe to return to clients (never token_hash)
+const API_TOKEN_COLUMNS = 'id, identity_id, name, scopes, status, expires_at, last_used_at, created_at';
+
+/**
+ * api_tokens rows ChittyReception manages: those with a reception scope and without a bare `*`,
+ * owned by the identity in parameter `identityParam` (null for any identity)
+ */
+function managedApiTokenCondition(identityParam: string): string {
+  return `(${identityParam}::uuid IS NULL OR identity_id = ${identityParam})
+            AND EXISTS (SELECT 1 FROM unnest(scopes) AS scope WHERE scope LIKE 'reception:%')
+            AND NOT ('*' = ANY(scopes))`;
+}
+
 // Query builders for ChittyReception-specific operations
 export const queries = {
   // Token validation (from shared api_tokens table)
@@ -69,10 +83,75 @@ export const queries = {
     params: [tokenHash]
   }),
 
+  // Token management; token_hash is only returned where the caller must invalidate the token cache
+  createApiToken: (token: {
+    identityId: string;
+    tokenHash: string;
+    name: string;
+    scopes: string[];
+    expiresAt: string | null;
+  }) => ({
+    sql: `INSERT INTO api_tokens (identity_id, token_hash, name, scopes, status, expires_at)
+          VALUES ($1, $2, $3, $4, 'active', $5)
+          RETURNING ${API_TOKEN_COLUMNS}`,
+    params: [token.identityId, token.tokenHash, token.name, token.scopes, token.expiresAt]
+  }),
+
+  getApiToken: (id: string, identityId: string | null) => ({
+    sql: `SELECT ${API_TOKEN_COLUMNS} FROM api_tokens WHERE id = $1 AND ${managedApiTokenCondition('$2')}`,
+    params: [id, identityId]
+  }),
+
+  // identityId null lists the managed tokens of every identity
+  listApiTokens: (filters: { identityId: string | null; status?: string; limit?: number; offset?: number }) => {
+    const params: any[] = [filters.identityId];
+    const conditions = [managedApiTokenCondition('$1')];
+
+    if (filters.status) {
+      params.push(filters.status);
+      conditions.push(`status = $${params.length}`);
+    }
+
+    params.push(filters.limit ?? 50, filters.offset ?? 0);
+
+    return {
+      sql: `SELECT ${API_TOKEN_COLUMNS} FROM api_tokens
+            WHERE ${conditions.join(' AND ')}
+            ORDER BY created_at DESC
+            LIMIT $${params.length - 1} OFFSET $${params.length}`,
+      params
+    };
+  },
+
+  // Only active managed tokens change; no row means the token is missing, not the caller's to
+  // manage or already revoked. Re-scoping replaces the reception scopes and keeps other services'
+  updateApiTokenScopes: (id: string, identityId: string | null, scopes: string[]) => ({
+    sql: `UPDATE api_tokens
+          SET scopes = ARRAY(SELECT scope FROM unnest(scopes) AS scope WHERE scope NOT LIKE 'reception:%') || $3::text[]
+          WHERE id = $1 AND status = 'active' AND ${managedApiTokenCondition('$2')}
+          RETURNING ${API_TOKEN_COLUMNS}, token_hash`,
+    params: [id, identityId, scopes]
+  }),
+
+  updateApiTokenExpiry: (id: string, identityId: string | null, expiresAt: string | null) => ({
+    sql: `UPDATE api_tokens SET expires_at = $3
+          WHERE id = $1 AND status = 'active' AND ${managedApiTokenCondition('$2')}
+          RETURNING ${API_TOKEN_COLUMNS}, token_hash`,
+    params: [id, identityId, expiresAt]
+  }),
+
+  revokeApiToken: (id: string, identityId: string | null) => ({
+    sql: `UPDATE api_tokens SET status = 'revoked'
+          WHERE id = $1 AND status = 'active' AND ${managedApiTokenCondition('$2')}
+          RETURNING ${API_TOKEN_COLUMNS}, token_hash`,
+    params: [id, identityId]
+  }),
+
   // Call history
   createCallRecord: (identityId: string, callId: string, direction: 'inbound' | 'outbound', from: string, to: string, metadata: any) => ({
     sql: `INSERT INTO reception_calls (identity_id, call_id, direction, from_number, to_number, metadata, status)
           VALUES ($1, $2, $3, $4, $5, $6, 'initiated')
+          ON CONFLICT (call_id) DO NOTHING
           RETURNING *`,
     params: [identityId, callId, direction, from, to, JSON.stringify(metadata)]
   }),
@@ -84,28 +163,346 @@ export const queries = {
     params: [status, endedAt || null, callId]
   }),
 
-  getCallHistory: (identityId: string, limit: number = 50, offset: number = 0) => ({
-    sql: `SELECT * FROM reception_calls
-          WHERE identity_id = $1
-          ORDER BY created_at DESC
-          LIMIT $2 OFFSET $3`,
-    params: [identityId, limit, offset]
+  completeCallRecord: (callId: string, details: {
+    status: string;
+    durationSeconds: number | null;
+    answeredAt: string | null;
+    endedAt: string | null;
+    recordingUrl: string | null;
+  }) => ({
+    sql: `UPDATE reception_calls
+          SET status = $2,
+              duration_seconds = $3,
+              answered_at = COALESCE($4, answered_at),
+              ended_at = COALESCE($5, ended_at, NOW()),
+              recording_url = COALESCE($6, recording_url),
+              updated_at = NOW()
+          WHERE call_id = $1
+          RETURNING id, identity_id, metadata`,
+    params: [callId, details.status, details.durationSeconds, details.answeredAt, details.endedAt, details.recordingUrl]
+  }),
+
+  // Merges keys into reception_calls.metadata (e.g. AI summary, action items)
+  mergeCallMetadata: (callId: string, metadata: any) => ({
+    sql: `UPDATE reception_calls
+          SET metadata = COALESCE(metadata, '{}'::jsonb) || $2::jsonb, updated_at = NOW()
+          WHERE call_id = $1`,
+    params: [callId, JSON.stringify(metadata)]
+  }),
+
+  // Calls of an identity, newest first; fetches filters.limit + 1 rows so the caller can
+  // tell whether there is a next page. Calls sort by when they started (backfilled calls are
+  // created long after), falling back to when the row was written
+  getCallHistory: (identityId: string, filters: HistoryFilters) => {
+    const params: any[] = [identityId];
+    const conditions = ['c.identity_id = $1', ...historyConditions(
+      'c',
+      'COALESCE(c.started_at, c.created_at)',
+      "to_tsvector('english', COALESCE(c.transcription, ''))",
+      filters,
+      params
+    )];
+
+    if (filters.after) {
+      params.push(filters.after);
+      conditions.push(`(COALESCE(c.started_at, c.created_at), c.id) <
+        (SELECT COALESCE(started_at, created_at), id FROM reception_calls WHERE id = $${params.length})`);
+    }
+
+    params.push(filters.limit + 1, filters.offset);
+
+    return {
+      sql: `SELECT c.* FROM reception_calls c
+            WHERE ${conditions.join(' AND ')}
+            ORDER BY COALESCE(c.started_at, c.created_at) DESC, c.id DESC
+            LIMIT $${params.length - 1} OFFSET $${params.length}`,
+      params
+    };
+  },
+
+  // With identityId, only when the call belongs to that identity
+  getCallRecord: (callId: string, identityId: string | null = null) => ({
+    sql: 'SELECT * FROM reception_calls WHERE call_id = $1 AND ($2::uuid IS NULL OR identity_id = $2)',
+    params: [callId, identityId]
   }),
 
   // Message history
-  createMessageRecord: (identityId: string, messageId: string, direction: 'inbound' | 'outbound', from: string, to: string, body: string, metadata: any) => ({
-    sql: `INSERT INTO reception_messages (identity_id, message_id, direction, from_number, to_number, body, metadata)
+  createMessageRecord: (identityId: string, messageId: string, direction: 'inbound' | 'outbound', from: string, to: string, body: string, metadata: any, status: string = 'sent', sessionId: string | null = null) => ({
+    sql: `INSERT INTO reception_messages (identity_id, message_id, direction, from_number, to_number, body, metadata, status, session_id)
+          VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+          ON CONFLICT (message_id) DO NOTHING
+          RETURNING *`,
+    params: [identityId, messageId, direction, from, to, body, JSON.stringify(metadata), status, sessionId]
+  }),
+
+  // Messages of an identity, newest first; fetches filters.limit + 1 rows like getCallHistory
+  getMessageHistory: (identityId: string, filters: HistoryFilters) => {
+    const params: any[] = [identityId];
+    const conditions = ['m.identity_id = $1', ...historyConditions(
+      'm',
+      'm.created_at',
+      "to_tsvector('english', m.body)",
+      filters,
+      params
+    )];
+
+    if (filters.after) {
+      params.push(filters.after);
+      conditions.push(`(m.created_at, m.id) <
+        (SELECT created_at, id FROM reception_messages WHERE id = $${params.length})`);
+    }
+
+    params.push(filters.limit + 1, filters.offset);
+
+    return {
+      sql: `SELECT m.*, COALESCE(m.metadata->'statusHistory', '[]'::jsonb) AS status_history
+            FROM reception_messages m
+            WHERE ${conditions.join(' AND ')}
+            ORDER BY m.created_at DESC, m.id DESC
+            LIMIT $${params.length - 1} OFFSET $${params.length}`,
+      params
+    };
+  },
+
+  // Appends the transition to metadata.statusHistory; the status column only moves
+  // forward so a late 'sent' cannot overwrite an earlier 'delivered' or 'failed'
+  updateMessageStatus: (messageId: string, status: string, rank: number, transition: Record<string, unknown>) => ({
+    sql: `UPDATE reception_messages SET
+            status = CASE
+              WHEN $3 >= (CASE status
+                WHEN 'queued' THEN 1
+                WHEN 'sending' THEN 2
+                WHEN 'sent' THEN 3
+                ELSE 4
+              END) THEN $2
+              ELSE status
+            END,
+            status_updated_at = NOW(),
+            metadata = jsonb_set(
+              COALESCE(metadata, '{}'::jsonb),
+              '{statusHistory}',
+              COALESCE(metadata->'statusHistory', '[]'::jsonb) || jsonb_build_array($4::jsonb)
+            ),
+            updated_at = NOW()
+          WHERE message_id = $1
+          RETURNING id, identity_id, direction, status`,
+    params: [messageId, status, rank, JSON.stringify(transition)]
+  }),
+
+  // Voicemails
+  createVoicemailRecord: (voicemail: {
+    identityId: string | null;
+    voicemailId: string;
+    from: string;
+    to: string;
+    durationSeconds: number | null;
+    recordingUrl: string | null;
+    transcription: string | null;
+    intent: string;
+    urgency: string;
+    isEmergency: boolean;
+    classification: any;
+    receivedAt: string;
+    metadata: any;
+  }) => ({
+    sql: `INSERT INTO reception_voicemails (identity_id, voicemail_id, from_number, to_number, duration_seconds, recording_url, transcription, intent, urgency, is_emergency, classification, received_at, metadata)
+          VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
+          ON CONFLICT (voicemail_id) DO NOTHING
+          RETURNING *`,
+    params: [
+      voicemail.identityId,
+      voicemail.voicemailId,
+      voicemail.from,
+      voicemail.to,
+      voicemail.durationSeconds,
+      voicemail.recordingUrl,
+      voicemail.transcription,
+      voicemail.intent,
+      voicemail.urgency,
+      voicemail.isEmergency,
+      JSON.stringify(voicemail.classification),
+      voicemail.receivedAt,
+      JSON.stringify(voicemail.metadata),
+    ]
+  }),
+
+  listVoicemails: (filters: { status?: string; urgency?: string; assignedTo?: string; limit?: number; offset?: number }) => {
+    const conditions = ['1=1'];
+    const params: any[] = [];
+
+    if (filters.status) {
+      params.push(filters.status);
+      conditions.push(`v.status = $${params.length}`);
+    }
+
+    if (filters.urgency) {
+      params.push(filters.urgency);
+      conditions.push(`v.urgency = $${params.length}`);
+    }
+
+    if (filters.assignedTo) {
+      params.push(filters.assignedTo);
+      conditions.push(`v.assigned_to = $${params.length}`);
+    }
+
+    params.push(filters.limit ?? 50, filters.offset ?? 0);
+
+    return {
+      sql: `SELECT v.*, t.id AS callback_task_id, t.status AS callback_status, t.due_at AS callback_due_at
+            FROM reception_voicemails v
+            LEFT JOIN reception_callback_tasks t ON t.voicemail_id = v.id
+            WHERE ${conditions.join(' AND ')}
+            ORDER BY (v.urgency = 'emergency') DESC, v.received_at DESC
+            LIMIT $${params.length - 1} OFFSET $${params.length}`,
+      params
+    };
+  },
+
+  markVoicemailHandled: (id: string, handledBy: string) => ({
+    sql: `UPDATE reception_voicemails
+          SET status = 'handled', handled_by = $2, handled_at = NOW(), updated_at = NOW()
+          WHERE id = $1
+          RETURNING *`,
+    params: [id, handledBy]
+  }),
+
+  assignVoicemail: (id: string, assignee: string) => ({
+    sql: `UPDATE reception_voicemails
+          SET status = CASE WHEN status = 'handled' THEN status ELSE 'assigned' END,
+              assigned_to = $2,
+              updated_at = NOW()
+          WHERE id = $1
+          RETURNING *`,
+    params: [id, assignee]
+  }),
+
+  // Callback tasks
+  getVoicemailId: (voicemailId: string) => ({
+    sql: 'SELECT id FROM reception_voicemails WHERE voicemail_id = $1',
+    params: [voicemailId]
+  }),
+
+  // One task per voicemail: a retried voicemail.created event leaves an existing task alone
+  createCallbackTask: (task: {
+    voicemailId: string | null;
+    identityId: string | null;
+    phoneNumber: string;
+    lineNumber: string | null;
+    reason: string;
+    priority: string;
+    dueAt: Date;
+  }) => ({
+    sql: `INSERT INTO reception_callback_tasks (voicemail_id, identity_id, phone_number, line_number, reason, priority, due_at)
           VALUES ($1, $2, $3, $4, $5, $6, $7)
+          ON CONFLICT (voicemail_id) DO NOTHING
           RETURNING *`,
-    params: [identityId, messageId, direction, from, to, body, JSON.stringify(metadata)]
+    params: [task.voicemailId, task.identityId, task.phoneNumber, task.lineNumber, task.reason, task.priority, task.dueAt.toISOString()]
+  }),
+
+  completeCallbackTasksForVoicemail: (voicemailId: string) => ({
+    sql: `UPDATE reception_callback_tasks
+          SET status = 'completed', completed_at = NOW(), updated_at = NOW()
+          WHERE voicemail_id = $1 AND status = 'open'`,
+    params: [voicemailId]
+  }),
+
+  assignCallbackTasksForVoicemail: (voicemailId: string, assignee: string) => ({
+    sql: `UPDATE reception_callback_tasks
+          SET assigned_to = $2, updated_at = NOW()
+          WHERE voicemail_id = $1 AND status = 'open'`,
+    params: [voicemailId, assignee]
+  }),
+
+  // Reception sessions
+  findActiveSession: (identityId: string, phoneNumber: string) => ({
+    sql: `SELECT * FROM reception_sessions
+          WHERE identity_id = $1 AND phone_number = $2 AND status = 'active'
+          ORDER BY last_interaction_at DESC
+          LIMIT 1`,
+    params: [identityId, phoneNumber]
+  }),
+
+  createSession: (identityId: string, phoneNumber: string, context: any = {}) => ({
+    sql: `INSERT INTO reception_sessions (identity_id, phone_number, context)
+          VALUES ($1, $2, $3)
+          RETURNING *`,
+    params: [identityId, phoneNumber, JSON.stringify(context)]
+  }),
+
+  // Sets the session summary and appends an entry to context.calls
+  attachCallSummaryToSession: (sessionId: string, summary: string, callEntry: any) => ({
+    sql: `UPDATE reception_sessions
+          SET ai_summary = $2,
+              context = jsonb_set(
+                COALESCE(context, '{}'::jsonb),
+                '{calls}',
+                COALESCE(context->'calls', '[]'::jsonb) || jsonb_build_array($3::jsonb)
+              ),
+              last_interaction_at = NOW(),
+              updated_at = NOW()
+          WHERE id = $1`,
+    params: [sessionId, summary, JSON.stringify(callEntry)]
+  }),
+
+  // Appends an entry to context.messages and bumps the session's last interaction
+  appendMessageToSession: (sessionId: string, messageEntry: any) => ({
+    sql: `UPDATE reception_sessions
+          SET context = jsonb_set(
+                COALESCE(context, '{}'::jsonb),
+                '{messages}',
+                COALESCE(context->'messages', '[]'::jsonb) || jsonb_build_array($2::jsonb)
+              ),
+              last_interaction_at = NOW(),
+              updated_at = NOW()
+          WHERE id = $1`,
+    params: [sessionId, JSON.stringify(messageEntry)]
+  }),
+
+  // Phone lines
+  getPhoneLine: (phoneNumber: string) => ({
+    sql: `SELECT * FROM reception_phone_lines WHERE phone_number = $1`,
+    params: [phoneNumber]
+  }),
+
+  listPhoneLines: () => ({
+    sql: `SELECT * FROM reception_phone_lines ORDER BY phone_number`,
+    params: []
+  }),
+
+  setPhoneLineAutoReply: (phoneNumber: string, enabled: boolean) => ({
+    sql: `INSERT INTO reception_phone_lines (phone_number, auto_reply_enabled)
+          VALUES ($1, $2)
+          ON CONFLICT (phone_number) DO UPDATE
+          SET auto_reply_enabled = EXCLUDED.auto_reply_enabled, updated_at = NOW()
+          RETURNING *`,
+    params: [phoneNumber, enabled]
+  }),
+
+  setPhoneLineProvider: (phoneNumber: string, provider: string) => ({
+    sql: `INSERT INTO reception_phone_lines (phone_number, provider)
+          VALUES ($1, $2)
+          ON CONFLICT (phone_number) DO UPDATE
+          SET provider = EXCLUDED.provider, updated_at = NOW()
+          RETURNING *`,
+    params: [phoneNumber, provider]
+  }),
+
+  // Opt-outs, per contact and line: STOP to one line does not silence the others
+  getOptOut: (phoneNumber: string, lineNumber: string) => ({
+    sql: `SELECT * FROM reception_opt_outs WHERE phone_number = $1 AND line_number = $2`,
+    params: [phoneNumber, lineNumber]
+  }),
+
+  createOptOut: (phoneNumber: string, keyword: string, lineNumber: string) => ({
+    sql: `INSERT INTO reception_opt_outs (phone_number, keyword, line_number)
+          VALUES ($1, $2, $3)
+          ON CONFLICT (phone_number, line_number) DO NOTHING`,
+    params: [phoneNumber, keyword, lineNumber]
   }),
 
-  getMessageHistory: (identityId: string, limit: number = 50, offset: number = 0) => ({
-    sql: `SELECT * FROM reception_messages
-          WHERE identity_id = $1
-          ORDER BY created_at DESC
-          LIMIT $2 OFFSET $3`,
-    params: [identityId, limit, offset]
+  deleteOptOut: (phoneNumber: string, lineNumber: string) => ({
+    sql: `DELETE FROM reception_opt_outs WHERE phone_number = $1 AND line_number = $2`,
+    params: [phoneNumber, lineNumber]
   }),
 
   // Caller identity resolution (lookup by phone number)
@@ -117,6 +514,747 @@ export const queries = {
     params: [phoneNumber]
   }),
 
+  // Identity details for the OpenPhone contact sync; the primary phone comes first
+  getIdentityContact: (identityId: string) => ({
+    sql: `SELECT i.id, i.did, i.metadata,
+                 COALESCE(
+                   array_agg(p.phone_number ORDER BY p.primary_phone DESC, p.created_at)
+                     FILTER (WHERE p.phone_number IS NOT NULL),
+                   '{}'
+                 ) AS phone_numbers
+          FROM identities i
+          LEFT JOIN identity_phones p ON p.identity_id = i.id
+          WHERE i.id = $1
+          GROUP BY i.id`,
+    params: [identityId]
+  }),
+
+  // Webhook event ledger
+  // Records a delivery. The first delivery is accepted for enqueueing, as is a redelivery
+  // of an event still in 'received' (the previous attempt never reached the queue).
+  recordWebhookEvent: (eventId: string, eventType: string, payload: any) => ({
+    sql: `WITH previous AS (
+            SELECT status FROM reception_webhook_events WHERE event_id = $1
+          )
+          INSERT INTO reception_webhook_events (event_id, event_type, payload, status)
+          VALUES ($1, $2, $3, 'received')
+          ON CONFLICT (event_id) DO UPDATE SET
+            delivery_count = reception_webhook_events.delivery_count + 1,
+            last_received_at = NOW()
+          RETURNING status, delivery_count,
+            (xmax = 0) OR COALESCE((SELECT status FROM previous) = 'received', false) AS accepted`,
+    params: [eventId, eventType, JSON.stringify(payload)]
+  }),
+
+  touchWebhookEvent: (eventId: string) => ({
+    sql: `UPDATE reception_webhook_events
+          SET delivery_count = delivery_count + 1, last_received_at = NOW()
+          WHERE event_id = $1`,
+    params: [eventId]
+  }),
+
+  setWebhookEventStatus: (eventId: string, status: string) => ({
+    sql: 'UPDATE reception_webhook_events SET status = $2 WHERE event_id = $1',
+    params: [eventId, status]
+  }),
+
+  // Claims an event for the queue consumer; processing claims older than 5 minutes are
+  // considered abandoned (e.g. the isolate was evicted) and may be taken over
+  startWebhookEventProcessing: (eventId: string) => ({
+    sql: `UPDATE reception_webhook_events
+          SET status = 'processing', attempts = attempts + 1, processing_started_at = NOW()
+          WHERE event_id = $1
+            AND (status IN ('received', 'queued', 'failed')
+                 OR (status = 'processing' AND processing_started_at < NOW() - INTERVAL '5 minutes'))
+          RETURNING *`,
+    params: [eventId]
+  }),
+
+  completeWebhookEvent: (eventId: string, outcome: any) => ({
+    sql: `UPDATE reception_webhook_events
+          SET status = 'processed', outcome = $2, last_error = NULL, processed_at = NOW()
+          WHERE event_id = $1`,
+    params: [eventId, JSON.stringify(outcome)]
+  }),
+
+  failWebhookEvent: (eventId: string, error: string) => ({
+    sql: `UPDATE reception_webhook_events
+          SET status = 'failed', last_error = $2
+          WHERE event_id = $1`,
+    params: [eventId, error]
+  }),
+
+  resetWebhookEventForReplay: (eventId: string) => ({
+    sql: `UPDATE reception_webhook_events
+          SET status = 'received', attempts = 0
+          WHERE event_id = $1 AND status IN ('processed', 'failed')
+          RETURNING *`,
+    params: [eventId]
+  }),
+
+  // ChittyID minted for an unknown number while processing the event, kept so a retry reuses it
+  getMintedIdentity: (eventId: string) => ({
+    sql: 'SELECT minted_identity_id FROM reception_webhook_events WHERE event_id = $1',
+    params: [eventId]
+  }),
+
+  recordMintedIdentity: (eventId: string, identityId: string) => ({
+    sql: 'UPDATE reception_webhook_events SET minted_identity_id = $2 WHERE event_id = $1',
+    params: [eventId, identityId]
+  }),
+
+  getWebhookEvent: (eventId: string) => ({
+    sql: 'SELECT * FROM reception_webhook_events WHERE event_id = $1',
+    params: [eventId]
+  }),
+
+  listWebhookEvents: (filters: { status?: string; type?: string; limit?: number; offset?: number }) => {
+    const conditions = ['1=1'];
+    const params: any[] = [];
+
+    if (filters.status) {
+      params.push(filters.status);
+      conditions.push(`status = $${params.length}`);
+    }
+
+    if (filters.type) {
+      params.push(filters.type);
+      conditions.push(`event_type = $${params.length}`);
+    }
+
+    params.push(filters.limit ?? 50, filters.offset ?? 0);
+
+    return {
+      sql: `SELECT event_id, event_type, status, delivery_count, attempts, outcome, last_error,
+                   first_received_at, last_received_at, processing_started_at, processed_at
+            FROM reception_webhook_events
+            WHERE ${conditions.join(' AND ')}
+            ORDER BY first_received_at DESC
+            LIMIT $${params.length - 1} OFFSET $${params.length}`,
+      params
+    };
+  },
+
+  // Webhook dead letters
+  deadLetterWebhookEvent: (eventId: string, error: string) => ({
+    sql: `WITH ledger AS (
+            UPDATE reception_webhook_events
+            SET status = 'dead_lettered', last_error = $2
+            WHERE event_id = $1
+            RETURNING event_id, event_type, payload, attempts
+          )
+          INSERT INTO reception_webhook_dead_letters (event_id, event_type, payload, attempts, last_error)
+          SELECT event_id, event_type, payload, attempts, $2 FROM ledger
+          ON CONFLICT (event_id) DO UPDATE SET
+            payload = EXCLUDED.payload,
+            attempts = EXCLUDED.attempts,
+            last_error = EXCLUDED.last_error,
+            status = 'pending',
+            dead_lettered_at = NOW()
+          RETURNING *`,
+    params: [eventId, error]
+  }),
+
+  redriveDeadLetter: (deadLetterId: string) => ({
+    sql: `WITH released AS (
+            UPDATE reception_webhook_dead_letters
+            SET status = 'redriven', redrive_count = redrive_count + 1, redriven_at = NOW()
+            WHERE id = $1 AND status = 'pending'
+            RETURNING event_id
+          )
+          UPDATE reception_webhook_events e
+          SET status = 'queued', attempts = 0, last_error = NULL
+          FROM released
+          WHERE e.event_id = released.event_id
+          RETURNING e.event_id`,
+    params: [deadLetterId]
+  }),
+
+  getDeadLetter: (id: string) => ({
+    sql: 'SELECT * FROM reception_webhook_dead_letters WHERE id = $1',
+    params: [id]
+  }),
+
+  listDeadLetters: (filters: { status?: string; limit?: number; offset?: number }) => {
+    const conditions = ['1=1'];
+    const params: any[] = [];
+
+    if (filters.status) {
+      params.push(filters.status);
+      conditions.push(`status = $${params.length}`);
+    }
+
+    params.push(filters.limit ?? 50, filters.offset ?? 0);
+
+    return {
+      sql: `SELECT id, event_id, event_type, attempts, last_error, status, redrive_count,
+                   dead_lettered_at, redriven_at
+            FROM reception_webhook_dead_letters
+            WHERE ${conditions.join(' AND ')}
+            ORDER BY dead_lettered_at DESC
+            LIMIT $${params.length - 1} OFFSET $${params.length}`,
+      params
+    };
+  },
+
+  // Historical backfill
+  // Upserts keep what webhooks already recorded and only fill gaps; `inserted` tells new rows apart
+  upsertBackfilledCall: (call: {
+    identityId: string;
+    callId: string;
+    direction: 'inbound' | 'outbound';
+    from: string;
+    to: string;
+    status: string;
+    durationSeconds: number | null;
+    recordingUrl: string | null;
+    startedAt: string;
+    answeredAt: string | null;
+    endedAt: string | null;
+    metadata: any;
+  }) => ({
+    sql: `INSERT INTO reception_calls (identity_id, call_id, direction, from_number, to_number, status, duration_seconds, recording_url, started_at, answered_at, ended_at, metadata)
+          VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+          ON CONFLICT (call_id) DO UPDATE
+          SET status = CASE WHEN reception_calls.status IN ('initiated', 'ringing') THEN EXCLUDED.status ELSE reception_calls.status END,
+              duration_seconds = COALESCE(reception_calls.duration_seconds, EXCLUDED.duration_seconds),
+              recording_url = COALESCE(reception_calls.recording_url, EXCLUDED.recording_url),
+              answered_at = COALESCE(reception_calls.answered_at, EXCLUDED.answered_at),
+              ended_at = COALESCE(reception_calls.ended_at, EXCLUDED.ended_at),
+              updated_at = NOW()
+          RETURNING id, (xmax = 0) AS inserted`,
+    params: [
+      call.identityId,
+      call.callId,
+      call.direction,
+      call.from,
+      call.to,
+      call.status,
+      call.durationSeconds,
+      call.recordingUrl,
+      call.startedAt,
+      call.answeredAt,
+      call.endedAt,
+      JSON.stringify(call.metadata),
+    ]
+  }),
+
+  upsertBackfilledMessage: (message: {
+    identityId: string;
+    messageId: string;
+    direction: 'inbound' | 'outbound';
+    from: string;
+    to: string;
+    body: string;
+    status: string;
+    createdAt: string;
+    metadata: any;
+  }) => ({
+    sql: `INSERT INTO reception_messages (identity_id, message_id, direction, from_number, to_number, body, status, created_at, metadata)
+          VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+          ON CONFLICT (message_id) DO UPDATE
+          SET status = CASE WHEN reception_messages.status IN ('queued', 'sending', 'sent') THEN EXCLUDED.status ELSE reception_messages.status END,
+              updated_at = NOW()
+          RETURNING id, (xmax = 0) AS inserted`,
+    params: [
+      message.identityId,
+      message.messageId,
+      message.direction,
+      message.from,
+      message.to,
+      message.body,
+      message.status,
+      message.createdAt,
+      JSON.stringify(message.metadata),
+    ]
+  }),
+
+  createBackfillJob: (phoneNumber: string, since: string | null, requestedBy: string | null) => ({
+    sql: `INSERT INTO reception_backfill_jobs (phone_number, since, requested_by)
+          VALUES ($1, $2, $3)
+          RETURNING *`,
+    params: [phoneNumber, since, requestedBy]
+  }),
+
+  getBackfillJob: (id: string) => ({
+    sql: 'SELECT * FROM reception_backfill_jobs WHERE id = $1',
+    params: [id]
+  }),
+
+  listBackfillJobs: (filters: { status?: string; limit?: number; offset?: number }) => {
+    const conditions = ['1=1'];
+    const params: any[] = [];
+
+    if (filters.status) {
+      params.push(filters.status);
+      conditions.push(`status = $${params.length}`);
+    }
+
+    params.push(filters.limit ?? 50, filters.offset ?? 0);
+
+    return {
+      sql: `SELECT * FROM reception_backfill_jobs
+            WHERE ${conditions.join(' AND ')}
+            ORDER BY created_at DESC
+            LIMIT $${params.length - 1} OFFSET $${params.length}`,
+      params
+    };
+  },
+
+  // Claims a job for a run; 'running' is accepted so an interrupted run can be resumed
+  startBackfillJob: (id: string) => ({
+    sql: `UPDATE reception_backfill_jobs
+          SET status = 'running', started_at = COALESCE(started_at, NOW()), last_error = NULL, updated_at = NOW()
+          WHERE id = $1 AND status IN ('pending', 'running', 'failed')
+          RETURNING *`,
+    params: [id]
+  }),
+
+  // Returns no row once the job has been cancelled, which stops the run
+  saveBackfillProgress: (id: string, phoneNumberId: string, checkpoint: any, stats: any) => ({
+    sql: `UPDATE reception_backfill_jobs
+          SET phone_number_id = $2, checkpoint = $3, stats = $4, updated_at = NOW()
+          WHERE id = $1 AND status = 'running'
+          RETURNING status`,
+    params: [id, phoneNumberId, JSON.stringify(checkpoint), JSON.stringify(stats)]
+  }),
+
+  completeBackfillJob: (id: string) => ({
+    sql: `UPDATE reception_backfill_jobs
+          SET status = 'completed', completed_at = NOW(), updated_at = NOW()
+          WHERE id = $1 AND status = 'running'`,
+    params: [id]
+  }),
+
+  failBackfillJob: (id: string, error: string) => ({
+    sql: `UPDATE reception_backfill_jobs
+          SET status = 'failed', last_error = $2, updated_at = NOW()
+          WHERE id = $1 AND status = 'running'`,
+    params: [id, error]
+  }),
+
+  cancelBackfillJob: (id: string) => ({
+    sql: `UPDATE reception_backfill_jobs
+          SET status = 'cancelled', updated_at = NOW()
+          WHERE id = $1 AND status IN ('pending', 'running', 'failed')
+          RETURNING *`,
+    params: [id]
+  }),
+
+  // Failed and cancelled jobs go back to pending and continue from their checkpoint
+  resumeBackfillJob: (id: string) => ({
+    sql: `UPDATE reception_backfill_jobs
+          SET status = 'pending', last_error = NULL, updated_at = NOW()
+          WHERE id = $1 AND status IN ('failed', 'cancelled')
+          RETURNING *`,
+    params: [id]
+  }),
+
+  // Message media
+  // Inbound media is claimed by provider media ID: a webhook retry skips media that is stored,
+  // rejected or being downloaded, and takes over failed downloads and claims abandoned for 5 minutes
+  createMessageMedia: (media: {
+    messageId: string | null;
+    providerMediaId: string | null;
+    direction: 'inbound' | 'outbound';
+    position: number | null;
+    sourceUrl: string | null;
+    contentType: string | null;
+    sizeBytes: number | null;
+    uploadedBy?: string | null;
+  }) => ({
+    sql: `INSERT INTO reception_message_media (message_id, provider_media_id, direction, position, source_url, content_type, size_bytes, uploaded_by)
+          VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+          ON CONFLICT (provider_media_id) DO UPDATE
+          SET status = 'pending', source_url = EXCLUDED.source_url, error = NULL, updated_at = NOW()
+          WHERE reception_message_media.status = 'failed'
+             OR (reception_message_media.status = 'pending' AND reception_message_media.updated_at < NOW() - INTERVAL '5 minutes')
+          RETURNING *`,
+    params: [
+      media.messageId,
+      media.providerMediaId,
+      media.direction,
+      media.position,
+      media.sourceUrl,
+      media.contentType,
+      media.sizeBytes,
+      media.uploadedBy ?? null,
+    ]
+  }),
+
+  // Records where the media ended up: stored (with its key), rejected or failed (with the reason)
+  updateMessageMedia: (id: string, update: {
+    status: 'stored' | 'rejected' | 'failed';
+    storageKey?: string | null;
+    contentType?: string | null;
+    sizeBytes?: number | null;
+    error?: string | null;
+  }) => ({
+    sql: `UPDATE reception_message_media
+          SET status = $2,
+              storage_key = COALESCE($3, storage_key),
+              content_type = COALESCE($4, content_type),
+              size_bytes = COALESCE($5, size_bytes),
+              error = $6,
+              updated_at = NOW()
+          WHERE id = $1
+          RETURNING *`,
+    params: [id, update.status, update.storageKey ?? null, update.contentType ?? null, update.sizeBytes ?? null, update.error ?? null]
+  }),
+
+  getMessageMediaByProviderId: (providerMediaId: string) => ({
+    sql: 'SELECT * FROM reception_message_media WHERE provider_media_id = $1',
+    params: [providerMediaId]
+  }),
+
+  getMessageMedia: (id: string) => ({
+    sql: 'SELECT * FROM reception_message_media WHERE id = $1',
+    params: [id]
+  }),
+
+  // An upload that can still be sent: stored, not yet attached to a message and, unless
+  // `uploadedBy` is null, uploaded by that identity
+  getSendableMedia: (id: string, uploadedBy: string | null) => ({
+    sql: `SELECT * FROM reception_message_media
+          WHERE id = $1 AND direction = 'outbound' AND status = 'stored' AND message_id IS NULL
+            AND ($2::uuid IS NULL OR uploaded_by = $2)`,
+    params: [id, uploadedBy]
+  }),
+
+  listMessageMedia: (messageId: string) => ({
+    sql: `SELECT * FROM reception_message_media
+          WHERE message_id = $1
+          ORDER BY position ASC NULLS LAST, created_at ASC`,
+    params: [messageId]
+  }),
+
+  // Links uploads to the message they were sent with; positions follow the order of `ids`.
+  // Uploads already linked to a message keep it
+  attachMediaToMessage: (ids: string[], messageId: string) => ({
+    sql: `UPDATE reception_message_media m
+          SET message_id = $2, position = u.position - 1, updated_at = NOW()
+          FROM unnest($1::uuid[]) WITH ORDINALITY AS u(id, position)
+          WHERE m.id = u.id AND m.message_id IS NULL`,
+    params: [ids, messageId]
+  }),
+
+  // Call recordings
+  // Claimed by provider recording ID: a webhook retry skips recordings that are stored or being
+  // downloaded, and takes over failed downloads and claims abandoned for 5 minutes
+  createCallRecording: (recording: {
+    callId: string | null;
+    voicemailId: string | null;
+    source: 'call' | 'voicemail';
+    providerRecordingId: string;
+    sourceUrl: string;
+    durationSeconds: number | null;
+    recordedAt: string;
+  }) => ({
+    sql: `INSERT INTO reception_call_recordings (call_id, voicemail_id, source, provider_recording_id, source_url, duration_seconds, recorded_at)
+          VALUES ($1, $2, $3, $4, $5, $6, $7)
+          ON CONFLICT (provider_recording_id) DO UPDATE
+          SET status = 'pending', source_url = EXCLUDED.source_url, error = NULL, updated_at = NOW()
+          WHERE reception_call_recordings.status = 'failed'
+             OR (reception_call_recordings.status = 'pending' AND reception_call_recordings.updated_at < NOW() - INTERVAL '5 minutes')
+          RETURNING *`,
+    params: [
+      recording.callId,
+      recording.voicemailId,
+      recording.source,
+      recording.providerRecordingId,
+      recording.sourceUrl,
+      recording.durationSeconds,
+      recording.recordedAt,
+    ]
+  }),
+
+  // Records where the recording ended up: stored (with its key) or failed (with the reason)
+  updateCallRecording: (id: string, update: {
+    status: 'stored' | 'failed';
+    storageKey?: string | null;
+    contentType?: string | null;
+    sizeBytes?: number | null;
+    error?: string | null;
+  }) => ({
+    sql: `UPDATE reception_call_recordings
+          SET status = $2,
+              storage_key = COALESCE($3, storage_key),
+              content_type = COALESCE($4, content_type),
+              size_bytes = COALESCE($5, size_bytes),
+              error = $6,
+              updated_at = NOW()
+          WHERE id = $1
+          RETURNING *`,
+    params: [id, update.status, update.storageKey ?? null, update.contentType ?? null, update.sizeBytes ?? null, update.error ?? null]
+  }),
+
+  getCallRecordingByProviderId: (providerRecordingId: string) => ({
+    sql: 'SELECT * FROM reception_call_recordings WHERE provider_recording_id = $1',
+    params: [providerRecordingId]
+  }),
+
+  // The recording of a call or voicemail (by provider ID); stored copies first, then the earliest.
+  // With identityId, only when that identity owns the call or voicemail
+  getCallRecording: (id: string, identityId: string | null = null) => ({
+    sql: `SELECT * FROM reception_call_recordings r
+          WHERE (r.call_id = $1 OR r.voicemail_id = $1)
+            AND ($2::uuid IS NULL
+              OR EXISTS (SELECT 1 FROM reception_calls c WHERE c.call_id = r.call_id AND c.identity_id = $2)
+              OR EXISTS (SELECT 1 FROM reception_voicemails v WHERE v.voicemail_id = r.voicemail_id AND v.identity_id = $2))
+          ORDER BY (r.status = 'stored') DESC, r.recorded_at ASC
+          LIMIT 1`,
+    params: [id, identityId]
+  }),
+
+  // Stored recordings made before the retention cutoff
+  listExpiredCallRecordings: (cutoff: string, limit: number = 100) => ({
+    sql: `SELECT * FROM reception_call_recordings
+          WHERE status = 'stored' AND recorded_at < $1
+          ORDER BY recorded_at ASC
+          LIMIT $2`,
+    params: [cutoff, limit]
+  }),
+
+  markCallRecordingDeleted: (id: string) => ({
+    sql: `UPDATE reception_call_recordings
+          SET status = 'deleted', storage_key = NULL, deleted_at = NOW(), updated_at = NOW()
+          WHERE id = $1`,
+    params: [id]
+  }),
+
+  // Points recording_url at the archived copy instead of the expiring provider URL
+  setCallRecordingUrl: (callId: string, recordingUrl: string) => ({
+    sql: `UPDATE reception_calls SET recording_url = $2, updated_at = NOW() WHERE call_id = $1`,
+    params: [callId, recordingUrl]
+  }),
+
+  // Only once the recording is stored, so it can run on every delivery of the voicemail
+  setVoicemailRecordingUrl: (voicemailId: string, recordingUrl: string) => ({
+    sql: `UPDATE reception_voicemails SET recording_url = $2, updated_at = NOW()
+          WHERE voicemail_id = $1
+            AND EXISTS (
+              SELECT 1 FROM reception_call_recordings r
+              WHERE r.voicemail_id = $1 AND r.status = 'stored'
+            )`,
+    params: [voicemailId, recordingUrl]
+  }),
+
+  // Transcripts
+  // One per call or voicemail; a later transcript of the same call replaces the earlier one
+  upsertTranscript: (transcript: {
+    callId: string | null;
+    voicemailId: string | null;
+    recordingId: string | null;
+    source: 'provider' | 'whisper';
+    model: string | null;
+    language: string | null;
+    text: string;
+    segments: unknown[];
+    speakerDetection: 'provider' | 'single' | 'pauses';
+  }) => ({
+    sql: `INSERT INTO reception_transcripts (call_id, voicemail_id, recording_id, source, model, language, text, segments, speaker_detection)
+          VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+          ON CONFLICT (${transcript.callId ? 'call_id' : 'voicemail_id'}) DO UPDATE SET
+            recording_id = EXCLUDED.recording_id,
+            source = EXCLUDED.source,
+            model = EXCLUDED.model,
+            language = EXCLUDED.language,
+            text = EXCLUDED.text,
+            segments = EXCLUDED.segments,
+            speaker_detection = EXCLUDED.speaker_detection,
+            updated_at = NOW()
+          RETURNING *`,
+    params: [
+      transcript.callId,
+      transcript.voicemailId,
+      transcript.recordingId,
+      transcript.source,
+      transcript.model,
+      transcript.language,
+      transcript.text,
+      JSON.stringify(transcript.segments),
+      transcript.speakerDetection,
+    ]
+  }),
+
+  // The transcript of a call or voicemail (by provider ID)
+  getTranscript: (id: string) => ({
+    sql: 'SELECT * FROM reception_transcripts WHERE call_id = $1 OR voicemail_id = $1 LIMIT 1',
+    params: [id]
+  }),
+
+  setCallTranscription: (callId: string, transcription: string) => ({
+    sql: `UPDATE reception_calls SET transcription = $2, updated_at = NOW() WHERE call_id = $1`,
+    params: [callId, transcription]
+  }),
+
+  // History exports
+  // Reads the reception_call_history view in ascending time order, batchSize rows after the
+  // row afterId; filters are those of getCallHistory (limit, offset and cursor are ignored)
+  exportCallHistory: (filters: HistoryFilters, afterId: string | null, batchSize: number) => {
+    const params: any[] = [];
+    const conditions = historyConditions(
+      'h',
+      'COALESCE(h.started_at, h.created_at)',
+      "to_tsvector('english', COALESCE(h.transcription, ''))",
+      filters,
+      params
+    );
+
+    if (afterId) {
+      params.push(afterId);
+      conditions.push(`(COALESCE(h.started_at, h.created_at), h.id) >
+        (SELECT COALESCE(started_at, created_at), id FROM reception_calls WHERE id = $${params.length})`);
+    }
+
+    params.push(batchSize);
+
+    return {
+      sql: `SELECT h.id, h.call_id, h.identity_did, h.direction, h.from_number, h.to_number, h.status,
+                   h.duration_seconds, h.started_at, h.ended_at
+            FROM reception_call_history h
+            WHERE ${conditions.length > 0 ? conditions.join(' AND ') : 'TRUE'}
+            ORDER BY COALESCE(h.started_at, h.created_at), h.id
+            LIMIT $${params.length}`,
+      params
+    };
+  },
+
+  // Same as exportCallHistory for reception_message_history; bodies are only read when included
+  exportMessageHistory: (filters: HistoryFilters, afterId: string | null, batchSize: number, includeBody: boolean) => {
+    const params: any[] = [];
+    const conditions = historyConditions('h', 'h.created_at', "to_tsvector('english', h.body)", filters, params);
+
+    if (afterId) {
+      params.push(afterId);
+      conditions.push(`(h.created_at, h.id) >
+        (SELECT created_at, id FROM reception_messages WHERE id = $${params.length})`);
+    }
+
+    params.push(batchSize);
+
+    return {
+      sql: `SELECT h.id, h.message_id, h.identity_did, h.direction, h.from_number, h.to_number, h.status,
+                   h.created_at, ${includeBody ? 'h.body' : 'NULL AS body'}
+            FROM reception_message_history h
+            WHERE ${conditions.length > 0 ? conditions.join(' AND ') : 'TRUE'}
+            ORDER BY h.created_at, h.id
+            LIMIT $${params.length}`,
+      params
+    };
+  },
+
+  // Contact timeline
+  // Calls, messages, voicemails and sessions with one counterparty, newest first. Entries are
+  // keyed by (occurred_at, entry_key); the cursor is the last key of the previous page, and
+  // occurred_at is rendered with microseconds so it round-trips through the cursor exactly
+  getContactTimeline: (phoneNumber: string, options: {
+    /** Only this identity's rows; null for every identity */
+    identityId: string | null;
+    before: { at: string; key: string } | null;
+    types: string[] | null;
+    limit: number;
+  }) => ({
+    sql: `SELECT type, entry_key,
+                 to_char(occurred_at AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.US"Z"') AS occurred_at,
+                 data
+          FROM (
+            SELECT 'call' AS type, 'call:' || c.id::text AS entry_key,
+                   COALESCE(c.started_at, c.created_at) AS occurred_at,
+                   jsonb_build_object(
+                     'callId', c.call_id,
+                     'direction', c.direction,
+                     'from', c.from_number,
+                     'to', c.to_number,
+                     'status', c.status,
+                     'durationSeconds', c.duration_seconds,
+                     'recordingUrl', c.recording_url,
+                     'summary', c.metadata->>'aiSummary',
+                     'actionItems', COALESCE(c.metadata->'actionItems', '[]'::jsonb),
+                     'transcript', CASE WHEN t.id IS NULL THEN NULL ELSE jsonb_build_object(
+                       'source', t.source,
+                       'speakerDetection', t.speaker_detection,
+                       'text', t.text,
+                       'segments', t.segments
+                     ) END
+                   ) AS data
+            FROM reception_calls c
+            LEFT JOIN reception_transcripts t ON t.call_id = c.call_id
+            WHERE (c.from_number = $1 OR c.to_number = $1) AND ($6::uuid IS NULL OR c.identity_id = $6)
+            UNION ALL
+            SELECT 'message', 'message:' || m.id::text, m.created_at,
+                   jsonb_build_object(
+                     'messageId', m.message_id,
+                     'direction', m.direction,
+                     'from', m.from_number,
+                     'to', m.to_number,
+                     'body', m.body,
+                     'status', m.status,
+                     'sessionId', m.session_id,
+                     'media', COALESCE((
+                       SELECT jsonb_agg(jsonb_build_object('id', mm.id, 'contentType', mm.content_type) ORDER BY mm.position)
+                       FROM reception_message_media mm
+                       WHERE mm.message_id = m.message_id AND mm.status = 'stored'
+                     ), '[]'::jsonb)
+                   )
+            FROM reception_messages m
+            WHERE (m.from_number = $1 OR m.to_number = $1) AND ($6::uuid IS NULL OR m.identity_id = $6)
+            UNION ALL
+            SELECT 'voicemail', 'voicemail:' || v.id::text, v.received_at,
+                   jsonb_build_object(
+                     'voicemailId', v.voicemail_id,
+                     'from', v.from_number,
+                     'to', v.to_number,
+                     'durationSeconds', v.duration_seconds,
+                     'recordingUrl', v.recording_url,
+                     'intent', v.intent,
+                     'urgency', v.urgency,
+                     'status', v.status,
+                     'summary', v.classification->>'summary',
+                     'transcript', CASE
+                       WHEN t.id IS NOT NULL THEN jsonb_build_object(
+                         'source', t.source,
+                         'speakerDetection', t.speaker_detection,
+                         'text', t.text,
+                         'segments', t.segments
+                       )
+                       WHEN v.transcription IS NOT NULL THEN jsonb_build_object(
+                         'source', 'provider',
+                         'speakerDetection', 'single',
+                         'text', v.transcription,
+                         'segments', '[]'::jsonb
+                       )
+                     END
+                   )
+            FROM reception_voicemails v
+            LEFT JOIN reception_transcripts t ON t.voicemail_id = v.voicemail_id
+            WHERE v.from_number = $1 AND ($6::uuid IS NULL OR v.identity_id = $6)
+            UNION ALL
+            SELECT 'session', 'session:' || s.id::text, s.created_at,
+                   jsonb_build_object(
+                     'sessionId', s.id,
+                     'status', s.status,
+                     'summary', s.ai_summary,
+                     'lastInteractionAt', s.last_interaction_at
+                   )
+            FROM reception_sessions s
+            WHERE s.phone_number = $1 AND ($6::uuid IS NULL OR s.identity_id = $6)
+          ) timeline
+          WHERE ($4::text[] IS NULL OR type = ANY($4::text[]))
+            AND ($2::timestamptz IS NULL
+                 OR (occurred_at, entry_key COLLATE "C") < ($2::timestamptz, $3::text COLLATE "C"))
+          ORDER BY timeline.occurred_at DESC, entry_key COLLATE "C" DESC
+          LIMIT $5`,
+    params: [
+      phoneNumber,
+      options.before?.at ?? null,
+      options.before?.key ?? null,
+      options.types,
+      options.limit,
+      options.identityId,
+    ]
+  }),
+
   // Audit logging
   createAuditLog: (identityId: string | null, action: string, resourceType: string, resourceId: string, details: any, ipAddress?: string, userAgent?: string) => ({
     sql: `INSERT INTO audit_logs (identity_id, action, resource_type, resource_id, details, ip_address, user_agent)
@@ -125,3 +1263,54 @@ export const queries = {
     params: [identityId, action, resourceType, resourceId, JSON.stringify(details), ipAddress || null, userAgent || null]
   }),
 };
+
+/**
+ * WHERE conditions shared by the call and message history filters; pushes their params
+ */
+function historyConditions(
+  alias: string,
+  timeColumn: string,
+  searchVector: string,
+  filters: HistoryFilters,
+  params: any[]
+): string[] {
+  const conditions: string[] = [];
+
+  if (filters.direction) {
+    params.push(filters.direction);
+    conditions.push(`${alias}.direction = $${params.length}`);
+  }
+
+  if (filters.status) {
+    params.push(filters.status);
+    conditions.push(`${alias}.status = $${params.length}`);
+  }
+
+  if (filters.phoneNumber) {
+    params.push(filters.phoneNumber);
+    conditions.push(`(${alias}.from_number = $${params.length} OR ${alias}.to_number = $${params.length})`);
+  }
+
+  if (filters.line) {
+    params.push(filters.line);
+    conditions.push(`((${alias}.direction = 'inbound' AND ${alias}.to_number = $${params.length})
+      OR (${alias}.direction = 'outbound' AND ${alias}.from_number = $${params.length}))`);
+  }
+
+  if (filters.since) {
+    params.push(filters.since);
+    conditions.push(`${timeColumn} >= $${params.length}`);
+  }
+
+  if (filters.until) {
+    params.push(filters.until);
+    conditions.push(`${timeColumn} < $${params.length}`);
+  }
+
+  if (filters.search) {
+    params.push(filters.search);
+    conditions.push(`${searchVector} @@ websearch_to_tsquery('english', $${params.length})`);
+  }
+
+  return conditions;
+}
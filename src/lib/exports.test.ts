@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest';
+import { formatCsvValue, toCsvLine } from './exports';
+
+describe('toCsvLine', () => {
+  it('quotes fields with separators, quotes and line breaks', () => {
+    expect(toCsvLine(['plain', 'a,b', 'say "hi"', 'two\nlines', ''])).toBe(
+      'plain,"a,b","say ""hi""","two\nlines",\r\n'
+    );
+  });
+});
+
+describe('formatCsvValue', () => {
+  it('renders nulls, dates, numbers and objects', () => {
+    expect(formatCsvValue(null)).toBe('');
+    expect(formatCsvValue(undefined)).toBe('');
+    expect(formatCsvValue(new Date('2025-03-04T22:41:18Z'))).toBe('2025-03-04T22:41:18.000Z');
+    expect(formatCsvValue(95)).toBe('95');
+    expect(formatCsvValue({ a: 1 })).toBe('{"a":1}');
+  });
+
+  it('neutralises spreadsheet formulas but keeps phone numbers', () => {
+    expect(formatCsvValue('=HYPERLINK("http://evil")')).toBe(`'=HYPERLINK("http://evil")`);
+    expect(formatCsvValue('@SUM(A1)')).toBe(`'@SUM(A1)`);
+    expect(formatCsvValue('+1+cmd|calc')).toBe(`'+1+cmd|calc`);
+    expect(formatCsvValue('+13125550147')).toBe('+13125550147');
+    expect(formatCsvValue('-42')).toBe('-42');
+  });
+});
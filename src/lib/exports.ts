@@ -0,0 +1,154 @@
+// History exports
+// Streams call and message history as CSV or JSONL, reading the database in keyset batches so
+// the Worker never holds more than one batch in memory
+
+import type { Database } from '@/lib/database';
+import { queries } from '@/lib/database';
+import { z } from 'zod';
+import { CALL_STATUSES, MESSAGE_STATUSES, historyQueryFields, toHistoryFilters, type HistoryFilters } from '@/lib/history';
+import type { Scope } from '@/lib/scopes';
+import { isoDate } from '@/lib/validation';
+
+export const EXPORT_BATCH_SIZE = 500;
+// Exports are for bounded periods; a year of history at most per request
+export const MAX_EXPORT_RANGE_DAYS = 366;
+export const MESSAGE_BODY_SCOPE: Scope = 'reception:messages:body:read';
+export const REDACTED = '[redacted]';
+
+export type ExportKind = 'calls' | 'messages';
+export type ExportFormat = 'csv' | 'jsonl';
+
+export const EXPORT_COLUMNS: Record<ExportKind, string[]> = {
+  calls: [
+    'id', 'call_id', 'identity_did', 'direction', 'from_number', 'to_number', 'status',
+    'duration_seconds', 'started_at', 'ended_at',
+  ],
+  messages: [
+    'id', 'message_id', 'identity_did', 'direction', 'from_number', 'to_number', 'status',
+    'created_at', 'body',
+  ],
+};
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  jsonl: 'application/x-ndjson; charset=utf-8',
+};
+
+/**
+ * Query of an export: the history filters plus a required `since`, `until` (default now) and
+ * format, over at most MAX_EXPORT_RANGE_DAYS
+ */
+function exportQuery<S extends readonly [string, ...string[]]>(statuses: S) {
+  return historyQueryFields(statuses)
+    .extend({
+      since: isoDate,
+      until: isoDate.optional().transform((until) => until ?? new Date().toISOString()),
+      format: z.enum(['csv', 'jsonl']).default('csv'),
+    })
+    .refine((query) => query.since < query.until, { message: 'since must be before until', path: ['since'] })
+    .refine(
+      (query) => Date.parse(query.until) - Date.parse(query.since) <= MAX_EXPORT_RANGE_DAYS * 24 * 60 * 60 * 1000,
+      { message: `Exports cover at most ${MAX_EXPORT_RANGE_DAYS} days`, path: ['since'] }
+    )
+    .transform(({ format, ...query }) => ({
+      format,
+      filters: toHistoryFilters(query) as HistoryFilters & { since: string; until: string },
+    }));
+}
+
+export const EXPORT_QUERIES = {
+  calls: exportQuery(CALL_STATUSES),
+  messages: exportQuery(MESSAGE_STATUSES),
+};
+
+export interface ExportOptions {
+  format: ExportFormat;
+  redactBodies: boolean;
+  batchSize?: number;
+  onComplete?: (rows: number) => void | Promise<void>;
+}
+
+/**
+ * Stream every row matching `filters`, oldest first; the next batch is only read once the
+ * client has consumed the previous one
+ */
+export function createHistoryExportStream(
+  db: Database,
+  kind: ExportKind,
+  filters: HistoryFilters,
+  options: ExportOptions
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const columns = EXPORT_COLUMNS[kind];
+  const batchSize = options.batchSize ?? EXPORT_BATCH_SIZE;
+  let afterId: string | null = null;
+  let rows = 0;
+  let started = false;
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        let chunk = '';
+        if (!started && options.format === 'csv') {
+          chunk += toCsvLine(columns);
+        }
+        started = true;
+
+        const query = kind === 'calls'
+          ? queries.exportCallHistory(filters, afterId, batchSize)
+          : queries.exportMessageHistory(filters, afterId, batchSize, !options.redactBodies);
+        const batch = await db.query<Record<string, unknown>>(query.sql, query.params);
+
+        for (const row of batch) {
+          if (kind === 'messages' && options.redactBodies) {
+            row.body = REDACTED;
+          }
+          chunk += options.format === 'csv'
+            ? toCsvLine(columns.map((column) => formatCsvValue(row[column])))
+            : JSON.stringify(Object.fromEntries(columns.map((column) => [column, normalizeValue(row[column])]))) + '\n';
+        }
+        rows += batch.length;
+
+        if (chunk) {
+          controller.enqueue(encoder.encode(chunk));
+        }
+
+        if (batch.length < batchSize) {
+          controller.close();
+          await options.onComplete?.(rows);
+          return;
+        }
+        afterId = String(batch[batch.length - 1].id);
+      } catch (error) {
+        console.error('History export error:', { kind, rows, error });
+        controller.error(error);
+      }
+    },
+  });
+}
+
+/**
+ * One CSV record (RFC 4180): fields with separators, quotes or line breaks are quoted
+ */
+export function toCsvLine(fields: string[]): string {
+  return fields.map((field) => (/[",\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field)).join(',') + '\r\n';
+}
+
+/**
+ * Render a value for CSV; text a spreadsheet would run as a formula is prefixed with a quote
+ * (phone numbers and other plain numbers are left alone)
+ */
+export function formatCsvValue(value: unknown): string {
+  const normalized = normalizeValue(value);
+  if (normalized === null) return '';
+  const text = typeof normalized === 'string' ? normalized : String(normalized);
+  const isFormula = /^[=@\t\r]/.test(text) || (/^[+-]/.test(text) && !/^[+-]?\d+(\.\d+)?$/.test(text));
+  return isFormula ? `'${text}` : text;
+}
+
+function normalizeValue(value: unknown): string | number | boolean | null {
+  if (value === null || value === undefined) return null;
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') return value;
+  return JSON.stringify(value);
+}
@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { queries } from './database';
+import { callHistoryQuery, messageHistoryQuery, nextHistoryCursor, type HistoryFilters } from './history';
+import { encodeCursor } from './pagination';
+import { getFieldErrors } from './validation';
+
+const ROW_ID = '5a1c9d7e-3b2f-4c1a-9e8d-7f6a5b4c3d2e';
+
+function filtersOf(query: Record<string, string>, schema: z.ZodType<HistoryFilters> = callHistoryQuery): HistoryFilters {
+  return schema.parse(query);
+}
+
+describe('history query', () => {
+  it('defaults to the first page of 50', () => {
+    expect(filtersOf({})).toEqual({ limit: 50, offset: 0 });
+  });
+
+  it('accepts every filter', () => {
+    expect(
+      filtersOf({
+        direction: 'inbound',
+        status: 'completed',
+        phoneNumber: '(312) 555-0147',
+        line: ' 13125550100',
+        since: '2025-03-01',
+        until: '2025-03-08T00:00:00Z',
+        q: '  leak  ',
+        limit: '500',
+        cursor: encodeCursor([ROW_ID]),
+      })
+    ).toEqual({
+      direction: 'inbound',
+      status: 'completed',
+      phoneNumber: '+13125550147',
+      line: '+13125550100',
+      since: '2025-03-01T00:00:00.000Z',
+      until: '2025-03-08T00:00:00.000Z',
+      search: 'leak',
+      limit: 200,
+      offset: 0,
+      after: ROW_ID,
+    });
+  });
+
+  it.each([
+    [{ limit: '0' }, 'limit'],
+    [{ limit: 'ten' }, 'limit'],
+    [{ offset: '-1' }, 'offset'],
+    [{ direction: 'sideways' }, 'direction'],
+    [{ status: 'received' }, 'status'],
+    [{ phoneNumber: '555-0147' }, 'phoneNumber'],
+    [{ line: '+1' }, 'line'],
+    [{ since: 'last week' }, 'since'],
+    [{ since: '2025-03-08', until: '2025-03-01' }, 'since'],
+    [{ q: '   ' }, 'q'],
+    [{ cursor: encodeCursor(["1' OR '1'='1"]) }, 'cursor'],
+  ])('rejects %j', (query, field) => {
+    const parsed = callHistoryQuery.safeParse(query);
+    expect(parsed.success).toBe(false);
+    expect(getFieldErrors(parsed.error!, 'query').map((error) => error.field)).toEqual([field]);
+  });
+
+  it('validates status against the message statuses for messages', () => {
+    expect(filtersOf({ status: 'received' }, messageHistoryQuery).status).toBe('received');
+  });
+});
+
+describe('history queries', () => {
+  it('binds every filter and fetches one extra row', () => {
+    const query = queries.getMessageHistory('identity-1', filtersOf({
+      direction: 'outbound',
+      line: '+13125550100',
+      q: 'key card',
+      limit: '20',
+      cursor: encodeCursor([ROW_ID]),
+    }, messageHistoryQuery));
+
+    expect(query.params).toEqual(['identity-1', 'outbound', '+13125550100', 'key card', ROW_ID, 21, 0]);
+    expect(query.sql).toContain("to_tsvector('english', m.body) @@ websearch_to_tsquery('english', $4)");
+    expect(query.sql).toContain('LIMIT $6 OFFSET $7');
+  });
+
+  it('pages calls by start time', () => {
+    const query = queries.getCallHistory('identity-1', filtersOf({ since: '2025-03-01' }));
+    expect(query.sql).toContain('COALESCE(c.started_at, c.created_at) >= $2');
+    expect(query.sql).toContain('ORDER BY COALESCE(c.started_at, c.created_at) DESC, c.id DESC');
+  });
+});
+
+describe('nextHistoryCursor', () => {
+  it('points at the last row of a full page', () => {
+    const rows = [{ id: 'a' }, { id: ROW_ID }, { id: 'c' }];
+    expect(nextHistoryCursor(rows, 2)).toBe(encodeCursor([ROW_ID]));
+    expect(nextHistoryCursor(rows, 3)).toBeNull();
+  });
+});
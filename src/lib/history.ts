@@ -0,0 +1,86 @@
+// Call and message history queries
+// Validates the filters of GET /api/v1/calls and /messages and pages them by cursor
+
+import { z } from 'zod';
+import { decodeCursor, encodeCursor } from '@/lib/pagination';
+import { isoDate, limitQuery, offsetQuery, phoneNumber } from '@/lib/validation';
+
+export const DEFAULT_HISTORY_LIMIT = 50;
+export const MAX_HISTORY_LIMIT = 200;
+export const MAX_SEARCH_LENGTH = 200;
+
+export const CALL_STATUSES = [
+  'initiated', 'ringing', 'answered', 'in-progress', 'completed', 'busy', 'failed', 'no-answer', 'canceled',
+] as const;
+export const MESSAGE_STATUSES = ['queued', 'sending', 'sent', 'delivered', 'failed', 'undelivered', 'received'] as const;
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export interface HistoryFilters {
+  direction?: 'inbound' | 'outbound';
+  status?: string;
+  phoneNumber?: string; // counterparty or line, either side of the call or message
+  line?: string; // our line: the number called or texted inbound, the caller/sender outbound
+  since?: string;
+  until?: string;
+  search?: string; // Postgres websearch syntax over message bodies or call transcripts
+  after?: string; // row ID the previous page ended on
+  limit: number;
+  offset: number; // legacy paging; prefer the cursor
+}
+
+/**
+ * Query parameters of GET /api/v1/calls and /messages (and the history exports)
+ */
+export function historyQueryFields<S extends readonly [string, ...string[]]>(statuses: S) {
+  return z.object({
+    direction: z.enum(['inbound', 'outbound']).optional(),
+    status: z.enum(statuses).optional(),
+    phoneNumber: phoneNumber.optional(),
+    line: phoneNumber.optional(),
+    since: isoDate.optional(),
+    until: isoDate.optional(),
+    q: z.string().trim().min(1).max(MAX_SEARCH_LENGTH).optional(),
+    cursor: z
+      .string()
+      .transform((value, ctx) => {
+        const cursor = decodeCursor(value, 1);
+        if (!cursor || !UUID.test(cursor[0])) {
+          ctx.addIssue({ code: 'custom', message: 'Invalid cursor' });
+          return z.NEVER;
+        }
+        return cursor[0];
+      })
+      .optional(),
+    limit: limitQuery(DEFAULT_HISTORY_LIMIT, MAX_HISTORY_LIMIT),
+    offset: offsetQuery,
+  });
+}
+
+type HistoryQuery = z.output<ReturnType<typeof historyQueryFields>>;
+
+/**
+ * Filters of a validated history query
+ */
+export function toHistoryFilters({ q, cursor, ...query }: HistoryQuery): HistoryFilters {
+  return { ...query, search: q, after: cursor };
+}
+
+function historyQuery<S extends readonly [string, ...string[]]>(statuses: S) {
+  return historyQueryFields(statuses)
+    .refine((query) => !query.since || !query.until || query.since < query.until, {
+      message: 'since must be before until',
+      path: ['since'],
+    })
+    .transform(toHistoryFilters);
+}
+
+export const callHistoryQuery = historyQuery(CALL_STATUSES);
+export const messageHistoryQuery = historyQuery(MESSAGE_STATUSES);
+
+/**
+ * Cursor for the page after `rows` when the query fetched one row more than `limit`
+ */
+export function nextHistoryCursor(rows: { id: string }[], limit: number): string | null {
+  return rows.length > limit ? encodeCursor([rows[limit - 1].id]) : null;
+}
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import type { Env } from '@/types/env';
+import { MAX_MEDIA_BYTES, getPublicBaseUrl, signMediaUrl, validateMedia, verifyMediaUrl } from './media';
+
+const env = { MEDIA_URL_SECRET: 'test-media-url-secret' } as Env;
+const NOW = Date.parse('2025-06-01T12:00:00.000Z');
+
+describe('media URL signing', () => {
+  const sign = () => signMediaUrl(env, 'https://reception.chitty.cc', 'media-1', 900, NOW);
+  const verify = (url: string, overrides: { id?: string; now?: number; env?: Env } = {}) => {
+    const { searchParams } = new URL(url);
+    return verifyMediaUrl(
+      overrides.env ?? env,
+      overrides.id ?? 'media-1',
+      searchParams.get('expires') ?? undefined,
+      searchParams.get('signature') ?? undefined,
+      overrides.now ?? NOW
+    );
+  };
+
+  it('issues URLs that verify until they expire', async () => {
+    const { url, expiresAt } = await sign();
+
+    expect(url).toMatch(/^https:\/\/reception\.chitty\.cc\/api\/v1\/media\/media-1\/content\?expires=\d+&signature=/);
+    expect(expiresAt).toBe('2025-06-01T12:15:00.000Z');
+    expect(await verify(url)).toBe(true);
+    expect(await verify(url, { now: NOW + 900_000 })).toBe(false);
+  });
+
+  it('rejects URLs for other media, other secrets or without a signature', async () => {
+    const { url } = await sign();
+
+    expect(await verify(url, { id: 'media-2' })).toBe(false);
+    expect(await verify(url, { env: { MEDIA_URL_SECRET: 'rotated' } as Env })).toBe(false);
+    expect(await verifyMediaUrl(env, 'media-1', String(NOW / 1000 + 60), undefined, NOW)).toBe(false);
+    expect(await verifyMediaUrl(env, 'media-1', String(NOW / 1000 + 60), '!!not-base64!!', NOW)).toBe(false);
+  });
+
+  it('prefers PUBLIC_BASE_URL over the request origin', () => {
+    expect(getPublicBaseUrl(env, 'http://localhost:8787/api/v1/media')).toBe('http://localhost:8787');
+    expect(getPublicBaseUrl({ ...env, PUBLIC_BASE_URL: 'https://reception.chitty.cc/' })).toBe('https://reception.chitty.cc');
+    expect(getPublicBaseUrl(env)).toBeNull();
+  });
+});
+
+describe('validateMedia', () => {
+  it('accepts MMS content types, ignoring parameters and case', () => {
+    expect(validateMedia('image/JPEG', 1024)).toBeNull();
+    expect(validateMedia('text/vcard; charset=utf-8', null)).toBeNull();
+  });
+
+  it('rejects unsupported types and oversized media', () => {
+    expect(validateMedia('application/x-msdownload', 10)).toBe('Unsupported media type: application/x-msdownload');
+    expect(validateMedia(undefined, 10)).toBe('Unsupported media type: unknown');
+    expect(validateMedia('image/png', MAX_MEDIA_BYTES + 1)).toBe(`Media exceeds ${MAX_MEDIA_BYTES} bytes`);
+  });
+});
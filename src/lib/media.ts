@@ -0,0 +1,465 @@
+// MMS media
+// Content validation, storage in the media bucket, signed short-lived retrieval URLs,
+// ingestion of inbound media and resolution of outbound attachments
+
+import type { Env } from '@/types/env';
+import type { MessageObject } from '@/types/openphone';
+import type { TelephonyProvider } from '@/types/telephony';
+import type { Database } from '@/lib/database';
+import { queries } from '@/lib/database';
+
+// What carriers reliably deliver over MMS
+export const MEDIA_CONTENT_TYPES = [
+  'image/jpeg',
+  'image/png',
+  'image/gif',
+  'image/webp',
+  'image/heic',
+  'video/mp4',
+  'video/3gpp',
+  'audio/mpeg',
+  'audio/mp4',
+  'audio/amr',
+  'application/pdf',
+  'text/vcard',
+  'text/x-vcard',
+];
+export const MAX_MEDIA_BYTES = 5 * 1024 * 1024;
+export const MAX_MEDIA_PER_MESSAGE = 10;
+
+const DEFAULT_MEDIA_URL_TTL_SECONDS = 900;
+// Providers fetch outbound media when they actually send, which queueing and retries can delay
+const OUTBOUND_MEDIA_URL_TTL_SECONDS = 24 * 60 * 60;
+
+export type MessageMediaStatus = 'pending' | 'stored' | 'rejected' | 'failed';
+
+export interface MessageMediaRow {
+  id: string;
+  message_id: string | null;
+  provider_media_id: string | null;
+  direction: 'inbound' | 'outbound';
+  position: number | null;
+  source_url: string | null;
+  storage_key: string | null;
+  content_type: string | null;
+  size_bytes: number | null;
+  status: MessageMediaStatus;
+  error: string | null;
+  uploaded_by: string | null;
+  created_at: string;
+}
+
+export interface MediaIngestResult {
+  stored: number;
+  rejected: number;
+  failed: number;
+}
+
+/**
+ * Invalid attachments: unsupported type, too large, too many, unknown or unstored uploads
+ */
+export class MediaValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MediaValidationError';
+  }
+}
+
+/**
+ * Media or a recording that could not be stored yet (network error, timeout, HTTP 408, 429 or
+ * 5xx, bucket error). Thrown by the webhook handlers once the item is marked failed, so the queue
+ * retries the event with backoff and the retry claims the item again
+ */
+export class RetryableDownloadError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RetryableDownloadError';
+  }
+}
+
+/**
+ * Whether a download that failed with `status` may succeed later
+ */
+export function isRetryableDownloadStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+export interface StoredBlob {
+  body: ReadableStream; // only the requested bytes for ranged reads
+  contentType: string;
+  size: number; // size of the whole object
+}
+
+export interface BlobRange {
+  offset: number;
+  length: number;
+}
+
+/**
+ * Where media bytes live; R2 in the worker, anything with the same shape elsewhere
+ */
+export interface BlobStore {
+  put(key: string, body: ArrayBuffer, contentType: string): Promise<void>;
+  get(key: string, range?: BlobRange): Promise<StoredBlob | null>;
+  delete(key: string): Promise<void>;
+}
+
+export class R2BlobStore implements BlobStore {
+  constructor(private bucket: R2Bucket) {}
+
+  async put(key: string, body: ArrayBuffer, contentType: string): Promise<void> {
+    await this.bucket.put(key, body, { httpMetadata: { contentType } });
+  }
+
+  async get(key: string, range?: BlobRange): Promise<StoredBlob | null> {
+    const object = await this.bucket.get(key, range ? { range } : undefined);
+    if (!object) return null;
+    return {
+      body: object.body,
+      contentType: object.httpMetadata?.contentType || 'application/octet-stream',
+      size: object.size,
+    };
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.bucket.delete(key);
+  }
+}
+
+/**
+ * The configured media store, or null when no bucket is bound
+ */
+export function getMediaStore(env: Env): BlobStore | null {
+  return env.MEDIA_BUCKET ? new R2BlobStore(env.MEDIA_BUCKET) : null;
+}
+
+export function normalizeContentType(contentType: string | null | undefined): string | null {
+  const type = contentType?.split(';')[0].trim().toLowerCase();
+  return type || null;
+}
+
+/**
+ * Why media can't be accepted, or null when it can (size is skipped when unknown)
+ */
+export function validateMedia(contentType: string | null | undefined, size: number | null | undefined): string | null {
+  const type = normalizeContentType(contentType);
+  if (!type || !MEDIA_CONTENT_TYPES.includes(type)) {
+    return `Unsupported media type: ${type || 'unknown'}`;
+  }
+  if (size !== null && size !== undefined && size > MAX_MEDIA_BYTES) {
+    return `Media exceeds ${MAX_MEDIA_BYTES} bytes`;
+  }
+  return null;
+}
+
+/**
+ * Public origin used in signed media URLs: PUBLIC_BASE_URL, else the origin of the current request
+ */
+export function getPublicBaseUrl(env: Env, requestUrl?: string): string | null {
+  if (env.PUBLIC_BASE_URL) return env.PUBLIC_BASE_URL.replace(/\/+$/, '');
+  return requestUrl ? new URL(requestUrl).origin : null;
+}
+
+function getMediaUrlTtl(env: Env): number {
+  const ttl = parseInt(env.MEDIA_URL_TTL_SECONDS || '', 10);
+  return Number.isFinite(ttl) && ttl > 0 ? ttl : DEFAULT_MEDIA_URL_TTL_SECONDS;
+}
+
+function bytesToBase64Url(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function base64UrlToBytes(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  return Uint8Array.from(atob(base64), (char) => char.charCodeAt(0));
+}
+
+async function importMediaKey(env: Env, usage: 'sign' | 'verify'): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(env.MEDIA_URL_SECRET),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    [usage]
+  );
+}
+
+/**
+ * Short-lived URL for GET /api/v1/media/:id/content: HMAC-SHA256 of `<id>.<expires>`
+ */
+export async function signMediaUrl(
+  env: Env,
+  baseUrl: string,
+  mediaId: string,
+  ttlSeconds: number = getMediaUrlTtl(env),
+  now: number = Date.now()
+): Promise<{ url: string; expiresAt: string }> {
+  const expires = Math.floor(now / 1000) + ttlSeconds;
+  const key = await importMediaKey(env, 'sign');
+  const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(`${mediaId}.${expires}`));
+
+  const url = new URL(`/api/v1/media/${encodeURIComponent(mediaId)}/content`, baseUrl);
+  url.searchParams.set('expires', String(expires));
+  url.searchParams.set('signature', bytesToBase64Url(new Uint8Array(signature)));
+  return { url: url.toString(), expiresAt: new Date(expires * 1000).toISOString() };
+}
+
+/**
+ * Check a media URL signature and expiry (constant-time comparison via crypto.subtle.verify)
+ */
+export async function verifyMediaUrl(
+  env: Env,
+  mediaId: string,
+  expires: string | undefined,
+  signature: string | undefined,
+  now: number = Date.now()
+): Promise<boolean> {
+  if (!expires || !signature || !/^\d+$/.test(expires)) return false;
+  if (parseInt(expires, 10) * 1000 <= now) return false;
+
+  let digest: Uint8Array;
+  try {
+    digest = base64UrlToBytes(signature);
+  } catch {
+    return false;
+  }
+
+  const key = await importMediaKey(env, 'verify');
+  return crypto.subtle.verify('HMAC', key, digest, new TextEncoder().encode(`${mediaId}.${expires}`));
+}
+
+/**
+ * Read a response body, giving up (null) once it passes `maxBytes`
+ */
+export async function readLimited(response: Response, maxBytes: number): Promise<ArrayBuffer | null> {
+  const declared = parseInt(response.headers.get('Content-Length') || '', 10);
+  if (declared > maxBytes) {
+    await response.body?.cancel();
+    return null;
+  }
+  if (!response.body) {
+    return new ArrayBuffer(0);
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+
+  const bytes = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return bytes.buffer;
+}
+
+/**
+ * Download and store the media of an inbound message
+ * Each item is claimed by provider media ID first, so retried webhooks don't download twice;
+ * unsupported, oversized and undownloadable media is recorded with the reason instead.
+ * Throws RetryableDownloadError, after trying every item, when any may still be stored later
+ */
+export async function ingestMessageMedia(
+  env: Env,
+  db: Database,
+  provider: TelephonyProvider,
+  message: MessageObject
+): Promise<MediaIngestResult> {
+  const result: MediaIngestResult = { stored: 0, rejected: 0, failed: 0 };
+  const store = getMediaStore(env);
+  if (!store) {
+    console.log('Media storage not configured, skipping media:', { messageId: message.id });
+    return result;
+  }
+
+  let pending = 0;
+  const items = (message.media || []).slice(0, MAX_MEDIA_PER_MESSAGE);
+  for (const [position, media] of items.entries()) {
+    const providerMediaId = media.id || `${message.id}-${position}`;
+    const claimQuery = queries.createMessageMedia({
+      messageId: message.id,
+      providerMediaId,
+      direction: 'inbound',
+      position,
+      sourceUrl: media.url,
+      contentType: normalizeContentType(media.contentType),
+      sizeBytes: media.size || null,
+    });
+    const row = await db.queryOne<MessageMediaRow>(claimQuery.sql, claimQuery.params);
+    if (!row) {
+      // Still pending from an attempt that did not finish: come back once its claim is stale
+      const existingQuery = queries.getMessageMediaByProviderId(providerMediaId);
+      const existing = await db.queryOne<MessageMediaRow>(existingQuery.sql, existingQuery.params);
+      if (existing?.status === 'pending') pending++;
+      continue;
+    }
+
+    const status = await storeInboundMedia(env, db, store, provider, row, media.size || null);
+    if (status === 'retry') {
+      result.failed++;
+      pending++;
+    } else {
+      result[status]++;
+    }
+  }
+
+  if (pending > 0) {
+    throw new RetryableDownloadError(`${pending} media item(s) of message ${message.id} not stored yet`);
+  }
+  return result;
+}
+
+async function storeInboundMedia(
+  env: Env,
+  db: Database,
+  store: BlobStore,
+  provider: TelephonyProvider,
+  row: MessageMediaRow,
+  declaredSize: number | null
+): Promise<'stored' | 'rejected' | 'failed' | 'retry'> {
+  const record = async (update: Parameters<typeof queries.updateMessageMedia>[1]) => {
+    const query = queries.updateMessageMedia(row.id, update);
+    await db.execute(query.sql, query.params);
+    return update.status;
+  };
+  // Recorded as failed so the next attempt claims it again
+  const retry = async (error: string) => {
+    await record({ status: 'failed', error });
+    return 'retry' as const;
+  };
+
+  const rejection = validateMedia(row.content_type, declaredSize);
+  if (rejection) {
+    return record({ status: 'rejected', error: rejection });
+  }
+
+  try {
+    const response = await provider.downloadMedia(row.source_url!);
+    if (!response.ok) {
+      await response.body?.cancel();
+      const error = `Download failed: HTTP ${response.status}`;
+      return isRetryableDownloadStatus(response.status) ? retry(error) : record({ status: 'failed', error });
+    }
+
+    const contentType = normalizeContentType(response.headers.get('Content-Type')) || row.content_type;
+    const typeRejection = validateMedia(contentType, null);
+    if (typeRejection) {
+      await response.body?.cancel();
+      return record({ status: 'rejected', error: typeRejection });
+    }
+
+    const body = await readLimited(response, MAX_MEDIA_BYTES);
+    if (!body) {
+      return record({ status: 'rejected', error: `Media exceeds ${MAX_MEDIA_BYTES} bytes` });
+    }
+
+    const storageKey = `inbound/${row.message_id}/${row.id}`;
+    await store.put(storageKey, body, contentType!);
+    return record({ status: 'stored', storageKey, contentType, sizeBytes: body.byteLength });
+  } catch (error) {
+    console.error('Media download error:', { mediaId: row.id, error });
+    return retry(error instanceof Error ? error.message : 'Unknown error');
+  }
+}
+
+/**
+ * Validate and store an outbound upload; it is linked to a message when sent
+ */
+export async function storeUpload(
+  env: Env,
+  db: Database,
+  upload: { body: ArrayBuffer; contentType: string | null; uploadedBy: string }
+): Promise<MessageMediaRow> {
+  const store = getMediaStore(env);
+  if (!store) {
+    throw new Error('Media storage is not configured (MEDIA_BUCKET)');
+  }
+
+  const contentType = normalizeContentType(upload.contentType);
+  const rejection = validateMedia(contentType, upload.body.byteLength);
+  if (rejection) {
+    throw new MediaValidationError(rejection);
+  }
+  if (upload.body.byteLength === 0) {
+    throw new MediaValidationError('Media is empty');
+  }
+
+  const createQuery = queries.createMessageMedia({
+    messageId: null,
+    providerMediaId: null,
+    direction: 'outbound',
+    position: null,
+    sourceUrl: null,
+    contentType,
+    sizeBytes: upload.body.byteLength,
+    uploadedBy: upload.uploadedBy,
+  });
+  const row = await db.queryOne<MessageMediaRow>(createQuery.sql, createQuery.params);
+  if (!row) {
+    throw new Error('Media record was not created');
+  }
+
+  const storageKey = `outbound/${row.id}`;
+  await store.put(storageKey, upload.body, contentType!);
+
+  const storedQuery = queries.updateMessageMedia(row.id, { status: 'stored', storageKey });
+  await db.execute(storedQuery.sql, storedQuery.params);
+  return { ...row, status: 'stored', storage_key: storageKey };
+}
+
+/**
+ * Turn the attachments of a send request into URLs the provider can fetch:
+ * `mediaUrls` pass through, uploaded `mediaIds` become signed URLs on `baseUrl`
+ * Uploads must not have been sent yet and, unless `uploadedBy` is null (reception:admin), must
+ * have been uploaded by that identity
+ */
+export async function resolveOutboundMedia(
+  env: Env,
+  db: Database,
+  request: { mediaUrls?: string[]; mediaIds?: string[] },
+  baseUrl: string | null,
+  uploadedBy: string | null
+): Promise<{ mediaUrls: string[]; mediaIds: string[] }> {
+  const mediaUrls = request.mediaUrls ?? [];
+  const mediaIds = request.mediaIds ?? [];
+
+  if (mediaUrls.length + mediaIds.length > MAX_MEDIA_PER_MESSAGE) {
+    throw new MediaValidationError(`A message can carry at most ${MAX_MEDIA_PER_MESSAGE} attachments`);
+  }
+  if (mediaIds.length > 0 && !baseUrl) {
+    throw new MediaValidationError('PUBLIC_BASE_URL must be set to send uploaded media');
+  }
+
+  const signed: string[] = [];
+  for (const id of mediaIds) {
+    const query = queries.getSendableMedia(id, uploadedBy);
+    const media = await db.queryOne<MessageMediaRow>(query.sql, query.params);
+    if (!media) {
+      throw new MediaValidationError(`Media ${id} is not an unsent upload of this identity`);
+    }
+    signed.push((await signMediaUrl(env, baseUrl!, id, OUTBOUND_MEDIA_URL_TTL_SECONDS)).url);
+  }
+
+  return { mediaUrls: [...mediaUrls, ...signed], mediaIds };
+}
+
+/**
+ * Link sent uploads to the provider message
+ */
+export async function attachOutboundMedia(db: Database, mediaIds: string[], messageId: string): Promise<void> {
+  if (mediaIds.length === 0) return;
+  const query = queries.attachMediaToMessage(mediaIds, messageId);
+  await db.execute(query.sql, query.params);
+}
@@ -0,0 +1,126 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import {
+  OpenPhoneAuthError,
+  OpenPhoneRateLimitError,
+  OpenPhoneUpstreamError,
+  OpenPhoneValidationError,
+  TokenBucket,
+  createOpenPhoneError,
+  getOpenPhoneWebhookSecrets,
+  getRetryDelayMs,
+  parseRetryAfter,
+  parseOpenPhoneSignature,
+  signOpenPhoneWebhook,
+  verifyOpenPhoneWebhook,
+} from './openphone';
+
+const SECRET = 'c2lnbmluZy1rZXktb25l'; // base64("signing-key-one")
+const ROTATED_SECRET = 'c2lnbmluZy1rZXktdHdv'; // base64("signing-key-two")
+const PAYLOAD = JSON.stringify({ id: 'EV123', type: 'message.created' });
+const NOW = Date.UTC(2025, 2, 4, 16, 20, 0);
+
+describe('openphone webhook signatures', () => {
+  it('parses the scheme;version;timestamp;digest header format', () => {
+    expect(parseOpenPhoneSignature('hmac;1;1639710054089;mw1K4fvh5m9XzsGon4C5N3KvL0bkmPZSAyb/9Vc3Wm0=')).toEqual({
+      scheme: 'hmac',
+      version: '1',
+      timestamp: 1639710054089,
+      digest: 'mw1K4fvh5m9XzsGon4C5N3KvL0bkmPZSAyb/9Vc3Wm0=',
+    });
+    expect(parseOpenPhoneSignature('deadbeef')).toBeNull();
+    expect(parseOpenPhoneSignature('hmac;1;yesterday;abc=')).toBeNull();
+  });
+
+  it('accepts a signature made with an active secret', async () => {
+    const header = await signOpenPhoneWebhook(PAYLOAD, SECRET, NOW);
+    const result = await verifyOpenPhoneWebhook(PAYLOAD, header, [SECRET], { now: NOW + 1000 });
+
+    expect(result).toMatchObject({ valid: true, secretIndex: 0, skewSeconds: 1 });
+  });
+
+  it('accepts the previous secret during rotation', async () => {
+    const header = await signOpenPhoneWebhook(PAYLOAD, ROTATED_SECRET, NOW);
+    const result = await verifyOpenPhoneWebhook(PAYLOAD, header, [SECRET, ROTATED_SECRET], { now: NOW });
+
+    expect(result).toMatchObject({ valid: true, secretIndex: 1 });
+  });
+
+  it('rejects a tampered payload', async () => {
+    const header = await signOpenPhoneWebhook(PAYLOAD, SECRET, NOW);
+    const result = await verifyOpenPhoneWebhook(PAYLOAD.replace('EV123', 'EV999'), header, [SECRET], { now: NOW });
+
+    expect(result).toMatchObject({ valid: false, reason: 'signature_mismatch' });
+  });
+
+  it('rejects timestamps outside the skew tolerance', async () => {
+    const header = await signOpenPhoneWebhook(PAYLOAD, SECRET, NOW);
+
+    const late = await verifyOpenPhoneWebhook(PAYLOAD, header, [SECRET], { now: NOW + 301_000 });
+    const withinCustom = await verifyOpenPhoneWebhook(PAYLOAD, header, [SECRET], { now: NOW + 301_000, toleranceSeconds: 600 });
+
+    expect(late).toMatchObject({ valid: false, reason: 'timestamp_out_of_range', skewSeconds: 301 });
+    expect(withinCustom.valid).toBe(true);
+  });
+
+  it('reports missing, malformed and unsupported headers', async () => {
+    expect(await verifyOpenPhoneWebhook(PAYLOAD, undefined, [SECRET])).toMatchObject({ reason: 'missing_signature' });
+    expect(await verifyOpenPhoneWebhook(PAYLOAD, 'abc123', [SECRET])).toMatchObject({ reason: 'malformed_signature' });
+    expect(await verifyOpenPhoneWebhook(PAYLOAD, `hmac;2;${NOW};abc=`, [SECRET], { now: NOW })).toMatchObject({
+      reason: 'unsupported_scheme',
+    });
+  });
+
+  it('collects comma-separated and previous secrets', () => {
+    expect(
+      getOpenPhoneWebhookSecrets({
+        OPENPHONE_WEBHOOK_SECRET: `${SECRET}, ${ROTATED_SECRET}`,
+        OPENPHONE_WEBHOOK_SECRET_PREVIOUS: 'b2xkLWtleQ==',
+      })
+    ).toEqual([SECRET, ROTATED_SECRET, 'b2xkLWtleQ==']);
+  });
+});
+
+describe('openphone client resilience', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('maps response statuses to typed errors', () => {
+    expect(createOpenPhoneError(401, 'bad key')).toBeInstanceOf(OpenPhoneAuthError);
+    expect(createOpenPhoneError(422, { message: 'invalid to' })).toBeInstanceOf(OpenPhoneValidationError);
+    expect(createOpenPhoneError(429, {}, 3)).toMatchObject({ retryable: true, retryAfterSeconds: 3 });
+    expect(createOpenPhoneError(429, {})).toBeInstanceOf(OpenPhoneRateLimitError);
+    expect(createOpenPhoneError(503, 'down')).toMatchObject({ retryable: true, status: 503 });
+    expect(createOpenPhoneError(503, 'down')).toBeInstanceOf(OpenPhoneUpstreamError);
+    expect(createOpenPhoneError(404, 'missing')).toMatchObject({ name: 'OpenPhoneApiError', retryable: false });
+  });
+
+  it('parses Retry-After seconds and HTTP dates', () => {
+    expect(parseRetryAfter('5')).toBe(5);
+    expect(parseRetryAfter(new Date(NOW + 4000).toUTCString(), NOW)).toBe(4);
+    expect(parseRetryAfter('soon')).toBeNull();
+    expect(parseRetryAfter(null)).toBeNull();
+  });
+
+  it('honors Retry-After and otherwise backs off with jitter', () => {
+    expect(getRetryDelayMs(createOpenPhoneError(429, {}, 2), 0)).toBe(2000);
+    expect(getRetryDelayMs(createOpenPhoneError(429, {}, 120), 0)).toBeNull();
+    expect(getRetryDelayMs(createOpenPhoneError(503, {}), 0, () => 1)).toBe(500);
+    expect(getRetryDelayMs(createOpenPhoneError(503, {}), 2, () => 0.5)).toBe(1000);
+    expect(getRetryDelayMs(createOpenPhoneError(503, {}), 10, () => 1)).toBe(8000);
+    expect(getRetryDelayMs(createOpenPhoneError(400, {}), 0)).toBeNull();
+  });
+
+  it('allows a burst, then paces requests at the refill rate', async () => {
+    vi.useFakeTimers();
+    const bucket = new TokenBucket(2, 10);
+    const granted: number[] = [];
+    const start = Date.now();
+
+    const takes = [1, 2, 3, 4].map(() => bucket.take().then(() => granted.push(Date.now() - start)));
+    await vi.advanceTimersByTimeAsync(500);
+    await Promise.all(takes);
+
+    expect(granted).toEqual([0, 0, 100, 200]);
+  });
+});
@@ -1,70 +1,293 @@
 // OpenPhone API client
 
+import type { Env } from '@/types/env';
 import type {
+  CallObject,
+  CallRecordingObject,
+  CallTranscriptObject,
+  ContactInput,
+  ContactObject,
+  ConversationObject,
+  ListCallsParams,
+  ListContactsParams,
+  ListConversationsParams,
+  ListMessagesParams,
+  MessageObject,
+  OpenPhoneListResponse,
   OpenPhoneConfig,
+  OpenPhoneRequestOptions,
+  PhoneNumberObject,
+  OpenPhoneResponse,
   SendMessageRequest,
   SendMessageResponse,
   MakeCallRequest,
   MakeCallResponse,
+  ParsedWebhookSignature,
+  WebhookVerificationResult,
 } from '@/types/openphone';
 
+// Retry, timeout and rate-limit defaults; OpenPhone allows 10 requests per second per key
+const DEFAULT_TIMEOUT_MS = 10_000;
+const DEFAULT_MAX_RETRIES = 3;
+const BASE_RETRY_DELAY_MS = 500;
+const MAX_RETRY_DELAY_MS = 8_000;
+const MAX_RETRY_AFTER_MS = 60_000; // longer Retry-After waits are surfaced to the caller instead
+const DEFAULT_RATE_LIMIT = { requestsPerSecond: 10, burst: 10 };
+
+/**
+ * Base class for OpenPhone API failures
+ * `status` is null when no response was received (timeout or network error)
+ */
+export class OpenPhoneApiError extends Error {
+  readonly status: number | null;
+  readonly body: unknown;
+  readonly retryable: boolean;
+  readonly retryAfterSeconds: number | null;
+
+  constructor(
+    message: string,
+    options: { status?: number | null; body?: unknown; retryable?: boolean; retryAfterSeconds?: number | null; cause?: unknown } = {}
+  ) {
+    super(message, { cause: options.cause });
+    this.name = 'OpenPhoneApiError';
+    this.status = options.status ?? null;
+    this.body = options.body;
+    this.retryable = options.retryable ?? false;
+    this.retryAfterSeconds = options.retryAfterSeconds ?? null;
+  }
+}
+
+/** 401/403: the API key is missing, invalid or lacks access */
+export class OpenPhoneAuthError extends OpenPhoneApiError {
+  override name = 'OpenPhoneAuthError';
+}
+
+/** 400/422: OpenPhone rejected the request itself; retrying will not help */
+export class OpenPhoneValidationError extends OpenPhoneApiError {
+  override name = 'OpenPhoneValidationError';
+}
+
+/** 429: retried automatically; surfaced once retries are exhausted or Retry-After is too long */
+export class OpenPhoneRateLimitError extends OpenPhoneApiError {
+  override name = 'OpenPhoneRateLimitError';
+}
+
+/** 5xx, timeouts and network errors */
+export class OpenPhoneUpstreamError extends OpenPhoneApiError {
+  override name = 'OpenPhoneUpstreamError';
+}
+
+/**
+ * Parse a Retry-After header (delta-seconds or HTTP date) into seconds
+ */
+export function parseRetryAfter(value: string | null, now: number = Date.now()): number | null {
+  if (!value) return null;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds);
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, Math.ceil((date - now) / 1000));
+}
+
+/**
+ * Map a non-2xx response to a typed error
+ */
+export function createOpenPhoneError(status: number, body: unknown, retryAfterSeconds: number | null = null): OpenPhoneApiError {
+  const detail = typeof body === 'string' ? body : JSON.stringify(body);
+  const message = `OpenPhone API error: ${status} - ${detail}`;
+  const options = { status, body, retryAfterSeconds };
+
+  if (status === 401 || status === 403) return new OpenPhoneAuthError(message, options);
+  if (status === 400 || status === 422) return new OpenPhoneValidationError(message, options);
+  if (status === 429) return new OpenPhoneRateLimitError(message, { ...options, retryable: true });
+  if (status >= 500) return new OpenPhoneUpstreamError(message, { ...options, retryable: status !== 501 });
+  return new OpenPhoneApiError(message, options);
+}
+
+/**
+ * Delay before retry number `attempt` (0-based), or null when the error should not be retried
+ * Honors Retry-After; otherwise exponential backoff with full jitter: up to 0.5s, 1s, 2s, ... 8s
+ */
+export function getRetryDelayMs(error: OpenPhoneApiError, attempt: number, random: () => number = Math.random): number | null {
+  if (!error.retryable) return null;
+
+  if (error.retryAfterSeconds !== null) {
+    const delay = error.retryAfterSeconds * 1000;
+    return delay > MAX_RETRY_AFTER_MS ? null : delay;
+  }
+
+  const ceiling = Math.min(BASE_RETRY_DELAY_MS * 2 ** attempt, MAX_RETRY_DELAY_MS);
+  return Math.round(ceiling * random());
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Client-side token bucket: `burst` requests at once, refilled at `requestsPerSecond`
+ */
+export class TokenBucket {
+  private tokens: number;
+  private updatedAt = Date.now();
+
+  constructor(private capacity: number, private refillPerSecond: number) {
+    this.tokens = capacity;
+  }
+
+  /**
+   * Wait until a token is available and take it
+   */
+  async take(): Promise<void> {
+    for (;;) {
+      const now = Date.now();
+      this.tokens = Math.min(this.capacity, this.tokens + (Math.max(0, now - this.updatedAt) / 1000) * this.refillPerSecond);
+      this.updatedAt = now;
+
+      if (this.tokens >= 1) {
+        this.tokens -= 1;
+        return;
+      }
+      await sleep(Math.ceil(((1 - this.tokens) / this.refillPerSecond) * 1000));
+    }
+  }
+}
+
+// One bucket per API key and base URL, shared by every client in the isolate
+const rateLimiters = new Map<string, TokenBucket>();
+
 export class OpenPhoneClient {
   private apiKey: string;
   private baseUrl: string;
+  private timeoutMs: number;
+  private maxRetries: number;
+  private rateLimiter: TokenBucket;
 
   constructor(config: OpenPhoneConfig) {
     this.apiKey = config.apiKey;
     this.baseUrl = config.baseUrl || 'https://api.openphone.com/v1';
+    this.timeoutMs = config.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    this.maxRetries = config.maxRetries ?? DEFAULT_MAX_RETRIES;
+
+    const { requestsPerSecond, burst } = config.rateLimit || DEFAULT_RATE_LIMIT;
+    const limiterKey = `${this.baseUrl}|${this.apiKey}|${requestsPerSecond}|${burst}`;
+    if (!rateLimiters.has(limiterKey)) {
+      rateLimiters.set(limiterKey, new TokenBucket(burst, requestsPerSecond));
+    }
+    this.rateLimiter = rateLimiters.get(limiterKey)!;
   }
 
+  /**
+   * Send a request, retrying 429/5xx, timeouts and network errors
+   * Writes carry an Idempotency-Key so a retried send is never delivered twice
+   */
   private async request<T>(
     endpoint: string,
-    options: RequestInit = {}
+    options: RequestInit = {},
+    requestOptions: OpenPhoneRequestOptions = {}
   ): Promise<T> {
     const url = `${this.baseUrl}${endpoint}`;
+    const headers: Record<string, string> = {
+      'Authorization': `Bearer ${this.apiKey}`,
+      'Content-Type': 'application/json',
+      ...(options.headers as Record<string, string> | undefined),
+    };
+    if (requestOptions.idempotencyKey) {
+      headers['Idempotency-Key'] = requestOptions.idempotencyKey;
+    }
 
-    const response = await fetch(url, {
-      ...options,
-      headers: {
-        'Authorization': `Bearer ${this.apiKey}`,
-        'Content-Type': 'application/json',
-        ...options.headers,
-      },
-    });
+    for (let attempt = 0; ; attempt++) {
+      await this.rateLimiter.take();
+
+      let error: OpenPhoneApiError;
+      try {
+        const response = await this.fetchWithTimeout(url, { ...options, headers });
+        if (response.ok) {
+          return (await response.json()) as T;
+        }
 
-    if (!response.ok) {
-      const error = await response.text();
-      throw new Error(`OpenPhone API error: ${response.status} - ${error}`);
+        const text = await response.text();
+        let body: unknown = text;
+        try {
+          body = JSON.parse(text);
+        } catch {
+          // Plain-text error body
+        }
+        error = createOpenPhoneError(response.status, body, parseRetryAfter(response.headers.get('Retry-After')));
+      } catch (err) {
+        error =
+          err instanceof OpenPhoneApiError
+            ? err
+            : new OpenPhoneUpstreamError(`OpenPhone API request failed: ${err instanceof Error ? err.message : err}`, {
+                retryable: true,
+                cause: err,
+              });
+      }
+
+      const delay = attempt < this.maxRetries ? getRetryDelayMs(error, attempt) : null;
+      if (delay === null) {
+        throw error;
+      }
+
+      console.error('OpenPhone request failed, retrying:', {
+        endpoint,
+        status: error.status,
+        attempt: attempt + 1,
+        delayMs: delay,
+      });
+      await sleep(delay);
     }
+  }
 
-    return response.json();
+  private async fetchWithTimeout(url: string, init: RequestInit): Promise<Response> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.timeoutMs);
+
+    try {
+      return await fetch(url, { ...init, signal: controller.signal });
+    } catch (error) {
+      if (controller.signal.aborted) {
+        throw new OpenPhoneUpstreamError(`OpenPhone API request timed out after ${this.timeoutMs}ms`, {
+          retryable: true,
+          cause: error,
+        });
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+    }
   }
 
   /**
    * Send an SMS message
    */
-  async sendMessage(request: SendMessageRequest): Promise<SendMessageResponse> {
-    return this.request<SendMessageResponse>('/messages', {
-      method: 'POST',
-      body: JSON.stringify(request),
-    });
+  async sendMessage(request: SendMessageRequest, options: OpenPhoneRequestOptions = {}): Promise<SendMessageResponse> {
+    const response = await this.request<OpenPhoneResponse<SendMessageResponse>>(
+      '/messages',
+      { method: 'POST', body: JSON.stringify(request) },
+      { idempotencyKey: options.idempotencyKey || crypto.randomUUID() }
+    );
+    return response.data;
   }
 
   /**
    * Make an outbound call
    */
-  async makeCall(request: MakeCallRequest): Promise<MakeCallResponse> {
-    return this.request<MakeCallResponse>('/calls', {
-      method: 'POST',
-      body: JSON.stringify(request),
-    });
+  async makeCall(request: MakeCallRequest, options: OpenPhoneRequestOptions = {}): Promise<MakeCallResponse> {
+    const response = await this.request<OpenPhoneResponse<MakeCallResponse>>(
+      '/calls',
+      { method: 'POST', body: JSON.stringify(request) },
+      { idempotencyKey: options.idempotencyKey || crypto.randomUUID() }
+    );
+    return response.data;
   }
 
   /**
    * Get call details
    */
-  async getCall(callId: string) {
-    return this.request(`/calls/${callId}`, {
+  async getCall(callId: string): Promise<OpenPhoneResponse<CallObject>> {
+    return this.request<OpenPhoneResponse<CallObject>>(`/calls/${callId}`, {
       method: 'GET',
     });
   }
@@ -72,8 +295,8 @@ export class OpenPhoneClient {
   /**
    * Get message details
    */
-  async getMessage(messageId: string) {
-    return this.request(`/messages/${messageId}`, {
+  async getMessage(messageId: string): Promise<OpenPhoneResponse<MessageObject>> {
+    return this.request<OpenPhoneResponse<MessageObject>>(`/messages/${messageId}`, {
       method: 'GET',
     });
   }
@@ -81,45 +304,302 @@ export class OpenPhoneClient {
   /**
    * Get phone numbers
    */
-  async getPhoneNumbers() {
-    return this.request('/phone-numbers', {
+  async getPhoneNumbers(): Promise<OpenPhoneResponse<PhoneNumberObject[]>> {
+    return this.request<OpenPhoneResponse<PhoneNumberObject[]>>('/phone-numbers', {
       method: 'GET',
     });
   }
+
+  /**
+   * Iterate calls between one of our lines and a set of participants
+   */
+  listCalls(params: ListCallsParams): AsyncGenerator<CallObject> {
+    return this.paginate<CallObject>('/calls', params);
+  }
+
+  /**
+   * Iterate messages between one of our lines and a set of participants
+   */
+  listMessages(params: ListMessagesParams): AsyncGenerator<MessageObject> {
+    return this.paginate<MessageObject>('/messages', params);
+  }
+
+  /**
+   * Iterate conversations, optionally limited to some of our lines
+   */
+  listConversations(params: ListConversationsParams = {}): AsyncGenerator<ConversationObject> {
+    return this.paginate<ConversationObject>('/conversations', params);
+  }
+
+  /**
+   * Get one page of conversations; for callers that checkpoint between pages
+   */
+  getConversationsPage(params: ListConversationsParams, pageToken?: string | null): Promise<OpenPhoneListResponse<ConversationObject>> {
+    return this.getPage<ConversationObject>('/conversations', params, pageToken);
+  }
+
+  /**
+   * Iterate contacts, optionally by externalId or source
+   */
+  listContacts(params: ListContactsParams = {}): AsyncGenerator<ContactObject> {
+    return this.paginate<ContactObject>('/contacts', params);
+  }
+
+  /**
+   * Iterate the recordings of every call matching `params`
+   */
+  async *listCallRecordings(params: ListCallsParams): AsyncGenerator<CallRecordingObject & { callId: string }> {
+    for await (const call of this.listCalls(params)) {
+      for (const recording of await this.getCallRecordings(call.id)) {
+        yield { ...recording, callId: call.id };
+      }
+    }
+  }
+
+  /**
+   * Iterate the transcripts of every call matching `params`; calls without one are skipped
+   */
+  async *listCallTranscripts(params: ListCallsParams): AsyncGenerator<CallTranscriptObject> {
+    for await (const call of this.listCalls(params)) {
+      const transcript = await this.getCallTranscript(call.id);
+      if (transcript && transcript.status !== 'absent') {
+        yield transcript;
+      }
+    }
+  }
+
+  /**
+   * Get the recordings of a call
+   */
+  async getCallRecordings(callId: string): Promise<CallRecordingObject[]> {
+    const response = await this.request<OpenPhoneResponse<CallRecordingObject[]>>(`/call-recordings/${callId}`, {
+      method: 'GET',
+    });
+    return response.data;
+  }
+
+  /**
+   * Get the transcript of a call, or null when the call was not transcribed
+   */
+  async getCallTranscript(callId: string): Promise<CallTranscriptObject | null> {
+    try {
+      const response = await this.request<OpenPhoneResponse<CallTranscriptObject>>(`/call-transcripts/${callId}`, {
+        method: 'GET',
+      });
+      return response.data;
+    } catch (error) {
+      if (error instanceof OpenPhoneApiError && error.status === 404) return null;
+      throw error;
+    }
+  }
+
+  /**
+   * Get contact details
+   */
+  async getContact(contactId: string): Promise<ContactObject> {
+    const response = await this.request<OpenPhoneResponse<ContactObject>>(`/contacts/${contactId}`, {
+      method: 'GET',
+    });
+    return response.data;
+  }
+
+  /**
+   * Create a contact
+   */
+  async createContact(contact: ContactInput, options: OpenPhoneRequestOptions = {}): Promise<ContactObject> {
+    const response = await this.request<OpenPhoneResponse<ContactObject>>(
+      '/contacts',
+      { method: 'POST', body: JSON.stringify(contact) },
+      { idempotencyKey: options.idempotencyKey || crypto.randomUUID() }
+    );
+    return response.data;
+  }
+
+  /**
+   * Update a contact; fields that are left out keep their values
+   */
+  async updateContact(contactId: string, contact: Partial<ContactInput>): Promise<ContactObject> {
+    const response = await this.request<OpenPhoneResponse<ContactObject>>(`/contacts/${contactId}`, {
+      method: 'PATCH',
+      body: JSON.stringify(contact),
+    });
+    return response.data;
+  }
+
+  /**
+   * Follow nextPageToken through a listing endpoint, one request per page
+   */
+  private async *paginate<T>(endpoint: string, params: object): AsyncGenerator<T> {
+    let pageToken: string | null = null;
+    do {
+      const page: OpenPhoneListResponse<T> = await this.getPage<T>(endpoint, params, pageToken);
+      yield* page.data;
+      pageToken = page.nextPageToken;
+    } while (pageToken);
+  }
+
+  private getPage<T>(endpoint: string, params: object, pageToken?: string | null): Promise<OpenPhoneListResponse<T>> {
+    return this.request<OpenPhoneListResponse<T>>(`${endpoint}${buildQueryString({ ...params, pageToken })}`, {
+      method: 'GET',
+    });
+  }
+}
+
+/**
+ * Encode listing filters; arrays repeat the key (participants=a&participants=b)
+ */
+function buildQueryString(params: Record<string, unknown>): string {
+  const search = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value === undefined || value === null) continue;
+    for (const item of Array.isArray(value) ? value : [value]) {
+      search.append(key, String(item));
+    }
+  }
+
+  const query = search.toString();
+  return query ? `?${query}` : '';
 }
 
 /**
- * Verify OpenPhone webhook signature
+ * Create a client from worker bindings
+ * OPENPHONE_API_BASE_URL points the worker at another API, e.g. the local fake server
+ */
+export function createOpenPhoneClient(env: Pick<Env, 'OPENPHONE_API_KEY' | 'OPENPHONE_API_BASE_URL'>): OpenPhoneClient {
+  return new OpenPhoneClient({
+    apiKey: env.OPENPHONE_API_KEY,
+    baseUrl: env.OPENPHONE_API_BASE_URL || undefined,
+  });
+}
+
+// Default clock-skew tolerance for webhook timestamps
+const DEFAULT_SIGNATURE_TOLERANCE_SECONDS = 300;
+
+/**
+ * Parse an `openphone-signature` header: `<scheme>;<version>;<timestamp>;<base64 digest>`
+ */
+export function parseOpenPhoneSignature(header: string): ParsedWebhookSignature | null {
+  const parts = header.trim().split(';');
+  if (parts.length !== 4) {
+    return null;
+  }
+
+  const [scheme, version, timestampPart, digest] = parts;
+  const timestamp = Number(timestampPart);
+  if (!scheme || !version || !digest || !Number.isSafeInteger(timestamp)) {
+    return null;
+  }
+
+  return { scheme, version, timestamp, digest };
+}
+
+/**
+ * Collect the active webhook signing secrets.
+ * OPENPHONE_WEBHOOK_SECRET may hold several comma-separated keys (one per OpenPhone
+ * webhook); OPENPHONE_WEBHOOK_SECRET_PREVIOUS keeps a rotated-out key valid until removed.
+ */
+export function getOpenPhoneWebhookSecrets(env: {
+  OPENPHONE_WEBHOOK_SECRET: string;
+  OPENPHONE_WEBHOOK_SECRET_PREVIOUS?: string;
+}): string[] {
+  return [env.OPENPHONE_WEBHOOK_SECRET, env.OPENPHONE_WEBHOOK_SECRET_PREVIOUS]
+    .flatMap((value) => (value || '').split(','))
+    .map((value) => value.trim())
+    .filter(Boolean);
+}
+
+function base64ToBytes(value: string): Uint8Array {
+  const binary = atob(value);
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+function bytesToBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes));
+}
+
+async function importSigningKey(secret: string, usage: 'sign' | 'verify'): Promise<CryptoKey> {
+  // OpenPhone signing secrets are base64-encoded keys
+  return crypto.subtle.importKey(
+    'raw',
+    base64ToBytes(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    [usage]
+  );
+}
+
+/**
+ * Compute an `openphone-signature` header value for a payload
+ * Used by the replay tooling and local fake server to sign events the way OpenPhone does
+ */
+export async function signOpenPhoneWebhook(
+  payload: string,
+  secret: string,
+  timestamp: number = Date.now()
+): Promise<string> {
+  const key = await importSigningKey(secret, 'sign');
+  const signatureBuffer = await crypto.subtle.sign(
+    'HMAC',
+    key,
+    new TextEncoder().encode(`${timestamp}.${payload}`)
+  );
+
+  return `hmac;1;${timestamp};${bytesToBase64(new Uint8Array(signatureBuffer))}`;
+}
+
+/**
+ * Verify an OpenPhone webhook signature
+ * Checks the header format, rejects timestamps outside the skew tolerance, and tries
+ * each active secret using a constant-time HMAC comparison (crypto.subtle.verify)
  */
 export async function verifyOpenPhoneWebhook(
   payload: string,
-  signature: string,
-  secret: string
-): Promise<boolean> {
-  try {
-    // OpenPhone uses HMAC-SHA256 for webhook signatures
-    const encoder = new TextEncoder();
-    const key = await crypto.subtle.importKey(
-      'raw',
-      encoder.encode(secret),
-      { name: 'HMAC', hash: 'SHA-256' },
-      false,
-      ['sign']
-    );
+  header: string | undefined,
+  secrets: string[],
+  options: { toleranceSeconds?: number; now?: number } = {}
+): Promise<WebhookVerificationResult> {
+  if (!header) {
+    return { valid: false, reason: 'missing_signature' };
+  }
 
-    const signatureBuffer = await crypto.subtle.sign(
-      'HMAC',
-      key,
-      encoder.encode(payload)
-    );
+  const parsed = parseOpenPhoneSignature(header);
+  if (!parsed) {
+    return { valid: false, reason: 'malformed_signature' };
+  }
 
-    const expectedSignature = Array.from(new Uint8Array(signatureBuffer))
-      .map(b => b.toString(16).padStart(2, '0'))
-      .join('');
+  if (parsed.scheme !== 'hmac' || parsed.version !== '1') {
+    return { valid: false, reason: 'unsupported_scheme', timestamp: parsed.timestamp };
+  }
+
+  const tolerance = options.toleranceSeconds ?? DEFAULT_SIGNATURE_TOLERANCE_SECONDS;
+  const skewSeconds = Math.round(((options.now ?? Date.now()) - parsed.timestamp) / 1000);
+  if (Math.abs(skewSeconds) > tolerance) {
+    return { valid: false, reason: 'timestamp_out_of_range', timestamp: parsed.timestamp, skewSeconds };
+  }
 
-    return signature === expectedSignature;
-  } catch (error) {
-    console.error('Webhook verification error:', error);
-    return false;
+  if (secrets.length === 0) {
+    return { valid: false, reason: 'no_secret_configured', timestamp: parsed.timestamp, skewSeconds };
+  }
+
+  let digest: Uint8Array;
+  try {
+    digest = base64ToBytes(parsed.digest);
+  } catch {
+    return { valid: false, reason: 'malformed_signature', timestamp: parsed.timestamp, skewSeconds };
   }
+
+  const signedData = new TextEncoder().encode(`${parsed.timestamp}.${payload}`);
+
+  for (let i = 0; i < secrets.length; i++) {
+    try {
+      const key = await importSigningKey(secrets[i], 'verify');
+      if (await crypto.subtle.verify('HMAC', key, digest, signedData)) {
+        return { valid: true, timestamp: parsed.timestamp, skewSeconds, secretIndex: i };
+      }
+    } catch (error) {
+      console.error('Webhook verification error:', error);
+    }
+  }
+
+  return { valid: false, reason: 'signature_mismatch', timestamp: parsed.timestamp, skewSeconds };
 }
@@ -0,0 +1,33 @@
+// Cursor pagination helpers
+// Cursors are opaque base64url JSON tuples holding the sort key of the last row of a page
+
+/**
+ * Encode the sort key of the last row of a page
+ */
+export function encodeCursor(parts: string[]): string {
+  return btoa(JSON.stringify(parts)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Decode a cursor of `size` non-empty parts; null when it is malformed
+ */
+export function decodeCursor(value: string, size: number): string[] | null {
+  try {
+    const parts = JSON.parse(atob(value.replace(/-/g, '+').replace(/_/g, '/')));
+    if (!Array.isArray(parts) || parts.length !== size) return null;
+    return parts.every((part) => typeof part === 'string' && part.length > 0) ? parts : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Parse a `limit` query parameter: the default when absent, capped at `max`,
+ * null when it is not a positive integer
+ */
+export function parseLimit(value: string | undefined, defaultLimit: number, max: number): number | null {
+  if (value === undefined || value === '') return defaultLimit;
+  if (!/^\d+$/.test(value)) return null;
+  const limit = parseInt(value, 10);
+  return limit > 0 ? Math.min(limit, max) : null;
+}
@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import type { Env } from '@/types/env';
+import { DEFAULT_RATE_LIMITS, getRateLimitConfig, rateLimitHeaders, type RateLimitDenial } from './rate-limit';
+
+describe('getRateLimitConfig', () => {
+  it('uses the defaults unless RATE_LIMITS is set', () => {
+    expect(getRateLimitConfig({} as Env)).toBe(DEFAULT_RATE_LIMITS);
+
+    const limits = { 'reception:sms:send': [{ per: 'destination', limit: 1, window: 'day' }] };
+    expect(getRateLimitConfig({ RATE_LIMITS: JSON.stringify(limits) } as Env)).toEqual(limits);
+  });
+
+  it('refuses malformed limits instead of lifting them', () => {
+    for (const limits of [
+      { 'reception:sms:send': [{ per: 'phone', limit: 1, window: 60 }] },
+      { 'reception:sms:send': [{ per: 'token', limit: 0, window: 60 }] },
+      { 'reception:sms:send': [{ per: 'token', limit: 1, window: 'week' }] },
+      { 'reception:sms:sned': [] },
+    ]) {
+      expect(() => getRateLimitConfig({ RATE_LIMITS: JSON.stringify(limits) } as Env)).toThrow();
+    }
+  });
+});
+
+describe('rateLimitHeaders', () => {
+  it('reports the limit, what is left and when it resets', () => {
+    const denial: RateLimitDenial = {
+      scope: 'reception:sms:send',
+      rule: { per: 'token', limit: 30, window: 60 },
+      key: 'token:token-1',
+      remaining: 0,
+      resetAt: Date.parse('2025-03-04T22:42:18.250Z'),
+      retryAfterSeconds: 60,
+    };
+
+    expect(rateLimitHeaders(denial)).toEqual({
+      'Retry-After': '60',
+      'X-RateLimit-Limit': '30',
+      'X-RateLimit-Remaining': '0',
+      'X-RateLimit-Reset': '1741128139',
+    });
+  });
+});
@@ -0,0 +1,341 @@
+// Outbound rate limiting
+// Sliding-window limits and daily quotas on outbound actions (SMS, calls), configured per scope and
+// counted per token, identity, client IP or destination number. Each counter is a RateLimiter
+// Durable Object, so limits hold across isolates; hitting one alerts ChittyChronicle
+
+import { z } from 'zod';
+import type { Env } from '@/types/env';
+import { SCOPES, type Scope } from '@/lib/scopes';
+import { ChittyChronicleClient } from '@/lib/chittyos-integration';
+
+const DAY_MS = 86_400_000;
+
+const rateLimitRuleSchema = z.object({
+  /** What the counter is keyed on */
+  per: z.enum(['token', 'identity', 'ip', 'destination']),
+  limit: z.number().int().min(1),
+  /** Sliding window in seconds, or 'day' for a quota that resets at midnight UTC */
+  window: z.union([z.number().int().min(1).max(86_400), z.literal('day')]),
+});
+
+const rateLimitConfigSchema = z.partialRecord(z.enum(SCOPES), z.array(rateLimitRuleSchema));
+
+export type RateLimitRule = z.infer<typeof rateLimitRuleSchema>;
+export type RateLimitConfig = z.infer<typeof rateLimitConfigSchema>;
+
+/**
+ * Limits applied unless RATE_LIMITS overrides them
+ * Token, identity and IP counters count one per recipient; destination counters one per message
+ */
+export const DEFAULT_RATE_LIMITS: RateLimitConfig = {
+  'reception:sms:send': [
+    { per: 'token', limit: 30, window: 60 },
+    { per: 'ip', limit: 60, window: 60 },
+    { per: 'destination', limit: 5, window: 600 },
+    { per: 'identity', limit: 1000, window: 'day' },
+  ],
+  'reception:calls:write': [
+    { per: 'token', limit: 10, window: 60 },
+    { per: 'destination', limit: 3, window: 600 },
+  ],
+};
+
+/**
+ * The rate limits: RATE_LIMITS (JSON, scope → rules) when set, else the defaults
+ * A malformed RATE_LIMITS throws rather than silently lifting the limits; the error is a plain
+ * Error, so callers report a server fault rather than a ZodError about the request
+ */
+export function getRateLimitConfig(env: Env): RateLimitConfig {
+  if (!env.RATE_LIMITS) return DEFAULT_RATE_LIMITS;
+  try {
+    return rateLimitConfigSchema.parse(JSON.parse(env.RATE_LIMITS));
+  } catch (error) {
+    throw new Error('RATE_LIMITS is not a valid rate limit configuration', { cause: error });
+  }
+}
+
+/** Who is acting, as far as rate limits are concerned */
+export interface RateLimitCaller {
+  tokenId: string;
+  identityId: string;
+  ip?: string;
+}
+
+export interface RateLimitDenial {
+  scope: Scope;
+  rule: RateLimitRule;
+  /** The counter that is exhausted, e.g. `destination:+13125550147` */
+  key: string;
+  remaining: number;
+  /** Epoch milliseconds when the action would be allowed again */
+  resetAt: number;
+  retryAfterSeconds: number;
+}
+
+/** The hits an allowed action counted, taken back by refundRateLimitsOnFailure if it then fails */
+export interface RateLimitCharge {
+  scope: Scope;
+  hits: { rule: RateLimitRule; key: string; hitId: string }[];
+}
+
+/**
+ * Thrown when an action is over a rate limit (the MCP tools; REST routes answer 429 directly)
+ */
+export class RateLimitError extends Error {
+  constructor(public readonly denial: RateLimitDenial) {
+    super(describeDenial(denial));
+    this.name = 'RateLimitError';
+  }
+}
+
+interface ConsumeRequest {
+  limit: number;
+  window: number | 'day';
+  cost: number;
+}
+
+interface ConsumeResult {
+  allowed: boolean;
+  remaining: number;
+  resetAt: number;
+  /** Set when allowed, to take the hit back if another counter refuses or the action fails */
+  hitId?: string;
+  /** True for the first refusal in a window, so each exhausted counter alerts once */
+  alert: boolean;
+}
+
+interface Hit {
+  id: string;
+  at: number;
+  cost: number;
+}
+
+function windowStart(window: number | 'day', now: number): number {
+  return window === 'day' ? Math.floor(now / DAY_MS) * DAY_MS : now - window * 1000;
+}
+
+/**
+ * Durable Object holding one counter: the hits inside its window (a sliding log), or today's
+ * hits for a daily quota
+ */
+export class RateLimiter {
+  state: DurableObjectState;
+
+  constructor(state: DurableObjectState, _env: Env) {
+    this.state = state;
+  }
+
+  async fetch(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+
+    switch (url.pathname) {
+      case '/consume':
+        return Response.json(await this.consume(await request.json<ConsumeRequest>()));
+
+      case '/refund': {
+        const { hitId } = await request.json<{ hitId: string }>();
+        const hits = (await this.state.storage.get<Hit[]>('hits')) ?? [];
+        await this.state.storage.put('hits', hits.filter((hit) => hit.id !== hitId));
+        return Response.json({ success: true });
+      }
+
+      default:
+        return new Response('Not found', { status: 404 });
+    }
+  }
+
+  private async consume({ limit, window, cost }: ConsumeRequest): Promise<ConsumeResult> {
+    const now = Date.now();
+    const start = windowStart(window, now);
+    const hits = ((await this.state.storage.get<Hit[]>('hits')) ?? []).filter((hit) => hit.at > start);
+    const used = hits.reduce((sum, hit) => sum + hit.cost, 0);
+
+    if (used + cost > limit) {
+      const resetAt = window === 'day' ? start + DAY_MS : this.slidingResetAt(hits, used + cost - limit, window, now);
+      const alertedUntil = (await this.state.storage.get<number>('alertedUntil')) ?? 0;
+      const alert = now >= alertedUntil;
+      if (alert) await this.state.storage.put('alertedUntil', resetAt);
+      await this.state.storage.put('hits', hits);
+      return { allowed: false, remaining: Math.max(0, limit - used), resetAt, alert };
+    }
+
+    const hit = { id: crypto.randomUUID(), at: now, cost };
+    hits.push(hit);
+    await this.state.storage.put('hits', hits);
+
+    const resetAt = window === 'day' ? start + DAY_MS : hits[0].at + window * 1000;
+    return { allowed: true, remaining: limit - used - cost, resetAt, hitId: hit.id, alert: false };
+  }
+
+  /**
+   * When enough of the oldest hits leave the window to free `excess`
+   */
+  private slidingResetAt(hits: Hit[], excess: number, window: number, now: number): number {
+    let freed = 0;
+    for (const hit of hits) {
+      freed += hit.cost;
+      if (freed >= excess) return hit.at + window * 1000;
+    }
+    return now + window * 1000;
+  }
+}
+
+function counterKeys(rule: RateLimitRule, caller: RateLimitCaller, destinations: string[]): string[] {
+  switch (rule.per) {
+    case 'token':
+      return [caller.tokenId];
+    case 'identity':
+      return [caller.identityId];
+    case 'ip':
+      return caller.ip ? [caller.ip] : [];
+    case 'destination':
+      return [...new Set(destinations)];
+  }
+}
+
+function limiterStub(env: Env, scope: Scope, rule: RateLimitRule, key: string): DurableObjectStub {
+  return env.RATE_LIMITER.get(env.RATE_LIMITER.idFromName(`${scope}|${rule.window}|${key}`));
+}
+
+async function refundHits(env: Env, scope: Scope, hits: RateLimitCharge['hits']): Promise<void> {
+  await Promise.all(
+    hits.map(({ rule, key, hitId }) =>
+      limiterStub(env, scope, rule, key).fetch('https://rate-limiter/refund', {
+        method: 'POST',
+        body: JSON.stringify({ hitId }),
+      })
+    )
+  );
+}
+
+/**
+ * Count an action against every limit of its scope
+ * `denial` is null when allowed, with the hits counted in `charge`; otherwise the denial that lasts
+ * longest. A refused action is not counted anywhere, and each counter alerts ChittyChronicle the
+ * first time it refuses in a window
+ */
+export async function enforceRateLimits(
+  env: Env,
+  scope: Scope,
+  caller: RateLimitCaller,
+  destinations: string[]
+): Promise<{ denial: RateLimitDenial | null; charge: RateLimitCharge }> {
+  const rules = getRateLimitConfig(env)[scope] ?? [];
+  const checks = rules.flatMap((rule) =>
+    counterKeys(rule, caller, destinations).map((value) => ({
+      rule,
+      key: `${rule.per}:${value}`,
+      cost: rule.per === 'destination' ? 1 : Math.max(1, destinations.length),
+    }))
+  );
+  if (checks.length === 0) return { denial: null, charge: { scope, hits: [] } };
+
+  const results = await Promise.all(
+    checks.map(async (check) => {
+      const response = await limiterStub(env, scope, check.rule, check.key).fetch('https://rate-limiter/consume', {
+        method: 'POST',
+        body: JSON.stringify({ limit: check.rule.limit, window: check.rule.window, cost: check.cost }),
+      });
+      return { ...check, result: await response.json<ConsumeResult>() };
+    })
+  );
+
+  const hits = results.flatMap(({ rule, key, result }) => (result.hitId ? [{ rule, key, hitId: result.hitId }] : []));
+  const refused = results.filter(({ result }) => !result.allowed);
+  if (refused.length === 0) return { denial: null, charge: { scope, hits } };
+
+  await refundHits(env, scope, hits);
+
+  const denials = refused.map(({ rule, key, result }) => ({
+    scope,
+    rule,
+    key,
+    remaining: result.remaining,
+    resetAt: result.resetAt,
+    retryAfterSeconds: Math.max(1, Math.ceil((result.resetAt - Date.now()) / 1000)),
+  }));
+
+  const chronicle = new ChittyChronicleClient(env);
+  await Promise.all(
+    refused.map(async ({ result }, index) => {
+      if (!result.alert) return;
+      const denial = denials[index];
+      try {
+        await chronicle.logEvent({
+          service: 'chittyreception',
+          action: 'rate_limit.exceeded',
+          identityId: caller.identityId,
+          resourceType: 'api_token',
+          resourceId: caller.tokenId,
+          details: {
+            scope,
+            key: denial.key,
+            limit: denial.rule.limit,
+            window: denial.rule.window,
+            resetAt: new Date(denial.resetAt).toISOString(),
+          },
+          severity: 'warning',
+        });
+      } catch (error) {
+        console.error('Rate limit alert failed:', { key: denial.key, error });
+      }
+    })
+  );
+
+  const denial = denials.reduce((latest, denial) => (denial.resetAt > latest.resetAt ? denial : latest));
+  return { denial, charge: { scope, hits: [] } };
+}
+
+/**
+ * Run an action that enforceRateLimits allowed, taking its hits back if it throws (e.g. the
+ * provider refused the send), so failed actions do not use up the limits
+ * A failed refund is logged; the action's own error is what propagates
+ */
+export async function refundRateLimitsOnFailure<T>(env: Env, charge: RateLimitCharge, action: () => Promise<T>): Promise<T> {
+  try {
+    return await action();
+  } catch (error) {
+    try {
+      await refundHits(env, charge.scope, charge.hits);
+    } catch (refundError) {
+      console.error('Rate limit refund failed:', { scope: charge.scope, error: refundError });
+    }
+    throw error;
+  }
+}
+
+function describeDenial(denial: RateLimitDenial): string {
+  const { limit, window, per } = denial.rule;
+  const span = window === 'day' ? 'day' : `${window} seconds`;
+  const subject = per === 'destination' ? 'destination number' : per === 'ip' ? 'IP address' : per;
+  return `Rate limit exceeded: ${limit} per ${span} per ${subject}`;
+}
+
+/**
+ * The 429 error envelope for a denial
+ */
+export function rateLimitedBody(denial: RateLimitDenial) {
+  return {
+    success: false as const,
+    error: {
+      code: 'RATE_LIMITED' as const,
+      message: describeDenial(denial),
+      limit: denial.rule.limit,
+      window: denial.rule.window,
+      per: denial.rule.per,
+      resetAt: new Date(denial.resetAt).toISOString(),
+    },
+  };
+}
+
+/**
+ * Retry-After and X-RateLimit-* headers for a 429
+ */
+export function rateLimitHeaders(denial: RateLimitDenial): Record<string, string> {
+  return {
+    'Retry-After': String(denial.retryAfterSeconds),
+    'X-RateLimit-Limit': String(denial.rule.limit),
+    'X-RateLimit-Remaining': String(denial.remaining),
+    'X-RateLimit-Reset': String(Math.ceil(denial.resetAt / 1000)),
+  };
+}
@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import type { Env } from '@/types/env';
+import { getRecordingRetentionDays, parseRangeHeader } from './recordings';
+
+describe('parseRangeHeader', () => {
+  it('resolves bounded, open-ended and suffix ranges', () => {
+    expect(parseRangeHeader('bytes=0-99', 1000)).toEqual({ offset: 0, length: 100 });
+    expect(parseRangeHeader('bytes=900-', 1000)).toEqual({ offset: 900, length: 100 });
+    expect(parseRangeHeader('bytes=-200', 1000)).toEqual({ offset: 800, length: 200 });
+    // Ends past the object are clamped
+    expect(parseRangeHeader('bytes=500-5000', 1000)).toEqual({ offset: 500, length: 500 });
+    expect(parseRangeHeader('bytes=-5000', 1000)).toEqual({ offset: 0, length: 1000 });
+  });
+
+  it('serves the whole object for missing or unsupported ranges', () => {
+    expect(parseRangeHeader(undefined, 1000)).toBeNull();
+    expect(parseRangeHeader('bytes=0-1,5-9', 1000)).toBeNull();
+    expect(parseRangeHeader('items=0-9', 1000)).toBeNull();
+    expect(parseRangeHeader('bytes=-', 1000)).toBeNull();
+  });
+
+  it('flags ranges outside the object as unsatisfiable', () => {
+    expect(parseRangeHeader('bytes=1000-', 1000)).toBe('unsatisfiable');
+    expect(parseRangeHeader('bytes=20-10', 1000)).toBe('unsatisfiable');
+    expect(parseRangeHeader('bytes=-0', 1000)).toBe('unsatisfiable');
+  });
+});
+
+describe('getRecordingRetentionDays', () => {
+  it('keeps recordings indefinitely unless a positive number of days is configured', () => {
+    expect(getRecordingRetentionDays({ RECORDING_RETENTION_DAYS: '90' } as Env)).toBe(90);
+    expect(getRecordingRetentionDays({} as Env)).toBeNull();
+    expect(getRecordingRetentionDays({ RECORDING_RETENTION_DAYS: '0' } as Env)).toBeNull();
+    expect(getRecordingRetentionDays({ RECORDING_RETENTION_DAYS: 'forever' } as Env)).toBeNull();
+  });
+});
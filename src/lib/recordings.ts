@@ -0,0 +1,287 @@
+// Call recordings
+// Copies call and voicemail recordings out of the provider (whose URLs expire) into the
+// recordings bucket, parses playback Range headers and purges recordings past retention
+
+import type { Env } from '@/types/env';
+import type { RecordingObject } from '@/types/openphone';
+import type { TelephonyProvider } from '@/types/telephony';
+import type { Database } from '@/lib/database';
+import { queries } from '@/lib/database';
+import { OpenPhoneApiError } from '@/lib/openphone';
+import {
+  R2BlobStore,
+  RetryableDownloadError,
+  isRetryableDownloadStatus,
+  normalizeContentType,
+  readLimited,
+  type BlobRange,
+  type BlobStore,
+} from '@/lib/media';
+
+// Recordings are buffered before they are stored; about 50 minutes of 128 kbps MP3
+export const MAX_RECORDING_BYTES = 50 * 1024 * 1024;
+
+const PURGE_BATCH_SIZE = 100;
+const MAX_PURGE_BATCHES = 10;
+
+export type CallRecordingStatus = 'pending' | 'stored' | 'failed' | 'deleted';
+
+export interface CallRecordingRow {
+  id: string;
+  call_id: string | null;
+  voicemail_id: string | null;
+  source: 'call' | 'voicemail';
+  provider_recording_id: string;
+  source_url: string | null;
+  storage_key: string | null;
+  content_type: string | null;
+  size_bytes: number | null;
+  duration_seconds: number | null;
+  status: CallRecordingStatus;
+  error: string | null;
+  recorded_at: string | null;
+  deleted_at: string | null;
+  created_at: string;
+}
+
+export interface RecordingArchiveResult {
+  stored: number;
+  failed: number;
+}
+
+// 'retry' is a failure recorded as failed so the next attempt claims it again; 'pending' and
+// 'done' are recordings claimed by another attempt that is still running or already finished
+type ArchiveStatus = 'stored' | 'failed' | 'retry' | 'pending' | 'done';
+
+/**
+ * The configured recordings store, or null when no bucket is bound
+ */
+export function getRecordingStore(env: Env): BlobStore | null {
+  return env.RECORDINGS_BUCKET ? new R2BlobStore(env.RECORDINGS_BUCKET) : null;
+}
+
+/**
+ * Playback URL of an archived recording; `id` is the provider call or voicemail ID
+ */
+export function getRecordingPath(id: string): string {
+  return `/api/v1/calls/${encodeURIComponent(id)}/recording`;
+}
+
+/**
+ * Days recordings are kept, or null when they are kept indefinitely
+ */
+export function getRecordingRetentionDays(env: Env): number | null {
+  const days = parseInt(env.RECORDING_RETENTION_DAYS || '', 10);
+  return Number.isFinite(days) && days > 0 ? days : null;
+}
+
+/**
+ * Archive the recordings of a completed call and point reception_calls.recording_url at them
+ * Uses the recording in the webhook payload, else asks the provider for the call's recordings.
+ * Throws RetryableDownloadError, after trying every recording, when any may still be stored later
+ */
+export async function archiveCallRecordings(
+  env: Env,
+  db: Database,
+  provider: TelephonyProvider,
+  callId: string,
+  recording: RecordingObject | undefined
+): Promise<RecordingArchiveResult> {
+  const result: RecordingArchiveResult = { stored: 0, failed: 0 };
+  const store = getRecordingStore(env);
+  if (!store) {
+    console.log('Recording storage not configured, skipping recording:', { callId });
+    return result;
+  }
+
+  let recordings: RecordingObject[] = recording ? [recording] : [];
+  if (!recording) {
+    try {
+      recordings = await provider.getCallRecordings(callId);
+    } catch (error) {
+      console.error('Failed to list call recordings:', { callId, error });
+      // Rethrown so the queue retries; only a permanent OpenPhone API error gives up on them
+      if (!(error instanceof OpenPhoneApiError) || error.retryable) throw error;
+    }
+  }
+
+  let pending = 0;
+  for (const item of recordings) {
+    const status = await archiveRecording(db, store, provider, { source: 'call', callId, voicemailId: null }, item);
+    pending += countArchiveStatus(result, status);
+  }
+
+  if (result.stored > 0) {
+    const urlQuery = queries.setCallRecordingUrl(callId, getRecordingPath(callId));
+    await db.execute(urlQuery.sql, urlQuery.params);
+  }
+  if (pending > 0) {
+    throw new RetryableDownloadError(`${pending} recording(s) of call ${callId} not stored yet`);
+  }
+  return result;
+}
+
+/**
+ * Archive a voicemail recording; runs before the voicemail row exists, so the handler points
+ * recording_url at the copy (queries.setVoicemailRecordingUrl) once the row is written.
+ * Throws RetryableDownloadError when the recording may still be stored later
+ */
+export async function archiveVoicemailRecording(
+  env: Env,
+  db: Database,
+  provider: TelephonyProvider,
+  voicemailId: string,
+  recording: RecordingObject | undefined
+): Promise<RecordingArchiveResult> {
+  const result: RecordingArchiveResult = { stored: 0, failed: 0 };
+  const store = getRecordingStore(env);
+  if (!store || !recording?.url) {
+    return result;
+  }
+
+  const status = await archiveRecording(db, store, provider, { source: 'voicemail', callId: null, voicemailId }, recording);
+  if (countArchiveStatus(result, status) > 0) {
+    throw new RetryableDownloadError(`Recording of voicemail ${voicemailId} not stored yet`);
+  }
+  return result;
+}
+
+/**
+ * Add an archive outcome to `result`; 1 when the recording is still to be stored
+ */
+function countArchiveStatus(result: RecordingArchiveResult, status: ArchiveStatus): number {
+  if (status === 'retry') {
+    result.failed++;
+    return 1;
+  }
+  if (status === 'stored' || status === 'failed') result[status]++;
+  return status === 'pending' ? 1 : 0;
+}
+
+/**
+ * Claim, download and store one recording
+ */
+async function archiveRecording(
+  db: Database,
+  store: BlobStore,
+  provider: TelephonyProvider,
+  owner: { source: 'call' | 'voicemail'; callId: string | null; voicemailId: string | null },
+  recording: RecordingObject
+): Promise<ArchiveStatus> {
+  const claimQuery = queries.createCallRecording({
+    ...owner,
+    providerRecordingId: recording.id,
+    sourceUrl: recording.url,
+    durationSeconds: recording.duration ?? null,
+    recordedAt: recording.createdAt || new Date().toISOString(),
+  });
+  const row = await db.queryOne<CallRecordingRow>(claimQuery.sql, claimQuery.params);
+  if (!row) {
+    // Still pending from an attempt that did not finish: come back once its claim is stale
+    const existingQuery = queries.getCallRecordingByProviderId(recording.id);
+    const existing = await db.queryOne<CallRecordingRow>(existingQuery.sql, existingQuery.params);
+    return existing?.status === 'pending' ? 'pending' : 'done';
+  }
+
+  const record = async (update: Parameters<typeof queries.updateCallRecording>[1]) => {
+    const query = queries.updateCallRecording(row.id, update);
+    await db.execute(query.sql, query.params);
+    return update.status;
+  };
+  const retry = async (error: string) => {
+    await record({ status: 'failed', error });
+    return 'retry' as const;
+  };
+
+  try {
+    const response = await provider.downloadMedia(recording.url);
+    if (!response.ok) {
+      await response.body?.cancel();
+      const error = `Download failed: HTTP ${response.status}`;
+      return isRetryableDownloadStatus(response.status) ? retry(error) : record({ status: 'failed', error });
+    }
+
+    const body = await readLimited(response, MAX_RECORDING_BYTES);
+    if (!body) {
+      return record({ status: 'failed', error: `Recording exceeds ${MAX_RECORDING_BYTES} bytes` });
+    }
+
+    // Providers serve recordings as MP3 unless they say otherwise
+    const contentType = normalizeContentType(response.headers.get('Content-Type')) || 'audio/mpeg';
+    const storageKey = `recordings/${row.source}/${row.id}`;
+    await store.put(storageKey, body, contentType);
+    return record({ status: 'stored', storageKey, contentType, sizeBytes: body.byteLength });
+  } catch (error) {
+    console.error('Recording download error:', { recordingId: row.id, error });
+    return retry(error instanceof Error ? error.message : 'Unknown error');
+  }
+}
+
+/**
+ * Parse a single-range `Range` header against an object of `size` bytes
+ * Returns null to serve the whole object (no header, or a form we don't support, such as
+ * several ranges) and 'unsatisfiable' when the range lies outside the object
+ */
+export function parseRangeHeader(header: string | undefined, size: number): BlobRange | 'unsatisfiable' | null {
+  const match = header?.trim().match(/^bytes=(\d*)-(\d*)$/);
+  if (!match || (!match[1] && !match[2])) return null;
+
+  if (!match[1]) {
+    // Suffix range: the last N bytes
+    const suffix = parseInt(match[2], 10);
+    if (suffix === 0 || size === 0) return 'unsatisfiable';
+    const length = Math.min(suffix, size);
+    return { offset: size - length, length };
+  }
+
+  const start = parseInt(match[1], 10);
+  const end = match[2] ? Math.min(parseInt(match[2], 10), size - 1) : size - 1;
+  if (start >= size || end < start) return 'unsatisfiable';
+  return { offset: start, length: end - start + 1 };
+}
+
+/**
+ * Delete stored recordings older than RECORDING_RETENTION_DAYS (run by the daily cron)
+ * Rows are kept as 'deleted' so playback can tell an expired recording from a missing one
+ */
+export async function purgeExpiredRecordings(
+  env: Env,
+  db: Database,
+  now: number = Date.now()
+): Promise<{ deleted: number; cutoff: string | null }> {
+  const days = getRecordingRetentionDays(env);
+  const store = getRecordingStore(env);
+  if (!days || !store) {
+    return { deleted: 0, cutoff: null };
+  }
+
+  const cutoff = new Date(now - days * 24 * 60 * 60 * 1000).toISOString();
+  let deleted = 0;
+
+  for (let batch = 0; batch < MAX_PURGE_BATCHES; batch++) {
+    const listQuery = queries.listExpiredCallRecordings(cutoff, PURGE_BATCH_SIZE);
+    const rows = await db.query<CallRecordingRow>(listQuery.sql, listQuery.params);
+
+    for (const row of rows) {
+      if (row.storage_key) {
+        await store.delete(row.storage_key);
+      }
+      const deleteQuery = queries.markCallRecordingDeleted(row.id);
+      await db.execute(deleteQuery.sql, deleteQuery.params);
+      deleted++;
+    }
+
+    if (rows.length < PURGE_BATCH_SIZE) break;
+  }
+
+  if (deleted > 0) {
+    const auditQuery = queries.createAuditLog(null, 'recordings.purged', 'call_recording', cutoff, {
+      deleted,
+      retentionDays: days,
+    });
+    await db.execute(auditQuery.sql, auditQuery.params);
+  }
+
+  console.log('Recording retention purge:', { deleted, cutoff });
+  return { deleted, cutoff };
+}
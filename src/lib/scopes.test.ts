@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { expandScopes, getMissingScopes, hasScope, isScopePattern } from './scopes';
+
+describe('hasScope', () => {
+  it('matches exact scopes', () => {
+    expect(hasScope(['reception:sms:send'], 'reception:sms:send')).toBe(true);
+    expect(hasScope(['reception:sms:send'], 'reception:calls:write')).toBe(false);
+  });
+
+  it('matches wildcards at a segment boundary', () => {
+    expect(hasScope(['reception:*'], 'reception:recordings:read')).toBe(true);
+    expect(hasScope(['reception:history:*'], 'reception:history:export')).toBe(true);
+    expect(hasScope(['reception:history:*'], 'reception:sms:send')).toBe(false);
+    expect(hasScope(['reception:media*'], 'reception:media:read')).toBe(false);
+    expect(hasScope(['*'], 'reception:admin')).toBe(true);
+  });
+});
+
+describe('getMissingScopes', () => {
+  it('lists the required scopes that are not granted', () => {
+    expect(
+      getMissingScopes(['reception:voicemails:*'], ['reception:voicemails:write', 'reception:admin', 'reception:sms:send'])
+    ).toEqual(['reception:admin', 'reception:sms:send']);
+  });
+});
+
+describe('isScopePattern', () => {
+  it('accepts catalog scopes and wildcards that cover one', () => {
+    expect(isScopePattern('reception:sms:send')).toBe(true);
+    expect(isScopePattern('reception:history:*')).toBe(true);
+    expect(isScopePattern('*')).toBe(false);
+    expect(isScopePattern('*:*')).toBe(false);
+    expect(isScopePattern('reception:sms:*:*')).toBe(false);
+    expect(isScopePattern('billing:*')).toBe(false);
+    expect(isScopePattern('reception:sms')).toBe(false);
+  });
+});
+
+describe('expandScopes', () => {
+  it('expands wildcards to catalog scopes', () => {
+    expect(expandScopes(['reception:voicemails:*', 'reception:admin'])).toEqual([
+      'reception:voicemails:read',
+      'reception:voicemails:write',
+      'reception:admin',
+    ]);
+  });
+});
@@ -0,0 +1,88 @@
+// API token scopes
+// The catalog of scopes ChittyReception checks, and matching of granted scopes (with wildcards)
+// against the scopes a route or MCP tool requires
+
+export const SCOPE_CATALOG = {
+  'reception:sms:send': 'Send SMS/MMS (POST /api/v1/send-message, send_sms)',
+  'reception:calls:write': 'Place outbound calls (POST /api/v1/make-call, make_call)',
+  'reception:history:read':
+    'Read call and message history, calls, contact timelines and guest lookups (get_call_history, get_message_history, search_guest_by_phone, get_conversation_context)',
+  'reception:history:export': 'Export call and message history (GET /api/v1/exports/*)',
+  'reception:messages:body:read': 'Include message bodies in history exports',
+  'reception:recordings:read': 'Play call and voicemail recordings',
+  'reception:voicemails:read': 'List voicemails',
+  'reception:voicemails:write': 'Assign voicemails and mark them handled',
+  'reception:media:read': 'Look up message media',
+  'reception:media:write': 'Upload outbound MMS media',
+  'reception:contacts:write': 'Sync identities to OpenPhone contacts',
+  'reception:admin':
+    'Operate the service: webhook events, dead letters, backfill jobs, phone line settings and diagnostics',
+  'reception:tokens:any_identity': 'Mint and manage API tokens of other identities (with reception:admin)',
+} as const;
+
+export type Scope = keyof typeof SCOPE_CATALOG;
+
+export const SCOPES = Object.keys(SCOPE_CATALOG) as Scope[];
+
+/**
+ * Whether the granted scopes cover `scope`
+ * A granted scope ending in `:*` covers every scope under it (`reception:*`, `reception:history:*`);
+ * `*` covers everything
+ */
+export function hasScope(granted: readonly string[], scope: Scope): boolean {
+  return granted.some(
+    (pattern) => pattern === scope || pattern === '*' || (pattern.endsWith(':*') && scope.startsWith(pattern.slice(0, -1)))
+  );
+}
+
+/**
+ * Whether `pattern` can be granted here: a catalog scope or a `reception:` wildcard covering at
+ * least one. `*` and other services' scopes are left to the services that own them
+ */
+export function isScopePattern(pattern: string): boolean {
+  return pattern.endsWith(':*')
+    ? pattern.startsWith('reception:') && expandScopes([pattern]).length > 0
+    : Object.hasOwn(SCOPE_CATALOG, pattern);
+}
+
+/**
+ * The catalog scopes the granted scopes cover, wildcards expanded
+ */
+export function expandScopes(granted: readonly string[]): Scope[] {
+  return SCOPES.filter((scope) => hasScope(granted, scope));
+}
+
+/**
+ * The required scopes the granted scopes do not cover
+ */
+export function getMissingScopes(granted: readonly string[], required: readonly Scope[]): Scope[] {
+  return required.filter((scope) => !hasScope(granted, scope));
+}
+
+/**
+ * Thrown when a token lacks the scopes an operation needs
+ */
+export class MissingScopesError extends Error {
+  constructor(public readonly missingScopes: Scope[]) {
+    super(describeMissingScopes(missingScopes));
+    this.name = 'MissingScopesError';
+  }
+}
+
+/**
+ * The 403 error envelope for missing scopes
+ */
+export function forbiddenBody(missingScopes: Scope[]) {
+  return {
+    success: false as const,
+    error: {
+      code: 'FORBIDDEN' as const,
+      message: describeMissingScopes(missingScopes),
+      missingScopes,
+    },
+  };
+}
+
+function describeMissingScopes(missingScopes: Scope[]): string {
+  return `Missing required scope${missingScopes.length > 1 ? 's' : ''}: ${missingScopes.join(', ')}`;
+}
@@ -0,0 +1,152 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import type { Env } from '@/types/env';
+import {
+  createServiceJwt,
+  DEFAULT_SERVICE_REGISTRY,
+  getServiceRegistry,
+  isServiceRouteAllowed,
+  signServiceRequest,
+  verifyServiceRequest,
+  type ServiceRequest,
+} from './service-auth';
+
+const NOW = Date.parse('2025-03-04T22:41:18Z');
+
+// A KV namespace that forgets nothing, for the replay cache
+function memoryKv(): KVNamespace {
+  const values = new Map<string, string>();
+  return {
+    get: async (key: string) => values.get(key) ?? null,
+    put: async (key: string, value: string) => void values.set(key, value),
+  } as unknown as KVNamespace;
+}
+
+const baseEnv = {
+  CHITTY_ROUTER_SERVICE_TOKEN: 'router-secret',
+  CHITTY_ROUTER_SERVICE_TOKEN_PREVIOUS: 'router-secret-old',
+  CHITTY_CONNECT_SERVICE_TOKEN: 'connect-secret',
+} as Env;
+
+let env: Env;
+beforeEach(() => {
+  env = { ...baseEnv, RECEPTION_KV: memoryKv() };
+});
+
+const ROUTING = { method: 'POST', pathAndQuery: '/internal/v1/calls/AC1/routing', body: '{"action":"voicemail"}' };
+
+async function signed(secret: string, overrides: Partial<ServiceRequest> = {}, signedAt: number = NOW) {
+  const headers = await signServiceRequest('ChittyRouter', secret, ROUTING, signedAt);
+  return {
+    ...ROUTING,
+    headers: {
+      serviceName: headers['X-Service-Name'],
+      timestamp: headers['X-Service-Timestamp'],
+      signature: headers['X-Service-Signature'],
+    },
+    ...overrides,
+  };
+}
+
+describe('isServiceRouteAllowed', () => {
+  const router = DEFAULT_SERVICE_REGISTRY.ChittyRouter;
+
+  it('matches one path segment per wildcard', () => {
+    expect(isServiceRouteAllowed(router, 'POST', '/internal/v1/calls/AC1/routing')).toBe(true);
+    expect(isServiceRouteAllowed(router, 'post', '/internal/v1/calls/AC1/routing')).toBe(true);
+    expect(isServiceRouteAllowed(router, 'POST', '/internal/v1/calls//routing')).toBe(false);
+    expect(isServiceRouteAllowed(router, 'POST', '/internal/v1/calls/AC1/extra/routing')).toBe(false);
+    expect(isServiceRouteAllowed(router, 'GET', '/internal/v1/calls/AC1/routing')).toBe(false);
+    expect(isServiceRouteAllowed(router, 'POST', '/internal/v1/tokens/revoked')).toBe(false);
+  });
+});
+
+describe('getServiceRegistry', () => {
+  it('reads SERVICE_REGISTRY and refuses a malformed one', () => {
+    const registry = { ChittyEvidence: { secretEnv: 'CHITTY_EVIDENCE_SERVICE_TOKEN', routes: ['POST /internal/v1/x'] } };
+    expect(getServiceRegistry({ ...baseEnv, SERVICE_REGISTRY: JSON.stringify(registry) })).toEqual(registry);
+    expect(() => getServiceRegistry({ ...baseEnv, SERVICE_REGISTRY: '{"ChittyEvidence":{"routes":"*"}}' })).toThrow();
+  });
+});
+
+describe('verifyServiceRequest with HMAC signatures', () => {
+  it('accepts the current and the rotated-out secret', async () => {
+    for (const secret of ['router-secret', 'router-secret-old']) {
+      expect(await verifyServiceRequest(env, await signed(secret), NOW)).toMatchObject({
+        valid: true,
+        serviceName: 'ChittyRouter',
+        method: 'hmac',
+      });
+    }
+  });
+
+  it('rejects tampered, stale, unknown and unsigned requests', async () => {
+    const cases: [Promise<ServiceRequest>, string][] = [
+      [signed('router-secret', { body: '{"action":"block"}' }), 'signature_mismatch'],
+      [signed('router-secret', { pathAndQuery: '/internal/v1/calls/AC2/routing' }), 'signature_mismatch'],
+      [signed('another-secret'), 'signature_mismatch'],
+      [signed('router-secret', {}, NOW - 301_000), 'timestamp_out_of_range'],
+      [
+        signed('router-secret').then((request) => ({ ...request, headers: { ...request.headers, serviceName: 'Mallory' } })),
+        'unknown_service',
+      ],
+      [Promise.resolve({ ...ROUTING, headers: {} }), 'missing_credentials'],
+    ];
+
+    for (const [request, reason] of cases) {
+      expect(await verifyServiceRequest(env, await request, NOW)).toEqual({ valid: false, reason });
+    }
+  });
+
+  it('accepts each signature once', async () => {
+    const request = await signed('router-secret');
+
+    expect(await verifyServiceRequest(env, request, NOW)).toMatchObject({ valid: true });
+    expect(await verifyServiceRequest(env, request, NOW + 1000)).toEqual({ valid: false, reason: 'replayed' });
+  });
+
+  it('fails closed when the service has no secret', async () => {
+    const request = await signed('router-secret');
+    expect(await verifyServiceRequest({ ...env, CHITTY_ROUTER_SERVICE_TOKEN: undefined, CHITTY_ROUTER_SERVICE_TOKEN_PREVIOUS: undefined }, request, NOW)).toEqual({
+      valid: false,
+      reason: 'no_secret_configured',
+    });
+  });
+});
+
+describe('verifyServiceRequest with JWTs', () => {
+  const withToken = (token: string): ServiceRequest => ({ ...ROUTING, headers: { authorization: `Bearer ${token}` } });
+
+  it("accepts a short-lived token signed with the service's current or rotated-out secret", async () => {
+    expect(await verifyServiceRequest(env, withToken(await createServiceJwt('ChittyRouter', 'router-secret', 60, NOW)), NOW)).toMatchObject({
+      valid: true,
+      serviceName: 'ChittyRouter',
+      method: 'jwt',
+    });
+    expect(await verifyServiceRequest(env, withToken(await createServiceJwt('ChittyRouter', 'router-secret-old', 60, NOW)), NOW)).toMatchObject({
+      valid: true,
+    });
+  });
+
+  it('accepts each JWT ID once', async () => {
+    const token = await createServiceJwt('ChittyConnect', 'connect-secret', 60, NOW);
+
+    expect(await verifyServiceRequest(env, withToken(token), NOW)).toMatchObject({ valid: true });
+    expect(await verifyServiceRequest(env, withToken(token), NOW + 1000)).toEqual({ valid: false, reason: 'replayed' });
+  });
+
+  it('rejects expired, long-lived, forged, impersonating and unregistered tokens', async () => {
+    const cases: [string, string][] = [
+      [await createServiceJwt('ChittyConnect', 'connect-secret', 60, NOW - 61_000), 'token_expired'],
+      [await createServiceJwt('ChittyConnect', 'connect-secret', 3600, NOW), 'token_lifetime_too_long'],
+      [await createServiceJwt('ChittyConnect', 'guessed-secret', 60, NOW), 'signature_mismatch'],
+      // Another service's secret does not sign for ChittyConnect
+      [await createServiceJwt('ChittyConnect', 'router-secret', 60, NOW), 'signature_mismatch'],
+      [await createServiceJwt('Mallory', 'connect-secret', 60, NOW), 'unknown_service'],
+      ['not-a-jwt', 'malformed_token'],
+    ];
+
+    for (const [token, reason] of cases) {
+      expect(await verifyServiceRequest(env, withToken(token), NOW)).toEqual({ valid: false, reason });
+    }
+  });
+});
@@ -0,0 +1,323 @@
+// Service-to-service authentication
+// ChittyOS services call /internal/v1 with either an HMAC-signed request (method, path, timestamp
+// and body hash) or a short-lived HS256 JWT, both keyed with the service's own secret; a registry
+// names the services allowed in and the routes each may call. Each signature and JWT ID is accepted
+// once. Secrets rotate by keeping the previous one valid until it is removed
+
+import { z } from 'zod';
+import type { Env } from '@/types/env';
+
+// Signed requests and JWTs are accepted within this clock skew
+export const SERVICE_AUTH_TOLERANCE_SECONDS = 300;
+
+// A service JWT may live at most this long (exp - iat)
+export const MAX_SERVICE_JWT_LIFETIME_SECONDS = 300;
+
+// JWT audience a service must name
+export const SERVICE_JWT_AUDIENCE = 'chittyreception';
+
+// KV keeps keys for at least this long
+const MIN_REPLAY_TTL_SECONDS = 60;
+
+// Longest JWT ID kept in the replay cache
+const MAX_JWT_ID_LENGTH = 128;
+
+const serviceRegistrationSchema = z.object({
+  /** Env var holding the HMAC and JWT secret; `<secretEnv>_PREVIOUS` holds the rotated-out one */
+  secretEnv: z.string().regex(/^[A-Z][A-Z0-9_]*$/),
+  /** `METHOD /path` patterns; `*` matches one path segment */
+  routes: z.array(z.string().regex(/^[A-Z]+ \/\S*$/)),
+});
+
+const serviceRegistrySchema = z.record(z.string().min(1), serviceRegistrationSchema);
+
+export type ServiceRegistration = z.infer<typeof serviceRegistrationSchema>;
+export type ServiceRegistry = z.infer<typeof serviceRegistrySchema>;
+
+/**
+ * Services allowed to call /internal/v1, unless SERVICE_REGISTRY overrides them
+ */
+export const DEFAULT_SERVICE_REGISTRY: ServiceRegistry = {
+  ChittyRouter: {
+    secretEnv: 'CHITTY_ROUTER_SERVICE_TOKEN',
+    routes: ['POST /internal/v1/calls/*/routing'],
+  },
+  ChittyConnect: {
+    secretEnv: 'CHITTY_CONNECT_SERVICE_TOKEN',
+    routes: ['POST /internal/v1/contacts/*/sync'],
+  },
+  ChittyAuth: {
+    secretEnv: 'CHITTY_AUTH_SERVICE_TOKEN',
+    routes: ['POST /internal/v1/tokens/revoked'],
+  },
+};
+
+/**
+ * The service registry: SERVICE_REGISTRY (JSON) when set, else the defaults
+ * A malformed SERVICE_REGISTRY throws rather than falling back, so a typo never widens access
+ */
+export function getServiceRegistry(env: Env): ServiceRegistry {
+  if (!env.SERVICE_REGISTRY) return DEFAULT_SERVICE_REGISTRY;
+  return serviceRegistrySchema.parse(JSON.parse(env.SERVICE_REGISTRY));
+}
+
+/**
+ * Whether a registration permits `method path`
+ */
+export function isServiceRouteAllowed(registration: ServiceRegistration, method: string, path: string): boolean {
+  const segments = path.split('/');
+  return registration.routes.some((route) => {
+    const [routeMethod, routePath] = route.split(' ');
+    const routeSegments = routePath.split('/');
+    return (
+      routeMethod === method.toUpperCase() &&
+      routeSegments.length === segments.length &&
+      routeSegments.every((segment, i) => segment === segments[i] || (segment === '*' && segments[i] !== ''))
+    );
+  });
+}
+
+/**
+ * A service's signing secrets, current first
+ */
+export function getServiceSecrets(env: Env, registration: ServiceRegistration): string[] {
+  const vars = env as unknown as Record<string, string | undefined>;
+  return [registration.secretEnv, `${registration.secretEnv}_PREVIOUS`]
+    .map((name) => vars[name]?.trim() || '')
+    .filter(Boolean);
+}
+
+function bytesToBase64Url(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function base64UrlToBytes(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  return Uint8Array.from(atob(base64), (char) => char.charCodeAt(0));
+}
+
+function importHmacKey(secret: string, usage: 'sign' | 'verify'): Promise<CryptoKey> {
+  return crypto.subtle.importKey('raw', new TextEncoder().encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, [
+    usage,
+  ]);
+}
+
+async function sha256Hex(body: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(body));
+  return [...new Uint8Array(digest)].map((byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * The string a service signs: `<METHOD>\n<path and query>\n<unix timestamp>\n<hex SHA-256 of the body>`
+ */
+export async function canonicalServiceRequest(
+  method: string,
+  pathAndQuery: string,
+  timestamp: number,
+  body: string
+): Promise<string> {
+  return `${method.toUpperCase()}\n${pathAndQuery}\n${timestamp}\n${await sha256Hex(body)}`;
+}
+
+/**
+ * Headers for an HMAC-signed service request
+ * Used by the replay tooling and tests; calling services implement the same scheme
+ */
+export async function signServiceRequest(
+  serviceName: string,
+  secret: string,
+  request: { method: string; pathAndQuery: string; body?: string },
+  now: number = Date.now()
+): Promise<Record<string, string>> {
+  const timestamp = Math.floor(now / 1000);
+  const canonical = await canonicalServiceRequest(request.method, request.pathAndQuery, timestamp, request.body ?? '');
+  const key = await importHmacKey(secret, 'sign');
+  const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(canonical));
+
+  return {
+    'X-Service-Name': serviceName,
+    'X-Service-Timestamp': String(timestamp),
+    'X-Service-Signature': `v1=${bytesToBase64Url(new Uint8Array(signature))}`,
+  };
+}
+
+/**
+ * An HS256 service JWT (iss = service name, aud = chittyreception, jti = random ID), signed with
+ * the service's own secret
+ */
+export async function createServiceJwt(
+  serviceName: string,
+  secret: string,
+  ttlSeconds: number = MAX_SERVICE_JWT_LIFETIME_SECONDS,
+  now: number = Date.now()
+): Promise<string> {
+  const iat = Math.floor(now / 1000);
+  const encode = (value: unknown) => bytesToBase64Url(new TextEncoder().encode(JSON.stringify(value)));
+  const unsigned = `${encode({ alg: 'HS256', typ: 'JWT' })}.${encode({
+    iss: serviceName,
+    aud: SERVICE_JWT_AUDIENCE,
+    iat,
+    exp: iat + ttlSeconds,
+    jti: crypto.randomUUID(),
+  })}`;
+
+  const key = await importHmacKey(secret, 'sign');
+  const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(unsigned));
+  return `${unsigned}.${bytesToBase64Url(new Uint8Array(signature))}`;
+}
+
+/**
+ * Try each secret with a constant-time HMAC comparison (crypto.subtle.verify)
+ */
+async function verifyWithAnySecret(secrets: string[], signature: Uint8Array, data: string): Promise<boolean> {
+  const bytes = new TextEncoder().encode(data);
+  for (const secret of secrets) {
+    const key = await importHmacKey(secret, 'verify');
+    if (await crypto.subtle.verify('HMAC', key, signature, bytes)) return true;
+  }
+  return false;
+}
+
+/**
+ * Record a signature or JWT ID as used until `expiresAt` (unix seconds); false when it already was
+ * KV is eventually consistent, so this stops replays but not two copies racing in the same second
+ */
+async function markUsed(env: Env, key: string, expiresAt: number, nowSeconds: number): Promise<boolean> {
+  const kvKey = `service-auth:used:${key}`;
+  if (await env.RECEPTION_KV.get(kvKey)) return false;
+  await env.RECEPTION_KV.put(kvKey, '1', {
+    expirationTtl: Math.max(MIN_REPLAY_TTL_SECONDS, Math.ceil(expiresAt - nowSeconds)),
+  });
+  return true;
+}
+
+export type ServiceAuthFailure =
+  | 'missing_credentials'
+  | 'unknown_service'
+  | 'no_secret_configured'
+  | 'malformed_signature'
+  | 'timestamp_out_of_range'
+  | 'signature_mismatch'
+  | 'malformed_token'
+  | 'token_expired'
+  | 'token_not_yet_valid'
+  | 'token_lifetime_too_long'
+  | 'invalid_audience'
+  | 'replayed';
+
+export type ServiceAuthResult =
+  | { valid: true; serviceName: string; registration: ServiceRegistration; method: 'hmac' | 'jwt' }
+  | { valid: false; reason: ServiceAuthFailure };
+
+export interface ServiceRequest {
+  method: string;
+  pathAndQuery: string;
+  body: string;
+  headers: {
+    authorization?: string;
+    serviceName?: string;
+    timestamp?: string;
+    signature?: string;
+  };
+}
+
+/**
+ * Authenticate a service request
+ * X-Service-Signature selects HMAC signing; otherwise a `Bearer <jwt>` is expected, naming the
+ * service in `iss`. Both are checked against the service's own secrets and accepted once
+ */
+export async function verifyServiceRequest(
+  env: Env,
+  request: ServiceRequest,
+  now: number = Date.now()
+): Promise<ServiceAuthResult> {
+  const registry = getServiceRegistry(env);
+  const { headers } = request;
+
+  if (headers.signature) {
+    const serviceName = headers.serviceName;
+    if (!serviceName || !headers.timestamp) return { valid: false, reason: 'missing_credentials' };
+    if (!Object.hasOwn(registry, serviceName)) return { valid: false, reason: 'unknown_service' };
+    const registration = registry[serviceName];
+
+    const timestamp = Number(headers.timestamp);
+    const signature = headers.signature.startsWith('v1=') ? headers.signature.slice(3) : null;
+    if (!Number.isSafeInteger(timestamp) || !signature) return { valid: false, reason: 'malformed_signature' };
+    if (Math.abs(now / 1000 - timestamp) > SERVICE_AUTH_TOLERANCE_SECONDS) {
+      return { valid: false, reason: 'timestamp_out_of_range' };
+    }
+
+    const secrets = getServiceSecrets(env, registration);
+    if (secrets.length === 0) return { valid: false, reason: 'no_secret_configured' };
+
+    let digest: Uint8Array;
+    try {
+      digest = base64UrlToBytes(signature);
+    } catch {
+      return { valid: false, reason: 'malformed_signature' };
+    }
+
+    const canonical = await canonicalServiceRequest(request.method, request.pathAndQuery, timestamp, request.body);
+    if (!(await verifyWithAnySecret(secrets, digest, canonical))) return { valid: false, reason: 'signature_mismatch' };
+
+    // A signature stays inside the tolerance window until timestamp + tolerance
+    if (!(await markUsed(env, `sig:${serviceName}:${signature}`, timestamp + SERVICE_AUTH_TOLERANCE_SECONDS, now / 1000))) {
+      return { valid: false, reason: 'replayed' };
+    }
+    return { valid: true, serviceName, registration, method: 'hmac' };
+  }
+
+  if (!headers.authorization?.startsWith('Bearer ')) return { valid: false, reason: 'missing_credentials' };
+  const token = headers.authorization.substring(7);
+
+  const parts = token.split('.');
+  if (parts.length !== 3) return { valid: false, reason: 'malformed_token' };
+
+  let header: { alg?: unknown };
+  let claims: { iss?: unknown; aud?: unknown; iat?: unknown; exp?: unknown; jti?: unknown };
+  let digest: Uint8Array;
+  try {
+    const decode = (part: string) => JSON.parse(new TextDecoder().decode(base64UrlToBytes(part)));
+    header = decode(parts[0]);
+    claims = decode(parts[1]);
+    digest = base64UrlToBytes(parts[2]);
+  } catch {
+    return { valid: false, reason: 'malformed_token' };
+  }
+  if (
+    header.alg !== 'HS256' ||
+    typeof claims.iat !== 'number' ||
+    typeof claims.exp !== 'number' ||
+    typeof claims.jti !== 'string' ||
+    claims.jti.length === 0 ||
+    claims.jti.length > MAX_JWT_ID_LENGTH
+  ) {
+    return { valid: false, reason: 'malformed_token' };
+  }
+
+  // `iss` only selects the key; the claims are trusted once that service's signature checks out
+  if (typeof claims.iss !== 'string' || !Object.hasOwn(registry, claims.iss)) {
+    return { valid: false, reason: 'unknown_service' };
+  }
+  const serviceName = claims.iss;
+  const registration = registry[serviceName];
+
+  const secrets = getServiceSecrets(env, registration);
+  if (secrets.length === 0) return { valid: false, reason: 'no_secret_configured' };
+  if (!(await verifyWithAnySecret(secrets, digest, `${parts[0]}.${parts[1]}`))) {
+    return { valid: false, reason: 'signature_mismatch' };
+  }
+
+  const nowSeconds = now / 1000;
+  if (claims.exp <= nowSeconds) return { valid: false, reason: 'token_expired' };
+  if (claims.iat > nowSeconds + SERVICE_AUTH_TOLERANCE_SECONDS) return { valid: false, reason: 'token_not_yet_valid' };
+  if (claims.exp - claims.iat > MAX_SERVICE_JWT_LIFETIME_SECONDS) {
+    return { valid: false, reason: 'token_lifetime_too_long' };
+  }
+  if (claims.aud !== SERVICE_JWT_AUDIENCE) return { valid: false, reason: 'invalid_audience' };
+
+  if (!(await markUsed(env, `jti:${serviceName}:${claims.jti}`, claims.exp, nowSeconds))) {
+    return { valid: false, reason: 'replayed' };
+  }
+  return { valid: true, serviceName, registration, method: 'jwt' };
+}
@@ -0,0 +1,258 @@
+// Telephony providers
+// OpenPhone and Twilio behind one interface, and per-number provider selection
+
+import type { Env } from '@/types/env';
+import type {
+  CallObject,
+  MakeCallRequest,
+  MakeCallResponse,
+  MessageObject,
+  RecordingObject,
+  SendMessageRequest,
+  SendMessageResponse,
+  WebhookVerificationResult,
+} from '@/types/openphone';
+import type {
+  TelephonyEvent,
+  TelephonyNumber,
+  TelephonyProvider,
+  TelephonyProviderName,
+  TelephonyWebhookRequest,
+  TranscriptSegment,
+} from '@/types/telephony';
+import { TELEPHONY_PROVIDERS } from '@/types/telephony';
+import type { Database } from '@/lib/database';
+import { queries } from '@/lib/database';
+import {
+  OpenPhoneClient,
+  createOpenPhoneClient,
+  getOpenPhoneWebhookSecrets,
+  verifyOpenPhoneWebhook,
+} from '@/lib/openphone';
+import {
+  TwilioClient,
+  getTwilioAuthTokens,
+  mapTwilioCallStatus,
+  mapTwilioMessageStatus,
+  normalizeTwilioWebhook,
+  parseTwilioParams,
+  twilioCallToCallObject,
+  twilioMessageToMessageObject,
+  verifyTwilioWebhook,
+} from '@/lib/twilio';
+
+export class OpenPhoneProvider implements TelephonyProvider {
+  readonly name = 'openphone' as const;
+  private client: OpenPhoneClient;
+
+  constructor(private env: Env) {
+    this.client = createOpenPhoneClient(env);
+  }
+
+  sendMessage(request: SendMessageRequest): Promise<SendMessageResponse> {
+    return this.client.sendMessage(request);
+  }
+
+  makeCall(request: MakeCallRequest): Promise<MakeCallResponse> {
+    return this.client.makeCall(request);
+  }
+
+  async getCall(callId: string): Promise<CallObject> {
+    return (await this.client.getCall(callId)).data;
+  }
+
+  async getMessage(messageId: string): Promise<MessageObject> {
+    return (await this.client.getMessage(messageId)).data;
+  }
+
+  async getCallRecordings(callId: string): Promise<RecordingObject[]> {
+    const recordings = await this.client.getCallRecordings(callId);
+    return recordings
+      .filter((recording) => recording.url && (recording.status === 'completed' || recording.status === 'stored'))
+      .map((recording) => ({
+        id: recording.id,
+        url: recording.url!,
+        duration: recording.duration ?? 0,
+        createdAt: recording.startTime ?? new Date().toISOString(),
+      }));
+  }
+
+  async getCallTranscript(callId: string): Promise<TranscriptSegment[] | null> {
+    const transcript = await this.client.getCallTranscript(callId);
+    if (transcript?.status !== 'completed' || !transcript.dialogue?.length) return null;
+    return transcript.dialogue.map((line) => ({
+      start: line.start,
+      end: line.end,
+      speaker: line.identifier || null,
+      text: line.content,
+    }));
+  }
+
+  async listNumbers(): Promise<TelephonyNumber[]> {
+    const response = await this.client.getPhoneNumbers();
+    return response.data.map((number) => ({
+      id: number.id,
+      phoneNumber: number.number,
+      name: number.name,
+      provider: this.name,
+    }));
+  }
+
+  downloadMedia(url: string): Promise<Response> {
+    // OpenPhone media links are pre-signed
+    return fetch(url);
+  }
+
+  verifyWebhook(request: TelephonyWebhookRequest): Promise<WebhookVerificationResult> {
+    const tolerance = parseInt(this.env.OPENPHONE_WEBHOOK_TOLERANCE_SECONDS || '', 10);
+    return verifyOpenPhoneWebhook(
+      request.rawBody,
+      request.headers.get('openphone-signature') ?? undefined,
+      getOpenPhoneWebhookSecrets(this.env),
+      { toleranceSeconds: Number.isFinite(tolerance) ? tolerance : undefined }
+    );
+  }
+
+  normalizeWebhookEvent(request: TelephonyWebhookRequest): TelephonyEvent {
+    // OpenPhone events already use the internal shape; replays of events recorded
+    // from other providers (see webhook-events replay) keep their original provider
+    const event: TelephonyEvent = JSON.parse(request.rawBody);
+    return { ...event, provider: event.provider ?? this.name };
+  }
+}
+
+export class TwilioProvider implements TelephonyProvider {
+  readonly name = 'twilio' as const;
+  private client: TwilioClient;
+
+  constructor(private env: Env) {
+    if (!env.TWILIO_ACCOUNT_SID || !env.TWILIO_AUTH_TOKEN) {
+      throw new Error('Twilio is not configured (TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN)');
+    }
+
+    this.client = new TwilioClient({
+      accountSid: env.TWILIO_ACCOUNT_SID,
+      authToken: env.TWILIO_AUTH_TOKEN,
+    });
+  }
+
+  async sendMessage(request: SendMessageRequest): Promise<SendMessageResponse> {
+    if (request.to.length !== 1) {
+      throw new Error('Twilio messages take exactly one recipient');
+    }
+
+    const message = await this.client.sendMessage({
+      from: request.from,
+      to: request.to[0],
+      body: request.content,
+      mediaUrls: request.mediaUrls,
+      statusCallback: this.env.TWILIO_WEBHOOK_URL,
+    });
+
+    const status = mapTwilioMessageStatus(message.status);
+    return {
+      id: message.sid,
+      status: status === 'sending' || status === 'sent' || status === 'failed' ? status : 'queued',
+      createdAt: twilioMessageToMessageObject(message).createdAt,
+    };
+  }
+
+  async makeCall(request: MakeCallRequest): Promise<MakeCallResponse> {
+    if (!this.env.TWILIO_VOICE_URL) {
+      throw new Error('Twilio outbound calls require TWILIO_VOICE_URL');
+    }
+
+    const call = await this.client.makeCall({
+      from: request.from,
+      to: request.to,
+      url: this.env.TWILIO_VOICE_URL,
+      timeLimit: request.maxDuration,
+      statusCallback: this.env.TWILIO_WEBHOOK_URL,
+    });
+
+    return {
+      id: call.sid,
+      callId: call.sid,
+      status: mapTwilioCallStatus(call.status) || 'ringing',
+      createdAt: twilioCallToCallObject(call).createdAt,
+    };
+  }
+
+  async getCall(callId: string): Promise<CallObject> {
+    return twilioCallToCallObject(await this.client.getCall(callId));
+  }
+
+  async getMessage(messageId: string): Promise<MessageObject> {
+    return twilioMessageToMessageObject(await this.client.getMessage(messageId));
+  }
+
+  async getCallRecordings(callId: string): Promise<RecordingObject[]> {
+    const response = await this.client.getCallRecordings(callId);
+    return response.recordings
+      .filter((recording) => recording.status === 'completed')
+      .map((recording) => ({
+        id: recording.sid,
+        url: this.client.getRecordingMediaUrl(recording.sid),
+        duration: parseInt(recording.duration || '0', 10),
+        createdAt: new Date(recording.date_created).toISOString(),
+      }));
+  }
+
+  async getCallTranscript(): Promise<TranscriptSegment[] | null> {
+    // Twilio transcribes voicemail recordings only; those arrive as voicemail.created
+    return null;
+  }
+
+  async listNumbers(): Promise<TelephonyNumber[]> {
+    const response = await this.client.getIncomingPhoneNumbers();
+    return response.incoming_phone_numbers.map((number) => ({
+      id: number.sid,
+      phoneNumber: number.phone_number,
+      name: number.friendly_name,
+      provider: this.name,
+    }));
+  }
+
+  downloadMedia(url: string): Promise<Response> {
+    return this.client.downloadMedia(url);
+  }
+
+  verifyWebhook(request: TelephonyWebhookRequest): Promise<WebhookVerificationResult> {
+    return verifyTwilioWebhook(
+      request.url,
+      parseTwilioParams(request.rawBody),
+      request.headers.get('x-twilio-signature') ?? undefined,
+      getTwilioAuthTokens(this.env)
+    );
+  }
+
+  normalizeWebhookEvent(request: TelephonyWebhookRequest): TelephonyEvent | null {
+    return normalizeTwilioWebhook(parseTwilioParams(request.rawBody));
+  }
+}
+
+export function isTelephonyProviderName(value: unknown): value is TelephonyProviderName {
+  return TELEPHONY_PROVIDERS.includes(value as TelephonyProviderName);
+}
+
+/**
+ * Get a provider by name (defaults to OpenPhone)
+ */
+export function getTelephonyProvider(env: Env, name: TelephonyProviderName = 'openphone'): TelephonyProvider {
+  switch (name) {
+    case 'twilio':
+      return new TwilioProvider(env);
+    case 'openphone':
+      return new OpenPhoneProvider(env);
+  }
+}
+
+/**
+ * Get the provider that serves one of our numbers
+ * Lines without a reception_phone_lines row are OpenPhone lines
+ */
+export async function getProviderForNumber(env: Env, db: Database, phoneNumber: string): Promise<TelephonyProvider> {
+  const lineQuery = queries.getPhoneLine(phoneNumber);
+  const line = await db.queryOne<{ provider: string }>(lineQuery.sql, lineQuery.params);
+  return getTelephonyProvider(env, isTelephonyProviderName(line?.provider) ? line.provider : 'openphone');
+}
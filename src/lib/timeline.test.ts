@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest';
+import { decodeTimelineCursor, encodeTimelineCursor, parseTimelineTypes } from './timeline';
+
+describe('timeline cursors', () => {
+  it('round-trips the position of the last entry', () => {
+    const cursor = { at: '2025-03-04T22:41:18.123456Z', key: 'call:5a1c9d7e-3b2f-4c1a-9e8d-7f6a5b4c3d2e' };
+    const encoded = encodeTimelineCursor(cursor);
+
+    expect(encoded).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(decodeTimelineCursor(encoded)).toEqual(cursor);
+  });
+
+  it('rejects malformed cursors', () => {
+    expect(decodeTimelineCursor('not a cursor')).toBeNull();
+    expect(decodeTimelineCursor(btoa(JSON.stringify(['yesterday', 'call:1'])))).toBeNull();
+    expect(decodeTimelineCursor(btoa(JSON.stringify(['2025-03-04T22:41:18Z', ''])))).toBeNull();
+    expect(decodeTimelineCursor(btoa('{}'))).toBeNull();
+  });
+});
+
+describe('parseTimelineTypes', () => {
+  it('accepts known entry types and treats a missing filter as all types', () => {
+    expect(parseTimelineTypes('call, voicemail')).toEqual(['call', 'voicemail']);
+    expect(parseTimelineTypes(undefined)).toEqual([]);
+  });
+
+  it('rejects unknown entry types', () => {
+    expect(parseTimelineTypes('call,fax')).toBeNull();
+  });
+});
@@ -0,0 +1,184 @@
+// Contact timeline
+// Everything exchanged with one phone number (calls with their transcripts and AI summaries,
+// messages, voicemails and sessions) as a single feed, newest first, with cursor pagination
+
+import type { Database } from '@/lib/database';
+import { queries } from '@/lib/database';
+import { z } from 'zod';
+import { decodeCursor, encodeCursor } from '@/lib/pagination';
+import { limitQuery } from '@/lib/validation';
+import type { TranscriptSegment } from '@/types/telephony';
+
+export const TIMELINE_ENTRY_TYPES = ['call', 'message', 'voicemail', 'session'] as const;
+export const DEFAULT_TIMELINE_LIMIT = 50;
+export const MAX_TIMELINE_LIMIT = 200;
+
+export type TimelineEntryType = (typeof TIMELINE_ENTRY_TYPES)[number];
+
+export interface TimelineTranscript {
+  source: 'provider' | 'whisper';
+  speakerDetection: 'provider' | 'single' | 'pauses';
+  text: string;
+  segments: TranscriptSegment[];
+}
+
+export interface TimelineCall {
+  callId: string;
+  direction: 'inbound' | 'outbound';
+  from: string;
+  to: string;
+  status: string;
+  durationSeconds: number | null;
+  recordingUrl: string | null;
+  summary: string | null;
+  actionItems: string[];
+  transcript: TimelineTranscript | null;
+}
+
+export interface TimelineMessage {
+  messageId: string;
+  direction: 'inbound' | 'outbound';
+  from: string;
+  to: string;
+  body: string;
+  status: string | null;
+  sessionId: string | null;
+  media: { id: string; contentType: string | null }[];
+}
+
+export interface TimelineVoicemail {
+  voicemailId: string;
+  from: string;
+  to: string;
+  durationSeconds: number | null;
+  recordingUrl: string | null;
+  intent: string | null;
+  urgency: string;
+  status: string;
+  summary: string | null;
+  transcript: TimelineTranscript | null;
+}
+
+export interface TimelineSession {
+  sessionId: string;
+  status: string;
+  summary: string | null;
+  lastInteractionAt: string | null;
+}
+
+interface TimelineEntryBase<T extends TimelineEntryType, D> {
+  id: string; // stable entry key, e.g. "call:<row id>"
+  type: T;
+  occurredAt: string;
+  data: D;
+}
+
+export type TimelineEntry =
+  | TimelineEntryBase<'call', TimelineCall>
+  | TimelineEntryBase<'message', TimelineMessage>
+  | TimelineEntryBase<'voicemail', TimelineVoicemail>
+  | TimelineEntryBase<'session', TimelineSession>;
+
+export interface TimelineCursor {
+  at: string;
+  key: string;
+}
+
+export interface TimelinePage {
+  entries: TimelineEntry[];
+  nextCursor: string | null;
+}
+
+/**
+ * Read one page of a contact's timeline, starting after `cursor` when given
+ * With `identityId`, only that identity's calls, messages, voicemails and sessions are included
+ */
+export async function getContactTimeline(
+  db: Database,
+  phoneNumber: string,
+  options: {
+    identityId?: string | null;
+    cursor?: TimelineCursor | null;
+    types?: TimelineEntryType[] | null;
+    limit?: number;
+  } = {}
+): Promise<TimelinePage> {
+  const limit = options.limit ?? DEFAULT_TIMELINE_LIMIT;
+  // One extra row tells us whether there is another page
+  const query = queries.getContactTimeline(phoneNumber, {
+    identityId: options.identityId ?? null,
+    before: options.cursor ?? null,
+    types: options.types?.length ? options.types : null,
+    limit: limit + 1,
+  });
+  const rows = await db.query<{ type: TimelineEntryType; entry_key: string; occurred_at: string; data: any }>(
+    query.sql,
+    query.params
+  );
+
+  const entries = rows.slice(0, limit).map(
+    (row) => ({ id: row.entry_key, type: row.type, occurredAt: row.occurred_at, data: row.data }) as TimelineEntry
+  );
+  const last = entries[entries.length - 1];
+
+  return {
+    entries,
+    nextCursor: rows.length > limit && last ? encodeTimelineCursor({ at: last.occurredAt, key: last.id }) : null,
+  };
+}
+
+/**
+ * Cursor for the entry a page ended on
+ */
+export function encodeTimelineCursor(cursor: TimelineCursor): string {
+  return encodeCursor([cursor.at, cursor.key]);
+}
+
+/**
+ * Decode a cursor from encodeTimelineCursor; null when it is malformed
+ */
+export function decodeTimelineCursor(value: string): TimelineCursor | null {
+  const parts = decodeCursor(value, 2);
+  if (!parts || Number.isNaN(Date.parse(parts[0]))) return null;
+  return { at: parts[0], key: parts[1] };
+}
+
+/**
+ * Parse a comma-separated `types` filter; null when it names an unknown type
+ */
+export function parseTimelineTypes(value: string | undefined): TimelineEntryType[] | null {
+  if (!value) return [];
+  const types = value.split(',').map((type) => type.trim()).filter(Boolean);
+  return types.every((type): type is TimelineEntryType => (TIMELINE_ENTRY_TYPES as readonly string[]).includes(type))
+    ? types
+    : null;
+}
+
+/**
+ * Query of GET /api/v1/contacts/:phone/timeline
+ */
+export const timelineQuery = z.object({
+  cursor: z
+    .string()
+    .transform((value, ctx) => {
+      const cursor = decodeTimelineCursor(value);
+      if (!cursor) {
+        ctx.addIssue({ code: 'custom', message: 'Invalid cursor' });
+        return z.NEVER;
+      }
+      return cursor;
+    })
+    .optional(),
+  types: z
+    .string()
+    .optional()
+    .transform((value, ctx) => {
+      const types = parseTimelineTypes(value);
+      if (!types) {
+        ctx.addIssue({ code: 'custom', message: `May only contain ${TIMELINE_ENTRY_TYPES.join(', ')}` });
+        return z.NEVER;
+      }
+      return types;
+    }),
+  limit: limitQuery(DEFAULT_TIMELINE_LIMIT, MAX_TIMELINE_LIMIT),
+});
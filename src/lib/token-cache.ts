@@ -0,0 +1,151 @@
+// Validated API token cache
+// Token records are cached for a short time in this isolate and in KV so hot paths (MCP tool calls,
+// send-message) skip the api_tokens lookup; last_used_at is written at most once per token per interval
+
+import type { Env } from '@/types/env';
+import { Database, queries } from '@/lib/database';
+
+// Isolates keep records briefly: a revocation elsewhere reaches them within this window
+const LOCAL_TTL_MS = 15_000;
+const LOCAL_MAX_ENTRIES = 500;
+
+// KV is shared by every isolate and cleared on revocation (60 seconds is the KV minimum TTL)
+const KV_TTL_SECONDS = 60;
+
+// last_used_at is an approximate "seen recently" marker; one write per token per interval is enough
+export const LAST_USED_INTERVAL_SECONDS = 300;
+
+export interface TokenRecord {
+  id: string;
+  identity_id: string;
+  identity_did: string;
+  name: string;
+  scopes: string[];
+  status: string;
+  expires_at: string | null;
+}
+
+interface LocalEntry<T> {
+  value: T;
+  expiresAt: number;
+}
+
+/**
+ * A small LRU with per-entry expiry (Map iteration order is insertion order)
+ */
+class LruCache<T> {
+  private entries = new Map<string, LocalEntry<T>>();
+
+  constructor(private maxEntries: number) {}
+
+  get(key: string): T | null {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+
+    this.entries.delete(key);
+    if (entry.expiresAt <= Date.now()) return null;
+
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  set(key: string, value: T, ttlMs: number): void {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+
+    if (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
+
+// Shared by every request in the isolate
+const localTokens = new LruCache<TokenRecord>(LOCAL_MAX_ENTRIES);
+const lastUsedWrites = new LruCache<true>(LOCAL_MAX_ENTRIES);
+
+function tokenKey(tokenHash: string): string {
+  return `token:${tokenHash}`;
+}
+
+function lastUsedKey(tokenHash: string): string {
+  return `token-used:${tokenHash}`;
+}
+
+/**
+ * Milliseconds until the token expires (Infinity when it never does)
+ */
+function msUntilExpiry(record: TokenRecord): number {
+  return record.expires_at ? new Date(record.expires_at).getTime() - Date.now() : Infinity;
+}
+
+/**
+ * Look up an active, unexpired token by its SHA-256 hash
+ * Checks the isolate cache, then KV, then api_tokens; unknown tokens are never cached, and a
+ * cached record is never served past the token's expires_at
+ */
+export async function getTokenRecord(env: Env, db: Database, tokenHash: string): Promise<TokenRecord | null> {
+  const local = localTokens.get(tokenHash);
+  if (local && msUntilExpiry(local) > 0) return local;
+
+  const cached = await env.RECEPTION_KV.get<TokenRecord>(tokenKey(tokenHash), 'json');
+  if (cached && msUntilExpiry(cached) > 0) {
+    localTokens.set(tokenHash, cached, Math.min(LOCAL_TTL_MS, msUntilExpiry(cached)));
+    return cached;
+  }
+
+  const { sql, params } = queries.validateToken(tokenHash);
+  const record = await db.queryOne<TokenRecord>(sql, params);
+  if (!record) return null;
+
+  const remainingMs = msUntilExpiry(record);
+  localTokens.set(tokenHash, record, Math.min(LOCAL_TTL_MS, remainingMs));
+  // KV rejects TTLs under 60 seconds; tokens that close to expiry stay in the isolate cache only
+  if (remainingMs >= KV_TTL_SECONDS * 1000) {
+    await env.RECEPTION_KV.put(tokenKey(tokenHash), JSON.stringify(record), { expirationTtl: KV_TTL_SECONDS });
+  }
+  return record;
+}
+
+/**
+ * Drop a token from the caches, e.g. after it is revoked or its scopes change
+ * Other isolates may serve their copy for up to LOCAL_TTL_MS
+ */
+export async function invalidateCachedToken(env: Env, tokenHash: string): Promise<void> {
+  localTokens.delete(tokenHash);
+  await env.RECEPTION_KV.delete(tokenKey(tokenHash));
+}
+
+/**
+ * Drop every token cached in this isolate
+ */
+export function clearTokenCache(): void {
+  localTokens.clear();
+  lastUsedWrites.clear();
+}
+
+/**
+ * Update last_used_at unless it was written within the last LAST_USED_INTERVAL_SECONDS
+ * The isolate remembers its own writes; a KV marker covers writes from other isolates.
+ * Returns whether the row was updated
+ */
+export async function recordTokenUse(env: Env, db: Database, tokenHash: string): Promise<boolean> {
+  if (lastUsedWrites.get(tokenHash)) return false;
+  lastUsedWrites.set(tokenHash, true, LAST_USED_INTERVAL_SECONDS * 1000);
+
+  if (await env.RECEPTION_KV.get(lastUsedKey(tokenHash))) return false;
+  await env.RECEPTION_KV.put(lastUsedKey(tokenHash), new Date().toISOString(), {
+    expirationTtl: LAST_USED_INTERVAL_SECONDS,
+  });
+
+  const { sql, params } = queries.updateTokenLastUsed(tokenHash);
+  await db.execute(sql, params);
+  return true;
+}
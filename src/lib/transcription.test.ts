@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { assignSpeakerTurns, parseWhisperResponse } from './transcription';
+
+describe('parseWhisperResponse', () => {
+  it('keeps timestamped segments, trimmed and rounded', () => {
+    expect(
+      parseWhisperResponse({
+        text: ' Hello there. Hi. ',
+        transcription_info: { language: 'en' },
+        segments: [
+          { start: 0, end: 1.23456, text: ' Hello there.' },
+          { start: 1.5, end: 2, text: '   ' },
+          { start: 2.5, end: 3, text: ' Hi.' },
+        ],
+      })
+    ).toEqual({
+      text: 'Hello there. Hi.',
+      language: 'en',
+      segments: [
+        { start: 0, end: 1.23, text: 'Hello there.' },
+        { start: 2.5, end: 3, text: 'Hi.' },
+      ],
+    });
+  });
+
+  it('falls back to one segment when Whisper returns none', () => {
+    expect(parseWhisperResponse({ text: 'Call me back.', transcription_info: { duration: 4.2 } })).toEqual({
+      text: 'Call me back.',
+      language: null,
+      segments: [{ start: 0, end: 4.2, text: 'Call me back.' }],
+    });
+  });
+
+  it('returns null for empty or malformed output', () => {
+    expect(parseWhisperResponse({ text: '  ' })).toBeNull();
+    expect(parseWhisperResponse(null)).toBeNull();
+    expect(parseWhisperResponse({ segments: [] })).toBeNull();
+  });
+});
+
+describe('assignSpeakerTurns', () => {
+  const segments = [
+    { start: 0, end: 2, text: 'Front desk.' },
+    { start: 2.4, end: 3, text: 'How can I help?' },
+    { start: 5, end: 6, text: 'My key stopped working.' },
+    { start: 8, end: 9, text: 'I will reset it.' },
+  ];
+
+  it('switches speaker after a pause', () => {
+    expect(assignSpeakerTurns(segments, ['+13125550100', '+13125550147']).map((segment) => segment.speaker)).toEqual([
+      '+13125550100',
+      '+13125550100',
+      '+13125550147',
+      '+13125550100',
+    ]);
+  });
+
+  it('attributes everything to a single speaker, or to nobody', () => {
+    expect(assignSpeakerTurns(segments, ['+13125550199']).every((segment) => segment.speaker === '+13125550199')).toBe(true);
+    expect(assignSpeakerTurns(segments, []).every((segment) => segment.speaker === null)).toBe(true);
+  });
+});
@@ -0,0 +1,238 @@
+// Call and voicemail transcription
+// Uses the provider's transcript when there is one, otherwise runs Workers AI Whisper over the
+// archived recording; segments carry timestamps and the speaking party
+
+import type { Env } from '@/types/env';
+import type { CallObject, VoicemailObject } from '@/types/openphone';
+import type { TelephonyProvider, TranscriptSegment } from '@/types/telephony';
+import type { Database } from '@/lib/database';
+import { queries } from '@/lib/database';
+import { getRecordingStore, type CallRecordingRow } from '@/lib/recordings';
+
+export const WHISPER_MODEL = '@cf/openai/whisper-large-v3-turbo';
+// Longer recordings are left untranscribed rather than risking the worker's memory
+export const MAX_TRANSCRIPTION_BYTES = 25 * 1024 * 1024;
+// Silence between Whisper segments that is taken as the other party starting to talk
+const TURN_PAUSE_SECONDS = 1.5;
+
+export type SpeakerDetection = 'provider' | 'single' | 'pauses';
+
+export interface TranscriptRow {
+  id: string;
+  call_id: string | null;
+  voicemail_id: string | null;
+  recording_id: string | null;
+  source: 'provider' | 'whisper';
+  model: string | null;
+  language: string | null;
+  text: string;
+  segments: TranscriptSegment[];
+  speaker_detection: SpeakerDetection;
+  created_at: string;
+}
+
+export interface WhisperResult {
+  text: string;
+  language: string | null;
+  segments: Omit<TranscriptSegment, 'speaker'>[];
+}
+
+/**
+ * Transcribe a completed call once: an existing transcript is kept, then the provider's
+ * transcript is preferred over Whisper. Never throws; failures leave the call untranscribed
+ */
+export async function transcribeCall(
+  env: Env,
+  db: Database,
+  provider: TelephonyProvider,
+  call: CallObject
+): Promise<TranscriptRow | null> {
+  try {
+    const existing = await getTranscript(db, call.id);
+    if (existing) return existing;
+
+    let transcript: TranscriptRow | null = null;
+    const providerSegments = await provider.getCallTranscript(call.id).catch((error) => {
+      console.error('Failed to fetch provider transcript:', { callId: call.id, error });
+      return null;
+    });
+
+    if (providerSegments) {
+      transcript = await saveTranscript(db, { callId: call.id }, {
+        source: 'provider',
+        segments: providerSegments,
+        speakerDetection: 'provider',
+      });
+    } else {
+      // The answering party usually speaks first: our line on inbound calls, the callee on outbound
+      const speakers = [call.to[0]?.phoneNumber, call.from.phoneNumber].filter((speaker): speaker is string => !!speaker);
+      transcript = await transcribeRecording(env, db, { callId: call.id }, speakers);
+    }
+
+    if (transcript) {
+      const callQuery = queries.setCallTranscription(call.id, transcript.text);
+      await db.execute(callQuery.sql, callQuery.params);
+    }
+    return transcript;
+  } catch (error) {
+    console.error('Call transcription failed:', { callId: call.id, error });
+    return null;
+  }
+}
+
+/**
+ * Transcribe a voicemail once, from the provider's transcription or the archived recording
+ * Never throws; failures leave the voicemail untranscribed
+ */
+export async function transcribeVoicemail(
+  env: Env,
+  db: Database,
+  voicemail: VoicemailObject
+): Promise<TranscriptRow | null> {
+  try {
+    const existing = await getTranscript(db, voicemail.id);
+    if (existing) return existing;
+
+    const caller = voicemail.from.phoneNumber;
+    if (voicemail.transcription?.trim()) {
+      return saveTranscript(db, { voicemailId: voicemail.id }, {
+        source: 'provider',
+        segments: [{ start: 0, end: voicemail.duration ?? 0, speaker: caller, text: voicemail.transcription.trim() }],
+        speakerDetection: 'single',
+      });
+    }
+
+    return transcribeRecording(env, db, { voicemailId: voicemail.id }, [caller]);
+  } catch (error) {
+    console.error('Voicemail transcription failed:', { voicemailId: voicemail.id, error });
+    return null;
+  }
+}
+
+/**
+ * Run Whisper over the stored recording of a call or voicemail
+ */
+async function transcribeRecording(
+  env: Env,
+  db: Database,
+  owner: { callId?: string; voicemailId?: string },
+  speakers: string[]
+): Promise<TranscriptRow | null> {
+  const store = getRecordingStore(env);
+  const recordingQuery = queries.getCallRecording((owner.callId ?? owner.voicemailId)!);
+  const recording = await db.queryOne<CallRecordingRow>(recordingQuery.sql, recordingQuery.params);
+
+  if (!store || recording?.status !== 'stored' || !recording.storage_key) return null;
+  if (Number(recording.size_bytes ?? 0) > MAX_TRANSCRIPTION_BYTES) {
+    console.log('Recording too large to transcribe:', { recordingId: recording.id, size: recording.size_bytes });
+    return null;
+  }
+
+  const blob = await store.get(recording.storage_key);
+  if (!blob) return null;
+
+  const audio = await new Response(blob.body).arrayBuffer();
+  // @ts-ignore - Model name is valid but may not be in type definitions
+  const response = await env.AI.run(WHISPER_MODEL, { audio: bytesToBase64(new Uint8Array(audio)) });
+  const result = parseWhisperResponse(response);
+  if (!result) return null;
+
+  return saveTranscript(db, owner, {
+    source: 'whisper',
+    recordingId: recording.id,
+    model: WHISPER_MODEL,
+    language: result.language,
+    segments: assignSpeakerTurns(result.segments, speakers),
+    speakerDetection: speakers.length > 1 ? 'pauses' : 'single',
+  });
+}
+
+async function getTranscript(db: Database, id: string): Promise<TranscriptRow | null> {
+  const query = queries.getTranscript(id);
+  return db.queryOne<TranscriptRow>(query.sql, query.params);
+}
+
+async function saveTranscript(
+  db: Database,
+  owner: { callId?: string; voicemailId?: string },
+  transcript: {
+    source: 'provider' | 'whisper';
+    segments: TranscriptSegment[];
+    speakerDetection: SpeakerDetection;
+    recordingId?: string;
+    model?: string;
+    language?: string | null;
+  }
+): Promise<TranscriptRow | null> {
+  const text = transcript.segments.map((segment) => segment.text).join(' ').trim();
+  if (!text) return null;
+
+  const query = queries.upsertTranscript({
+    callId: owner.callId ?? null,
+    voicemailId: owner.voicemailId ?? null,
+    recordingId: transcript.recordingId ?? null,
+    source: transcript.source,
+    model: transcript.model ?? null,
+    language: transcript.language ?? null,
+    text,
+    segments: transcript.segments,
+    speakerDetection: transcript.speakerDetection,
+  });
+  return db.queryOne<TranscriptRow>(query.sql, query.params);
+}
+
+/**
+ * Extract text, language and timestamped segments from Whisper output
+ * Output without segments becomes one segment spanning the recording
+ */
+export function parseWhisperResponse(response: any): WhisperResult | null {
+  const text = typeof response?.text === 'string' ? response.text.trim() : '';
+  if (!text) return null;
+
+  const segments = Array.isArray(response.segments)
+    ? response.segments
+        .filter((segment: any) => typeof segment?.text === 'string' && segment.text.trim())
+        .map((segment: any) => ({
+          start: roundSeconds(segment.start),
+          end: roundSeconds(segment.end),
+          text: segment.text.trim(),
+        }))
+    : [];
+
+  return {
+    text,
+    language: response.transcription_info?.language ?? null,
+    segments: segments.length > 0
+      ? segments
+      : [{ start: 0, end: roundSeconds(response.transcription_info?.duration), text }],
+  };
+}
+
+/**
+ * Attribute Whisper segments to speakers: a pause of TURN_PAUSE_SECONDS or more hands the turn
+ * to the next speaker. Whisper itself can't tell voices apart, so with two parties this is an
+ * approximation (speaker_detection 'pauses')
+ */
+export function assignSpeakerTurns(
+  segments: Omit<TranscriptSegment, 'speaker'>[],
+  speakers: string[]
+): TranscriptSegment[] {
+  let turn = 0;
+  return segments.map((segment, index) => {
+    if (index > 0 && segment.start - segments[index - 1].end >= TURN_PAUSE_SECONDS) turn++;
+    return { ...segment, speaker: speakers.length > 0 ? speakers[turn % speakers.length] : null };
+  });
+}
+
+function roundSeconds(value: unknown): number {
+  return typeof value === 'number' && Number.isFinite(value) ? Math.round(value * 100) / 100 : 0;
+}
+
+function bytesToBase64(bytes: Uint8Array): string {
+  // Chunked: spreading a whole recording into String.fromCharCode overflows the stack
+  let binary = '';
+  for (let offset = 0; offset < bytes.length; offset += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(offset, offset + 0x8000));
+  }
+  return btoa(binary);
+}
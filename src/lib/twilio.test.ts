@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import { normalizeTwilioWebhook, signTwilioWebhook, verifyTwilioWebhook } from './twilio';
+
+// Example from Twilio's webhook security documentation
+const DOCS_URL = 'https://mycompany.com/myapp.php?foo=1&bar=2';
+const DOCS_TOKEN = '12345';
+const DOCS_PARAMS = {
+  CallSid: 'CA1234567890ABCDE',
+  Caller: '+12349013030',
+  Digits: '1234',
+  From: '+12349013030',
+  To: '+18005551212',
+};
+
+describe('twilio webhook signatures', () => {
+  it('signs the URL and sorted parameters with HMAC-SHA1', async () => {
+    expect(await signTwilioWebhook(DOCS_URL, DOCS_PARAMS, DOCS_TOKEN)).toBe('0/KCTR6DLpKmkAf8muzZqo1nDgQ=');
+  });
+
+  it('accepts a signature from either configured token', async () => {
+    const signature = await signTwilioWebhook(DOCS_URL, DOCS_PARAMS, DOCS_TOKEN);
+    expect(await verifyTwilioWebhook(DOCS_URL, DOCS_PARAMS, signature, ['new-token', DOCS_TOKEN])).toEqual({
+      valid: true,
+      secretIndex: 1,
+    });
+  });
+
+  it('rejects tampered parameters, missing headers and unconfigured tokens', async () => {
+    const signature = await signTwilioWebhook(DOCS_URL, DOCS_PARAMS, DOCS_TOKEN);
+    const tampered = { ...DOCS_PARAMS, Digits: '9999' };
+
+    expect(await verifyTwilioWebhook(DOCS_URL, tampered, signature, [DOCS_TOKEN])).toMatchObject({
+      valid: false,
+      reason: 'signature_mismatch',
+    });
+    expect(await verifyTwilioWebhook(DOCS_URL, DOCS_PARAMS, undefined, [DOCS_TOKEN])).toMatchObject({
+      reason: 'missing_signature',
+    });
+    expect(await verifyTwilioWebhook(DOCS_URL, DOCS_PARAMS, signature, [])).toMatchObject({
+      reason: 'no_secret_configured',
+    });
+  });
+});
+
+describe('twilio webhook normalization', () => {
+  const now = new Date('2025-03-04T17:00:00.000Z');
+
+  it('maps an inbound SMS with media to message.created', () => {
+    const event = normalizeTwilioWebhook(
+      {
+        MessageSid: 'SM1',
+        SmsStatus: 'received',
+        From: '+13125550163',
+        To: '+13125550111',
+        Body: 'Photo of the lease',
+        NumMedia: '1',
+        MediaUrl0: 'https://api.twilio.com/media/ME1',
+        MediaContentType0: 'image/jpeg',
+      },
+      now
+    );
+
+    expect(event).toMatchObject({
+      id: 'twilio:SM1:received',
+      type: 'message.created',
+      provider: 'twilio',
+      createdAt: '2025-03-04T17:00:00.000Z',
+      data: {
+        object: {
+          direction: 'incoming',
+          body: 'Photo of the lease',
+          phoneNumberId: '+13125550111',
+          media: [{ url: 'https://api.twilio.com/media/ME1', contentType: 'image/jpeg' }],
+        },
+      },
+    });
+  });
+
+  it('maps message status callbacks to message.updated', () => {
+    const event = normalizeTwilioWebhook({ MessageSid: 'SM2', MessageStatus: 'delivered', From: '+1', To: '+2' }, now);
+    expect(event).toMatchObject({
+      id: 'twilio:SM2:delivered',
+      type: 'message.updated',
+      data: { object: { direction: 'outgoing', status: 'delivered' } },
+    });
+  });
+
+  it('maps ringing and final call statuses and ignores the rest', () => {
+    const call = { CallSid: 'CA1', From: '+13125550163', To: '+13125550111', Direction: 'inbound' };
+
+    expect(normalizeTwilioWebhook({ ...call, CallStatus: 'ringing' }, now)?.type).toBe('call.initiated');
+    expect(normalizeTwilioWebhook({ ...call, CallStatus: 'no-answer' }, now)).toMatchObject({
+      type: 'call.completed',
+      data: { object: { status: 'no-answer', direction: 'incoming' } },
+    });
+    expect(normalizeTwilioWebhook({ ...call, CallStatus: 'in-progress' }, now)).toBeNull();
+    expect(normalizeTwilioWebhook({ AccountSid: 'AC1' }, now)).toBeNull();
+  });
+
+  it('maps completed transcriptions to voicemail.created', () => {
+    const event = normalizeTwilioWebhook(
+      {
+        TranscriptionSid: 'TR1',
+        TranscriptionStatus: 'completed',
+        TranscriptionText: 'Please call me back about my booking',
+        RecordingSid: 'RE1',
+        RecordingUrl: 'https://api.twilio.com/recordings/RE1',
+        From: '+13125550163',
+        To: '+13125550111',
+      },
+      now
+    );
+
+    expect(event).toMatchObject({
+      id: 'twilio:TR1:voicemail',
+      type: 'voicemail.created',
+      data: { object: { id: 'RE1', transcription: 'Please call me back about my booking' } },
+    });
+  });
+});
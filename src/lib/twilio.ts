@@ -0,0 +1,425 @@
+// Twilio API client, webhook signatures and callback normalization
+
+import type {
+  CallObject,
+  CallStatus,
+  MediaObject,
+  MessageObject,
+  MessageStatus,
+  WebhookVerificationResult,
+} from '@/types/openphone';
+import type { TelephonyEvent } from '@/types/telephony';
+import type {
+  TwilioCallResource,
+  TwilioConfig,
+  TwilioIncomingPhoneNumber,
+  TwilioMessageResource,
+  TwilioRecordingResource,
+  TwilioWebhookParams,
+} from '@/types/twilio';
+
+export class TwilioClient {
+  private accountSid: string;
+  private authToken: string;
+  private baseUrl: string;
+
+  constructor(config: TwilioConfig) {
+    this.accountSid = config.accountSid;
+    this.authToken = config.authToken;
+    this.baseUrl = config.baseUrl || 'https://api.twilio.com/2010-04-01';
+  }
+
+  private async request<T>(
+    endpoint: string,
+    options: { method: 'GET' | 'POST'; form?: URLSearchParams } = { method: 'GET' }
+  ): Promise<T> {
+    const url = `${this.baseUrl}/Accounts/${this.accountSid}${endpoint}`;
+
+    const response = await fetch(url, {
+      method: options.method,
+      headers: {
+        'Authorization': `Basic ${btoa(`${this.accountSid}:${this.authToken}`)}`,
+        ...(options.form ? { 'Content-Type': 'application/x-www-form-urlencoded' } : {}),
+      },
+      body: options.form?.toString(),
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new Error(`Twilio API error: ${response.status} - ${error}`);
+    }
+
+    return response.json();
+  }
+
+  /**
+   * Send an SMS/MMS message
+   */
+  async sendMessage(request: {
+    from: string;
+    to: string;
+    body: string;
+    mediaUrls?: string[];
+    statusCallback?: string;
+  }): Promise<TwilioMessageResource> {
+    const form = new URLSearchParams({ From: request.from, To: request.to, Body: request.body });
+    for (const mediaUrl of request.mediaUrls || []) {
+      form.append('MediaUrl', mediaUrl);
+    }
+    if (request.statusCallback) {
+      form.set('StatusCallback', request.statusCallback);
+    }
+
+    return this.request<TwilioMessageResource>('/Messages.json', { method: 'POST', form });
+  }
+
+  /**
+   * Place an outbound call; Twilio fetches TwiML from `url` once the call connects
+   */
+  async makeCall(request: {
+    from: string;
+    to: string;
+    url: string;
+    timeLimit?: number;
+    statusCallback?: string;
+  }): Promise<TwilioCallResource> {
+    const form = new URLSearchParams({ From: request.from, To: request.to, Url: request.url });
+    if (request.timeLimit) {
+      form.set('TimeLimit', String(request.timeLimit));
+    }
+    if (request.statusCallback) {
+      form.set('StatusCallback', request.statusCallback);
+      for (const event of ['initiated', 'ringing', 'answered', 'completed']) {
+        form.append('StatusCallbackEvent', event);
+      }
+    }
+
+    return this.request<TwilioCallResource>('/Calls.json', { method: 'POST', form });
+  }
+
+  /**
+   * Get call details
+   */
+  async getCall(callSid: string): Promise<TwilioCallResource> {
+    return this.request<TwilioCallResource>(`/Calls/${callSid}.json`);
+  }
+
+  /**
+   * Get message details
+   */
+  async getMessage(messageSid: string): Promise<TwilioMessageResource> {
+    return this.request<TwilioMessageResource>(`/Messages/${messageSid}.json`);
+  }
+
+  /**
+   * Get the recordings of a call
+   */
+  async getCallRecordings(callSid: string): Promise<{ recordings: TwilioRecordingResource[] }> {
+    return this.request<{ recordings: TwilioRecordingResource[] }>(`/Calls/${callSid}/Recordings.json`);
+  }
+
+  /**
+   * MP3 download URL of a recording (fetched with downloadMedia)
+   */
+  getRecordingMediaUrl(recordingSid: string): string {
+    return `${this.baseUrl}/Accounts/${this.accountSid}/Recordings/${recordingSid}.mp3`;
+  }
+
+  /**
+   * Download MMS media and recordings; accounts that enforce HTTP auth on media URLs require the credentials
+   */
+  async downloadMedia(url: string): Promise<Response> {
+    return fetch(url, {
+      headers: { 'Authorization': `Basic ${btoa(`${this.accountSid}:${this.authToken}`)}` },
+    });
+  }
+
+  /**
+   * Get the account's phone numbers
+   */
+  async getIncomingPhoneNumbers(): Promise<{ incoming_phone_numbers: TwilioIncomingPhoneNumber[] }> {
+    return this.request<{ incoming_phone_numbers: TwilioIncomingPhoneNumber[] }>('/IncomingPhoneNumbers.json');
+  }
+}
+
+// Twilio status values mapped onto the internal message and call statuses
+const MESSAGE_STATUS_MAP: Record<string, MessageStatus> = {
+  accepted: 'queued',
+  scheduled: 'queued',
+  queued: 'queued',
+  sending: 'sending',
+  sent: 'sent',
+  delivered: 'delivered',
+  read: 'delivered',
+  undelivered: 'undelivered',
+  failed: 'failed',
+  canceled: 'failed',
+  received: 'received',
+};
+
+const CALL_STATUS_MAP: Record<string, CallStatus> = {
+  queued: 'ringing',
+  initiated: 'ringing',
+  ringing: 'ringing',
+  'in-progress': 'in-progress',
+  completed: 'completed',
+  busy: 'busy',
+  failed: 'failed',
+  'no-answer': 'no-answer',
+  canceled: 'canceled',
+};
+
+const FINAL_CALL_STATUSES: CallStatus[] = ['completed', 'busy', 'failed', 'no-answer', 'canceled'];
+
+export function mapTwilioMessageStatus(status: string): MessageStatus | undefined {
+  return MESSAGE_STATUS_MAP[status];
+}
+
+export function mapTwilioCallStatus(status: string): CallStatus | undefined {
+  return CALL_STATUS_MAP[status];
+}
+
+function toIsoDate(value: string | null | undefined): string | null {
+  if (!value) return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+/**
+ * Convert a Twilio call resource into the internal call object
+ */
+export function twilioCallToCallObject(call: TwilioCallResource): CallObject {
+  return {
+    id: call.sid,
+    createdAt: toIsoDate(call.date_created) || new Date().toISOString(),
+    direction: call.direction === 'inbound' ? 'incoming' : 'outgoing',
+    status: mapTwilioCallStatus(call.status) || 'failed',
+    from: { phoneNumber: call.from },
+    to: [{ phoneNumber: call.to }],
+    duration: call.duration ? parseInt(call.duration, 10) : undefined,
+    answeredAt: toIsoDate(call.start_time),
+    completedAt: toIsoDate(call.end_time),
+    phoneNumberId: call.direction === 'inbound' ? call.to : call.from,
+  };
+}
+
+/**
+ * Convert a Twilio message resource into the internal message object
+ */
+export function twilioMessageToMessageObject(message: TwilioMessageResource): MessageObject {
+  const incoming = message.direction === 'inbound';
+  return {
+    id: message.sid,
+    createdAt: toIsoDate(message.date_created) || new Date().toISOString(),
+    direction: incoming ? 'incoming' : 'outgoing',
+    from: { phoneNumber: message.from },
+    to: [{ phoneNumber: message.to }],
+    body: message.body,
+    status: mapTwilioMessageStatus(message.status),
+    updatedAt: toIsoDate(message.date_updated) || undefined,
+    phoneNumberId: incoming ? message.to : message.from,
+  };
+}
+
+/**
+ * Parse a form-encoded Twilio callback body
+ */
+export function parseTwilioParams(rawBody: string): TwilioWebhookParams {
+  return Object.fromEntries(new URLSearchParams(rawBody));
+}
+
+/**
+ * Collect the auth tokens accepted for webhook signatures.
+ * Twilio signs callbacks with the account auth token; TWILIO_WEBHOOK_SECRET keeps a
+ * second token (e.g. the secondary token during rotation) valid until removed.
+ */
+export function getTwilioAuthTokens(env: { TWILIO_AUTH_TOKEN?: string; TWILIO_WEBHOOK_SECRET?: string }): string[] {
+  return [env.TWILIO_AUTH_TOKEN, env.TWILIO_WEBHOOK_SECRET]
+    .map((value) => (value || '').trim())
+    .filter(Boolean);
+}
+
+function signedPayload(url: string, params: TwilioWebhookParams): Uint8Array {
+  const data = Object.keys(params)
+    .sort()
+    .reduce((acc, key) => acc + key + params[key], url);
+  return new TextEncoder().encode(data);
+}
+
+async function importTwilioKey(authToken: string, usage: 'sign' | 'verify'): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(authToken),
+    { name: 'HMAC', hash: 'SHA-1' },
+    false,
+    [usage]
+  );
+}
+
+/**
+ * Compute an `X-Twilio-Signature` header value:
+ * base64 HMAC-SHA1 of the URL followed by each POST parameter name and value, sorted by name
+ */
+export async function signTwilioWebhook(url: string, params: TwilioWebhookParams, authToken: string): Promise<string> {
+  const key = await importTwilioKey(authToken, 'sign');
+  const signature = await crypto.subtle.sign('HMAC', key, signedPayload(url, params));
+  return btoa(String.fromCharCode(...new Uint8Array(signature)));
+}
+
+/**
+ * Verify an `X-Twilio-Signature` header against each accepted auth token
+ * using a constant-time HMAC comparison (crypto.subtle.verify)
+ */
+export async function verifyTwilioWebhook(
+  url: string,
+  params: TwilioWebhookParams,
+  header: string | undefined,
+  authTokens: string[]
+): Promise<WebhookVerificationResult> {
+  if (!header) {
+    return { valid: false, reason: 'missing_signature' };
+  }
+
+  if (authTokens.length === 0) {
+    return { valid: false, reason: 'no_secret_configured' };
+  }
+
+  let digest: Uint8Array;
+  try {
+    digest = Uint8Array.from(atob(header.trim()), (char) => char.charCodeAt(0));
+  } catch {
+    return { valid: false, reason: 'malformed_signature' };
+  }
+
+  const data = signedPayload(url, params);
+
+  for (let i = 0; i < authTokens.length; i++) {
+    const key = await importTwilioKey(authTokens[i], 'verify');
+    if (await crypto.subtle.verify('HMAC', key, digest, data)) {
+      return { valid: true, secretIndex: i };
+    }
+  }
+
+  return { valid: false, reason: 'signature_mismatch' };
+}
+
+function collectMedia(params: TwilioWebhookParams): MediaObject[] {
+  const count = parseInt(params.NumMedia || '0', 10);
+  const media: MediaObject[] = [];
+  for (let i = 0; i < count; i++) {
+    if (!params[`MediaUrl${i}`]) continue;
+    media.push({
+      id: `${params.MessageSid}-${i}`,
+      url: params[`MediaUrl${i}`],
+      contentType: params[`MediaContentType${i}`] || 'application/octet-stream',
+      size: 0, // not reported in the callback
+    });
+  }
+  return media;
+}
+
+/**
+ * Normalize a Twilio callback into the internal event model
+ * Event IDs are derived from the resource SID and status, so Twilio retries of the same
+ * callback de-duplicate in the webhook ledger. Returns null for callbacks we don't act on.
+ */
+export function normalizeTwilioWebhook(params: TwilioWebhookParams, now: Date = new Date()): TelephonyEvent | null {
+  const createdAt = toIsoDate(params.Timestamp) || now.toISOString();
+
+  // Transcription callbacks for recorded voicemails
+  if (params.TranscriptionSid) {
+    if (params.TranscriptionStatus && params.TranscriptionStatus !== 'completed') return null;
+
+    const recordingId = params.RecordingSid || params.TranscriptionSid;
+    const duration = parseInt(params.RecordingDuration || '0', 10);
+    return {
+      id: `twilio:${params.TranscriptionSid}:voicemail`,
+      object: 'event',
+      type: 'voicemail.created',
+      createdAt,
+      provider: 'twilio',
+      data: {
+        object: {
+          id: recordingId,
+          createdAt,
+          from: { phoneNumber: params.From },
+          to: { phoneNumber: params.To },
+          duration,
+          transcription: params.TranscriptionText,
+          recording: { id: recordingId, url: params.RecordingUrl, duration, createdAt },
+          phoneNumberId: params.To,
+        },
+      },
+    };
+  }
+
+  // Inbound SMS/MMS and outbound message status callbacks
+  if (params.MessageSid) {
+    const rawStatus = params.SmsStatus || params.MessageStatus || '';
+    const status = mapTwilioMessageStatus(rawStatus);
+    if (!status) return null;
+
+    const incoming = status === 'received';
+    const message: MessageObject = {
+      id: params.MessageSid,
+      createdAt,
+      direction: incoming ? 'incoming' : 'outgoing',
+      from: { phoneNumber: params.From },
+      to: [{ phoneNumber: params.To }],
+      body: params.Body || '',
+      media: incoming ? collectMedia(params) : undefined,
+      status,
+      updatedAt: incoming ? undefined : createdAt,
+      phoneNumberId: incoming ? params.To : params.From,
+    };
+
+    return {
+      id: `twilio:${params.MessageSid}:${rawStatus}`,
+      object: 'event',
+      type: incoming ? 'message.created' : 'message.updated',
+      createdAt,
+      provider: 'twilio',
+      data: { object: message },
+    };
+  }
+
+  // Call status callbacks
+  if (params.CallSid && params.CallStatus) {
+    const status = mapTwilioCallStatus(params.CallStatus);
+    const completed = !!status && FINAL_CALL_STATUSES.includes(status);
+    // queued/initiated/in-progress add nothing; ringing is the call's first event either way
+    if (!status || (!completed && params.CallStatus !== 'ringing')) return null;
+
+    const incoming = params.Direction === 'inbound';
+    const call: CallObject = {
+      id: params.CallSid,
+      createdAt,
+      direction: incoming ? 'incoming' : 'outgoing',
+      status,
+      from: { phoneNumber: params.From },
+      to: [{ phoneNumber: params.To }],
+      duration: params.CallDuration ? parseInt(params.CallDuration, 10) : undefined,
+      recording: params.RecordingUrl
+        ? {
+            id: params.RecordingSid || params.CallSid,
+            url: params.RecordingUrl,
+            duration: parseInt(params.RecordingDuration || '0', 10),
+            createdAt,
+          }
+        : undefined,
+      completedAt: completed ? createdAt : null,
+      phoneNumberId: incoming ? params.To : params.From,
+    };
+
+    return {
+      id: `twilio:${params.CallSid}:${params.CallStatus}`,
+      object: 'event',
+      type: completed ? 'call.completed' : 'call.initiated',
+      createdAt,
+      provider: 'twilio',
+      data: { object: call },
+    };
+  }
+
+  return null;
+}
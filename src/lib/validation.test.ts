@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { getFieldErrors, makeCallSchema, normalizePhoneNumber, sendMessageSchema } from './validation';
+
+describe('normalizePhoneNumber', () => {
+  it.each([
+    ['+13125550147', '+13125550147'],
+    ['(312) 555-0147', '+13125550147'],
+    ['312.555.0147', '+13125550147'],
+    ['1 312 555 0147', '+13125550147'],
+    [' 13125550147', '+13125550147'], // a query-string "+" decodes to a space
+    ['0044 20 7946 0958', '+442079460958'],
+    ['+44 20 7946 0958', '+442079460958'],
+  ])('normalizes %j', (value, expected) => {
+    expect(normalizePhoneNumber(value)).toBe(expected);
+  });
+
+  it.each(['', '555-0147', '+1', '+0123456789', '312-555-0147 ext 2', 'call me', '+1312555014712345'])(
+    'rejects %j',
+    (value) => {
+      expect(normalizePhoneNumber(value)).toBeNull();
+    }
+  );
+});
+
+describe('sendMessageSchema', () => {
+  it('normalizes every number and trims the content', () => {
+    expect(
+      sendMessageSchema.parse({ from: '312-555-0100', to: ['(312) 555-0147'], content: '  Your code is 4821 ' })
+    ).toEqual({ from: '+13125550100', to: ['+13125550147'], content: 'Your code is 4821' });
+  });
+
+  it('reports a field error per problem', () => {
+    const parsed = sendMessageSchema.safeParse({
+      from: '+13125550100',
+      to: ['+13125550147', 'front desk'],
+      content: '   ',
+      mediaUrls: ['ftp://example.com/photo.jpg'],
+      mediaIds: ['media-1'],
+    });
+
+    expect(parsed.success).toBe(false);
+    expect(getFieldErrors(parsed.error!).map((error) => error.field)).toEqual(['to.1', 'content', 'mediaUrls.0', 'mediaIds.0']);
+  });
+
+  it('caps the number of attachments', () => {
+    const parsed = sendMessageSchema.safeParse({
+      from: '+13125550100',
+      to: ['+13125550147'],
+      content: 'Photos',
+      mediaIds: Array.from({ length: 11 }, () => crypto.randomUUID()),
+    });
+    expect(getFieldErrors(parsed.error!)).toEqual([
+      { field: 'mediaUrls', message: 'A message can carry at most 10 attachments' },
+    ]);
+  });
+});
+
+describe('getFieldErrors', () => {
+  it('reports issues without a path against the root', () => {
+    const parsed = makeCallSchema.safeParse('not an object');
+    expect(getFieldErrors(parsed.error!, 'body')).toEqual([{ field: 'body', message: expect.any(String) }]);
+  });
+});
@@ -0,0 +1,189 @@
+// Request validation
+// Zod schemas for REST bodies and queries, MCP tool arguments and Sona chat, E.164 phone number
+// normalization and the VALIDATION_FAILED error envelope
+
+import type { MiddlewareHandler } from 'hono';
+import { z } from 'zod';
+import { MAX_MEDIA_PER_MESSAGE } from '@/lib/media';
+import { parseLimit } from '@/lib/pagination';
+
+const E164 = /^\+[1-9]\d{7,14}$/;
+
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+export interface ValidationErrorBody {
+  success: false;
+  error: {
+    code: 'VALIDATION_FAILED';
+    message: string;
+    fields: FieldError[];
+  };
+}
+
+/**
+ * Normalize a phone number to E.164; null when it cannot be one
+ * Accepts common formatting (spaces, dots, dashes, parentheses), a 00 international prefix and
+ * 10- or 11-digit North American numbers without a country code
+ */
+export function normalizePhoneNumber(value: string): string | null {
+  const trimmed = value.trim();
+  if (!/^\+?[\d\s().-]+$/.test(trimmed)) return null;
+
+  let number = trimmed.replace(/[\s().-]/g, '');
+  if (number.startsWith('00')) {
+    number = `+${number.slice(2)}`;
+  } else if (!number.startsWith('+')) {
+    if (number.length === 10) number = `+1${number}`;
+    else if (number.length === 11 && number.startsWith('1')) number = `+${number}`;
+  }
+
+  return E164.test(number) ? number : null;
+}
+
+/**
+ * A phone number, normalized to E.164
+ */
+export const phoneNumber = z.string().transform((value, ctx) => {
+  const normalized = normalizePhoneNumber(value);
+  if (!normalized) {
+    ctx.addIssue({ code: 'custom', message: 'Must be a phone number in E.164 format, e.g. +13125550147' });
+    return z.NEVER;
+  }
+  return normalized;
+});
+
+/**
+ * An ISO 8601 date, normalized to a UTC timestamp
+ */
+export const isoDate = z
+  .string()
+  .refine((value) => !Number.isNaN(Date.parse(value)), 'Must be an ISO 8601 date')
+  .transform((value) => new Date(value).toISOString());
+
+/**
+ * A `limit` query parameter: the default when absent, capped at `max`
+ */
+export function limitQuery(defaultLimit: number, max: number) {
+  return z
+    .string()
+    .optional()
+    .transform((value, ctx) => {
+      const limit = parseLimit(value, defaultLimit, max);
+      if (!limit) {
+        ctx.addIssue({ code: 'custom', message: `Must be an integer between 1 and ${max}` });
+        return z.NEVER;
+      }
+      return limit;
+    });
+}
+
+/**
+ * An `offset` query parameter, 0 when absent
+ */
+export const offsetQuery = z
+  .string()
+  .optional()
+  .refine((value) => !value || /^\d+$/.test(value), 'Must be a non-negative integer')
+  .transform((value) => (value ? parseInt(value, 10) : 0));
+
+/**
+ * limit/offset paging of the list endpoints
+ */
+export const pageQuery = z.object({
+  limit: limitQuery(50, 200),
+  offset: offsetQuery,
+});
+
+/**
+ * Outbound SMS/MMS, shared by POST /api/v1/send-message and the send_sms MCP tool
+ */
+export const sendMessageSchema = z
+  .object({
+    from: phoneNumber.describe('Sender phone number (E.164 format, e.g., +15551234567)'),
+    to: z.array(phoneNumber).min(1).max(10).describe('Recipient phone numbers (E.164 format)'),
+    content: z.string().trim().min(1).max(1600).describe('Message content'),
+    mediaUrls: z
+      .array(z.url({ protocol: /^https?$/ }))
+      .optional()
+      .describe('Public URLs of images or files to attach (optional)'),
+    mediaIds: z
+      .array(z.uuid())
+      .optional()
+      .describe('IDs of media uploaded with POST /api/v1/media to attach (optional)'),
+  })
+  .refine(
+    (body) => (body.mediaUrls?.length ?? 0) + (body.mediaIds?.length ?? 0) <= MAX_MEDIA_PER_MESSAGE,
+    { message: `A message can carry at most ${MAX_MEDIA_PER_MESSAGE} attachments`, path: ['mediaUrls'] }
+  );
+
+/**
+ * Outbound call, shared by POST /api/v1/make-call and the make_call MCP tool
+ */
+export const makeCallSchema = z.object({
+  from: phoneNumber.describe('Caller phone number (E.164 format)'),
+  to: phoneNumber.describe('Recipient phone number (E.164 format)'),
+  maxDuration: z.number().int().min(1).max(14400).optional().describe('Maximum call duration in seconds (optional)'),
+});
+
+/**
+ * Field errors of a failed parse; issues without a path are reported against `root`
+ */
+export function getFieldErrors(error: z.ZodError, root: string = 'body'): FieldError[] {
+  return error.issues.map((issue) => ({
+    field: issue.path.length > 0 ? issue.path.join('.') : root,
+    message: issue.message,
+  }));
+}
+
+/**
+ * The VALIDATION_FAILED error envelope (HTTP 400)
+ */
+export function validationErrorBody(fields: FieldError[]): ValidationErrorBody {
+  return {
+    success: false,
+    error: {
+      code: 'VALIDATION_FAILED',
+      message: `Invalid ${fields.map((field) => field.field).join(', ')}`,
+      fields,
+    },
+  };
+}
+
+type ValidationTarget = 'json' | 'query' | 'param';
+
+const ROOTS: Record<ValidationTarget, string> = { json: 'body', query: 'query', param: 'path' };
+
+/**
+ * Middleware validating the JSON body, query string or path parameters against `schema`
+ * The parsed value is read in the handler with c.req.valid(target); failures answer
+ * 400 VALIDATION_FAILED without reaching the handler. An empty JSON body is parsed as {}
+ */
+export function validate<T extends ValidationTarget, S extends z.ZodType, P extends string = string>(
+  target: T,
+  schema: S
+): MiddlewareHandler<any, P, { in: { [K in T]: z.input<S> }; out: { [K in T]: z.output<S> } }> {
+  return async (c, next) => {
+    let value: unknown;
+    if (target === 'json') {
+      const text = await c.req.text();
+      try {
+        value = text.trim() ? JSON.parse(text) : {};
+      } catch {
+        return c.json(validationErrorBody([{ field: 'body', message: 'Malformed JSON' }]), 400);
+      }
+    } else {
+      value = target === 'query' ? c.req.query() : c.req.param();
+    }
+
+    const result = await schema.safeParseAsync(value);
+    if (!result.success) {
+      return c.json(validationErrorBody(getFieldErrors(result.error, ROOTS[target])), 400);
+    }
+
+    c.req.addValidatedData(target, result.data as Record<string, unknown>);
+    await next();
+  };
+}
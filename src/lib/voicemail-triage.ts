@@ -0,0 +1,111 @@
+// Voicemail triage
+// Classifies voicemail transcriptions by intent and urgency and works out callback SLAs
+
+import type { Env } from '@/types/env';
+import { findEmergencyKeywords } from '@/lib/ai-orchestrator';
+import businessRules from '../../config/business-rules.json';
+
+export type VoicemailUrgency = 'emergency' | 'high' | 'normal' | 'low';
+
+export interface VoicemailClassification {
+  intent: string;
+  urgency: VoicemailUrgency;
+  isEmergency: boolean;
+  emergencyKeywords: string[];
+  summary: string | null;
+  classifiedBy: 'workers-ai' | 'keywords';
+}
+
+const INTENTS = [
+  'booking_inquiry',
+  'existing_reservation',
+  'corporate_housing',
+  'maintenance',
+  'billing',
+  'general_question',
+  'other',
+];
+
+export const VOICEMAIL_URGENCIES: VoicemailUrgency[] = ['emergency', 'high', 'normal', 'low'];
+
+const TRIAGE_PROMPT = `You triage voicemails left for Chicago Furnished Condos.
+
+Respond with JSON only:
+{"intent": "<one of: ${INTENTS.join(', ')}>", "urgency": "<one of: high, normal, low>", "summary": "<one sentence>"}
+
+high: a guest is blocked or upset and needs a same-hour response.
+normal: a question or request that should be answered today.
+low: informational, no reply strictly needed.`;
+
+/**
+ * Classify a voicemail transcription
+ * Emergency keywords (shared with Sona's isEmergency check) always win over the model's urgency
+ */
+export async function classifyVoicemail(transcription: string | null | undefined, env: Env): Promise<VoicemailClassification> {
+  const text = (transcription || '').trim();
+  const emergencyKeywords = findEmergencyKeywords(text);
+  const isEmergency = emergencyKeywords.length > 0;
+
+  const classification: VoicemailClassification = {
+    intent: isEmergency ? 'maintenance' : 'other',
+    urgency: isEmergency ? 'emergency' : 'normal',
+    isEmergency,
+    emergencyKeywords,
+    summary: null,
+    classifiedBy: 'keywords',
+  };
+
+  // Nothing to classify without a transcription; a human has to listen to it
+  if (!text) {
+    return classification;
+  }
+
+  try {
+    // @ts-ignore - Model name is valid but may not be in type definitions
+    const aiResponse = await env.AI.run('@cf/meta/llama-3.1-8b-instruct', {
+      messages: [
+        { role: 'system', content: TRIAGE_PROMPT },
+        { role: 'user', content: text },
+      ],
+      max_tokens: 200,
+    });
+
+    const parsed = parseTriageResponse(aiResponse);
+    if (parsed) {
+      classification.intent = isEmergency ? 'maintenance' : parsed.intent;
+      classification.urgency = isEmergency ? 'emergency' : parsed.urgency;
+      classification.summary = parsed.summary;
+      classification.classifiedBy = 'workers-ai';
+    }
+  } catch (error) {
+    console.error('Voicemail classification failed:', error);
+  }
+
+  return classification;
+}
+
+function parseTriageResponse(response: any): { intent: string; urgency: VoicemailUrgency; summary: string | null } | null {
+  const content: string = response?.response || '';
+  const match = content.match(/\{[\s\S]*\}/);
+  if (!match) return null;
+
+  try {
+    const parsed = JSON.parse(match[0]);
+    return {
+      intent: INTENTS.includes(parsed.intent) ? parsed.intent : 'other',
+      // The model may not declare an emergency; only keywords can
+      urgency: VOICEMAIL_URGENCIES.includes(parsed.urgency) && parsed.urgency !== 'emergency' ? parsed.urgency : 'normal',
+      summary: typeof parsed.summary === 'string' ? parsed.summary : null,
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * When a callback for a voicemail of the given urgency is due
+ */
+export function getCallbackDueAt(urgency: VoicemailUrgency, from: Date = new Date()): Date {
+  const minutes = businessRules.reception.callback_sla_minutes[urgency];
+  return new Date(from.getTime() + minutes * 60 * 1000);
+}
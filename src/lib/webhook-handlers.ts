@@ -0,0 +1,723 @@
+// Telephony webhook event handlers
+// Invoked by the webhook queue consumer once an event has been acknowledged
+
+import type { Env } from '@/types/env';
+import type { CallObject, MessageObject, MessageStatus, VoicemailObject } from '@/types/openphone';
+import type { TelephonyEvent } from '@/types/telephony';
+import { ChittyOSClient } from '@/lib/chittyos-integration';
+import { createDatabase, queries, type Database } from '@/lib/database';
+import { getTelephonyProvider } from '@/lib/telephony';
+import { generateCallSummary } from '@/lib/call-summary';
+import { classifyVoicemail, getCallbackDueAt } from '@/lib/voicemail-triage';
+import { applyOptKeyword, sendAutoReply, type AutoReplyResult } from '@/lib/auto-reply';
+import { ingestMessageMedia, type MediaIngestResult } from '@/lib/media';
+import { archiveCallRecordings, archiveVoicemailRecording, getRecordingPath } from '@/lib/recordings';
+import { transcribeCall, transcribeVoicemail } from '@/lib/transcription';
+
+/**
+ * Route an event to its handler
+ * Returns a summary of what was done, recorded as the event outcome in the ledger
+ */
+export async function processWebhookEvent(event: TelephonyEvent, env: Env): Promise<Record<string, unknown>> {
+  switch (event.type) {
+    case 'call.initiated':
+      return handleCallInitiated(event, env);
+    case 'call.completed':
+      return handleCallCompleted(event, env);
+    case 'message.created':
+      return handleMessageCreated(event, env);
+    case 'message.updated':
+      return handleMessageUpdated(event, env);
+    case 'voicemail.created':
+      return handleVoicemailCreated(event, env);
+    default:
+      console.log('Unhandled event type:', event.type);
+      return { handled: false };
+  }
+}
+
+/**
+ * Handle incoming call initiated
+ * Integrates with ChittyID, ChittyRouter, and ChittyTrust
+ */
+async function handleCallInitiated(event: TelephonyEvent, env: Env): Promise<Record<string, unknown>> {
+  const call = event.data.object as import('@/types/openphone').CallObject;
+  const fromNumber = call.from.phoneNumber;
+  const toNumber = call.to[0]?.phoneNumber;
+
+  console.log('Call initiated:', {
+    callId: call.id,
+    from: fromNumber,
+    to: toNumber,
+    direction: call.direction,
+  });
+
+  // Initialize ChittyOS client
+  const chittyos = new ChittyOSClient(env);
+  const db = createDatabase(env);
+
+  // Step 1: Resolve caller identity
+  const callerInfo = await chittyos.resolveCallerFull(fromNumber, {
+    callId: call.id,
+    direction: call.direction,
+  });
+
+  let identityId: string | null = null;
+
+  if (callerInfo.identity) {
+    identityId = callerInfo.identity.identityId;
+    console.log('Caller identified:', {
+      did: callerInfo.identity.did,
+      trustScore: callerInfo.trustScore?.score,
+      riskLevel: callerInfo.trustScore?.riskLevel,
+    });
+  } else {
+    // Unknown caller - create new identity
+    console.log('Unknown caller - minting new ChittyID');
+    const newIdentity = await mintIdentityForEvent(chittyos, db, event.id, fromNumber, 'openphone_call');
+    identityId = newIdentity.identityId;
+
+    if (identityId && newIdentity.minted) {
+      // Link phone number to identity
+      const phoneQuery = queries.createAuditLog(
+        identityId,
+        'identity.phone.linked',
+        'phone_number',
+        fromNumber,
+        { phoneNumber: fromNumber, verified: false }
+      );
+      await db.execute(phoneQuery.sql, phoneQuery.params);
+    }
+  }
+
+  // Step 2: Route call through ChittyRouter AI
+  const routingDecision = await chittyos.router.routeCall({
+    callId: call.id,
+    from: fromNumber,
+    to: toNumber,
+    callerIdentity: identityId || undefined,
+  });
+
+  console.log('Call routing decision:', routingDecision.data);
+
+  // Step 3: Store call in database
+  if (identityId) {
+    const callQuery = queries.createCallRecord(
+      identityId,
+      call.id,
+      call.direction === 'incoming' ? 'inbound' : 'outbound',
+      fromNumber,
+      toNumber,
+      {
+        openphoneData: call,
+        routingDecision: routingDecision.data,
+        trustScore: callerInfo.trustScore,
+      }
+    );
+    await db.execute(callQuery.sql, callQuery.params);
+  }
+
+  // Step 4: Store call state in KV for real-time access
+  await env.RECEPTION_KV.put(
+    `call:${call.id}`,
+    JSON.stringify({
+      ...call,
+      receivedAt: new Date().toISOString(),
+      identity: callerInfo.identity,
+      trustScore: callerInfo.trustScore,
+      routingDecision: routingDecision.data,
+    }),
+    { expirationTtl: 86400 } // 24 hours
+  );
+
+  // Step 5: Log to ChittyChronicle
+  await chittyos.chronicle.logEvent({
+    service: 'chittyreception',
+    action: 'call.initiated',
+    identityId: identityId || undefined,
+    resourceType: 'call',
+    resourceId: call.id,
+    details: {
+      from: fromNumber,
+      to: toNumber,
+      direction: call.direction,
+      routingDecision: routingDecision.data,
+    },
+    severity: routingDecision.data?.priority === 'urgent' ? 'warning' : 'info',
+  });
+
+  return {
+    handled: true,
+    callId: call.id,
+    identityId,
+    routingAction: routingDecision.data?.action,
+  };
+}
+
+/**
+ * Handle call completed
+ * Post-call pipeline: persist final call details, summarize with AI,
+ * attach the summary to the caller's session and log to ChittyChronicle
+ */
+async function handleCallCompleted(event: TelephonyEvent, env: Env): Promise<Record<string, unknown>> {
+  const webhookCall = event.data.object as CallObject;
+  console.log('Call completed:', {
+    callId: webhookCall.id,
+    duration: webhookCall.duration,
+    status: webhookCall.status,
+  });
+
+  const chittyos = new ChittyOSClient(env);
+  const db = createDatabase(env);
+  const provider = getTelephonyProvider(env, event.provider);
+
+  // Step 1: Fetch authoritative call details (the webhook payload may be partial)
+  let call: CallObject = webhookCall;
+  try {
+    const details = await provider.getCall(webhookCall.id);
+    call = { ...webhookCall, ...details };
+  } catch (error) {
+    console.error('Failed to fetch call details, using webhook payload:', error);
+  }
+
+  // Step 2: Update call state in KV
+  const existingCall = await env.RECEPTION_KV.get<{
+    identity?: { identityId: string };
+    routingDecision?: { aiAnalysis?: string };
+  }>(`call:${call.id}`, 'json');
+  if (existingCall) {
+    await env.RECEPTION_KV.put(
+      `call:${call.id}`,
+      JSON.stringify({
+        ...existingCall,
+        ...call,
+        completedAt: new Date().toISOString(),
+      }),
+      { expirationTtl: 86400 }
+    );
+  }
+
+  // Step 3: Persist final call details
+  const completeQuery = queries.completeCallRecord(call.id, {
+    status: call.status,
+    durationSeconds: call.duration ?? null,
+    answeredAt: call.answeredAt ?? null,
+    endedAt: call.completedAt ?? null,
+    recordingUrl: call.recording?.url ?? null,
+  });
+  const callRecord = await db.queryOne<{ id: string; identity_id: string; metadata: any }>(
+    completeQuery.sql,
+    completeQuery.params
+  );
+
+  const identityId = callRecord?.identity_id || existingCall?.identity?.identityId || null;
+
+  // Step 3a: Copy the recording into our storage before the provider URL expires
+  const recordings = await archiveCallRecordings(env, db, provider, call.id, call.recording);
+
+  // Step 3b: Transcribe (provider transcript, else Whisper over the archived recording)
+  const transcript = await transcribeCall(env, db, provider, call);
+
+  // Step 4: Generate AI summary and action items
+  const summary = await generateCallSummary({
+    call,
+    transcript: transcript?.text,
+    routingAnalysis: existingCall?.routingDecision?.aiAnalysis ?? callRecord?.metadata?.routingDecision?.aiAnalysis,
+  }, env);
+
+  const summaryQuery = queries.mergeCallMetadata(call.id, {
+    aiSummary: summary.summary,
+    actionItems: summary.actionItems,
+    summaryGeneratedBy: summary.generatedBy,
+  });
+  await db.execute(summaryQuery.sql, summaryQuery.params);
+
+  // Step 5: Attach summary to the caller's active session
+  const counterparty = call.direction === 'incoming' ? call.from.phoneNumber : call.to[0]?.phoneNumber;
+  let sessionId: string | null = null;
+
+  if (identityId && counterparty) {
+    const session = await findOrCreateSession(db, identityId, counterparty);
+
+    if (session) {
+      sessionId = session.id;
+      const attachQuery = queries.attachCallSummaryToSession(session.id, summary.summary, {
+        callId: call.id,
+        direction: call.direction,
+        status: call.status,
+        durationSeconds: call.duration ?? null,
+        summary: summary.summary,
+        actionItems: summary.actionItems,
+        completedAt: call.completedAt ?? new Date().toISOString(),
+      });
+      await db.execute(attachQuery.sql, attachQuery.params);
+    }
+  }
+
+  // Step 6: Log to ChittyChronicle
+  await chittyos.chronicle.logEvent({
+    service: 'chittyreception',
+    action: 'call.completed',
+    identityId: identityId || undefined,
+    resourceType: 'call',
+    resourceId: call.id,
+    details: {
+      status: call.status,
+      durationSeconds: call.duration ?? null,
+      hasRecording: !!call.recording || recordings.stored > 0,
+      recordingsArchived: recordings.stored,
+      transcriptSource: transcript?.source ?? null,
+      sessionId,
+      summary: summary.summary,
+      actionItems: summary.actionItems,
+    },
+    severity: 'info',
+  });
+
+  return {
+    handled: true,
+    callId: call.id,
+    identityId,
+    sessionId,
+    actionItems: summary.actionItems.length,
+    recordings,
+    transcriptSource: transcript?.source ?? null,
+  };
+}
+
+/**
+ * Get the active session for an identity on a phone number, opening one if needed
+ */
+async function findOrCreateSession(db: Database, identityId: string, phoneNumber: string): Promise<{ id: string } | null> {
+  const findQuery = queries.findActiveSession(identityId, phoneNumber);
+  const session = await db.queryOne<{ id: string }>(findQuery.sql, findQuery.params);
+  if (session) return session;
+
+  const createQuery = queries.createSession(identityId, phoneNumber);
+  return db.queryOne<{ id: string }>(createQuery.sql, createQuery.params);
+}
+
+/**
+ * Mint a ChittyID for a number ChittyID does not know
+ * The minted ID is saved on the event's ledger row before anything else happens, so a retry of
+ * an event that failed later on reuses it instead of minting a duplicate. `minted` is false when
+ * an earlier attempt minted it
+ */
+async function mintIdentityForEvent(
+  chittyos: ChittyOSClient,
+  db: Database,
+  eventId: string,
+  phoneNumber: string,
+  source: string
+): Promise<{ identityId: string | null; minted: boolean }> {
+  const mintedQuery = queries.getMintedIdentity(eventId);
+  const previous = await db.queryOne<{ minted_identity_id: string | null }>(mintedQuery.sql, mintedQuery.params);
+  if (previous?.minted_identity_id) {
+    return { identityId: previous.minted_identity_id, minted: false };
+  }
+
+  const newIdentity = await chittyos.id.mintIdentity('PERSON', {
+    phoneNumber,
+    source,
+    firstContactDate: new Date().toISOString(),
+  });
+  if (!newIdentity.success || !newIdentity.data) {
+    return { identityId: null, minted: false };
+  }
+
+  const recordQuery = queries.recordMintedIdentity(eventId, newIdentity.data.id);
+  await db.execute(recordQuery.sql, recordQuery.params);
+  return { identityId: newIdentity.data.id, minted: true };
+}
+
+/**
+ * Handle incoming message
+ * Integrates with ChittyRouter for AI analysis and response generation
+ */
+async function handleMessageCreated(event: TelephonyEvent, env: Env): Promise<Record<string, unknown>> {
+  const message = event.data.object as MessageObject;
+  const fromNumber = message.from.phoneNumber;
+  const toNumber = message.to[0]?.phoneNumber;
+
+  // Outgoing messages (including our own auto-replies) are recorded when sent
+  // and tracked through message.updated
+  if (message.direction === 'outgoing') {
+    return { handled: false, messageId: message.id, direction: message.direction };
+  }
+
+  console.log('Message received:', {
+    messageId: message.id,
+    from: fromNumber,
+    to: toNumber,
+    body: message.body.substring(0, 50),
+  });
+
+  // Initialize ChittyOS client
+  const chittyos = new ChittyOSClient(env);
+  const db = createDatabase(env);
+
+  // Step 1: Resolve sender identity
+  const senderInfo = await chittyos.resolveCallerFull(fromNumber, {
+    messageId: message.id,
+    messagePreview: message.body.substring(0, 100),
+  });
+
+  let identityId: string | null = null;
+
+  if (senderInfo.identity) {
+    identityId = senderInfo.identity.identityId;
+  } else {
+    // Unknown sender - create new identity
+    identityId = (await mintIdentityForEvent(chittyos, db, event.id, fromNumber, 'openphone_message')).identityId;
+  }
+
+  // Step 2: Analyze message with ChittyRouter AI
+  const analysis = await chittyos.router.processMessage({
+    messageId: message.id,
+    from: fromNumber,
+    to: toNumber,
+    body: message.body,
+    callerIdentity: identityId || undefined,
+  });
+
+  console.log('Message analysis:', {
+    intent: analysis.data?.intent,
+    sentiment: analysis.data?.sentiment,
+    requiresHuman: analysis.data?.requiresHuman,
+  });
+
+  // Step 3: Store message in database within the sender's session
+  let sessionId: string | null = null;
+
+  if (identityId) {
+    const session = await findOrCreateSession(db, identityId, fromNumber);
+    sessionId = session?.id ?? null;
+
+    const messageQuery = queries.createMessageRecord(
+      identityId,
+      message.id,
+      'inbound',
+      fromNumber,
+      toNumber,
+      message.body,
+      {
+        openphoneData: message,
+        aiAnalysis: analysis.data,
+        trustScore: senderInfo.trustScore,
+      },
+      'received',
+      sessionId
+    );
+    await db.execute(messageQuery.sql, messageQuery.params);
+
+    if (sessionId) {
+      const sessionQuery = queries.appendMessageToSession(sessionId, {
+        messageId: message.id,
+        direction: 'inbound',
+        intent: analysis.data?.intent,
+        at: message.createdAt,
+      });
+      await db.execute(sessionQuery.sql, sessionQuery.params);
+    }
+  }
+
+  // Step 3a: Download and store MMS media
+  let media: MediaIngestResult | null = null;
+  if (message.media?.length) {
+    media = await ingestMessageMedia(env, db, getTelephonyProvider(env, event.provider), message);
+  }
+
+  // Step 3b: Honour STOP/START before anything automated is sent
+  const optKeyword = toNumber ? await applyOptKeyword(db, fromNumber, toNumber, message.body) : null;
+
+  // Step 4: Store in KV for real-time access
+  await env.RECEPTION_KV.put(
+    `message:${message.id}`,
+    JSON.stringify({
+      ...message,
+      receivedAt: new Date().toISOString(),
+      identity: senderInfo.identity,
+      analysis: analysis.data,
+    }),
+    { expirationTtl: 86400 }
+  );
+
+  // Step 5: Log to ChittyChronicle
+  await chittyos.chronicle.logEvent({
+    service: 'chittyreception',
+    action: 'message.received',
+    identityId: identityId || undefined,
+    resourceType: 'message',
+    resourceId: message.id,
+    details: {
+      from: fromNumber,
+      to: toNumber,
+      intent: analysis.data?.intent,
+      sentiment: analysis.data?.sentiment,
+      bodyLength: message.body.length,
+      mediaCount: message.media?.length ?? 0,
+    },
+    severity: analysis.data?.sentiment === 'urgent' ? 'warning' : 'info',
+  });
+
+  // Step 6: Auto-respond if appropriate
+  let autoReply: AutoReplyResult | null = null;
+  if (analysis.data?.suggestedResponse && !analysis.data.requiresHuman && identityId && toNumber && !optKeyword) {
+    autoReply = await sendAutoReply(env, db, {
+      inboundMessageId: message.id,
+      inboundBody: message.body,
+      lineNumber: toNumber,
+      contactNumber: fromNumber,
+      identityId,
+      sessionId,
+      content: analysis.data.suggestedResponse,
+    });
+
+    console.log('Auto-reply:', { messageId: message.id, ...autoReply });
+  }
+
+  return {
+    handled: true,
+    messageId: message.id,
+    identityId,
+    sessionId,
+    intent: analysis.data?.intent,
+    optKeyword,
+    autoReply,
+    media,
+  };
+}
+
+/** Delivery statuses tracked from message.updated, ordered so terminal states win */
+const DELIVERY_STATUS_RANK: Partial<Record<MessageStatus, number>> = {
+  queued: 1,
+  sending: 2,
+  sent: 3,
+  delivered: 4,
+  failed: 4,
+  undelivered: 4,
+};
+
+const FAILED_DELIVERY_STATUSES: MessageStatus[] = ['failed', 'undelivered'];
+
+/**
+ * Handle message updated
+ * Records outbound delivery status transitions and alerts on failed deliveries
+ */
+async function handleMessageUpdated(event: TelephonyEvent, env: Env): Promise<Record<string, unknown>> {
+  const message = event.data.object as MessageObject;
+  const status = message.status;
+  const toNumber = message.to[0]?.phoneNumber;
+
+  if (!status || DELIVERY_STATUS_RANK[status] === undefined) {
+    console.log('Ignoring message update without a delivery status:', { messageId: message.id, status });
+    return { handled: false, messageId: message.id, status };
+  }
+
+  console.log('Message status updated:', {
+    messageId: message.id,
+    status,
+    to: toNumber,
+  });
+
+  const chittyos = new ChittyOSClient(env);
+  const db = createDatabase(env);
+
+  const transition = {
+    status,
+    at: message.updatedAt || event.createdAt,
+    eventId: event.id,
+  };
+
+  // Step 1: Apply the transition to the stored message
+  const updateQuery = queries.updateMessageStatus(message.id, status, DELIVERY_STATUS_RANK[status]!, transition);
+  let record = await db.queryOne<{ id: string; identity_id: string; status: string }>(updateQuery.sql, updateQuery.params);
+
+  // Step 2: Messages sent outside this service (e.g. from the OpenPhone app) are
+  // recorded on first update when the recipient resolves to a known identity
+  if (!record && message.direction === 'outgoing' && toNumber) {
+    const recipient = await chittyos.resolveCallerFull(toNumber, { messageId: message.id });
+
+    if (recipient.identity) {
+      const messageQuery = queries.createMessageRecord(
+        recipient.identity.identityId,
+        message.id,
+        'outbound',
+        message.from.phoneNumber,
+        toNumber,
+        message.body,
+        {
+          openphoneData: message,
+          statusHistory: [transition],
+        },
+        status
+      );
+      record = await db.queryOne(messageQuery.sql, messageQuery.params);
+    }
+  }
+
+  if (!record) {
+    console.log('Message update for unknown message:', message.id);
+  }
+
+  // Step 3: Surface failed deliveries
+  const failed = FAILED_DELIVERY_STATUSES.includes(status);
+  if (failed) {
+    await chittyos.chronicle.logEvent({
+      service: 'chittyreception',
+      action: 'message.delivery_failed',
+      identityId: record?.identity_id,
+      resourceType: 'message',
+      resourceId: message.id,
+      details: {
+        status,
+        from: message.from.phoneNumber,
+        to: toNumber,
+        eventId: event.id,
+      },
+      severity: 'error',
+    });
+  }
+
+  return {
+    handled: true,
+    messageId: message.id,
+    status,
+    tracked: !!record,
+    failed,
+  };
+}
+
+/**
+ * Handle voicemail created
+ * Persists the voicemail, resolves the caller, triages the transcription
+ * and opens a callback task with an SLA deadline
+ */
+async function handleVoicemailCreated(event: TelephonyEvent, env: Env): Promise<Record<string, unknown>> {
+  const voicemail = event.data.object as VoicemailObject;
+  const fromNumber = voicemail.from.phoneNumber;
+  const toNumber = voicemail.to.phoneNumber;
+
+  console.log('Voicemail received:', {
+    voicemailId: voicemail.id,
+    from: fromNumber,
+    duration: voicemail.duration,
+    hasTranscription: !!voicemail.transcription,
+  });
+
+  const chittyos = new ChittyOSClient(env);
+  const db = createDatabase(env);
+
+  // Step 1: Keep a short-lived copy in KV for real-time access
+  await env.RECEPTION_KV.put(
+    `voicemail:${voicemail.id}`,
+    JSON.stringify({
+      ...voicemail,
+      receivedAt: new Date().toISOString(),
+    }),
+    { expirationTtl: 86400 }
+  );
+
+  // Step 2: Resolve caller identity
+  const callerInfo = await chittyos.resolveCallerFull(fromNumber, {
+    voicemailId: voicemail.id,
+  });
+
+  let identityId: string | null = null;
+
+  if (callerInfo.identity) {
+    identityId = callerInfo.identity.identityId;
+  } else {
+    identityId = (await mintIdentityForEvent(chittyos, db, event.id, fromNumber, 'openphone_voicemail')).identityId;
+  }
+
+  // Step 2a: Copy the recording into our storage before the provider URL expires
+  const recording = await archiveVoicemailRecording(
+    env,
+    db,
+    getTelephonyProvider(env, event.provider),
+    voicemail.id,
+    voicemail.recording
+  );
+
+  // Step 2b: Transcribe (provider transcription, else Whisper over the archived recording)
+  const transcript = await transcribeVoicemail(env, db, voicemail);
+  const transcription = transcript?.text ?? voicemail.transcription ?? null;
+
+  // Step 3: Triage the transcription
+  const classification = await classifyVoicemail(transcription, env);
+
+  // Step 4: Persist the voicemail
+  const voicemailQuery = queries.createVoicemailRecord({
+    identityId,
+    voicemailId: voicemail.id,
+    from: fromNumber,
+    to: toNumber,
+    durationSeconds: voicemail.duration ?? null,
+    recordingUrl: voicemail.recording?.url ?? null,
+    transcription,
+    intent: classification.intent,
+    urgency: classification.urgency,
+    isEmergency: classification.isEmergency,
+    classification,
+    receivedAt: voicemail.createdAt,
+    metadata: {
+      openphoneData: voicemail,
+      trustScore: callerInfo.trustScore,
+    },
+  });
+  // A retry finds the row an earlier attempt inserted
+  const existingQuery = queries.getVoicemailId(voicemail.id);
+  const record =
+    (await db.queryOne<{ id: string }>(voicemailQuery.sql, voicemailQuery.params)) ??
+    (await db.queryOne<{ id: string }>(existingQuery.sql, existingQuery.params));
+
+  // Step 4a: Point recording_url at the archived copy once it is stored
+  const urlQuery = queries.setVoicemailRecordingUrl(voicemail.id, getRecordingPath(voicemail.id));
+  await db.execute(urlQuery.sql, urlQuery.params);
+
+  // Step 5: Open a callback task with an SLA deadline (on every attempt, so a retry creates
+  // the task an earlier attempt failed before)
+  let callbackDueAt: Date | null = null;
+  if (record) {
+    callbackDueAt = getCallbackDueAt(classification.urgency);
+    const taskQuery = queries.createCallbackTask({
+      voicemailId: record.id,
+      identityId,
+      phoneNumber: fromNumber,
+      lineNumber: toNumber,
+      reason: classification.summary || `Voicemail (${classification.intent})`,
+      priority: classification.urgency,
+      dueAt: callbackDueAt,
+    });
+    await db.execute(taskQuery.sql, taskQuery.params);
+  }
+
+  // Step 6: Log to ChittyChronicle
+  await chittyos.chronicle.logEvent({
+    service: 'chittyreception',
+    action: 'voicemail.received',
+    identityId: identityId || undefined,
+    resourceType: 'voicemail',
+    resourceId: voicemail.id,
+    details: {
+      from: fromNumber,
+      to: toNumber,
+      intent: classification.intent,
+      urgency: classification.urgency,
+      emergencyKeywords: classification.emergencyKeywords,
+      callbackDueAt: callbackDueAt?.toISOString(),
+    },
+    severity: classification.isEmergency ? 'critical' : classification.urgency === 'high' ? 'warning' : 'info',
+  });
+
+  return {
+    handled: true,
+    voicemailId: voicemail.id,
+    identityId,
+    urgency: classification.urgency,
+    callbackDueAt: callbackDueAt?.toISOString() ?? null,
+    recording,
+    transcriptSource: transcript?.source ?? null,
+  };
+}
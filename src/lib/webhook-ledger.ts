@@ -0,0 +1,194 @@
+// Processed-events ledger for inbound webhooks
+// Persists every raw event, de-duplicates provider retries and tracks
+// processing attempts through the webhook queue
+
+import type { Env } from '@/types/env';
+import type { TelephonyEvent } from '@/types/telephony';
+import { Database, createDatabase, queries } from '@/lib/database';
+
+// Processed events are remembered in KV for a week; older replays fall through to Neon
+const KV_TTL_SECONDS = 7 * 86400;
+
+export const WEBHOOK_EVENT_STATUSES = [
+  'received',
+  'queued',
+  'processing',
+  'processed',
+  'failed',
+  'dead_lettered',
+] as const;
+
+export type WebhookEventStatus = (typeof WEBHOOK_EVENT_STATUSES)[number];
+
+export interface WebhookLedgerEntry {
+  event_id: string;
+  event_type: string;
+  status: WebhookEventStatus;
+  delivery_count: number;
+  attempts: number;
+  payload: TelephonyEvent;
+  outcome: Record<string, unknown> | null;
+  last_error: string | null;
+  first_received_at: string;
+  last_received_at: string;
+  processing_started_at: string | null;
+  processed_at: string | null;
+}
+
+export interface DeadLetterEntry {
+  id: string;
+  event_id: string;
+  event_type: string;
+  payload: TelephonyEvent;
+  attempts: number;
+  last_error: string | null;
+  status: 'pending' | 'redriven';
+  redrive_count: number;
+  dead_lettered_at: string;
+  redriven_at: string | null;
+}
+
+export interface RecordResult {
+  /** True when this delivery is new and should be handed to the queue */
+  accepted: boolean;
+  status: WebhookEventStatus;
+  deliveryCount: number;
+}
+
+function kvKey(eventId: string): string {
+  return `webhook-event:${eventId}`;
+}
+
+export class WebhookLedger {
+  private db: Database;
+
+  constructor(private env: Env, db?: Database) {
+    this.db = db || createDatabase(env);
+  }
+
+  /**
+   * Persist a delivery and decide whether it needs to be enqueued.
+   * Only the first delivery of an event (or a redelivery of an event that
+   * never made it onto the queue) is accepted; everything else is a duplicate.
+   */
+  async record(event: TelephonyEvent): Promise<RecordResult> {
+    // Fast path: processed events are cached in KV
+    const cached = await this.env.RECEPTION_KV.get<{ status: WebhookEventStatus }>(kvKey(event.id), 'json');
+    if (cached?.status === 'processed') {
+      // Still count the delivery, but never block the response on it
+      const touch = queries.touchWebhookEvent(event.id);
+      this.db.execute(touch.sql, touch.params).catch((err) => {
+        console.error('Failed to record duplicate webhook delivery:', err);
+      });
+      return { accepted: false, status: 'processed', deliveryCount: 0 };
+    }
+
+    const { sql, params } = queries.recordWebhookEvent(event.id, event.type, event);
+    const row = await this.db.queryOne<{ status: WebhookEventStatus; delivery_count: number; accepted: boolean }>(sql, params);
+
+    if (!row) {
+      throw new Error(`Failed to record webhook event ${event.id}`);
+    }
+
+    return {
+      accepted: row.accepted,
+      status: row.status,
+      deliveryCount: row.delivery_count,
+    };
+  }
+
+  /**
+   * Mark an event as handed off to the queue
+   */
+  async markQueued(eventId: string): Promise<void> {
+    const { sql, params } = queries.setWebhookEventStatus(eventId, 'queued');
+    await this.db.execute(sql, params);
+  }
+
+  /**
+   * Claim an event for processing by the queue consumer.
+   * Returns null when the event is already processed, dead-lettered or in flight elsewhere.
+   */
+  async startProcessing(eventId: string): Promise<WebhookLedgerEntry | null> {
+    const { sql, params } = queries.startWebhookEventProcessing(eventId);
+    return this.db.queryOne<WebhookLedgerEntry>(sql, params);
+  }
+
+  /**
+   * Mark an event as successfully processed and cache the result in KV
+   */
+  async markProcessed(eventId: string, outcome: Record<string, unknown> = {}): Promise<void> {
+    const { sql, params } = queries.completeWebhookEvent(eventId, outcome);
+    await this.db.execute(sql, params);
+
+    await this.env.RECEPTION_KV.put(
+      kvKey(eventId),
+      JSON.stringify({ status: 'processed', processedAt: new Date().toISOString() }),
+      { expirationTtl: KV_TTL_SECONDS }
+    );
+  }
+
+  /**
+   * Mark an event as failed so the next queue attempt is allowed to retry it
+   */
+  async markFailed(eventId: string, error: unknown): Promise<void> {
+    const { sql, params } = queries.failWebhookEvent(eventId, errorMessage(error));
+    await this.db.execute(sql, params);
+  }
+
+  /**
+   * Move an event that exhausted its attempts into dead-letter storage
+   */
+  async deadLetter(eventId: string, error: unknown): Promise<DeadLetterEntry | null> {
+    const { sql, params } = queries.deadLetterWebhookEvent(eventId, errorMessage(error));
+    return this.db.queryOne<DeadLetterEntry>(sql, params);
+  }
+
+  /**
+   * Release a pending dead letter back to the queue.
+   * Returns the event ID to enqueue, or null if the dead letter was not pending.
+   */
+  async redrive(deadLetterId: string): Promise<string | null> {
+    const { sql, params } = queries.redriveDeadLetter(deadLetterId);
+    const row = await this.db.queryOne<{ event_id: string }>(sql, params);
+    return row?.event_id ?? null;
+  }
+
+  /**
+   * Reset a processed or failed event so a replayed delivery is accepted again
+   */
+  async prepareReplay(eventId: string): Promise<WebhookLedgerEntry | null> {
+    const { sql, params } = queries.resetWebhookEventForReplay(eventId);
+    const entry = await this.db.queryOne<WebhookLedgerEntry>(sql, params);
+
+    if (entry) {
+      await this.env.RECEPTION_KV.delete(kvKey(eventId));
+    }
+
+    return entry;
+  }
+
+  async get(eventId: string): Promise<WebhookLedgerEntry | null> {
+    const { sql, params } = queries.getWebhookEvent(eventId);
+    return this.db.queryOne<WebhookLedgerEntry>(sql, params);
+  }
+
+  async list(filters: { status?: string; type?: string; limit?: number; offset?: number } = {}): Promise<WebhookLedgerEntry[]> {
+    const { sql, params } = queries.listWebhookEvents(filters);
+    return this.db.query<WebhookLedgerEntry>(sql, params);
+  }
+
+  async getDeadLetter(id: string): Promise<DeadLetterEntry | null> {
+    const { sql, params } = queries.getDeadLetter(id);
+    return this.db.queryOne<DeadLetterEntry>(sql, params);
+  }
+
+  async listDeadLetters(filters: { status?: string; limit?: number; offset?: number } = {}): Promise<DeadLetterEntry[]> {
+    const { sql, params } = queries.listDeadLetters(filters);
+    return this.db.query<DeadLetterEntry>(sql, params);
+  }
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
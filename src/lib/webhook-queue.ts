@@ -0,0 +1,145 @@
+// Webhook queue consumer
+// Processes acknowledged webhook events asynchronously with exponential backoff,
+// moving events that exhaust their attempts into dead-letter storage
+
+import type { Env, WebhookQueueMessage } from '@/types/env';
+import { WebhookLedger } from '@/lib/webhook-ledger';
+import { processWebhookEvent } from '@/lib/webhook-handlers';
+import { ChittyChronicleClient } from '@/lib/chittyos-integration';
+import { OpenPhoneApiError } from '@/lib/openphone';
+
+// Same as max_retries of the webhook queue consumers in wrangler.toml; change them together
+const DEFAULT_MAX_ATTEMPTS = 10;
+const BASE_DELAY_SECONDS = 10;
+const MAX_DELAY_SECONDS = 3600;
+
+// How long to wait before checking again on an event another consumer is processing
+const IN_FLIGHT_DELAY_SECONDS = 300;
+
+/**
+ * Maximum processing attempts before an event is dead-lettered
+ */
+export function getMaxAttempts(env: Env): number {
+  const configured = parseInt(env.WEBHOOK_MAX_ATTEMPTS || '', 10);
+  return Number.isFinite(configured) && configured > 0 ? configured : DEFAULT_MAX_ATTEMPTS;
+}
+
+/**
+ * Exponential backoff with full jitter: 10s, 20s, 40s, ... capped at one hour
+ */
+export function getRetryDelaySeconds(attempt: number, random: () => number = Math.random): number {
+  const ceiling = Math.min(BASE_DELAY_SECONDS * 2 ** Math.max(attempt - 1, 0), MAX_DELAY_SECONDS);
+  return Math.max(BASE_DELAY_SECONDS, Math.round(ceiling * random()));
+}
+
+/**
+ * Hand an event to the queue and record the hand-off in the ledger
+ */
+export async function enqueueWebhookEvent(env: Env, ledger: WebhookLedger, eventId: string): Promise<void> {
+  await env.WEBHOOK_QUEUE.send({ eventId });
+  await ledger.markQueued(eventId);
+}
+
+/**
+ * Queue consumer entry point (wired up in src/index.ts)
+ */
+export async function handleWebhookQueue(batch: MessageBatch<WebhookQueueMessage>, env: Env): Promise<void> {
+  const ledger = new WebhookLedger(env);
+  const maxAttempts = getMaxAttempts(env);
+
+  for (const message of batch.messages) {
+    await processQueueMessage(message, env, ledger, maxAttempts);
+  }
+}
+
+async function processQueueMessage(
+  message: Message<WebhookQueueMessage>,
+  env: Env,
+  ledger: WebhookLedger,
+  maxAttempts: number
+): Promise<void> {
+  const { eventId } = message.body;
+
+  let entry;
+  try {
+    entry = await ledger.startProcessing(eventId);
+  } catch (error) {
+    // Ledger unavailable - let the queue redeliver. Only claims in the ledger count as attempts,
+    // so the outage does not bring the event closer to dead-lettering
+    console.error('Webhook ledger unavailable:', error);
+    message.retry({ delaySeconds: getRetryDelaySeconds(message.attempts) });
+    return;
+  }
+
+  if (!entry) {
+    const current = await ledger.get(eventId);
+    if (current?.status === 'processing') {
+      message.retry({ delaySeconds: IN_FLIGHT_DELAY_SECONDS });
+    } else {
+      console.log('Skipping webhook event:', { eventId, status: current?.status ?? 'missing' });
+      message.ack();
+    }
+    return;
+  }
+
+  // The ledger counts attempts since the event was received, replayed or re-driven; queue
+  // deliveries also count redeliveries that never claimed the event
+  const attempt = entry.attempts;
+
+  let outcome;
+  try {
+    outcome = await processWebhookEvent(entry.payload, env);
+  } catch (error) {
+    console.error('Webhook event processing failed:', {
+      eventId,
+      attempt,
+      error: error instanceof Error ? error.message : error,
+    });
+
+    if (attempt >= maxAttempts) {
+      try {
+        await ledger.deadLetter(eventId, error);
+      } catch (err) {
+        console.error('Failed to dead-letter webhook event:', err);
+        message.retry({ delaySeconds: MAX_DELAY_SECONDS });
+        return;
+      }
+
+      const chronicle = new ChittyChronicleClient(env);
+      await chronicle.logEvent({
+        service: 'chittyreception',
+        action: 'webhook.dead_lettered',
+        resourceType: 'webhook_event',
+        resourceId: eventId,
+        details: {
+          eventType: entry.event_type,
+          attempts: attempt,
+          error: error instanceof Error ? error.message : String(error),
+        },
+        severity: 'error',
+      });
+
+      message.ack();
+      return;
+    }
+
+    await ledger.markFailed(eventId, error).catch((err) => {
+      console.error('Failed to record webhook failure:', err);
+    });
+
+    // Don't come back before a rate-limited provider said we may
+    const retryAfter = error instanceof OpenPhoneApiError ? error.retryAfterSeconds ?? 0 : 0;
+    message.retry({ delaySeconds: Math.max(getRetryDelaySeconds(attempt), retryAfter) });
+    return;
+  }
+
+  // The handlers succeeded: running them again would repeat their side effects (auto-replies,
+  // callback tasks), so a failed ledger write is only logged. The entry stays 'processing',
+  // which still keeps provider retries from being accepted
+  try {
+    await ledger.markProcessed(eventId, outcome);
+  } catch (error) {
+    console.error('Webhook event processed but not recorded:', { eventId, error });
+  }
+  message.ack();
+}
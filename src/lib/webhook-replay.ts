@@ -0,0 +1,51 @@
+// Webhook replay
+// Re-signs stored or fixture OpenPhone events and feeds them through a webhook endpoint
+
+import type { OpenPhoneWebhookEvent } from '@/types/openphone';
+import { signOpenPhoneWebhook } from './openphone';
+
+export const DEFAULT_REPLAY_URL = 'http://localhost:8787/webhooks/openphone';
+
+export type WebhookTarget = (request: Request) => Response | Promise<Response>;
+
+/**
+ * Build a webhook request signed with the given secret, exactly as OpenPhone would deliver it
+ * The signature carries the current time, so replays pass the timestamp tolerance check
+ */
+export async function buildSignedWebhookRequest(
+  event: OpenPhoneWebhookEvent | string,
+  secret: string,
+  url: string = DEFAULT_REPLAY_URL
+): Promise<Request> {
+  const body = typeof event === 'string' ? event : JSON.stringify(event);
+  const signature = await signOpenPhoneWebhook(body, secret);
+
+  return new Request(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'openphone-signature': signature,
+    },
+    body,
+  });
+}
+
+/**
+ * Replay an event through a target: a Hono app's fetch, or the global fetch for a running worker
+ */
+export async function replayWebhookEvent(
+  target: WebhookTarget,
+  event: OpenPhoneWebhookEvent | string,
+  secret: string,
+  url: string = DEFAULT_REPLAY_URL
+): Promise<Response> {
+  const request = await buildSignedWebhookRequest(event, secret, url);
+  return target(request);
+}
+
+/**
+ * Give an event a fresh ID so the ledger treats it as a new delivery
+ */
+export function withFreshEventId(event: OpenPhoneWebhookEvent, suffix: string = Date.now().toString(36)): OpenPhoneWebhookEvent {
+  return { ...event, id: `${event.id}-replay-${suffix}` };
+}
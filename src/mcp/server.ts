@@ -2,9 +2,15 @@
 // Provides Claude Code tools for phone/SMS operations
 
 import type { Env } from '@/types/env';
-import { OpenPhoneClient } from '@/lib/openphone';
+import { getProviderForNumber } from '@/lib/telephony';
 import { createDatabase } from '@/lib/database';
+import { attachOutboundMedia, getPublicBaseUrl, resolveOutboundMedia } from '@/lib/media';
 import { neon } from '@neondatabase/serverless';
+import { z } from 'zod';
+import { MissingScopesError, getMissingScopes, type Scope } from '@/lib/scopes';
+import { makeCallSchema, phoneNumber, sendMessageSchema } from '@/lib/validation';
+import { enforceRateLimits, refundRateLimitsOnFailure, RateLimitError, type RateLimitCaller } from '@/lib/rate-limit';
+import { getReadableIdentity } from '@/lib/auth';
 
 export interface MCPTool {
   name: string;
@@ -16,152 +22,135 @@ export interface MCPTool {
   };
 }
 
+const historyInput = (kind: 'call' | 'message') =>
+  z.object({
+    limit: z.number().int().min(1).max(100).default(10).describe(`Number of ${kind}s to retrieve (default: 10, max: 100)`),
+    phoneNumber: phoneNumber.optional().describe('Filter by specific phone number (optional)'),
+    direction: z.enum(['inbound', 'outbound']).optional().describe(`Filter by ${kind} direction (optional)`),
+  });
+
+/**
+ * Arguments of each tool; handleToolCall rejects anything else with a ZodError
+ */
+export const toolInputs = {
+  send_sms: sendMessageSchema,
+  make_call: makeCallSchema,
+  get_call_history: historyInput('call'),
+  get_message_history: historyInput('message'),
+  search_guest_by_phone: z.object({
+    phoneNumber: phoneNumber.describe('Phone number to search (E.164 format)'),
+  }),
+  get_conversation_context: z.object({
+    phoneNumber: phoneNumber.describe('Phone number to get context for (E.164 format)'),
+    days: z.number().int().min(1).max(30).default(7).describe('Days of history to retrieve (default: 7, max: 30)'),
+  }),
+};
+
+type ToolName = keyof typeof toolInputs;
+
+/**
+ * Scope a token needs to call each tool
+ */
+export const TOOL_SCOPES: Record<ToolName, Scope> = {
+  send_sms: 'reception:sms:send',
+  make_call: 'reception:calls:write',
+  get_call_history: 'reception:history:read',
+  get_message_history: 'reception:history:read',
+  search_guest_by_phone: 'reception:history:read',
+  get_conversation_context: 'reception:history:read',
+};
+
+/**
+ * Tool definition with the JSON Schema of the arguments it accepts
+ */
+function defineTool(name: ToolName, description: string): MCPTool {
+  const { $schema: _schema, ...inputSchema } = z.toJSONSchema(toolInputs[name], { io: 'input' });
+  return { name, description, inputSchema: inputSchema as MCPTool['inputSchema'] };
+}
+
 export const tools: MCPTool[] = [
-  {
-    name: 'send_sms',
-    description: 'Send an SMS message via OpenPhone. Use this to send text messages to guests, property owners, or service providers.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        from: {
-          type: 'string',
-          description: 'Sender phone number (E.164 format, e.g., +15551234567)',
-        },
-        to: {
-          type: 'array',
-          items: { type: 'string' },
-          description: 'Recipient phone numbers (E.164 format)',
-        },
-        content: {
-          type: 'string',
-          description: 'Message content',
-        },
-      },
-      required: ['from', 'to', 'content'],
-    },
-  },
-  {
-    name: 'make_call',
-    description: 'Make an outbound call via OpenPhone. Use for urgent matters or complex booking inquiries.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        from: {
-          type: 'string',
-          description: 'Caller phone number (E.164 format)',
-        },
-        to: {
-          type: 'string',
-          description: 'Recipient phone number (E.164 format)',
-        },
-        maxDuration: {
-          type: 'number',
-          description: 'Maximum call duration in seconds (optional)',
-        },
-      },
-      required: ['from', 'to'],
-    },
-  },
-  {
-    name: 'get_call_history',
-    description: 'Get recent call history from the database. Returns detailed call records with timestamps, duration, direction, and status.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        limit: {
-          type: 'number',
-          description: 'Number of calls to retrieve (default: 10, max: 100)',
-        },
-        phoneNumber: {
-          type: 'string',
-          description: 'Filter by specific phone number (optional)',
-        },
-        direction: {
-          type: 'string',
-          enum: ['inbound', 'outbound'],
-          description: 'Filter by call direction (optional)',
-        },
-      },
-    },
-  },
-  {
-    name: 'get_message_history',
-    description: 'Get recent message history from the database. Returns message content, timestamps, and direction.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        limit: {
-          type: 'number',
-          description: 'Number of messages to retrieve (default: 10, max: 100)',
-        },
-        phoneNumber: {
-          type: 'string',
-          description: 'Filter by specific phone number (optional)',
-        },
-        direction: {
-          type: 'string',
-          enum: ['inbound', 'outbound'],
-          description: 'Filter by message direction (optional)',
-        },
-      },
-    },
-  },
-  {
-    name: 'search_guest_by_phone',
-    description: 'Look up guest information by phone number. Returns ChittyID, identity details, and recent interaction history.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        phoneNumber: {
-          type: 'string',
-          description: 'Phone number to search (E.164 format)',
-        },
-      },
-      required: ['phoneNumber'],
-    },
-  },
-  {
-    name: 'get_conversation_context',
-    description: 'Get full conversation context for a phone number, including all recent calls and messages in chronological order.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        phoneNumber: {
-          type: 'string',
-          description: 'Phone number to get context for (E.164 format)',
-        },
-        days: {
-          type: 'number',
-          description: 'Days of history to retrieve (default: 7, max: 30)',
-        },
-      },
-      required: ['phoneNumber'],
-    },
-  },
+  defineTool(
+    'send_sms',
+    'Send an SMS or MMS message via OpenPhone. Use this to send text messages (optionally with photos or documents) to guests, property owners, or service providers.'
+  ),
+  defineTool(
+    'make_call',
+    'Make an outbound call via OpenPhone. Use for urgent matters or complex booking inquiries.'
+  ),
+  defineTool(
+    'get_call_history',
+    'Get recent call history from the database. Returns detailed call records with timestamps, duration, direction, and status.'
+  ),
+  defineTool(
+    'get_message_history',
+    'Get recent message history from the database. Returns message content, timestamps, and direction.'
+  ),
+  defineTool(
+    'search_guest_by_phone',
+    'Look up guest information by phone number. Returns ChittyID, identity details, and recent interaction history.'
+  ),
+  defineTool(
+    'get_conversation_context',
+    'Get full conversation context for a phone number, including all recent calls (with transcripts) and messages in chronological order.'
+  ),
 ];
 
+/**
+ * The token calling a tool: its scopes, and what its rate limits are counted against
+ */
+export interface ToolCaller extends RateLimitCaller {
+  scopes: readonly string[];
+}
+
+/**
+ * Run a tool for a token
+ * Throws MissingScopesError when the scopes do not cover the tool, ZodError for invalid arguments
+ * and RateLimitError when send_sms or make_call is over a rate limit
+ */
 export async function handleToolCall(
   toolName: string,
-  args: any,
-  env: Env
+  args: unknown,
+  env: Env,
+  caller: ToolCaller
 ): Promise<any> {
-  const client = new OpenPhoneClient({
-    apiKey: env.OPENPHONE_API_KEY,
-  });
+  if (Object.hasOwn(TOOL_SCOPES, toolName)) {
+    const missingScopes = getMissingScopes(caller.scopes, [TOOL_SCOPES[toolName as ToolName]]);
+    if (missingScopes.length > 0) {
+      throw new MissingScopesError(missingScopes);
+    }
+  }
 
   const sql = neon(env.NEON_DATABASE_URL);
 
   switch (toolName) {
     case 'send_sms': {
-      const result = await client.sendMessage({
-        from: args.from,
-        to: args.to,
-        content: args.content,
+      const input = toolInputs.send_sms.parse(args);
+      const { denial, charge } = await enforceRateLimits(env, 'reception:sms:send', caller, input.to);
+      if (denial) throw new RateLimitError(denial);
+
+      const db = createDatabase(env);
+      const { media, result } = await refundRateLimitsOnFailure(env, charge, async () => {
+        const media = await resolveOutboundMedia(
+          env,
+          db,
+          input,
+          getPublicBaseUrl(env),
+          getReadableIdentity({ identityId: caller.identityId, tokenScopes: caller.scopes })
+        );
+        const client = await getProviderForNumber(env, db, input.from);
+        const result = await client.sendMessage({
+          from: input.from,
+          to: input.to,
+          content: input.content,
+          mediaUrls: media.mediaUrls.length > 0 ? media.mediaUrls : undefined,
+        });
+        return { media, result };
       });
+      await attachOutboundMedia(db, media.mediaIds, result.id);
 
       // Store in database for each recipient
       try {
-        for (const recipient of args.to) {
+        for (const recipient of input.to) {
           await sql`
             INSERT INTO reception_messages (
               openphone_message_id,
@@ -173,9 +162,9 @@ export async function handleToolCall(
               metadata
             ) VALUES (
               ${result.id || 'unknown'},
-              ${args.from},
+              ${input.from},
               ${recipient},
-              ${args.content},
+              ${input.content},
               'outbound',
               'sent',
               ${JSON.stringify({ api_response: result })}
@@ -190,15 +179,23 @@ export async function handleToolCall(
         success: true,
         message: 'SMS sent successfully',
         messageId: result.id,
-        recipients: args.to,
+        recipients: input.to,
+        mediaCount: media.mediaUrls.length,
       };
     }
 
     case 'make_call': {
-      const result = await client.makeCall({
-        from: args.from,
-        to: args.to,
-        maxDuration: args.maxDuration,
+      const input = toolInputs.make_call.parse(args);
+      const { denial, charge } = await enforceRateLimits(env, 'reception:calls:write', caller, [input.to]);
+      if (denial) throw new RateLimitError(denial);
+
+      const result = await refundRateLimitsOnFailure(env, charge, async () => {
+        const client = await getProviderForNumber(env, createDatabase(env), input.from);
+        return client.makeCall({
+          from: input.from,
+          to: input.to,
+          maxDuration: input.maxDuration,
+        });
       });
 
       // Store in database
@@ -213,11 +210,11 @@ export async function handleToolCall(
             metadata
           ) VALUES (
             ${result.id || 'unknown'},
-            ${args.from},
-            ${args.to},
+            ${input.from},
+            ${input.to},
             'outbound',
             'initiated',
-            ${JSON.stringify({ api_response: result, max_duration: args.maxDuration })}
+            ${JSON.stringify({ api_response: result, max_duration: input.maxDuration })}
           )
         `;
       } catch (dbError) {
@@ -228,14 +225,13 @@ export async function handleToolCall(
         success: true,
         message: 'Call initiated successfully',
         callId: result.id,
-        from: args.from,
-        to: args.to,
+        from: input.from,
+        to: input.to,
       };
     }
 
     case 'get_call_history': {
-      const limit = Math.min(args.limit || 10, 100);
-      const { phoneNumber, direction } = args;
+      const { limit, phoneNumber, direction } = toolInputs.get_call_history.parse(args);
 
       let conditions = ['1=1'];
       const params: any[] = [];
@@ -285,8 +281,7 @@ export async function handleToolCall(
     }
 
     case 'get_message_history': {
-      const limit = Math.min(args.limit || 10, 100);
-      const { phoneNumber, direction } = args;
+      const { limit, phoneNumber, direction } = toolInputs.get_message_history.parse(args);
 
       let conditions = ['1=1'];
       const params: any[] = [];
@@ -335,11 +330,7 @@ export async function handleToolCall(
     }
 
     case 'search_guest_by_phone': {
-      const { phoneNumber } = args;
-
-      if (!phoneNumber) {
-        throw new Error('Missing required parameter: phoneNumber');
-      }
+      const { phoneNumber } = toolInputs.search_guest_by_phone.parse(args);
 
       // Look up identity
       const results = await sql`
@@ -401,31 +392,32 @@ export async function handleToolCall(
     }
 
     case 'get_conversation_context': {
-      const { phoneNumber, days = 7 } = args;
-
-      if (!phoneNumber) {
-        throw new Error('Missing required parameter: phoneNumber');
-      }
-
-      const maxDays = Math.min(days, 30);
+      const { phoneNumber, days: maxDays } = toolInputs.get_conversation_context.parse(args);
+      // Like GET /api/v1/calls/:id, other identities' calls and messages need reception:admin
+      const identityId = getReadableIdentity({ identityId: caller.identityId, tokenScopes: caller.scopes });
       const sinceDate = new Date();
       sinceDate.setDate(sinceDate.getDate() - maxDays);
 
       // Get calls
       const calls = await sql`
         SELECT
-          id,
+          c.id,
           'call' as type,
-          from_number,
-          to_number,
-          direction,
-          status,
-          duration_seconds,
-          created_at
-        FROM reception_calls
-        WHERE (from_number = ${phoneNumber} OR to_number = ${phoneNumber})
-          AND created_at >= ${sinceDate.toISOString()}
-        ORDER BY created_at ASC
+          c.from_number,
+          c.to_number,
+          c.direction,
+          c.status,
+          c.duration_seconds,
+          c.transcription,
+          t.segments AS transcript_segments,
+          t.source AS transcript_source,
+          c.created_at
+        FROM reception_calls c
+        LEFT JOIN reception_transcripts t ON t.call_id = c.call_id
+        WHERE (c.from_number = ${phoneNumber} OR c.to_number = ${phoneNumber})
+          AND c.created_at >= ${sinceDate.toISOString()}
+          AND (${identityId}::uuid IS NULL OR c.identity_id = ${identityId})
+        ORDER BY c.created_at ASC
       `;
 
       // Get messages
@@ -442,6 +434,7 @@ export async function handleToolCall(
         FROM reception_messages
         WHERE (from_number = ${phoneNumber} OR to_number = ${phoneNumber})
           AND created_at >= ${sinceDate.toISOString()}
+          AND (${identityId}::uuid IS NULL OR identity_id = ${identityId})
         ORDER BY created_at ASC
       `;
 
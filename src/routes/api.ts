@@ -2,10 +2,21 @@
 
 import { Hono } from 'hono';
 import type { Env, HonoVariables } from '@/types/env';
-import { OpenPhoneClient } from '@/lib/openphone';
-import type { SendMessageRequest, MakeCallRequest } from '@/types/openphone';
-import { authenticate } from '@/lib/auth';
+import {
+  createOpenPhoneClient,
+  OpenPhoneRateLimitError,
+  OpenPhoneUpstreamError,
+  OpenPhoneValidationError,
+} from '@/lib/openphone';
+import { authenticate, getReadableIdentity, requireScope } from '@/lib/auth';
 import { createDatabase, queries } from '@/lib/database';
+import { getProviderForNumber } from '@/lib/telephony';
+import { MediaValidationError, attachOutboundMedia, getPublicBaseUrl, resolveOutboundMedia } from '@/lib/media';
+import { getRecordingPath, getRecordingStore, parseRangeHeader, type CallRecordingRow } from '@/lib/recordings';
+import type { TranscriptRow } from '@/lib/transcription';
+import { callHistoryQuery, messageHistoryQuery, nextHistoryCursor } from '@/lib/history';
+import { makeCallSchema, sendMessageSchema, validate } from '@/lib/validation';
+import { enforceRateLimits, rateLimitHeaders, rateLimitedBody, refundRateLimitsOnFailure } from '@/lib/rate-limit';
 
 const api = new Hono<{ Bindings: Env; Variables: HonoVariables }>();
 
@@ -45,9 +56,7 @@ api.get('/status', async (c) => {
   // Check OpenPhone connectivity
   let openPhoneStatus = 'unknown';
   try {
-    const client = new OpenPhoneClient({
-      apiKey: c.env.OPENPHONE_API_KEY,
-    });
+    const client = createOpenPhoneClient(c.env);
     // Simple connectivity check (doesn't make actual API call)
     openPhoneStatus = c.env.OPENPHONE_API_KEY ? 'configured' : 'not_configured';
   } catch (error) {
@@ -100,8 +109,9 @@ api.get('/status', async (c) => {
 /**
  * Debug endpoint to check environment
  * REMOVE AFTER DEBUGGING
+ * Requires the reception:admin scope
  */
-api.get('/debug-env', async (c) => {
+api.get('/debug-env', authenticate, requireScope('reception:admin'), async (c) => {
   return c.json({
     hasNeonUrl: !!c.env.NEON_DATABASE_URL,
     hasOpenPhoneKey: !!c.env.OPENPHONE_API_KEY,
@@ -112,22 +122,43 @@ api.get('/debug-env', async (c) => {
 });
 
 /**
- * Send SMS via OpenPhone
- * Requires authentication
+ * Send SMS/MMS via the provider serving the `from` line
+ * Attachments are public `mediaUrls` and/or `mediaIds` of uploads (POST /api/v1/media)
+ * Phone numbers are normalized to E.164
+ * Requires the reception:sms:send scope; over a rate limit answers 429 with Retry-After/X-RateLimit-*
  */
-api.post('/send-message', authenticate, async (c) => {
+api.use('/send-message', authenticate, requireScope('reception:sms:send'));
+api.post('/send-message', validate('json', sendMessageSchema), async (c) => {
   try {
     const auth = c.get('auth');
-    const body = await c.req.json<SendMessageRequest>();
+    const body = c.req.valid('json');
 
-    const client = new OpenPhoneClient({
-      apiKey: c.env.OPENPHONE_API_KEY,
-    });
+    const caller = { ...auth, ip: c.req.header('CF-Connecting-IP') };
+    const { denial, charge } = await enforceRateLimits(c.env, 'reception:sms:send', caller, body.to);
+    if (denial) {
+      return c.json(rateLimitedBody(denial), 429, rateLimitHeaders(denial));
+    }
 
-    const result = await client.sendMessage(body);
+    const db = createDatabase(c.env);
+    const { media, provider, result } = await refundRateLimitsOnFailure(c.env, charge, async () => {
+      const media = await resolveOutboundMedia(
+        c.env,
+        db,
+        body,
+        getPublicBaseUrl(c.env, c.req.url),
+        getReadableIdentity(auth)
+      );
+      const provider = await getProviderForNumber(c.env, db, body.from);
+      const result = await provider.sendMessage({
+        from: body.from,
+        to: body.to,
+        content: body.content,
+        mediaUrls: media.mediaUrls.length > 0 ? media.mediaUrls : undefined,
+      });
+      return { media, provider, result };
+    });
 
     // Log message to database
-    const db = createDatabase(c.env);
     const messageQuery = queries.createMessageRecord(
       auth.identityId,
       result.id,
@@ -135,9 +166,11 @@ api.post('/send-message', authenticate, async (c) => {
       body.from,
       body.to.join(','),
       body.content,
-      { result }
+      { result, provider: provider.name, mediaUrls: body.mediaUrls, mediaIds: media.mediaIds },
+      result.status
     );
     await db.execute(messageQuery.sql, messageQuery.params);
+    await attachOutboundMedia(db, media.mediaIds, result.id);
 
     // Audit log
     const auditQuery = queries.createAuditLog(
@@ -145,7 +178,7 @@ api.post('/send-message', authenticate, async (c) => {
       'message.sent',
       'message',
       result.id,
-      { from: body.from, to: body.to }
+      { from: body.from, to: body.to, mediaCount: media.mediaUrls.length }
     );
     await db.execute(auditQuery.sql, auditQuery.params);
 
@@ -158,43 +191,52 @@ api.post('/send-message', authenticate, async (c) => {
     });
   } catch (error) {
     console.error('Send message error:', error);
+    const failure = getProviderFailure(error, 'SEND_MESSAGE_FAILED');
     return c.json(
       {
         success: false,
         error: {
-          code: 'SEND_MESSAGE_FAILED',
+          code: failure.code,
           message: error instanceof Error ? error.message : 'Unknown error',
         },
       },
-      500
+      failure.status,
+      failure.headers
     );
   }
 });
 
 /**
- * Make outbound call via OpenPhone
- * Requires authentication
+ * Make outbound call via the provider serving the `from` line
+ * Phone numbers are normalized to E.164
+ * Requires the reception:calls:write scope; over a rate limit answers 429 with Retry-After/X-RateLimit-*
  */
-api.post('/make-call', authenticate, async (c) => {
+api.use('/make-call', authenticate, requireScope('reception:calls:write'));
+api.post('/make-call', validate('json', makeCallSchema), async (c) => {
   try {
     const auth = c.get('auth') ;
-    const body = await c.req.json<MakeCallRequest>();
+    const body = c.req.valid('json');
 
-    const client = new OpenPhoneClient({
-      apiKey: c.env.OPENPHONE_API_KEY,
-    });
+    const caller = { ...auth, ip: c.req.header('CF-Connecting-IP') };
+    const { denial, charge } = await enforceRateLimits(c.env, 'reception:calls:write', caller, [body.to]);
+    if (denial) {
+      return c.json(rateLimitedBody(denial), 429, rateLimitHeaders(denial));
+    }
 
-    const result = await client.makeCall(body);
+    const db = createDatabase(c.env);
+    const { provider, result } = await refundRateLimitsOnFailure(c.env, charge, async () => {
+      const provider = await getProviderForNumber(c.env, db, body.from);
+      return { provider, result: await provider.makeCall(body) };
+    });
 
     // Log call to database
-    const db = createDatabase(c.env);
     const callQuery = queries.createCallRecord(
       auth.identityId,
       result.callId,
       'outbound',
       body.from,
       body.to,
-      { result }
+      { result, provider: provider.name }
     );
     await db.execute(callQuery.sql, callQuery.params);
 
@@ -217,41 +259,47 @@ api.post('/make-call', authenticate, async (c) => {
     });
   } catch (error) {
     console.error('Make call error:', error);
+    const failure = getProviderFailure(error, 'MAKE_CALL_FAILED');
     return c.json(
       {
         success: false,
         error: {
-          code: 'MAKE_CALL_FAILED',
+          code: failure.code,
           message: error instanceof Error ? error.message : 'Unknown error',
         },
       },
-      500
+      failure.status,
+      failure.headers
     );
   }
 });
 
 /**
- * Get call history from database
- * Requires authentication
+ * Get call history from database, newest first
+ * Filters: direction, status, phoneNumber, line, since, until, q (full-text over transcripts)
+ * Paging: limit and cursor (metadata.nextCursor of the previous page)
+ * Requires the reception:history:read scope
  */
-api.get('/calls', authenticate, async (c) => {
+api.use('/calls', authenticate, requireScope('reception:history:read'));
+api.get('/calls', validate('query', callHistoryQuery), async (c) => {
   try {
     const auth = c.get('auth') ;
-    const limit = parseInt(c.req.query('limit') || '50');
-    const offset = parseInt(c.req.query('offset') || '0');
+    const filters = c.req.valid('query');
 
     const db = createDatabase(c.env);
-    const query = queries.getCallHistory(auth.identityId, limit, offset);
-    const calls = await db.query(query.sql, query.params);
+    const query = queries.getCallHistory(auth.identityId, filters);
+    const rows = await db.query(query.sql, query.params);
+    const calls = rows.slice(0, filters.limit);
 
     return c.json({
       success: true,
       data: calls,
       metadata: {
         timestamp: new Date().toISOString(),
-        limit,
-        offset,
+        limit: filters.limit,
+        offset: filters.offset,
         count: calls.length,
+        nextCursor: nextHistoryCursor(rows, filters.limit),
       },
     });
   } catch (error) {
@@ -270,27 +318,215 @@ api.get('/calls', authenticate, async (c) => {
 });
 
 /**
- * Get message history from database
- * Requires authentication
+ * Get one call (provider call ID) with its transcript and archived recording
+ * Requires the reception:history:read scope; only calls of the token's identity unless it holds reception:admin
+ */
+api.use('/calls/:id', authenticate, requireScope('reception:history:read'));
+api.get('/calls/:id', async (c) => {
+  try {
+    const id = c.req.param('id');
+    const db = createDatabase(c.env);
+
+    const callQuery = queries.getCallRecord(id, getReadableIdentity(c.get('auth')));
+    const call = await db.queryOne(callQuery.sql, callQuery.params);
+    if (!call) {
+      return c.json(
+        {
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: 'Call not found',
+          },
+        },
+        404
+      );
+    }
+
+    const transcriptQuery = queries.getTranscript(id);
+    const recordingQuery = queries.getCallRecording(id);
+    const [transcript, recording] = await Promise.all([
+      db.queryOne<TranscriptRow>(transcriptQuery.sql, transcriptQuery.params),
+      db.queryOne<CallRecordingRow>(recordingQuery.sql, recordingQuery.params),
+    ]);
+
+    return c.json({
+      success: true,
+      data: {
+        ...call,
+        transcript: transcript
+          ? {
+              source: transcript.source,
+              model: transcript.model,
+              language: transcript.language,
+              speakerDetection: transcript.speaker_detection,
+              text: transcript.text,
+              segments: transcript.segments,
+              createdAt: transcript.created_at,
+            }
+          : null,
+        recording: recording
+          ? {
+              status: recording.status,
+              contentType: recording.content_type,
+              size: recording.size_bytes,
+              durationSeconds: recording.duration_seconds,
+              url: recording.status === 'stored' ? getRecordingPath(id) : null,
+            }
+          : null,
+      },
+      metadata: {
+        timestamp: new Date().toISOString(),
+      },
+    });
+  } catch (error) {
+    console.error('Get call error:', error);
+    return c.json(
+      {
+        success: false,
+        error: {
+          code: 'GET_CALL_FAILED',
+          message: error instanceof Error ? error.message : 'Unknown error',
+        },
+      },
+      500
+    );
+  }
+});
+
+/**
+ * Stream the archived recording of a call or voicemail (provider ID), honouring Range requests
+ * Requires authentication and the reception:recordings:read scope; every access is audited.
+ * Only recordings of the token's identity are served unless it holds reception:admin
  */
-api.get('/messages', authenticate, async (c) => {
+api.use('/calls/:id/recording', authenticate, requireScope('reception:recordings:read'));
+api.get('/calls/:id/recording', async (c) => {
+  try {
+    const auth = c.get('auth');
+    const id = c.req.param('id');
+
+    // Step 1: Find the archived recording
+    const db = createDatabase(c.env);
+    const query = queries.getCallRecording(id, getReadableIdentity(auth));
+    const recording = await db.queryOne<CallRecordingRow>(query.sql, query.params);
+
+    if (recording?.status === 'deleted') {
+      return c.json(
+        {
+          success: false,
+          error: {
+            code: 'RECORDING_EXPIRED',
+            message: 'Recording was deleted by the retention policy',
+          },
+        },
+        410
+      );
+    }
+
+    const store = getRecordingStore(c.env);
+    if (!recording || recording.status !== 'stored' || !recording.storage_key || !store) {
+      return c.json(
+        {
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: 'Recording not found',
+          },
+        },
+        404
+      );
+    }
+
+    // Step 2: Resolve the requested byte range
+    const size = Number(recording.size_bytes ?? 0);
+    const rangeHeader = c.req.header('Range');
+    const range = parseRangeHeader(rangeHeader, size);
+    if (range === 'unsatisfiable') {
+      return new Response(null, {
+        status: 416,
+        headers: { 'Content-Range': `bytes */${size}` },
+      });
+    }
+
+    const blob = await store.get(recording.storage_key, range ?? undefined);
+    if (!blob) {
+      return c.json(
+        {
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: 'Recording not found',
+          },
+        },
+        404
+      );
+    }
+
+    // Step 3: Audit the access
+    const auditQuery = queries.createAuditLog(
+      auth.identityId,
+      'recording.accessed',
+      'call_recording',
+      recording.id,
+      { callId: id, tokenName: auth.tokenName, range: range ? rangeHeader : null },
+      c.req.header('CF-Connecting-IP'),
+      c.req.header('User-Agent')
+    );
+    await db.execute(auditQuery.sql, auditQuery.params);
+
+    // Step 4: Stream the audio
+    const headers: Record<string, string> = {
+      'Content-Type': blob.contentType,
+      'Content-Length': String(range ? range.length : blob.size),
+      'Accept-Ranges': 'bytes',
+      'Cache-Control': 'private, no-store',
+    };
+    if (range) {
+      headers['Content-Range'] = `bytes ${range.offset}-${range.offset + range.length - 1}/${blob.size}`;
+    }
+
+    return new Response(blob.body, { status: range ? 206 : 200, headers });
+  } catch (error) {
+    console.error('Get recording error:', error);
+    return c.json(
+      {
+        success: false,
+        error: {
+          code: 'GET_RECORDING_FAILED',
+          message: error instanceof Error ? error.message : 'Unknown error',
+        },
+      },
+      500
+    );
+  }
+});
+
+/**
+ * Get message history from database, newest first
+ * Each message carries its delivery status and status_history
+ * Filters: direction, status, phoneNumber, line, since, until, q (full-text over bodies)
+ * Paging: limit and cursor (metadata.nextCursor of the previous page)
+ * Requires the reception:history:read scope
+ */
+api.use('/messages', authenticate, requireScope('reception:history:read'));
+api.get('/messages', validate('query', messageHistoryQuery), async (c) => {
   try {
     const auth = c.get('auth') ;
-    const limit = parseInt(c.req.query('limit') || '50');
-    const offset = parseInt(c.req.query('offset') || '0');
+    const filters = c.req.valid('query');
 
     const db = createDatabase(c.env);
-    const query = queries.getMessageHistory(auth.identityId, limit, offset);
-    const messages = await db.query(query.sql, query.params);
+    const query = queries.getMessageHistory(auth.identityId, filters);
+    const rows = await db.query(query.sql, query.params);
+    const messages = rows.slice(0, filters.limit);
 
     return c.json({
       success: true,
       data: messages,
       metadata: {
         timestamp: new Date().toISOString(),
-        limit,
-        offset,
+        limit: filters.limit,
+        offset: filters.offset,
         count: messages.length,
+        nextCursor: nextHistoryCursor(rows, filters.limit),
       },
     });
   } catch (error) {
@@ -308,4 +544,28 @@ api.get('/messages', authenticate, async (c) => {
   }
 });
 
+/**
+ * Response status for a failed provider call
+ * OpenPhone validation errors, invalid attachments and rate limits (after client retries) are passed through
+ */
+function getProviderFailure(
+  error: unknown,
+  fallbackCode: string
+): { status: 400 | 429 | 500 | 502; code: string; headers?: Record<string, string> } {
+  if (error instanceof OpenPhoneValidationError || error instanceof MediaValidationError) {
+    return { status: 400, code: 'INVALID_REQUEST' };
+  }
+  if (error instanceof OpenPhoneRateLimitError) {
+    return {
+      status: 429,
+      code: 'RATE_LIMITED',
+      headers: error.retryAfterSeconds !== null ? { 'Retry-After': String(error.retryAfterSeconds) } : undefined,
+    };
+  }
+  if (error instanceof OpenPhoneUpstreamError) {
+    return { status: 502, code: 'UPSTREAM_ERROR' };
+  }
+  return { status: 500, code: fallbackCode };
+}
+
 export default api;
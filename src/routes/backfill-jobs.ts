@@ -0,0 +1,241 @@
+// Backfill job routes
+// Start, inspect, cancel and resume imports of a line's OpenPhone history
+
+import { Hono, type Context } from 'hono';
+import { z } from 'zod';
+import type { Env, HonoVariables } from '@/types/env';
+import { authenticate, requireScope } from '@/lib/auth';
+import { createDatabase, queries } from '@/lib/database';
+import { BACKFILL_JOB_STATUSES, type BackfillJob } from '@/lib/backfill';
+import { isoDate, pageQuery, phoneNumber, validate } from '@/lib/validation';
+
+const backfillJobs = new Hono<{ Bindings: Env; Variables: HonoVariables }>();
+
+backfillJobs.use('*', authenticate, requireScope('reception:admin'));
+
+const startBackfillBody = z.object({
+  phoneNumber,
+  since: isoDate.optional(),
+});
+
+const listBackfillJobsQuery = pageQuery.extend({
+  status: z.enum(BACKFILL_JOB_STATUSES).optional(),
+});
+
+/**
+ * Start a backfill for one of our OpenPhone lines
+ * Body: { phoneNumber: string, since?: ISO date }
+ */
+backfillJobs.post('/', validate('json', startBackfillBody), async (c) => {
+  try {
+    const auth = c.get('auth');
+    const body = c.req.valid('json');
+
+    const db = createDatabase(c.env);
+    const since = body.since ?? null;
+    const jobQuery = queries.createBackfillJob(body.phoneNumber, since, auth.identityId);
+    const job = await db.queryOne<BackfillJob>(jobQuery.sql, jobQuery.params);
+    if (!job) {
+      throw new Error('Backfill job was not created');
+    }
+
+    await c.env.BACKFILL_QUEUE.send({ jobId: job.id });
+
+    // Audit log
+    const auditQuery = queries.createAuditLog(
+      auth.identityId,
+      'backfill.started',
+      'backfill_job',
+      job.id,
+      { phoneNumber: body.phoneNumber, since }
+    );
+    await db.execute(auditQuery.sql, auditQuery.params);
+
+    return c.json(
+      {
+        success: true,
+        data: job,
+        metadata: {
+          timestamp: new Date().toISOString(),
+        },
+      },
+      202
+    );
+  } catch (error) {
+    console.error('Start backfill error:', error);
+    return c.json(
+      {
+        success: false,
+        error: {
+          code: 'START_BACKFILL_FAILED',
+          message: error instanceof Error ? error.message : 'Unknown error',
+        },
+      },
+      500
+    );
+  }
+});
+
+/**
+ * List backfill jobs, newest first
+ * Optional filter: status (pending, running, completed, failed, cancelled)
+ */
+backfillJobs.get('/', validate('query', listBackfillJobsQuery), async (c) => {
+  try {
+    const { limit, offset, status } = c.req.valid('query');
+
+    const db = createDatabase(c.env);
+    const query = queries.listBackfillJobs({ status, limit, offset });
+    const jobs = await db.query<BackfillJob>(query.sql, query.params);
+
+    return c.json({
+      success: true,
+      data: jobs,
+      metadata: {
+        timestamp: new Date().toISOString(),
+        limit,
+        offset,
+        count: jobs.length,
+      },
+    });
+  } catch (error) {
+    console.error('List backfill jobs error:', error);
+    return c.json(
+      {
+        success: false,
+        error: {
+          code: 'GET_BACKFILL_JOBS_FAILED',
+          message: error instanceof Error ? error.message : 'Unknown error',
+        },
+      },
+      500
+    );
+  }
+});
+
+/**
+ * Get a single backfill job with its checkpoint and progress
+ */
+backfillJobs.get('/:id', async (c) => {
+  try {
+    const db = createDatabase(c.env);
+    const query = queries.getBackfillJob(c.req.param('id'));
+    const job = await db.queryOne<BackfillJob>(query.sql, query.params);
+
+    if (!job) {
+      return c.json(
+        {
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: 'Backfill job not found',
+          },
+        },
+        404
+      );
+    }
+
+    return c.json({
+      success: true,
+      data: job,
+      metadata: {
+        timestamp: new Date().toISOString(),
+      },
+    });
+  } catch (error) {
+    console.error('Get backfill job error:', error);
+    return c.json(
+      {
+        success: false,
+        error: {
+          code: 'GET_BACKFILL_JOB_FAILED',
+          message: error instanceof Error ? error.message : 'Unknown error',
+        },
+      },
+      500
+    );
+  }
+});
+
+/**
+ * Cancel a job; a running slice stops at its next checkpoint
+ */
+backfillJobs.post('/:id/cancel', async (c) => {
+  return transition(c, c.req.param('id'), 'cancel');
+});
+
+/**
+ * Resume a failed or cancelled job from its checkpoint
+ */
+backfillJobs.post('/:id/resume', async (c) => {
+  return transition(c, c.req.param('id'), 'resume');
+});
+
+/**
+ * Cancel or resume a job and record it in the audit log
+ */
+async function transition(
+  c: Context<{ Bindings: Env; Variables: HonoVariables }>,
+  id: string,
+  action: 'cancel' | 'resume'
+) {
+  try {
+    const auth = c.get('auth');
+    const db = createDatabase(c.env);
+
+    const query = action === 'cancel' ? queries.cancelBackfillJob(id) : queries.resumeBackfillJob(id);
+    const job = await db.queryOne<BackfillJob>(query.sql, query.params);
+
+    if (!job) {
+      return c.json(
+        {
+          success: false,
+          error: {
+            code: action === 'cancel' ? 'NOT_CANCELLABLE' : 'NOT_RESUMABLE',
+            message:
+              action === 'cancel'
+                ? 'Backfill job not found or already finished'
+                : 'Backfill job not found or not failed/cancelled',
+          },
+        },
+        409
+      );
+    }
+
+    if (action === 'resume') {
+      await c.env.BACKFILL_QUEUE.send({ jobId: job.id });
+    }
+
+    // Audit log
+    const auditQuery = queries.createAuditLog(
+      auth.identityId,
+      action === 'cancel' ? 'backfill.cancelled' : 'backfill.resumed',
+      'backfill_job',
+      id,
+      { phoneNumber: job.phone_number, checkpoint: job.checkpoint }
+    );
+    await db.execute(auditQuery.sql, auditQuery.params);
+
+    return c.json({
+      success: true,
+      data: job,
+      metadata: {
+        timestamp: new Date().toISOString(),
+      },
+    });
+  } catch (error) {
+    console.error(`Backfill ${action} error:`, error);
+    return c.json(
+      {
+        success: false,
+        error: {
+          code: 'UPDATE_BACKFILL_JOB_FAILED',
+          message: error instanceof Error ? error.message : 'Unknown error',
+        },
+      },
+      500
+    );
+  }
+}
+
+export default backfillJobs;
@@ -0,0 +1,119 @@
+// Contact routes
+// Keep OpenPhone contacts in sync with ChittyID identities and read a contact's timeline
+
+import { Hono } from 'hono';
+import { z } from 'zod';
+import type { Env, HonoVariables } from '@/types/env';
+import { authenticate, getReadableIdentity, requireScope } from '@/lib/auth';
+import { createDatabase, queries } from '@/lib/database';
+import { syncIdentityContact } from '@/lib/contact-sync';
+import { getContactTimeline, timelineQuery } from '@/lib/timeline';
+import { phoneNumber, validate } from '@/lib/validation';
+
+const contacts = new Hono<{ Bindings: Env; Variables: HonoVariables }>();
+
+contacts.use('*', authenticate);
+
+const timelineParams = z.object({ phone: phoneNumber });
+
+/**
+ * Create or update the OpenPhone contact for an identity
+ */
+contacts.post('/:identityId/sync', requireScope('reception:contacts:write'), async (c) => {
+  try {
+    const auth = c.get('auth');
+    const identityId = c.req.param('identityId');
+    const db = createDatabase(c.env);
+
+    const result = await syncIdentityContact(c.env, db, identityId);
+    if (!result) {
+      return c.json(
+        {
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: `Identity ${identityId} not found`,
+          },
+        },
+        404
+      );
+    }
+
+    const auditQuery = queries.createAuditLog(
+      auth.identityId,
+      'contact.synced',
+      'identity',
+      identityId,
+      result
+    );
+    await db.execute(auditQuery.sql, auditQuery.params);
+
+    return c.json({
+      success: true,
+      data: result,
+      metadata: {
+        timestamp: new Date().toISOString(),
+      },
+    });
+  } catch (error) {
+    console.error('Contact sync error:', error);
+    return c.json(
+      {
+        success: false,
+        error: {
+          code: 'CONTACT_SYNC_FAILED',
+          message: error instanceof Error ? error.message : 'Unknown error',
+        },
+      },
+      500
+    );
+  }
+});
+
+/**
+ * Everything exchanged with a phone number, newest first
+ * Query: limit (default 50, max 200), cursor (nextCursor of the previous page),
+ * types (comma-separated: call, message, voicemail, session)
+ * Only the token's identity's entries, unless it holds reception:admin
+ */
+contacts.use('/:phone/timeline', requireScope('reception:history:read'));
+contacts.get('/:phone/timeline', validate('param', timelineParams), validate('query', timelineQuery), async (c) => {
+  try {
+    const { phone } = c.req.valid('param');
+    const { cursor, types, limit } = c.req.valid('query');
+
+    const db = createDatabase(c.env);
+    const page = await getContactTimeline(db, phone, {
+      identityId: getReadableIdentity(c.get('auth')),
+      cursor,
+      types,
+      limit,
+    });
+
+    return c.json({
+      success: true,
+      data: page.entries,
+      metadata: {
+        timestamp: new Date().toISOString(),
+        phoneNumber: phone,
+        limit,
+        count: page.entries.length,
+        nextCursor: page.nextCursor,
+      },
+    });
+  } catch (error) {
+    console.error('Get contact timeline error:', error);
+    return c.json(
+      {
+        success: false,
+        error: {
+          code: 'GET_TIMELINE_FAILED',
+          message: error instanceof Error ? error.message : 'Unknown error',
+        },
+      },
+      500
+    );
+  }
+});
+
+export default contacts;
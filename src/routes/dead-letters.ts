@@ -0,0 +1,159 @@
+// Webhook dead-letter routes
+// List, inspect and re-drive events that exhausted their processing attempts
+
+import { Hono } from 'hono';
+import { z } from 'zod';
+import type { Env, HonoVariables } from '@/types/env';
+import { authenticate, requireScope } from '@/lib/auth';
+import { createDatabase, queries } from '@/lib/database';
+import { WebhookLedger } from '@/lib/webhook-ledger';
+import { enqueueWebhookEvent } from '@/lib/webhook-queue';
+import { pageQuery, validate } from '@/lib/validation';
+
+const deadLetters = new Hono<{ Bindings: Env; Variables: HonoVariables }>();
+
+deadLetters.use('*', authenticate, requireScope('reception:admin'));
+
+const listDeadLettersQuery = pageQuery.extend({
+  status: z.enum(['pending', 'redriven']).optional(),
+});
+
+/**
+ * List dead letters, newest first
+ * Optional filter: status (pending, redriven)
+ */
+deadLetters.get('/', validate('query', listDeadLettersQuery), async (c) => {
+  try {
+    const { limit, offset, status } = c.req.valid('query');
+
+    const ledger = new WebhookLedger(c.env);
+    const entries = await ledger.listDeadLetters({ status, limit, offset });
+
+    return c.json({
+      success: true,
+      data: entries,
+      metadata: {
+        timestamp: new Date().toISOString(),
+        limit,
+        offset,
+        count: entries.length,
+      },
+    });
+  } catch (error) {
+    console.error('List dead letters error:', error);
+    return c.json(
+      {
+        success: false,
+        error: {
+          code: 'GET_DEAD_LETTERS_FAILED',
+          message: error instanceof Error ? error.message : 'Unknown error',
+        },
+      },
+      500
+    );
+  }
+});
+
+/**
+ * Get a single dead letter, including the raw payload
+ */
+deadLetters.get('/:id', async (c) => {
+  try {
+    const ledger = new WebhookLedger(c.env);
+    const entry = await ledger.getDeadLetter(c.req.param('id'));
+
+    if (!entry) {
+      return c.json(
+        {
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: 'Dead letter not found',
+          },
+        },
+        404
+      );
+    }
+
+    return c.json({
+      success: true,
+      data: entry,
+      metadata: {
+        timestamp: new Date().toISOString(),
+      },
+    });
+  } catch (error) {
+    console.error('Get dead letter error:', error);
+    return c.json(
+      {
+        success: false,
+        error: {
+          code: 'GET_DEAD_LETTER_FAILED',
+          message: error instanceof Error ? error.message : 'Unknown error',
+        },
+      },
+      500
+    );
+  }
+});
+
+/**
+ * Re-drive a pending dead letter back onto the webhook queue
+ */
+deadLetters.post('/:id/redrive', async (c) => {
+  try {
+    const auth = c.get('auth');
+    const id = c.req.param('id');
+
+    const ledger = new WebhookLedger(c.env);
+    const eventId = await ledger.redrive(id);
+
+    if (!eventId) {
+      return c.json(
+        {
+          success: false,
+          error: {
+            code: 'NOT_REDRIVABLE',
+            message: 'Dead letter not found or already re-driven',
+          },
+        },
+        409
+      );
+    }
+
+    await enqueueWebhookEvent(c.env, ledger, eventId);
+
+    // Audit log
+    const db = createDatabase(c.env);
+    const auditQuery = queries.createAuditLog(
+      auth.identityId,
+      'webhook.redriven',
+      'webhook_event',
+      eventId,
+      { deadLetterId: id }
+    );
+    await db.execute(auditQuery.sql, auditQuery.params);
+
+    return c.json({
+      success: true,
+      data: { id, eventId, status: 'queued' },
+      metadata: {
+        timestamp: new Date().toISOString(),
+      },
+    });
+  } catch (error) {
+    console.error('Redrive dead letter error:', error);
+    return c.json(
+      {
+        success: false,
+        error: {
+          code: 'REDRIVE_FAILED',
+          message: error instanceof Error ? error.message : 'Unknown error',
+        },
+      },
+      500
+    );
+  }
+});
+
+export default deadLetters;
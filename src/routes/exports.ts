@@ -0,0 +1,90 @@
+// History export routes
+// Download call and message history as CSV or JSONL for a date range
+
+import { Hono } from 'hono';
+import type { Env, HonoVariables } from '@/types/env';
+import { authenticate, requireScope } from '@/lib/auth';
+import { createDatabase, queries } from '@/lib/database';
+import { forbiddenBody, hasScope } from '@/lib/scopes';
+import { getFieldErrors, validationErrorBody } from '@/lib/validation';
+import {
+  EXPORT_CONTENT_TYPES,
+  EXPORT_QUERIES,
+  MESSAGE_BODY_SCOPE,
+  createHistoryExportStream,
+  type ExportKind,
+} from '@/lib/exports';
+
+const historyExports = new Hono<{ Bindings: Env; Variables: HonoVariables }>();
+
+historyExports.use('*', authenticate, requireScope('reception:history:export'));
+
+/**
+ * Stream call or message history of every identity, oldest first
+ * Query: since (required), until (default now), format (csv or jsonl, default csv) and the
+ * filters of GET /api/v1/calls and /messages. Message bodies are redacted unless the token has
+ * the reception:messages:body:read scope. Every export is audited
+ */
+historyExports.get('/:kind{calls|messages}', async (c) => {
+  try {
+    const auth = c.get('auth');
+    const kind = c.req.param('kind') as ExportKind;
+
+    // Step 1: Validate format, date range and filters
+    const parsed = EXPORT_QUERIES[kind].safeParse(c.req.query());
+    if (!parsed.success) {
+      return c.json(validationErrorBody(getFieldErrors(parsed.error, 'query')), 400);
+    }
+    const { format, filters } = parsed.data;
+
+    // Step 2: Bodies are only exported, or searched, with the body scope
+    const redactBodies = kind === 'messages' && !hasScope(auth.tokenScopes, MESSAGE_BODY_SCOPE);
+    if (redactBodies && filters.search) {
+      return c.json(forbiddenBody([MESSAGE_BODY_SCOPE]), 403);
+    }
+
+    // Step 3: Audit the export before any row leaves
+    const db = createDatabase(c.env);
+    const { limit: _limit, offset: _offset, after: _after, ...exportedFilters } = filters;
+    const auditQuery = queries.createAuditLog(
+      auth.identityId,
+      'history.exported',
+      'history_export',
+      kind,
+      { format, filters: exportedFilters, redactedBodies: redactBodies, tokenName: auth.tokenName },
+      c.req.header('CF-Connecting-IP'),
+      c.req.header('User-Agent')
+    );
+    await db.execute(auditQuery.sql, auditQuery.params);
+
+    // Step 4: Stream the rows
+    const stream = createHistoryExportStream(db, kind, filters, {
+      format,
+      redactBodies,
+      onComplete: (rows) => console.log('History export complete:', { kind, format, rows }),
+    });
+    const filename = `${kind}-${filters.since.slice(0, 10)}-${filters.until.slice(0, 10)}.${format}`;
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': EXPORT_CONTENT_TYPES[format],
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Cache-Control': 'private, no-store',
+      },
+    });
+  } catch (error) {
+    console.error('History export error:', error);
+    return c.json(
+      {
+        success: false,
+        error: {
+          code: 'EXPORT_FAILED',
+          message: error instanceof Error ? error.message : 'Unknown error',
+        },
+      },
+      500
+    );
+  }
+});
+
+export default historyExports;
@@ -0,0 +1,170 @@
+// Service-only routes
+// Callbacks from other ChittyOS services, authenticated with signed requests or service JWTs;
+// each service may only call the routes the service registry grants it
+
+import { Hono } from 'hono';
+import { z } from 'zod';
+import type { Env, HonoVariables } from '@/types/env';
+import { authenticateService } from '@/lib/auth';
+import { createDatabase, queries } from '@/lib/database';
+import { syncIdentityContact } from '@/lib/contact-sync';
+import { invalidateCachedToken } from '@/lib/token-cache';
+import { phoneNumber, validate } from '@/lib/validation';
+
+const internal = new Hono<{ Bindings: Env; Variables: HonoVariables }>();
+
+internal.use('*', authenticateService);
+
+const routingBody = z.object({
+  action: z.enum(['answer', 'route', 'voicemail', 'block']),
+  destination: phoneNumber.optional(),
+  priority: z.enum(['urgent', 'high', 'normal', 'low']),
+  aiAnalysis: z.string().max(4000).optional(),
+});
+
+const revokedTokensBody = z.object({
+  tokenHashes: z
+    .array(z.string().regex(/^[0-9a-f]{64}$/, 'Must be a hex SHA-256 token hash'))
+    .min(1)
+    .max(100),
+});
+
+/**
+ * ChittyRouter: a routing decision reached after the call was answered (e.g. once a transcript
+ * was analyzed); stored on the call as metadata.routing
+ */
+internal.post('/calls/:callId/routing', validate('json', routingBody), async (c) => {
+  try {
+    const serviceName = c.get('serviceName');
+    const callId = c.req.param('callId');
+    const body = c.req.valid('json');
+    const db = createDatabase(c.env);
+
+    const callQuery = queries.getCallRecord(callId);
+    if (!(await db.queryOne(callQuery.sql, callQuery.params))) {
+      return c.json(
+        {
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: `Call ${callId} not found`,
+          },
+        },
+        404
+      );
+    }
+
+    const routing = { ...body, decidedBy: serviceName, decidedAt: new Date().toISOString() };
+    const mergeQuery = queries.mergeCallMetadata(callId, { routing });
+    await db.execute(mergeQuery.sql, mergeQuery.params);
+
+    const auditQuery = queries.createAuditLog(null, 'call.routed', 'call', callId, routing);
+    await db.execute(auditQuery.sql, auditQuery.params);
+
+    return c.json({
+      success: true,
+      data: { callId, routing },
+      metadata: {
+        timestamp: new Date().toISOString(),
+      },
+    });
+  } catch (error) {
+    console.error('Call routing callback error:', error);
+    return c.json(
+      {
+        success: false,
+        error: {
+          code: 'CALL_ROUTING_FAILED',
+          message: error instanceof Error ? error.message : 'Unknown error',
+        },
+      },
+      500
+    );
+  }
+});
+
+/**
+ * ChittyConnect: an identity changed; bring its OpenPhone contact up to date
+ */
+internal.post('/contacts/:identityId/sync', async (c) => {
+  try {
+    const serviceName = c.get('serviceName');
+    const identityId = c.req.param('identityId');
+    const db = createDatabase(c.env);
+
+    const result = await syncIdentityContact(c.env, db, identityId);
+    if (!result) {
+      return c.json(
+        {
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: `Identity ${identityId} not found`,
+          },
+        },
+        404
+      );
+    }
+
+    const auditQuery = queries.createAuditLog(null, 'contact.synced', 'identity', identityId, {
+      ...result,
+      service: serviceName,
+    });
+    await db.execute(auditQuery.sql, auditQuery.params);
+
+    return c.json({
+      success: true,
+      data: result,
+      metadata: {
+        timestamp: new Date().toISOString(),
+      },
+    });
+  } catch (error) {
+    console.error('Contact sync callback error:', error);
+    return c.json(
+      {
+        success: false,
+        error: {
+          code: 'CONTACT_SYNC_FAILED',
+          message: error instanceof Error ? error.message : 'Unknown error',
+        },
+      },
+      500
+    );
+  }
+});
+
+/**
+ * ChittyAuth: tokens were revoked or their scopes changed; stop serving them from the token cache
+ */
+internal.post('/tokens/revoked', validate('json', revokedTokensBody), async (c) => {
+  try {
+    const { tokenHashes } = c.req.valid('json');
+
+    for (const tokenHash of tokenHashes) {
+      await invalidateCachedToken(c.env, tokenHash);
+    }
+
+    return c.json({
+      success: true,
+      data: { invalidated: tokenHashes.length },
+      metadata: {
+        timestamp: new Date().toISOString(),
+      },
+    });
+  } catch (error) {
+    console.error('Token revocation callback error:', error);
+    return c.json(
+      {
+        success: false,
+        error: {
+          code: 'TOKEN_INVALIDATION_FAILED',
+          message: error instanceof Error ? error.message : 'Unknown error',
+        },
+      },
+      500
+    );
+  }
+});
+
+export default internal;
@@ -1,22 +1,38 @@
 // MCP endpoint for Claude Code integration
 
 import { Hono } from 'hono';
+import { z } from 'zod';
 import type { Env, HonoVariables } from '@/types/env';
 import { tools, handleToolCall } from '@/mcp/server';
 import { authenticate, optionalAuthenticate } from '@/lib/auth';
+import { MissingScopesError, forbiddenBody } from '@/lib/scopes';
+import { getFieldErrors, validate, validationErrorBody } from '@/lib/validation';
+import { RateLimitError, rateLimitHeaders, rateLimitedBody } from '@/lib/rate-limit';
 
 const mcp = new Hono<{ Bindings: Env; Variables: HonoVariables }>();
 
+const mcpRequest = z.object({
+  method: z.string().min(1),
+  params: z.unknown().optional(),
+});
+
+const toolCallParams = z.object({
+  name: z.string().min(1),
+  arguments: z.record(z.string(), z.unknown()).default({}),
+});
+
 /**
  * MCP protocol endpoint
  * Implements Model Context Protocol for Claude integration
  *
  * Authentication: Required for tool calls, optional for tool listing
+ * Tool arguments are validated against the tool's input schema (400 VALIDATION_FAILED) and each
+ * tool needs its scope from TOOL_SCOPES (403 FORBIDDEN); send_sms and make_call share the REST
+ * rate limits (429 RATE_LIMITED)
  */
-mcp.post('/', authenticate, async (c) => {
+mcp.post('/', authenticate, validate('json', mcpRequest), async (c) => {
   try {
-    const body = await c.req.json();
-    const { method, params } = body;
+    const { method, params } = c.req.valid('json');
 
     switch (method) {
       case 'tools/list':
@@ -25,8 +41,14 @@ mcp.post('/', authenticate, async (c) => {
         });
 
       case 'tools/call': {
-        const { name, arguments: args } = params;
-        const result = await handleToolCall(name, args, c.env);
+        const { name, arguments: args } = toolCallParams.parse(params);
+        const auth = c.get('auth');
+        const result = await handleToolCall(name, args, c.env, {
+          scopes: auth.tokenScopes,
+          tokenId: auth.tokenId,
+          identityId: auth.identityId,
+          ip: c.req.header('CF-Connecting-IP'),
+        });
 
         return c.json({
           content: [
@@ -57,6 +79,15 @@ mcp.post('/', authenticate, async (c) => {
         );
     }
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      return c.json(validationErrorBody(getFieldErrors(error, 'arguments')), 400);
+    }
+    if (error instanceof MissingScopesError) {
+      return c.json(forbiddenBody(error.missingScopes), 403);
+    }
+    if (error instanceof RateLimitError) {
+      return c.json(rateLimitedBody(error.denial), 429, rateLimitHeaders(error.denial));
+    }
     console.error('MCP error:', error);
     return c.json(
       {
@@ -0,0 +1,271 @@
+// Message media routes
+// Upload outbound MMS attachments, look up message media and serve it through signed URLs
+
+import { Hono } from 'hono';
+import { z } from 'zod';
+import type { Env, HonoVariables } from '@/types/env';
+import { authenticate, requireScope } from '@/lib/auth';
+import { createDatabase, queries } from '@/lib/database';
+import {
+  MAX_MEDIA_BYTES,
+  MediaValidationError,
+  getMediaStore,
+  getPublicBaseUrl,
+  signMediaUrl,
+  storeUpload,
+  verifyMediaUrl,
+  type MessageMediaRow,
+} from '@/lib/media';
+import { validate } from '@/lib/validation';
+
+const media = new Hono<{ Bindings: Env; Variables: HonoVariables }>();
+
+// Everything except the signed content URL takes a token
+media.use('/', authenticate);
+media.use('/:id', authenticate);
+
+const mediaQuery = z.object({ messageId: z.string().min(1) });
+const mediaParams = z.object({ id: z.uuid() });
+
+/**
+ * Media metadata, with a fresh signed URL once the bytes are stored
+ */
+async function describeMedia(env: Env, baseUrl: string | null, row: MessageMediaRow) {
+  const signed = row.status === 'stored' && baseUrl ? await signMediaUrl(env, baseUrl, row.id) : null;
+  return {
+    id: row.id,
+    messageId: row.message_id,
+    direction: row.direction,
+    position: row.position,
+    contentType: row.content_type,
+    size: row.size_bytes,
+    status: row.status,
+    error: row.error,
+    createdAt: row.created_at,
+    url: signed?.url ?? null,
+    expiresAt: signed?.expiresAt ?? null,
+  };
+}
+
+/**
+ * Upload an attachment for a later send-message (`mediaIds`)
+ * Body: the raw file, with its Content-Type
+ */
+media.post('/', requireScope('reception:media:write'), async (c) => {
+  try {
+    const auth = c.get('auth');
+
+    if (!getMediaStore(c.env)) {
+      return c.json(
+        {
+          success: false,
+          error: {
+            code: 'MEDIA_STORAGE_UNAVAILABLE',
+            message: 'Media storage is not configured',
+          },
+        },
+        503
+      );
+    }
+
+    // Refuse oversized uploads before reading them
+    if (parseInt(c.req.header('Content-Length') || '0', 10) > MAX_MEDIA_BYTES) {
+      throw new MediaValidationError(`Media exceeds ${MAX_MEDIA_BYTES} bytes`);
+    }
+
+    const db = createDatabase(c.env);
+    const row = await storeUpload(c.env, db, {
+      body: await c.req.arrayBuffer(),
+      contentType: c.req.header('Content-Type') ?? null,
+      uploadedBy: auth.identityId,
+    });
+
+    // Audit log
+    const auditQuery = queries.createAuditLog(
+      auth.identityId,
+      'media.uploaded',
+      'message_media',
+      row.id,
+      { contentType: row.content_type, size: row.size_bytes }
+    );
+    await db.execute(auditQuery.sql, auditQuery.params);
+
+    return c.json(
+      {
+        success: true,
+        data: await describeMedia(c.env, getPublicBaseUrl(c.env, c.req.url), row),
+        metadata: {
+          timestamp: new Date().toISOString(),
+        },
+      },
+      201
+    );
+  } catch (error) {
+    if (error instanceof MediaValidationError) {
+      return c.json(
+        {
+          success: false,
+          error: {
+            code: 'INVALID_MEDIA',
+            message: error.message,
+          },
+        },
+        400
+      );
+    }
+
+    console.error('Upload media error:', error);
+    return c.json(
+      {
+        success: false,
+        error: {
+          code: 'UPLOAD_MEDIA_FAILED',
+          message: error instanceof Error ? error.message : 'Unknown error',
+        },
+      },
+      500
+    );
+  }
+});
+
+/**
+ * List the media of a message (required filter: messageId)
+ */
+media.get('/', requireScope('reception:media:read'), validate('query', mediaQuery), async (c) => {
+  try {
+    const { messageId } = c.req.valid('query');
+
+    const db = createDatabase(c.env);
+    const query = queries.listMessageMedia(messageId);
+    const rows = await db.query<MessageMediaRow>(query.sql, query.params);
+    const baseUrl = getPublicBaseUrl(c.env, c.req.url);
+
+    return c.json({
+      success: true,
+      data: await Promise.all(rows.map((row) => describeMedia(c.env, baseUrl, row))),
+      metadata: {
+        timestamp: new Date().toISOString(),
+        count: rows.length,
+      },
+    });
+  } catch (error) {
+    console.error('Get message media error:', error);
+    return c.json(
+      {
+        success: false,
+        error: {
+          code: 'GET_MEDIA_FAILED',
+          message: error instanceof Error ? error.message : 'Unknown error',
+        },
+      },
+      500
+    );
+  }
+});
+
+/**
+ * Get one media item with a fresh signed URL
+ */
+media.get('/:id', requireScope('reception:media:read'), validate('param', mediaParams), async (c) => {
+  try {
+    const db = createDatabase(c.env);
+    const query = queries.getMessageMedia(c.req.valid('param').id);
+    const row = await db.queryOne<MessageMediaRow>(query.sql, query.params);
+
+    if (!row) {
+      return c.json(
+        {
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: 'Media not found',
+          },
+        },
+        404
+      );
+    }
+
+    return c.json({
+      success: true,
+      data: await describeMedia(c.env, getPublicBaseUrl(c.env, c.req.url), row),
+      metadata: {
+        timestamp: new Date().toISOString(),
+      },
+    });
+  } catch (error) {
+    console.error('Get media error:', error);
+    return c.json(
+      {
+        success: false,
+        error: {
+          code: 'GET_MEDIA_FAILED',
+          message: error instanceof Error ? error.message : 'Unknown error',
+        },
+      },
+      500
+    );
+  }
+});
+
+/**
+ * Serve media bytes (signature-verified, not token-authenticated)
+ * Query: expires, signature - as issued by the routes above and outbound sends
+ */
+media.get('/:id/content', async (c) => {
+  try {
+    const id = c.req.param('id');
+
+    if (!(await verifyMediaUrl(c.env, id, c.req.query('expires'), c.req.query('signature')))) {
+      return c.json(
+        {
+          success: false,
+          error: {
+            code: 'INVALID_SIGNATURE',
+            message: 'Media URL is invalid or has expired',
+          },
+        },
+        403
+      );
+    }
+
+    const db = createDatabase(c.env);
+    const query = queries.getMessageMedia(id);
+    const row = await db.queryOne<MessageMediaRow>(query.sql, query.params);
+    const blob = row?.storage_key ? await getMediaStore(c.env)?.get(row.storage_key) : null;
+
+    if (!blob) {
+      return c.json(
+        {
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: 'Media not found',
+          },
+        },
+        404
+      );
+    }
+
+    return new Response(blob.body, {
+      headers: {
+        'Content-Type': blob.contentType,
+        'Content-Length': String(blob.size),
+        'Cache-Control': 'private, max-age=300',
+      },
+    });
+  } catch (error) {
+    console.error('Serve media error:', error);
+    return c.json(
+      {
+        success: false,
+        error: {
+          code: 'GET_MEDIA_FAILED',
+          message: error instanceof Error ? error.message : 'Unknown error',
+        },
+      },
+      500
+    );
+  }
+});
+
+export default media;
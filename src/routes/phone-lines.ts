@@ -0,0 +1,150 @@
+// Phone line routes
+// Per-line settings for our numbers (telephony provider, auto-reply enablement)
+
+import { Hono } from 'hono';
+import { z } from 'zod';
+import type { Env, HonoVariables } from '@/types/env';
+import { authenticate, requireScope } from '@/lib/auth';
+import { createDatabase, queries } from '@/lib/database';
+import { TELEPHONY_PROVIDERS } from '@/types/telephony';
+import { phoneNumber, validate } from '@/lib/validation';
+
+const phoneLines = new Hono<{ Bindings: Env; Variables: HonoVariables }>();
+
+phoneLines.use('*', authenticate, requireScope('reception:admin'));
+
+const lineParams = z.object({ phoneNumber });
+
+const autoReplyBody = z.object({
+  enabled: z.boolean(),
+});
+
+const providerBody = z.object({
+  provider: z.enum(TELEPHONY_PROVIDERS),
+});
+
+/**
+ * List configured phone lines
+ */
+phoneLines.get('/', async (c) => {
+  try {
+    const db = createDatabase(c.env);
+    const query = queries.listPhoneLines();
+    const rows = await db.query(query.sql, query.params);
+
+    return c.json({
+      success: true,
+      data: rows,
+      metadata: {
+        timestamp: new Date().toISOString(),
+        count: rows.length,
+      },
+    });
+  } catch (error) {
+    console.error('Get phone lines error:', error);
+    return c.json(
+      {
+        success: false,
+        error: {
+          code: 'GET_PHONE_LINES_FAILED',
+          message: error instanceof Error ? error.message : 'Unknown error',
+        },
+      },
+      500
+    );
+  }
+});
+
+/**
+ * Enable or disable SMS auto-replies on a line
+ * Body: { enabled: boolean }
+ */
+phoneLines.put('/:phoneNumber/auto-reply', validate('param', lineParams), validate('json', autoReplyBody), async (c) => {
+  try {
+    const auth = c.get('auth');
+    const { phoneNumber } = c.req.valid('param');
+    const body = c.req.valid('json');
+
+    const db = createDatabase(c.env);
+    const updateQuery = queries.setPhoneLineAutoReply(phoneNumber, body.enabled);
+    const line = await db.queryOne(updateQuery.sql, updateQuery.params);
+
+    // Audit log
+    const auditQuery = queries.createAuditLog(
+      auth.identityId,
+      'phone_line.auto_reply_updated',
+      'phone_line',
+      phoneNumber,
+      { enabled: body.enabled }
+    );
+    await db.execute(auditQuery.sql, auditQuery.params);
+
+    return c.json({
+      success: true,
+      data: line,
+      metadata: {
+        timestamp: new Date().toISOString(),
+      },
+    });
+  } catch (error) {
+    console.error('Update phone line error:', error);
+    return c.json(
+      {
+        success: false,
+        error: {
+          code: 'UPDATE_PHONE_LINE_FAILED',
+          message: error instanceof Error ? error.message : 'Unknown error',
+        },
+      },
+      500
+    );
+  }
+});
+
+/**
+ * Select the telephony provider that serves a line
+ * Body: { provider: 'openphone' | 'twilio' }
+ */
+phoneLines.put('/:phoneNumber/provider', validate('param', lineParams), validate('json', providerBody), async (c) => {
+  try {
+    const auth = c.get('auth');
+    const { phoneNumber } = c.req.valid('param');
+    const body = c.req.valid('json');
+
+    const db = createDatabase(c.env);
+    const updateQuery = queries.setPhoneLineProvider(phoneNumber, body.provider);
+    const line = await db.queryOne(updateQuery.sql, updateQuery.params);
+
+    // Audit log
+    const auditQuery = queries.createAuditLog(
+      auth.identityId,
+      'phone_line.provider_updated',
+      'phone_line',
+      phoneNumber,
+      { provider: body.provider }
+    );
+    await db.execute(auditQuery.sql, auditQuery.params);
+
+    return c.json({
+      success: true,
+      data: line,
+      metadata: {
+        timestamp: new Date().toISOString(),
+      },
+    });
+  } catch (error) {
+    console.error('Update phone line error:', error);
+    return c.json(
+      {
+        success: false,
+        error: {
+          code: 'UPDATE_PHONE_LINE_FAILED',
+          message: error instanceof Error ? error.message : 'Unknown error',
+        },
+      },
+      500
+    );
+  }
+});
+
+export default phoneLines;
@@ -1,25 +1,52 @@
 // Sona AI endpoint - handles conversational interface
 
 import { Hono } from 'hono';
+import { z } from 'zod';
 import type { Env } from '@/types/env';
 import { orchestrateResponse, type ConversationContext } from '@/lib/ai-orchestrator';
+import { phoneNumber, validate } from '@/lib/validation';
 
 const sona = new Hono<{ Bindings: Env }>();
 
+const chatBody = z.object({
+  message: z.string().trim().min(1).max(2000),
+  context: z
+    .object({
+      intent: z.string().optional(),
+      entities: z.record(z.string(), z.any()).optional(),
+      slots: z
+        .object({
+          checkIn: z.string().optional(),
+          checkOut: z.string().optional(),
+          unitType: z.string().optional(),
+          neighborhood: z.string().optional(),
+          guestCount: z.number().int().min(1).optional(),
+          petCount: z.number().int().min(0).optional(),
+          corporateBooking: z.boolean().optional(),
+          name: z.string().optional(),
+          phone: phoneNumber.optional(),
+          email: z.email().optional(),
+        })
+        .optional(),
+      conversationHistory: z
+        .array(z.object({ role: z.enum(['user', 'assistant']), content: z.string() }))
+        .max(100)
+        .optional(),
+    })
+    .optional(),
+  sessionId: z.string().min(1).max(128).optional(),
+});
+
 /**
  * Sona conversation endpoint
  * Handles SMS and voice transcriptions
  */
-sona.post('/chat', async (c) => {
+sona.post('/chat', validate('json', chatBody), async (c) => {
   try {
-    const body = await c.req.json<{
-      message: string;
-      context?: ConversationContext;
-      sessionId?: string;
-    }>();
+    const body = c.req.valid('json');
 
     // Load context from KV if session exists
-    let context = body.context || {};
+    let context: ConversationContext = body.context || {};
     if (body.sessionId) {
       const savedContext = await c.env.RECEPTION_KV.get(
         `session:${body.sessionId}`,
@@ -0,0 +1,389 @@
+// API token routes
+// Mint, list, re-scope, re-expire and revoke tokens in the shared api_tokens table. Only tokens
+// with reception scopes are managed here, and only the caller's own unless it holds
+// reception:tokens:any_identity
+
+import { Hono, type Context } from 'hono';
+import { z } from 'zod';
+import type { AuthContext, Env, HonoVariables } from '@/types/env';
+import { authenticate, requireScope } from '@/lib/auth';
+import { createDatabase, queries, type Database } from '@/lib/database';
+import { API_TOKEN_STATUSES, generateApiToken, tokenExpiry, tokenScopes, type ApiToken } from '@/lib/api-tokens';
+import { expandScopes, forbiddenBody, getMissingScopes, hasScope } from '@/lib/scopes';
+import { invalidateCachedToken } from '@/lib/token-cache';
+import { pageQuery, validate } from '@/lib/validation';
+
+const tokens = new Hono<{ Bindings: Env; Variables: HonoVariables }>();
+
+tokens.use('*', authenticate, requireScope('reception:admin'));
+
+const createTokenBody = z.object({
+  name: z.string().trim().min(1).max(100),
+  scopes: tokenScopes,
+  expiresAt: tokenExpiry.optional(),
+  identityId: z.uuid().optional(),
+});
+
+const listTokensQuery = pageQuery.extend({
+  identityId: z.uuid().optional(),
+  status: z.enum(API_TOKEN_STATUSES).optional(),
+});
+
+const scopesBody = z.object({ scopes: tokenScopes });
+
+const expiryBody = z.object({ expiresAt: tokenExpiry });
+
+const tokenId = z.uuid();
+
+type TokenContext = Context<{ Bindings: Env; Variables: HonoVariables }>;
+
+/**
+ * The identity whose tokens the caller manages, or null for every identity
+ */
+function getManagedIdentity(auth: AuthContext): string | null {
+  return hasScope(auth.tokenScopes, 'reception:tokens:any_identity') ? null : auth.identityId;
+}
+
+/**
+ * 403 body when the caller names an identity other than its own without reception:tokens:any_identity
+ */
+function checkIdentity(auth: AuthContext, identityId: string | undefined) {
+  const managed = getManagedIdentity(auth);
+  return identityId && managed && identityId !== managed ? forbiddenBody(['reception:tokens:any_identity']) : null;
+}
+
+/**
+ * 403 body when the caller tries to grant scopes it does not hold itself, else null
+ */
+function checkGrantable(c: TokenContext, scopes: string[]) {
+  const missingScopes = getMissingScopes(c.get('auth').tokenScopes, expandScopes(scopes));
+  return missingScopes.length > 0 ? forbiddenBody(missingScopes) : null;
+}
+
+/**
+ * 404 for a token that does not exist or that the caller may not manage
+ */
+function tokenNotFound(c: TokenContext, id: string) {
+  return c.json({ success: false, error: { code: 'NOT_FOUND', message: `Token ${id} not found` } }, 404);
+}
+
+/**
+ * A token the caller may manage, or the 404/409/403 response when it may not change it:
+ * missing (or not a token ID), revoked, or holding scopes the caller does not hold itself
+ */
+async function findChangeableToken(c: TokenContext, db: Database, id: string): Promise<ApiToken | Response> {
+  if (!tokenId.safeParse(id).success) return tokenNotFound(c, id);
+
+  const tokenQuery = queries.getApiToken(id, getManagedIdentity(c.get('auth')));
+  const token = await db.queryOne<ApiToken>(tokenQuery.sql, tokenQuery.params);
+  if (!token) return tokenNotFound(c, id);
+  if (token.status !== 'active') {
+    return c.json({ success: false, error: { code: 'TOKEN_REVOKED', message: `Token ${id} is revoked` } }, 409);
+  }
+
+  const forbidden = checkGrantable(c, token.scopes);
+  return forbidden ? c.json(forbidden, 403) : token;
+}
+
+/**
+ * Answer for an update that matched no active token: 404 when it does not exist, 409 when revoked
+ */
+async function inactiveTokenResponse(c: TokenContext, db: Database, id: string) {
+  const tokenQuery = queries.getApiToken(id, getManagedIdentity(c.get('auth')));
+  const token = await db.queryOne<ApiToken>(tokenQuery.sql, tokenQuery.params);
+
+  return token
+    ? c.json({ success: false, error: { code: 'TOKEN_REVOKED', message: `Token ${id} is revoked` } }, 409)
+    : tokenNotFound(c, id);
+}
+
+/**
+ * Mint a token; the token itself is in the response only, the database keeps its SHA-256 hash
+ * Body: { name, scopes: string[], expiresAt?: ISO date | null, identityId? (defaults to the caller;
+ * another identity needs reception:tokens:any_identity) }
+ */
+tokens.post('/', validate('json', createTokenBody), async (c) => {
+  try {
+    const auth = c.get('auth');
+    const body = c.req.valid('json');
+
+    const forbidden = checkIdentity(auth, body.identityId) ?? checkGrantable(c, body.scopes);
+    if (forbidden) return c.json(forbidden, 403);
+
+    const db = createDatabase(c.env);
+    const { token, tokenHash } = await generateApiToken();
+    const identityId = body.identityId ?? auth.identityId;
+    const expiresAt = body.expiresAt ?? null;
+    const createQuery = queries.createApiToken({ identityId, tokenHash, name: body.name, scopes: body.scopes, expiresAt });
+    const created = await db.queryOne<ApiToken>(createQuery.sql, createQuery.params);
+    if (!created) {
+      throw new Error('Token was not created');
+    }
+
+    // Audit log
+    const auditQuery = queries.createAuditLog(auth.identityId, 'token.created', 'api_token', created.id, {
+      name: body.name,
+      identityId,
+      scopes: body.scopes,
+      expiresAt,
+    });
+    await db.execute(auditQuery.sql, auditQuery.params);
+
+    return c.json(
+      {
+        success: true,
+        data: { ...created, token },
+        metadata: {
+          timestamp: new Date().toISOString(),
+        },
+      },
+      201
+    );
+  } catch (error) {
+    console.error('Create token error:', error);
+    return c.json(
+      {
+        success: false,
+        error: {
+          code: 'CREATE_TOKEN_FAILED',
+          message: error instanceof Error ? error.message : 'Unknown error',
+        },
+      },
+      500
+    );
+  }
+});
+
+/**
+ * List the caller's tokens (any identity's with reception:tokens:any_identity), newest first, with
+ * last_used_at (updated at most every few minutes)
+ * Optional filters: identityId, status
+ */
+tokens.get('/', validate('query', listTokensQuery), async (c) => {
+  try {
+    const auth = c.get('auth');
+    const { limit, offset, identityId, status } = c.req.valid('query');
+
+    const forbidden = checkIdentity(auth, identityId);
+    if (forbidden) return c.json(forbidden, 403);
+
+    const db = createDatabase(c.env);
+    const listQuery = queries.listApiTokens({ identityId: identityId ?? getManagedIdentity(auth), status, limit, offset });
+    const rows = await db.query<ApiToken>(listQuery.sql, listQuery.params);
+
+    return c.json({
+      success: true,
+      data: rows,
+      metadata: {
+        timestamp: new Date().toISOString(),
+        limit,
+        offset,
+        count: rows.length,
+      },
+    });
+  } catch (error) {
+    console.error('List tokens error:', error);
+    return c.json(
+      {
+        success: false,
+        error: {
+          code: 'LIST_TOKENS_FAILED',
+          message: error instanceof Error ? error.message : 'Unknown error',
+        },
+      },
+      500
+    );
+  }
+});
+
+/**
+ * Get one token
+ */
+tokens.get('/:id', async (c) => {
+  try {
+    const id = c.req.param('id');
+    if (!tokenId.safeParse(id).success) return tokenNotFound(c, id);
+
+    const db = createDatabase(c.env);
+    const tokenQuery = queries.getApiToken(id, getManagedIdentity(c.get('auth')));
+    const token = await db.queryOne<ApiToken>(tokenQuery.sql, tokenQuery.params);
+    if (!token) return tokenNotFound(c, id);
+
+    return c.json({
+      success: true,
+      data: token,
+      metadata: {
+        timestamp: new Date().toISOString(),
+      },
+    });
+  } catch (error) {
+    console.error('Get token error:', error);
+    return c.json(
+      {
+        success: false,
+        error: {
+          code: 'GET_TOKEN_FAILED',
+          message: error instanceof Error ? error.message : 'Unknown error',
+        },
+      },
+      500
+    );
+  }
+});
+
+/**
+ * Replace an active token's reception scopes; scopes of other services stay as they are
+ * The caller must hold both the token's current scopes and the new ones
+ * Body: { scopes: string[] }
+ */
+tokens.put('/:id/scopes', validate('json', scopesBody), async (c) => {
+  try {
+    const auth = c.get('auth');
+    const id = c.req.param('id');
+    const { scopes } = c.req.valid('json');
+
+    const forbidden = checkGrantable(c, scopes);
+    if (forbidden) return c.json(forbidden, 403);
+
+    const db = createDatabase(c.env);
+    const target = await findChangeableToken(c, db, id);
+    if (target instanceof Response) return target;
+
+    const updateQuery = queries.updateApiTokenScopes(id, getManagedIdentity(auth), scopes);
+    const updated = await db.queryOne<ApiToken & { token_hash: string }>(updateQuery.sql, updateQuery.params);
+    if (!updated) return inactiveTokenResponse(c, db, id);
+
+    const { token_hash, ...token } = updated;
+    await invalidateCachedToken(c.env, token_hash);
+
+    // Audit log
+    const auditQuery = queries.createAuditLog(auth.identityId, 'token.scopes_updated', 'api_token', id, { scopes });
+    await db.execute(auditQuery.sql, auditQuery.params);
+
+    return c.json({
+      success: true,
+      data: token,
+      metadata: {
+        timestamp: new Date().toISOString(),
+      },
+    });
+  } catch (error) {
+    console.error('Update token scopes error:', error);
+    return c.json(
+      {
+        success: false,
+        error: {
+          code: 'UPDATE_TOKEN_FAILED',
+          message: error instanceof Error ? error.message : 'Unknown error',
+        },
+      },
+      500
+    );
+  }
+});
+
+/**
+ * Set or clear an active token's expiry
+ * The caller must hold the token's scopes, and tokens that also carry other services' scopes are
+ * left to the service that issued them
+ * Body: { expiresAt: ISO date | null }
+ */
+tokens.put('/:id/expiry', validate('json', expiryBody), async (c) => {
+  try {
+    const auth = c.get('auth');
+    const id = c.req.param('id');
+    const { expiresAt } = c.req.valid('json');
+
+    const db = createDatabase(c.env);
+    const target = await findChangeableToken(c, db, id);
+    if (target instanceof Response) return target;
+    if (target.scopes.some((scope) => !scope.startsWith('reception:'))) {
+      return c.json(
+        {
+          success: false,
+          error: {
+            code: 'FORBIDDEN',
+            message: `Token ${id} carries scopes of other services; change its expiry where it was issued`,
+          },
+        },
+        403
+      );
+    }
+
+    const updateQuery = queries.updateApiTokenExpiry(id, getManagedIdentity(auth), expiresAt);
+    const updated = await db.queryOne<ApiToken & { token_hash: string }>(updateQuery.sql, updateQuery.params);
+    if (!updated) return inactiveTokenResponse(c, db, id);
+
+    const { token_hash, ...token } = updated;
+    await invalidateCachedToken(c.env, token_hash);
+
+    // Audit log
+    const auditQuery = queries.createAuditLog(auth.identityId, 'token.expiry_updated', 'api_token', id, { expiresAt });
+    await db.execute(auditQuery.sql, auditQuery.params);
+
+    return c.json({
+      success: true,
+      data: token,
+      metadata: {
+        timestamp: new Date().toISOString(),
+      },
+    });
+  } catch (error) {
+    console.error('Update token expiry error:', error);
+    return c.json(
+      {
+        success: false,
+        error: {
+          code: 'UPDATE_TOKEN_FAILED',
+          message: error instanceof Error ? error.message : 'Unknown error',
+        },
+      },
+      500
+    );
+  }
+});
+
+/**
+ * Revoke a token; it stops working immediately in this isolate and within seconds everywhere
+ */
+tokens.post('/:id/revoke', async (c) => {
+  try {
+    const auth = c.get('auth');
+    const id = c.req.param('id');
+    if (!tokenId.safeParse(id).success) return tokenNotFound(c, id);
+
+    const db = createDatabase(c.env);
+    const revokeQuery = queries.revokeApiToken(id, getManagedIdentity(auth));
+    const revoked = await db.queryOne<ApiToken & { token_hash: string }>(revokeQuery.sql, revokeQuery.params);
+    if (!revoked) return inactiveTokenResponse(c, db, id);
+
+    const { token_hash, ...token } = revoked;
+    await invalidateCachedToken(c.env, token_hash);
+
+    // Audit log
+    const auditQuery = queries.createAuditLog(auth.identityId, 'token.revoked', 'api_token', id, { name: token.name });
+    await db.execute(auditQuery.sql, auditQuery.params);
+
+    return c.json({
+      success: true,
+      data: token,
+      metadata: {
+        timestamp: new Date().toISOString(),
+      },
+    });
+  } catch (error) {
+    console.error('Revoke token error:', error);
+    return c.json(
+      {
+        success: false,
+        error: {
+          code: 'REVOKE_TOKEN_FAILED',
+          message: error instanceof Error ? error.message : 'Unknown error',
+        },
+      },
+      500
+    );
+  }
+});
+
+export default tokens;
@@ -0,0 +1,190 @@
+// Voicemail routes
+// List voicemails awaiting a callback, assign them and mark them handled
+
+import { Hono } from 'hono';
+import { z } from 'zod';
+import type { Env, HonoVariables } from '@/types/env';
+import { authenticate, requireScope } from '@/lib/auth';
+import { createDatabase, queries } from '@/lib/database';
+import { VOICEMAIL_URGENCIES } from '@/lib/voicemail-triage';
+import { pageQuery, validate } from '@/lib/validation';
+
+const voicemails = new Hono<{ Bindings: Env; Variables: HonoVariables }>();
+
+voicemails.use('*', authenticate);
+
+const listVoicemailsQuery = pageQuery.extend({
+  status: z.enum(['new', 'assigned', 'handled']).optional(),
+  urgency: z.enum(VOICEMAIL_URGENCIES).optional(),
+  assignedTo: z.string().min(1).max(255).optional(),
+});
+
+const handledBody = z.object({
+  notes: z.string().max(2000).optional(),
+});
+
+const assignBody = z.object({
+  assignee: z.string().trim().min(1).max(255),
+});
+
+/**
+ * List voicemails (emergencies first, then newest)
+ * Optional filters: status (new, assigned, handled), urgency, assignedTo
+ */
+voicemails.get('/', requireScope('reception:voicemails:read'), validate('query', listVoicemailsQuery), async (c) => {
+  try {
+    const filters = c.req.valid('query');
+    const { limit, offset } = filters;
+
+    const db = createDatabase(c.env);
+    const query = queries.listVoicemails(filters);
+    const rows = await db.query(query.sql, query.params);
+
+    return c.json({
+      success: true,
+      data: rows,
+      metadata: {
+        timestamp: new Date().toISOString(),
+        limit,
+        offset,
+        count: rows.length,
+      },
+    });
+  } catch (error) {
+    console.error('Get voicemails error:', error);
+    return c.json(
+      {
+        success: false,
+        error: {
+          code: 'GET_VOICEMAILS_FAILED',
+          message: error instanceof Error ? error.message : 'Unknown error',
+        },
+      },
+      500
+    );
+  }
+});
+
+/**
+ * Mark a voicemail as handled and close its callback task
+ */
+voicemails.post('/:id/handled', requireScope('reception:voicemails:write'), validate('json', handledBody), async (c) => {
+  try {
+    const auth = c.get('auth');
+    const id = c.req.param('id');
+    const body = c.req.valid('json');
+
+    const db = createDatabase(c.env);
+    const updateQuery = queries.markVoicemailHandled(id, auth.identityId);
+    const voicemail = await db.queryOne(updateQuery.sql, updateQuery.params);
+
+    if (!voicemail) {
+      return c.json(
+        {
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: 'Voicemail not found',
+          },
+        },
+        404
+      );
+    }
+
+    const taskQuery = queries.completeCallbackTasksForVoicemail(id);
+    await db.execute(taskQuery.sql, taskQuery.params);
+
+    // Audit log
+    const auditQuery = queries.createAuditLog(
+      auth.identityId,
+      'voicemail.handled',
+      'voicemail',
+      id,
+      { notes: body.notes }
+    );
+    await db.execute(auditQuery.sql, auditQuery.params);
+
+    return c.json({
+      success: true,
+      data: voicemail,
+      metadata: {
+        timestamp: new Date().toISOString(),
+      },
+    });
+  } catch (error) {
+    console.error('Mark voicemail handled error:', error);
+    return c.json(
+      {
+        success: false,
+        error: {
+          code: 'UPDATE_VOICEMAIL_FAILED',
+          message: error instanceof Error ? error.message : 'Unknown error',
+        },
+      },
+      500
+    );
+  }
+});
+
+/**
+ * Assign a voicemail (and its open callback task) to a staff member or team
+ */
+voicemails.post('/:id/assign', requireScope('reception:voicemails:write'), validate('json', assignBody), async (c) => {
+  try {
+    const auth = c.get('auth');
+    const id = c.req.param('id');
+    const body = c.req.valid('json');
+
+    const db = createDatabase(c.env);
+    const updateQuery = queries.assignVoicemail(id, body.assignee);
+    const voicemail = await db.queryOne(updateQuery.sql, updateQuery.params);
+
+    if (!voicemail) {
+      return c.json(
+        {
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: 'Voicemail not found',
+          },
+        },
+        404
+      );
+    }
+
+    const taskQuery = queries.assignCallbackTasksForVoicemail(id, body.assignee);
+    await db.execute(taskQuery.sql, taskQuery.params);
+
+    // Audit log
+    const auditQuery = queries.createAuditLog(
+      auth.identityId,
+      'voicemail.assigned',
+      'voicemail',
+      id,
+      { assignee: body.assignee }
+    );
+    await db.execute(auditQuery.sql, auditQuery.params);
+
+    return c.json({
+      success: true,
+      data: voicemail,
+      metadata: {
+        timestamp: new Date().toISOString(),
+      },
+    });
+  } catch (error) {
+    console.error('Assign voicemail error:', error);
+    return c.json(
+      {
+        success: false,
+        error: {
+          code: 'UPDATE_VOICEMAIL_FAILED',
+          message: error instanceof Error ? error.message : 'Unknown error',
+        },
+      },
+      500
+    );
+  }
+});
+
+export default voicemails;
@@ -0,0 +1,172 @@
+// Webhook event ledger inspection routes
+
+import { Hono } from 'hono';
+import { z } from 'zod';
+import type { Env, HonoVariables } from '@/types/env';
+import { authenticate, requireScope } from '@/lib/auth';
+import { createDatabase, queries } from '@/lib/database';
+import { WEBHOOK_EVENT_STATUSES, WebhookLedger } from '@/lib/webhook-ledger';
+import { replayWebhookEvent } from '@/lib/webhook-replay';
+import { getOpenPhoneWebhookSecrets } from '@/lib/openphone';
+import { pageQuery, validate } from '@/lib/validation';
+import webhooks from '@/routes/webhooks';
+
+const webhookEvents = new Hono<{ Bindings: Env; Variables: HonoVariables }>();
+
+webhookEvents.use('*', authenticate, requireScope('reception:admin'));
+
+const listWebhookEventsQuery = pageQuery.extend({
+  status: z.enum(WEBHOOK_EVENT_STATUSES).optional(),
+  type: z.string().min(1).max(100).optional(),
+});
+
+/**
+ * List ledger entries, newest first
+ * Optional filters: status, type
+ */
+webhookEvents.get('/', validate('query', listWebhookEventsQuery), async (c) => {
+  try {
+    const { limit, offset, status, type } = c.req.valid('query');
+
+    const ledger = new WebhookLedger(c.env);
+    const events = await ledger.list({ status, type, limit, offset });
+
+    return c.json({
+      success: true,
+      data: events,
+      metadata: {
+        timestamp: new Date().toISOString(),
+        limit,
+        offset,
+        count: events.length,
+      },
+    });
+  } catch (error) {
+    console.error('List webhook events error:', error);
+    return c.json(
+      {
+        success: false,
+        error: {
+          code: 'GET_WEBHOOK_EVENTS_FAILED',
+          message: error instanceof Error ? error.message : 'Unknown error',
+        },
+      },
+      500
+    );
+  }
+});
+
+/**
+ * Get a single ledger entry, including the raw payload
+ */
+webhookEvents.get('/:eventId', async (c) => {
+  try {
+    const ledger = new WebhookLedger(c.env);
+    const event = await ledger.get(c.req.param('eventId'));
+
+    if (!event) {
+      return c.json(
+        {
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: 'Webhook event not found',
+          },
+        },
+        404
+      );
+    }
+
+    return c.json({
+      success: true,
+      data: event,
+      metadata: {
+        timestamp: new Date().toISOString(),
+      },
+    });
+  } catch (error) {
+    console.error('Get webhook event error:', error);
+    return c.json(
+      {
+        success: false,
+        error: {
+          code: 'GET_WEBHOOK_EVENT_FAILED',
+          message: error instanceof Error ? error.message : 'Unknown error',
+        },
+      },
+      500
+    );
+  }
+});
+
+/**
+ * Replay a stored event through the webhook endpoint
+ * The stored payload is re-signed with OPENPHONE_WEBHOOK_SECRET and goes through
+ * signature verification, the ledger and the queue like a fresh delivery
+ */
+webhookEvents.post('/:eventId/replay', async (c) => {
+  try {
+    const auth = c.get('auth');
+    const eventId = c.req.param('eventId');
+
+    const ledger = new WebhookLedger(c.env);
+    const entry = await ledger.prepareReplay(eventId);
+
+    if (!entry) {
+      return c.json(
+        {
+          success: false,
+          error: {
+            code: 'NOT_REPLAYABLE',
+            message: 'Webhook event not found or not in a processed/failed state',
+          },
+        },
+        409
+      );
+    }
+
+    const response = await replayWebhookEvent(
+      (request) => webhooks.request(request, undefined, c.env),
+      entry.payload,
+      getOpenPhoneWebhookSecrets(c.env)[0],
+      'http://internal/openphone'
+    );
+    const result = await response.json();
+
+    // Audit log
+    const db = createDatabase(c.env);
+    const auditQuery = queries.createAuditLog(
+      auth.identityId,
+      'webhook.replayed',
+      'webhook_event',
+      eventId,
+      { eventType: entry.event_type, responseStatus: response.status }
+    );
+    await db.execute(auditQuery.sql, auditQuery.params);
+
+    return c.json(
+      {
+        success: response.ok,
+        data: { eventId, webhookStatus: response.status, webhookResponse: result },
+        metadata: {
+          timestamp: new Date().toISOString(),
+        },
+      },
+      response.ok ? 200 : 502
+    );
+  } catch (error) {
+    console.error('Replay webhook event error:', error);
+    return c.json(
+      {
+        success: false,
+        error: {
+          code: 'REPLAY_FAILED',
+          message: error instanceof Error ? error.message : 'Unknown error',
+        },
+      },
+      500
+    );
+  }
+});
+
+export default webhookEvents;
@@ -1,69 +1,40 @@
-// OpenPhone webhook handlers
+// Telephony webhook endpoints
+// Verify and normalize provider callbacks, persist them, then hand them to the
+// webhook queue for processing
 
-import { Hono } from 'hono';
+import { Hono, type Context } from 'hono';
 import type { Env } from '@/types/env';
-import type { OpenPhoneWebhookEvent } from '@/types/openphone';
-import { verifyOpenPhoneWebhook } from '@/lib/openphone';
-import { ChittyOSClient } from '@/lib/chittyos-integration';
+import type { WebhookVerificationResult } from '@/types/openphone';
+import type { TelephonyEvent, TelephonyProvider, TelephonyWebhookRequest } from '@/types/telephony';
 import { createDatabase, queries } from '@/lib/database';
+import { getTelephonyProvider } from '@/lib/telephony';
+import { WebhookLedger } from '@/lib/webhook-ledger';
+import { enqueueWebhookEvent } from '@/lib/webhook-queue';
 
 const webhooks = new Hono<{ Bindings: Env }>();
 
+// Empty TwiML: acknowledges a Twilio callback without instructing the call or message
+const EMPTY_TWIML = '<?xml version="1.0" encoding="UTF-8"?><Response></Response>';
+
 /**
  * OpenPhone webhook endpoint
  * Receives events for calls, messages, and voicemails
  */
 webhooks.post('/openphone', async (c) => {
   try {
-    // Get webhook signature from headers
-    const signature = c.req.header('x-openphone-signature');
-    if (!signature) {
-      return c.json({ error: 'Missing webhook signature' }, 401);
-    }
-
     // Get raw body for signature verification
-    const rawBody = await c.req.text();
-
-    // Verify webhook signature
-    const isValid = await verifyOpenPhoneWebhook(
-      rawBody,
-      signature,
-      c.env.OPENPHONE_WEBHOOK_SECRET
-    );
-
-    if (!isValid) {
-      console.error('Invalid webhook signature');
-      return c.json({ error: 'Invalid signature' }, 401);
-    }
-
-    // Parse event
-    const event: OpenPhoneWebhookEvent = JSON.parse(rawBody);
-
-    console.log('OpenPhone webhook received:', {
-      type: event.type,
-      id: event.id,
-      createdAt: event.createdAt,
-    });
-
-    // Route to appropriate handler based on event type
-    switch (event.type) {
-      case 'call.initiated':
-        await handleCallInitiated(event, c.env);
-        break;
-      case 'call.completed':
-        await handleCallCompleted(event, c.env);
-        break;
-      case 'message.created':
-        await handleMessageCreated(event, c.env);
-        break;
-      case 'voicemail.created':
-        await handleVoicemailCreated(event, c.env);
-        break;
-      default:
-        console.log('Unhandled event type:', event.type);
+    const request: TelephonyWebhookRequest = {
+      url: c.req.url,
+      headers: c.req.raw.headers,
+      rawBody: await c.req.text(),
+    };
+
+    const result = await acceptWebhook(c, getTelephonyProvider(c.env, 'openphone'), request);
+    if ('rejected' in result) {
+      return c.json({ error: 'Invalid signature', reason: result.rejected.reason }, 401);
     }
 
-    return c.json({ success: true, received: event.id });
+    return c.json({ success: true, received: result.eventId, ...result.outcome });
   } catch (error) {
     console.error('Webhook processing error:', error);
     return c.json({ error: 'Webhook processing failed' }, 500);
@@ -71,291 +42,116 @@ webhooks.post('/openphone', async (c) => {
 });
 
 /**
- * Handle incoming call initiated
- * Integrates with ChittyID, ChittyRouter, and ChittyTrust
+ * Twilio webhook endpoint
+ * Receives form-encoded SMS, status and transcription callbacks for Twilio lines
  */
-async function handleCallInitiated(event: OpenPhoneWebhookEvent, env: Env) {
-  const call = event.data.object as import('@/types/openphone').CallObject;
-  const fromNumber = call.from.phoneNumber;
-  const toNumber = call.to[0]?.phoneNumber;
-
-  console.log('Call initiated:', {
-    callId: call.id,
-    from: fromNumber,
-    to: toNumber,
-    direction: call.direction,
-  });
-
-  // Initialize ChittyOS client
-  const chittyos = new ChittyOSClient(env);
-  const db = createDatabase(env);
-
-  // Step 1: Resolve caller identity
-  const callerInfo = await chittyos.resolveCallerFull(fromNumber, {
-    callId: call.id,
-    direction: call.direction,
-  });
-
-  let identityId: string | null = null;
-
-  if (callerInfo.identity) {
-    identityId = callerInfo.identity.identityId;
-    console.log('Caller identified:', {
-      did: callerInfo.identity.did,
-      trustScore: callerInfo.trustScore?.score,
-      riskLevel: callerInfo.trustScore?.riskLevel,
-    });
-  } else {
-    // Unknown caller - create new identity
-    console.log('Unknown caller - minting new ChittyID');
-    const newIdentity = await chittyos.id.mintIdentity('PERSON', {
-      phoneNumber: fromNumber,
-      source: 'openphone_call',
-      firstContactDate: new Date().toISOString(),
-    });
-
-    if (newIdentity.success && newIdentity.data) {
-      identityId = newIdentity.data.id;
-
-      // Link phone number to identity
-      const phoneQuery = queries.createAuditLog(
-        identityId,
-        'identity.phone.linked',
-        'phone_number',
-        fromNumber,
-        { phoneNumber: fromNumber, verified: false }
-      );
-      await db.execute(phoneQuery.sql, phoneQuery.params);
+webhooks.post('/twilio', async (c) => {
+  try {
+    if (!c.env.TWILIO_ACCOUNT_SID || !c.env.TWILIO_AUTH_TOKEN) {
+      return c.json({ error: 'Twilio is not configured' }, 404);
     }
-  }
 
-  // Step 2: Route call through ChittyRouter AI
-  const routingDecision = await chittyos.router.routeCall({
-    callId: call.id,
-    from: fromNumber,
-    to: toNumber,
-    callerIdentity: identityId || undefined,
-  });
+    // Twilio signs the public URL it posted to, which can differ from the URL the worker sees
+    const request: TelephonyWebhookRequest = {
+      url: c.env.TWILIO_WEBHOOK_URL || c.req.url,
+      headers: c.req.raw.headers,
+      rawBody: await c.req.text(),
+    };
 
-  console.log('Call routing decision:', routingDecision.data);
+    const result = await acceptWebhook(c, getTelephonyProvider(c.env, 'twilio'), request);
+    if ('rejected' in result) {
+      return c.json({ error: 'Invalid signature', reason: result.rejected.reason }, 401);
+    }
 
-  // Step 3: Store call in database
-  if (identityId) {
-    const callQuery = queries.createCallRecord(
-      identityId,
-      call.id,
-      call.direction as 'inbound' | 'outbound',
-      fromNumber,
-      toNumber,
-      {
-        openphoneData: call,
-        routingDecision: routingDecision.data,
-        trustScore: callerInfo.trustScore,
-      }
-    );
-    await db.execute(callQuery.sql, callQuery.params);
+    return c.body(EMPTY_TWIML, 200, { 'Content-Type': 'text/xml' });
+  } catch (error) {
+    console.error('Webhook processing error:', error);
+    return c.json({ error: 'Webhook processing failed' }, 500);
   }
+});
 
-  // Step 4: Store call state in KV for real-time access
-  await env.RECEPTION_KV.put(
-    `call:${call.id}`,
-    JSON.stringify({
-      ...call,
-      receivedAt: new Date().toISOString(),
-      identity: callerInfo.identity,
-      trustScore: callerInfo.trustScore,
-      routingDecision: routingDecision.data,
-    }),
-    { expirationTtl: 86400 } // 24 hours
-  );
-
-  // Step 5: Log to ChittyChronicle
-  await chittyos.chronicle.logEvent({
-    service: 'chittyreception',
-    action: 'call.initiated',
-    identityId: identityId || undefined,
-    resourceType: 'call',
-    resourceId: call.id,
-    details: {
-      from: fromNumber,
-      to: toNumber,
-      direction: call.direction,
-      routingDecision: routingDecision.data,
-    },
-    severity: routingDecision.data?.priority === 'urgent' ? 'warning' : 'info',
-  });
-}
+type AcceptResult =
+  | { rejected: WebhookVerificationResult }
+  | { eventId: string | null; outcome: { queued: true } | { duplicate: true } | { ignored: true } };
 
 /**
- * Handle call completed
+ * Verify, normalize, record and enqueue a provider callback
  */
-async function handleCallCompleted(event: OpenPhoneWebhookEvent, env: Env) {
-  const call = event.data.object as import('@/types/openphone').CallObject;
-  console.log('Call completed:', {
-    callId: call.id,
-    duration: call.duration,
-    status: call.status,
-  });
-
-  // Update call state
-  const existingCall = await env.RECEPTION_KV.get(`call:${call.id}`, 'json');
-  if (existingCall) {
-    await env.RECEPTION_KV.put(
-      `call:${call.id}`,
-      JSON.stringify({
-        ...existingCall,
-        ...call,
-        completedAt: new Date().toISOString(),
-      }),
-      { expirationTtl: 86400 }
-    );
+async function acceptWebhook(
+  c: Context<{ Bindings: Env }>,
+  provider: TelephonyProvider,
+  request: TelephonyWebhookRequest
+): Promise<AcceptResult> {
+  // Verify webhook signature
+  const verification = await provider.verifyWebhook(request);
+
+  if (!verification.valid) {
+    console.error('Invalid webhook signature:', provider.name, verification.reason);
+    await recordRejection(c.env, provider.name, verification, c.req.header('cf-connecting-ip'), c.req.header('user-agent'));
+    return { rejected: verification };
   }
 
-  // TODO: Implement post-call processing
-  // - Store recording URL
-  // - Generate call summary with AI
-  // - Update case in database if linked
-}
-
-/**
- * Handle incoming message
- * Integrates with ChittyRouter for AI analysis and response generation
- */
-async function handleMessageCreated(event: OpenPhoneWebhookEvent, env: Env) {
-  const message = event.data.object as import('@/types/openphone').MessageObject;
-  const fromNumber = message.from.phoneNumber;
-  const toNumber = message.to[0]?.phoneNumber;
-
-  console.log('Message received:', {
-    messageId: message.id,
-    from: fromNumber,
-    to: toNumber,
-    body: message.body.substring(0, 50),
-  });
-
-  // Initialize ChittyOS client
-  const chittyos = new ChittyOSClient(env);
-  const db = createDatabase(env);
-
-  // Step 1: Resolve sender identity
-  const senderInfo = await chittyos.resolveCallerFull(fromNumber, {
-    messageId: message.id,
-    messagePreview: message.body.substring(0, 100),
-  });
-
-  let identityId: string | null = null;
-
-  if (senderInfo.identity) {
-    identityId = senderInfo.identity.identityId;
-  } else {
-    // Unknown sender - create new identity
-    const newIdentity = await chittyos.id.mintIdentity('PERSON', {
-      phoneNumber: fromNumber,
-      source: 'openphone_message',
-      firstContactDate: new Date().toISOString(),
-    });
-
-    if (newIdentity.success && newIdentity.data) {
-      identityId = newIdentity.data.id;
-    }
+  // Normalize into the internal event model
+  const event: TelephonyEvent | null = provider.normalizeWebhookEvent(request);
+  if (!event) {
+    return { eventId: null, outcome: { ignored: true } };
   }
 
-  // Step 2: Analyze message with ChittyRouter AI
-  const analysis = await chittyos.router.processMessage({
-    messageId: message.id,
-    from: fromNumber,
-    to: toNumber,
-    body: message.body,
-    callerIdentity: identityId || undefined,
+  console.log('Webhook received:', {
+    provider: event.provider,
+    type: event.type,
+    id: event.id,
+    createdAt: event.createdAt,
   });
 
-  console.log('Message analysis:', {
-    intent: analysis.data?.intent,
-    sentiment: analysis.data?.sentiment,
-    requiresHuman: analysis.data?.requiresHuman,
-  });
+  // Persist the raw event; provider retries of a known event are acknowledged as duplicates
+  const ledger = new WebhookLedger(c.env);
+  const recorded = await ledger.record(event);
 
-  // Step 3: Store message in database
-  if (identityId) {
-    const messageQuery = queries.createMessageRecord(
-      identityId,
-      message.id,
-      'inbound',
-      fromNumber,
-      toNumber,
-      message.body,
-      {
-        openphoneData: message,
-        aiAnalysis: analysis.data,
-        trustScore: senderInfo.trustScore,
-      }
-    );
-    await db.execute(messageQuery.sql, messageQuery.params);
+  if (!recorded.accepted) {
+    console.log('Duplicate webhook delivery ignored:', {
+      id: event.id,
+      status: recorded.status,
+    });
+    return { eventId: event.id, outcome: { duplicate: true } };
   }
 
-  // Step 4: Store in KV for real-time access
-  await env.RECEPTION_KV.put(
-    `message:${message.id}`,
-    JSON.stringify({
-      ...message,
-      receivedAt: new Date().toISOString(),
-      identity: senderInfo.identity,
-      analysis: analysis.data,
-    }),
-    { expirationTtl: 86400 }
-  );
-
-  // Step 5: Log to ChittyChronicle
-  await chittyos.chronicle.logEvent({
-    service: 'chittyreception',
-    action: 'message.received',
-    identityId: identityId || undefined,
-    resourceType: 'message',
-    resourceId: message.id,
-    details: {
-      from: fromNumber,
-      to: toNumber,
-      intent: analysis.data?.intent,
-      sentiment: analysis.data?.sentiment,
-      bodyLength: message.body.length,
-    },
-    severity: analysis.data?.sentiment === 'urgent' ? 'warning' : 'info',
-  });
+  // Acknowledge immediately; the queue consumer does the actual processing
+  await enqueueWebhookEvent(c.env, ledger, event.id);
 
-  // Step 6: Auto-respond if appropriate
-  if (analysis.data?.suggestedResponse && !analysis.data.requiresHuman) {
-    // TODO: Send auto-response via OpenPhone
-    console.log('Auto-response suggested:', analysis.data.suggestedResponse);
-  }
+  return { eventId: event.id, outcome: { queued: true } };
 }
 
 /**
- * Handle voicemail created
+ * Record a rejected delivery in audit_logs
+ * Best-effort: a database outage must not turn a 401 into a 500
  */
-async function handleVoicemailCreated(event: OpenPhoneWebhookEvent, env: Env) {
-  const voicemail = event.data.object as import('@/types/openphone').VoicemailObject;
-  console.log('Voicemail received:', {
-    voicemailId: voicemail.id,
-    from: voicemail.from.phoneNumber,
-    duration: voicemail.duration,
-    hasTranscription: !!voicemail.transcription,
-  });
-
-  // Store voicemail in KV
-  await env.RECEPTION_KV.put(
-    `voicemail:${voicemail.id}`,
-    JSON.stringify({
-      ...voicemail,
-      receivedAt: new Date().toISOString(),
-    }),
-    { expirationTtl: 86400 }
-  );
-
-  // TODO: Implement voicemail processing
-  // - Store recording URL
-  // - Process transcription with AI
-  // - Extract action items
-  // - Create case if needed
+async function recordRejection(
+  env: Env,
+  providerName: string,
+  verification: WebhookVerificationResult,
+  ipAddress?: string,
+  userAgent?: string
+): Promise<void> {
+  try {
+    const db = createDatabase(env);
+    const auditQuery = queries.createAuditLog(
+      null,
+      'webhook.rejected',
+      'webhook',
+      providerName,
+      {
+        reason: verification.reason,
+        signatureTimestamp: verification.timestamp,
+        skewSeconds: verification.skewSeconds,
+      },
+      ipAddress,
+      userAgent
+    );
+    await db.execute(auditQuery.sql, auditQuery.params);
+  } catch (error) {
+    console.error('Failed to record webhook rejection:', error);
+  }
 }
 
 export default webhooks;
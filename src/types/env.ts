@@ -3,17 +3,30 @@
 export interface Env {
   // OpenPhone API credentials
   OPENPHONE_API_KEY: string;
-  OPENPHONE_WEBHOOK_SECRET: string;
+  OPENPHONE_API_BASE_URL?: string; // defaults to https://api.openphone.com/v1 (point at the fake server locally)
+  OPENPHONE_WEBHOOK_SECRET: string; // comma-separated when several webhooks are registered
+  OPENPHONE_WEBHOOK_SECRET_PREVIOUS?: string; // rotated-out secret, accepted until removed
+  OPENPHONE_WEBHOOK_TOLERANCE_SECONDS?: string; // clock-skew tolerance (default 300)
 
-  // Twilio credentials (for future migration)
+  // Twilio credentials (lines with provider 'twilio' in reception_phone_lines)
   TWILIO_ACCOUNT_SID?: string;
   TWILIO_AUTH_TOKEN?: string;
-  TWILIO_WEBHOOK_SECRET?: string;
+  TWILIO_WEBHOOK_SECRET?: string; // second auth token accepted for webhook signatures (rotation)
+  TWILIO_WEBHOOK_URL?: string; // public URL of /webhooks/twilio; signed URL and status callback
+  TWILIO_VOICE_URL?: string; // TwiML URL for outbound calls
 
-  // ChittyOS service tokens
+  // ChittyOS service tokens; also the HMAC and JWT secrets of services calling /internal/v1, where a
+  // `<NAME>_PREVIOUS` secret stays valid during rotation
   CHITTY_ID_SERVICE_TOKEN: string;
   CHITTY_AUTH_SERVICE_TOKEN: string;
+  CHITTY_AUTH_SERVICE_TOKEN_PREVIOUS?: string;
   CHITTY_CONNECT_SERVICE_TOKEN: string;
+  CHITTY_CONNECT_SERVICE_TOKEN_PREVIOUS?: string;
+  CHITTY_ROUTER_SERVICE_TOKEN?: string;
+  CHITTY_ROUTER_SERVICE_TOKEN_PREVIOUS?: string;
+
+  // Services allowed to call /internal/v1 and their routes, as JSON (defaults in src/lib/service-auth.ts)
+  SERVICE_REGISTRY?: string;
 
   // Database
   NEON_DATABASE_URL: string;
@@ -22,6 +35,22 @@ export interface Env {
   JWT_SECRET: string;
   ENCRYPTION_KEY: string;
 
+  // Webhook queue processing (defaults to 10 attempts before dead-lettering, the queue's max_retries)
+  WEBHOOK_MAX_ATTEMPTS?: string;
+
+  // MMS media: HMAC key for signed media URLs (kept apart from JWT_SECRET), public origin of the
+  // worker for those URLs (defaults to the request origin; required for MCP sends with mediaIds)
+  // and signed URL lifetime (default 900)
+  MEDIA_URL_SECRET: string;
+  PUBLIC_BASE_URL?: string;
+  MEDIA_URL_TTL_SECONDS?: string;
+
+  // Call recordings: days an archived recording is kept (unset or 0 keeps them indefinitely)
+  RECORDING_RETENTION_DAYS?: string;
+
+  // Outbound rate limits as JSON, scope → rules (defaults in src/lib/rate-limit.ts)
+  RATE_LIMITS?: string;
+
   // Environment
   ENVIRONMENT: 'development' | 'staging' | 'production';
 
@@ -29,6 +58,11 @@ export interface Env {
   AI: Ai;
   RECEPTION_KV: KVNamespace;
   CALL_STATE: DurableObjectNamespace;
+  RATE_LIMITER: DurableObjectNamespace; // one RateLimiter per counter (src/lib/rate-limit.ts)
+  WEBHOOK_QUEUE: Queue<WebhookQueueMessage>;
+  BACKFILL_QUEUE: Queue<BackfillQueueMessage>;
+  MEDIA_BUCKET?: R2Bucket; // MMS media; media is not stored when unbound
+  RECORDINGS_BUCKET?: R2Bucket; // call and voicemail recordings; not archived when unbound
 }
 
 // Hono context variables
@@ -38,6 +72,7 @@ export interface HonoVariables {
 }
 
 export interface AuthContext {
+  tokenId: string;
   identityId: string;
   identityDid: string;
   tokenScopes: string[];
@@ -48,3 +83,13 @@ export interface OpenPhoneWebhookContext {
   verified: boolean;
   event: import('./openphone').OpenPhoneWebhookEvent;
 }
+
+// Message body for the webhook processing queue; the payload itself lives in the ledger
+export interface WebhookQueueMessage {
+  eventId: string;
+}
+
+// Message body for the backfill queue; each delivery runs one slice of the job
+export interface BackfillQueueMessage {
+  jobId: string;
+}
@@ -5,11 +5,19 @@ export interface OpenPhoneConfig {
   apiKey: string;
   webhookSecret?: string;
   baseUrl?: string;
+  timeoutMs?: number; // per attempt (default 10s)
+  maxRetries?: number; // retries after the first attempt on 429, 5xx, timeouts and network errors (default 3)
+  rateLimit?: { requestsPerSecond: number; burst: number }; // client-side token bucket (default 10/s)
+}
+
+export interface OpenPhoneRequestOptions {
+  idempotencyKey?: string; // reused across retries; generated per call when omitted
 }
 
 export type CallDirection = 'incoming' | 'outgoing';
 export type CallStatus = 'ringing' | 'in-progress' | 'completed' | 'busy' | 'failed' | 'no-answer' | 'canceled';
 export type MessageDirection = 'incoming' | 'outgoing';
+export type MessageStatus = 'queued' | 'sending' | 'sent' | 'delivered' | 'failed' | 'undelivered' | 'received';
 
 // Webhook event types
 export interface OpenPhoneWebhookEvent {
@@ -31,6 +39,30 @@ export interface WebhookEventData {
   object: CallObject | MessageObject | VoicemailObject;
 }
 
+// Webhook signature verification
+export interface ParsedWebhookSignature {
+  scheme: string;
+  version: string;
+  timestamp: number; // milliseconds since epoch
+  digest: string; // base64 HMAC-SHA256 of `${timestamp}.${payload}`
+}
+
+export type WebhookRejectionReason =
+  | 'missing_signature'
+  | 'malformed_signature'
+  | 'unsupported_scheme'
+  | 'timestamp_out_of_range'
+  | 'no_secret_configured'
+  | 'signature_mismatch';
+
+export interface WebhookVerificationResult {
+  valid: boolean;
+  reason?: WebhookRejectionReason;
+  timestamp?: number;
+  skewSeconds?: number;
+  secretIndex?: number; // which active secret matched (rotation diagnostics)
+}
+
 // Call objects
 export interface CallObject {
   id: string;
@@ -41,6 +73,8 @@ export interface CallObject {
   to: PhoneNumber[];
   duration?: number;
   recording?: RecordingObject;
+  answeredAt?: string | null;
+  completedAt?: string | null;
   userId?: string;
   phoneNumberId: string;
 }
@@ -66,6 +100,8 @@ export interface MessageObject {
   to: PhoneNumber[];
   body: string;
   media?: MediaObject[];
+  status?: MessageStatus;
+  updatedAt?: string;
   userId?: string;
   phoneNumberId: string;
 }
@@ -89,7 +125,120 @@ export interface VoicemailObject {
   phoneNumberId: string;
 }
 
+// Phone number objects
+export interface PhoneNumberObject {
+  id: string;
+  number: string; // E.164
+  formattedNumber?: string;
+  name?: string;
+}
+
+// Conversation objects (one per line and set of participants)
+export interface ConversationObject {
+  id: string;
+  phoneNumberId: string;
+  participants: string[]; // E.164
+  name?: string | null;
+  assignedTo?: string | null;
+  createdAt: string;
+  updatedAt: string;
+  lastActivityAt?: string | null;
+  lastActivityId?: string | null;
+}
+
+// Contact objects
+export interface ContactFieldValue {
+  id?: string;
+  name: string; // label, e.g. 'mobile' or 'work'
+  value: string;
+}
+
+export interface ContactDefaultFields {
+  firstName: string | null;
+  lastName: string | null;
+  company: string | null;
+  role: string | null;
+  emails: ContactFieldValue[];
+  phoneNumbers: ContactFieldValue[];
+}
+
+export interface ContactObject {
+  id: string;
+  externalId: string | null; // our identity DID for contacts we manage
+  source: string | null;
+  sourceUrl?: string | null;
+  defaultFields: ContactDefaultFields;
+  customFields?: { name: string; key?: string; type?: string; value: unknown }[];
+  createdAt: string;
+  updatedAt: string;
+  createdByUserId?: string | null;
+}
+
+export interface ContactInput {
+  defaultFields: Partial<ContactDefaultFields>;
+  externalId?: string;
+  source?: string;
+  sourceUrl?: string;
+}
+
+// Call recordings and transcripts (fetched per call)
+export interface CallRecordingObject {
+  id: string;
+  duration: number | null;
+  startTime: string | null;
+  status: 'absent' | 'completed' | 'deleted' | 'failed' | 'in-progress' | 'pending' | 'processing' | 'stopped' | 'stored';
+  type: string | null;
+  url: string | null;
+}
+
+export interface CallTranscriptObject {
+  callId: string;
+  createdAt: string;
+  duration: number | null;
+  status: 'absent' | 'completed' | 'failed' | 'in-progress';
+  dialogue: { content: string; start: number; end: number; identifier: string; userId?: string | null }[] | null;
+}
+
 // API Request/Response types
+export interface OpenPhoneResponse<T> {
+  data: T;
+}
+
+export interface OpenPhoneListResponse<T> {
+  data: T[];
+  totalItems?: number;
+  nextPageToken: string | null;
+}
+
+// Listing filters; pages are followed automatically, maxResults sets the page size
+export interface ListCallsParams {
+  phoneNumberId: string;
+  participants: string[];
+  userId?: string;
+  createdAfter?: string;
+  createdBefore?: string;
+  maxResults?: number;
+}
+
+export type ListMessagesParams = ListCallsParams;
+
+export interface ListConversationsParams {
+  phoneNumbers?: string[]; // our lines, by number or id
+  userId?: string;
+  createdAfter?: string;
+  createdBefore?: string;
+  updatedAfter?: string;
+  updatedBefore?: string;
+  excludeInactive?: boolean;
+  maxResults?: number;
+}
+
+export interface ListContactsParams {
+  externalIds?: string[];
+  sources?: string[];
+  maxResults?: number;
+}
+
 export interface SendMessageRequest {
   from: string;
   to: string[];
@@ -99,7 +248,7 @@ export interface SendMessageRequest {
 
 export interface SendMessageResponse {
   id: string;
-  status: 'queued' | 'sending' | 'sent' | 'failed';
+  status: Extract<MessageStatus, 'queued' | 'sending' | 'sent' | 'failed'>;
   createdAt: string;
 }
 
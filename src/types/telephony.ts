@@ -0,0 +1,65 @@
+// Telephony provider types
+// The internal event model mirrors OpenPhone's webhook event shape, which the
+// webhook handlers consume; other providers' callbacks are normalized into it
+
+import type {
+  CallObject,
+  MakeCallRequest,
+  MakeCallResponse,
+  MessageObject,
+  OpenPhoneWebhookEvent,
+  RecordingObject,
+  SendMessageRequest,
+  SendMessageResponse,
+  WebhookVerificationResult,
+} from './openphone';
+
+export type TelephonyProviderName = 'openphone' | 'twilio';
+
+export const TELEPHONY_PROVIDERS: TelephonyProviderName[] = ['openphone', 'twilio'];
+
+// Normalized webhook event; provider is absent on events recorded before providers existed
+export interface TelephonyEvent extends OpenPhoneWebhookEvent {
+  provider?: TelephonyProviderName;
+}
+
+export interface TelephonyNumber {
+  id: string; // provider's ID for the number
+  phoneNumber: string; // E.164
+  name?: string;
+  provider: TelephonyProviderName;
+}
+
+// A stretch of speech in a transcript, in seconds from the start of the recording;
+// speaker is the phone number talking when known
+export interface TranscriptSegment {
+  start: number;
+  end: number;
+  speaker: string | null;
+  text: string;
+}
+
+// Raw inbound webhook as received by the worker
+export interface TelephonyWebhookRequest {
+  url: string; // public URL the provider posted to
+  headers: Headers;
+  rawBody: string;
+}
+
+export interface TelephonyProvider {
+  readonly name: TelephonyProviderName;
+  sendMessage(request: SendMessageRequest): Promise<SendMessageResponse>;
+  makeCall(request: MakeCallRequest): Promise<MakeCallResponse>;
+  getCall(callId: string): Promise<CallObject>;
+  getMessage(messageId: string): Promise<MessageObject>;
+  // Finished recordings of a call, for calls whose webhook payload carries none
+  getCallRecordings(callId: string): Promise<RecordingObject[]>;
+  // The provider's own transcript of a call, or null when it has none
+  getCallTranscript(callId: string): Promise<TranscriptSegment[] | null>;
+  listNumbers(): Promise<TelephonyNumber[]>;
+  // Fetches inbound MMS media and recordings with whatever credentials the provider's URLs need
+  downloadMedia(url: string): Promise<Response>;
+  verifyWebhook(request: TelephonyWebhookRequest): Promise<WebhookVerificationResult>;
+  // Returns null for callbacks that carry nothing the handlers act on
+  normalizeWebhookEvent(request: TelephonyWebhookRequest): TelephonyEvent | null;
+}
@@ -0,0 +1,50 @@
+// Twilio API types
+// API Documentation: https://www.twilio.com/docs/usage/api
+
+export interface TwilioConfig {
+  accountSid: string;
+  authToken: string;
+  baseUrl?: string;
+  statusCallbackUrl?: string; // public URL of /webhooks/twilio
+  voiceUrl?: string; // TwiML URL Twilio fetches when an outbound call connects
+}
+
+export interface TwilioMessageResource {
+  sid: string;
+  from: string;
+  to: string;
+  body: string;
+  status: string; // accepted, scheduled, queued, sending, sent, delivered, undelivered, failed, receiving, received, read, canceled
+  direction: 'inbound' | 'outbound-api' | 'outbound-call' | 'outbound-reply';
+  date_created: string; // RFC 2822
+  date_updated?: string;
+}
+
+export interface TwilioCallResource {
+  sid: string;
+  from: string;
+  to: string;
+  status: string; // queued, ringing, in-progress, completed, busy, failed, no-answer, canceled
+  direction: 'inbound' | 'outbound-api' | 'outbound-dial';
+  duration: string | null; // seconds
+  start_time: string | null;
+  end_time: string | null;
+  date_created: string;
+}
+
+export interface TwilioRecordingResource {
+  sid: string;
+  call_sid: string;
+  status: string; // in-progress, paused, stopped, processing, completed, absent, deleted
+  duration: string | null; // seconds
+  date_created: string; // RFC 2822
+}
+
+export interface TwilioIncomingPhoneNumber {
+  sid: string;
+  phone_number: string;
+  friendly_name?: string;
+}
+
+// Form-encoded webhook parameters (SMS, status, recording and transcription callbacks)
+export type TwilioWebhookParams = Record<string, string>;
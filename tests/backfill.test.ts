@@ -0,0 +1,181 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { app } from '@/index';
+import { handleBackfillQueue, runBackfillSlice } from '@/lib/backfill';
+import { createDatabase } from '@/lib/database';
+import { fakeNeon } from './helpers/fake-neon';
+import { installApiToken } from './helpers/fake-tokens';
+import { FakeOpenPhoneServer } from './helpers/fake-openphone';
+import { FakeServices } from './helpers/fake-services';
+import { createTestEnv, TEST_WEBHOOK_SECRET, type TestEnv } from './helpers/test-env';
+
+vi.mock('@neondatabase/serverless', async () => (await import('./helpers/fake-neon')).neonModule);
+
+const FAKE_API_URL = 'http://fake-openphone.local/v1';
+
+/**
+ * reception_backfill_jobs with the status transitions of the real queries
+ */
+function installJobStore(): Map<string, any> {
+  const jobs = new Map<string, any>();
+  const transition = (from: string[], changes: Record<string, any>) => (params: any[]) => {
+    const job = jobs.get(params[0]);
+    if (!job || !from.includes(job.status)) return [];
+    Object.assign(job, changes);
+    return [{ ...job }];
+  };
+
+  fakeNeon.on(/^INSERT INTO reception_backfill_jobs/, ([phoneNumber, since, requestedBy]) => {
+    const job = {
+      id: `job-${jobs.size + 1}`,
+      phone_number: phoneNumber,
+      phone_number_id: null,
+      status: 'pending',
+      since,
+      checkpoint: {},
+      stats: {},
+      last_error: null,
+      requested_by: requestedBy,
+    };
+    jobs.set(job.id, job);
+    return [{ ...job }];
+  });
+  fakeNeon.on(/^SELECT \* FROM reception_backfill_jobs WHERE id/, ([id]) => (jobs.has(id) ? [{ ...jobs.get(id) }] : []));
+  fakeNeon.on(/^UPDATE reception_backfill_jobs SET status = 'running'/, transition(['pending', 'running', 'failed'], { status: 'running', last_error: null }));
+  fakeNeon.on(/^UPDATE reception_backfill_jobs SET phone_number_id/, ([id, lineId, checkpoint, stats]) => {
+    const job = jobs.get(id);
+    if (job?.status !== 'running') return [];
+    Object.assign(job, { phone_number_id: lineId, checkpoint: JSON.parse(checkpoint), stats: JSON.parse(stats) });
+    return [{ status: job.status }];
+  });
+  fakeNeon.on(/^UPDATE reception_backfill_jobs SET status = 'completed'/, transition(['running'], { status: 'completed' }));
+  fakeNeon.on(/^UPDATE reception_backfill_jobs SET status = 'failed'/, (params) =>
+    transition(['running'], { status: 'failed', last_error: params[1] })(params)
+  );
+  fakeNeon.on(/^UPDATE reception_backfill_jobs SET status = 'cancelled'/, transition(['pending', 'running', 'failed'], { status: 'cancelled' }));
+  fakeNeon.on(/^UPDATE reception_backfill_jobs SET status = 'pending'/, transition(['failed', 'cancelled'], { status: 'pending', last_error: null }));
+
+  return jobs;
+}
+
+describe('OpenPhone history backfill', () => {
+  let services: FakeServices;
+  let openphone: FakeOpenPhoneServer;
+  let testEnv: TestEnv;
+  let jobs: Map<string, any>;
+
+  const request = (path: string, body?: unknown) =>
+    app.request(
+      `/api/v1/backfill-jobs${path}`,
+      {
+        method: 'POST',
+        headers: { Authorization: 'Bearer staff-token', 'Content-Type': 'application/json' },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      },
+      testEnv.env
+    );
+  const drain = () => testEnv.backfillQueue.drain((batch) => handleBackfillQueue(batch, testEnv.env));
+
+  beforeEach(async () => {
+    fakeNeon.reset();
+    installApiToken(['reception:admin']);
+    jobs = installJobStore();
+
+    services = new FakeServices();
+    testEnv = createTestEnv({ OPENPHONE_API_BASE_URL: FAKE_API_URL });
+    // History predates the worker: nothing was delivered by webhook
+    openphone = new FakeOpenPhoneServer({
+      apiKey: testEnv.env.OPENPHONE_API_KEY,
+      webhookSecret: TEST_WEBHOOK_SECRET,
+      deliver: async () => new Response(null, { status: 200 }),
+    });
+
+    vi.stubGlobal('fetch', (input: RequestInfo | URL, init?: RequestInit) => {
+      const req = new Request(input, init);
+      return new URL(req.url).host === 'fake-openphone.local' ? openphone.fetch(req) : services.fetch(input, init);
+    });
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    await openphone.receiveMessage('+13125550147', 'Is parking included?');
+    await openphone.receiveCall('+13125550147');
+    await openphone.receiveMessage('+17735550199', 'Do you take pets?');
+    await openphone.receiveMessage('+16305550123', 'What time is check-in?');
+    await openphone.settle();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('imports a line through the backfill queue and skips rows webhooks already stored', async () => {
+    const [known] = [...openphone.messages.values()].filter((message) => message.body === 'Do you take pets?');
+    fakeNeon.tables.reception_messages = [{ id: 'row-webhook', message_id: known.id }];
+
+    const response = await request('', { phoneNumber: '+13125550100', since: '2020-01-01' });
+    expect(response.status).toBe(202);
+    const { data: job } = (await response.json()) as any;
+    expect(testEnv.backfillQueue.pending.map((message) => message.body)).toEqual([{ jobId: job.id }]);
+
+    await drain();
+
+    expect(jobs.get(job.id)).toMatchObject({
+      status: 'completed',
+      phone_number_id: 'PNa8Kc2m1Qx',
+      stats: { conversations: 3, calls: 1, messages: 2, existing: 1, skipped: 0 },
+    });
+    expect(fakeNeon.rows('reception_messages').map((row) => row.message_id).sort()).toEqual(
+      [...openphone.messages.keys()].sort()
+    );
+    expect(fakeNeon.rows('reception_calls')).toEqual([
+      expect.objectContaining({ call_id: [...openphone.calls.keys()][0], direction: 'inbound' }),
+    ]);
+    expect(fakeNeon.statements(/INSERT INTO audit_logs/).map((statement) => statement.params[1])).toEqual([
+      'backfill.started',
+    ]);
+  });
+
+  it('resumes a failed job from its checkpoint', async () => {
+    const db = createDatabase(testEnv.env);
+    const { data: job } = (await (await request('', { phoneNumber: '+13125550100' })).json()) as any;
+    testEnv.backfillQueue.pending = [];
+
+    const first = await runBackfillSlice(testEnv.env, db, job.id, { maxConversations: 1 });
+    expect(first).toMatchObject({ status: 'running', done: false, stats: { conversations: 1 } });
+    expect(jobs.get(job.id).checkpoint).toEqual({ pageToken: null, offset: 1 });
+
+    openphone.script({ match: 'GET /calls', status: 401 });
+    await expect(runBackfillSlice(testEnv.env, db, job.id)).rejects.toThrow();
+    expect(jobs.get(job.id)).toMatchObject({ status: 'failed', checkpoint: { pageToken: null, offset: 1 } });
+
+    const resumed = await request(`/${job.id}/resume`);
+    expect(resumed.status).toBe(200);
+    await drain();
+
+    expect(jobs.get(job.id)).toMatchObject({ status: 'completed', stats: { conversations: 3 } });
+    expect(fakeNeon.rows('reception_messages')).toHaveLength(3);
+    expect(fakeNeon.rows('reception_calls')).toHaveLength(1);
+  });
+
+  it('does not run cancelled jobs and only resumes failed or cancelled ones', async () => {
+    const { data: job } = (await (await request('', { phoneNumber: '+13125550100' })).json()) as any;
+
+    expect((await request(`/${job.id}/cancel`)).status).toBe(200);
+    await drain();
+
+    expect(jobs.get(job.id).status).toBe('cancelled');
+    expect(fakeNeon.rows('reception_messages')).toEqual([]);
+    expect(openphone.requests.filter((req) => req.path === '/conversations')).toEqual([]);
+
+    expect((await request(`/${job.id}/cancel`)).status).toBe(409);
+    expect((await request(`/${job.id}/resume`)).status).toBe(200);
+    expect((await request(`/${job.id}/resume`)).status).toBe(409);
+  });
+
+  it('rejects lines that are not phone numbers', async () => {
+    const response = await request('', { phoneNumber: '555-0100' });
+
+    expect(response.status).toBe(400);
+    expect(jobs.size).toBe(0);
+  });
+});
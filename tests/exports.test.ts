@@ -0,0 +1,131 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { app } from '@/index';
+import { createDatabase } from '@/lib/database';
+import { createHistoryExportStream, REDACTED } from '@/lib/exports';
+import { fakeNeon } from './helpers/fake-neon';
+import { installApiToken } from './helpers/fake-tokens';
+import { createTestEnv, type TestEnv } from './helpers/test-env';
+
+vi.mock('@neondatabase/serverless', async () => (await import('./helpers/fake-neon')).neonModule);
+
+const SINCE = '2025-03-01T00:00:00Z';
+const UNTIL = '2025-04-01T00:00:00Z';
+
+const MESSAGES = [
+  { id: 'msg-1', message_id: 'AC1', identity_did: 'did:chitty:guest', direction: 'inbound', from_number: '+13125550147', to_number: '+13125550100', status: 'received', created_at: new Date('2025-03-04T22:41:18Z'), body: 'Is the pool open, today?' },
+  { id: 'msg-2', message_id: 'AC2', identity_did: 'did:chitty:guest', direction: 'outbound', from_number: '+13125550100', to_number: '+13125550147', status: 'delivered', created_at: new Date('2025-03-04T22:45:00Z'), body: '=HYPERLINK("http://example.test")' },
+  { id: 'msg-3', message_id: 'AC3', identity_did: 'did:chitty:guest', direction: 'inbound', from_number: '+13125550147', to_number: '+13125550100', status: 'received', created_at: new Date('2025-03-05T08:00:00Z'), body: 'Thanks "so" much' },
+];
+
+describe('history exports', () => {
+  let testEnv: TestEnv;
+  let scopes: string[];
+
+  const download = (path: string) =>
+    app.request(path, { headers: { Authorization: 'Bearer ops-token' } }, testEnv.env);
+  const exportQueries = () => fakeNeon.statements(/FROM reception_message_history h/);
+
+  beforeEach(() => {
+    fakeNeon.reset();
+    scopes = ['reception:history:export'];
+    installApiToken(scopes, { identity_id: 'identity-ops', identity_did: 'did:chitty:ops', name: 'ops' });
+    // Rows after the keyset cursor; params are [since, until, afterId?, batchSize]
+    fakeNeon.on(/FROM reception_message_history h/, (params, sql) => {
+      const batchSize = params[params.length - 1];
+      const afterId = params.length > 3 ? params[2] : null;
+      const start = afterId ? MESSAGES.findIndex((message) => message.id === afterId) + 1 : 0;
+      return MESSAGES.slice(start, start + batchSize).map((message) =>
+        sql.includes('NULL AS body') ? { ...message, body: null } : { ...message }
+      );
+    });
+
+    testEnv = createTestEnv();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('streams CSV with redacted bodies and audits the export', async () => {
+    const response = await download(`/api/v1/exports/messages?since=${SINCE}&until=${UNTIL}&direction=inbound`);
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Type')).toBe('text/csv; charset=utf-8');
+    expect(response.headers.get('Content-Disposition')).toBe('attachment; filename="messages-2025-03-01-2025-04-01.csv"');
+
+    const lines = (await response.text()).trimEnd().split('\r\n');
+    expect(lines[0]).toBe('id,message_id,identity_did,direction,from_number,to_number,status,created_at,body');
+    expect(lines[1]).toBe(`msg-1,AC1,did:chitty:guest,inbound,+13125550147,+13125550100,received,2025-03-04T22:41:18.000Z,${REDACTED}`);
+    expect(lines).toHaveLength(4);
+
+    // Bodies are never read from the database without the body scope
+    expect(exportQueries()[0].sql).toContain('NULL AS body');
+
+    const [audit] = fakeNeon.rows('audit_logs').filter((row) => row.action === 'history.exported');
+    expect(audit).toMatchObject({ identity_id: 'identity-ops', resource_id: 'messages' });
+    expect(JSON.parse(audit.details)).toEqual({
+      format: 'csv',
+      filters: { direction: 'inbound', since: '2025-03-01T00:00:00.000Z', until: '2025-04-01T00:00:00.000Z' },
+      redactedBodies: true,
+      tokenName: 'ops',
+    });
+  });
+
+  it('includes bodies as JSONL with the body scope', async () => {
+    scopes.push('reception:messages:body:read');
+    const response = await download(`/api/v1/exports/messages?since=${SINCE}&until=${UNTIL}&format=jsonl`);
+
+    expect(response.headers.get('Content-Type')).toBe('application/x-ndjson; charset=utf-8');
+    const rows = (await response.text()).trimEnd().split('\n').map((line) => JSON.parse(line));
+    expect(rows.map((row) => row.body)).toEqual(MESSAGES.map((message) => message.body));
+    expect(rows[0]).toMatchObject({ id: 'msg-1', created_at: '2025-03-04T22:41:18.000Z' });
+  });
+
+  it('reads the database one batch at a time', async () => {
+    const db = createDatabase(testEnv.env);
+    const stream = createHistoryExportStream(
+      db,
+      'messages',
+      { since: SINCE, until: UNTIL, limit: 50, offset: 0 },
+      { format: 'csv', redactBodies: false, batchSize: 2 }
+    );
+    const reader = stream.getReader();
+
+    await reader.read();
+    expect(exportQueries()).toHaveLength(1);
+
+    const rest: string[] = [];
+    for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+      rest.push(new TextDecoder().decode(chunk.value));
+    }
+    expect(exportQueries().map((statement) => statement.params)).toEqual([
+      [SINCE, UNTIL, 2],
+      [SINCE, UNTIL, 'msg-2', 2],
+    ]);
+    expect(rest.join('')).toContain('"Thanks ""so"" much"');
+  });
+
+  it('requires the export scope, a date range and valid filters', async () => {
+    scopes.length = 0;
+    expect((await download(`/api/v1/exports/calls?since=${SINCE}`)).status).toBe(403);
+
+    scopes.push('reception:history:export');
+    for (const path of [
+      '/api/v1/exports/calls',
+      `/api/v1/exports/calls?since=${SINCE}&until=${UNTIL}&format=xlsx`,
+      `/api/v1/exports/calls?since=2020-01-01&until=${UNTIL}`,
+      `/api/v1/exports/calls?since=${SINCE}&until=${UNTIL}&status=delivered`,
+    ]) {
+      const response = await download(path);
+      expect(response.status).toBe(400);
+      expect(await response.json()).toMatchObject({ error: { code: 'VALIDATION_FAILED' } });
+    }
+
+    const search = await download(`/api/v1/exports/messages?since=${SINCE}&until=${UNTIL}&q=pool`);
+    expect(search.status).toBe(403);
+    expect(fakeNeon.rows('audit_logs').filter((row) => row.action === 'history.exported')).toEqual([]);
+    expect((await download('/api/v1/exports/voicemails?since=2025-03-01')).status).toBe(404);
+  });
+});
@@ -0,0 +1,519 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { app } from '@/index';
+import { OpenPhoneClient, OpenPhoneValidationError, createOpenPhoneClient } from '@/lib/openphone';
+import { getTelephonyProvider } from '@/lib/telephony';
+import { handleWebhookQueue } from '@/lib/webhook-queue';
+import { fakeNeon } from './helpers/fake-neon';
+import { installApiToken } from './helpers/fake-tokens';
+import { FakeOpenPhoneServer } from './helpers/fake-openphone';
+import { FakeServices } from './helpers/fake-services';
+import { createTestEnv, TEST_WEBHOOK_SECRET, type TestEnv } from './helpers/test-env';
+
+vi.mock('@neondatabase/serverless', async () => (await import('./helpers/fake-neon')).neonModule);
+
+const FAKE_API_URL = 'http://fake-openphone.local/v1';
+
+describe('worker against the fake OpenPhone API', () => {
+  let services: FakeServices;
+  let openphone: FakeOpenPhoneServer;
+  let testEnv: TestEnv;
+
+  // Deliver the fake's webhooks to the worker, then run the queue consumer
+  const settle = async () => {
+    await openphone.settle();
+    await testEnv.queue.drain((batch) => handleWebhookQueue(batch, testEnv.env));
+  };
+
+  beforeEach(() => {
+    fakeNeon.reset();
+    services = new FakeServices();
+    testEnv = createTestEnv({ OPENPHONE_API_BASE_URL: FAKE_API_URL });
+    openphone = new FakeOpenPhoneServer({
+      apiKey: testEnv.env.OPENPHONE_API_KEY,
+      webhookSecret: TEST_WEBHOOK_SECRET,
+      deliver: (request) => app.request(request, undefined, testEnv.env),
+      origin: 'http://fake-openphone.local',
+    });
+
+    vi.stubGlobal('fetch', (input: RequestInfo | URL, init?: RequestInit) => {
+      const request = new Request(input, init);
+      return new URL(request.url).host === 'fake-openphone.local' ? openphone.fetch(request) : services.fetch(input, init);
+    });
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('sends through the configured base URL and records the signed delivery receipt', async () => {
+    fakeNeon.on(/^UPDATE reception_messages SET/, () => [
+      { id: 'message-row', identity_id: 'identity-1', direction: 'outbound', status: 'delivered' },
+    ]);
+
+    const sent = await createOpenPhoneClient(testEnv.env).sendMessage({
+      from: '+13125550100',
+      to: ['+13125550147'],
+      content: 'Your check-in code is 4821',
+    });
+    expect(sent.status).toBe('queued');
+
+    await settle();
+
+    expect(openphone.webhooks.map((webhook) => [webhook.event.type, webhook.status])).toEqual([
+      ['message.created', 200],
+      ['message.updated', 200],
+    ]);
+    const [update] = fakeNeon.statements(/^UPDATE reception_messages SET/);
+    expect(update.params.slice(0, 2)).toEqual([sent.id, 'delivered']);
+  });
+
+  it('scripts failed delivery receipts', async () => {
+    openphone.script({ match: 'POST /messages', deliveryStatus: 'undelivered' });
+
+    await createOpenPhoneClient(testEnv.env).sendMessage({
+      from: '+13125550100',
+      to: ['+13125550147'],
+      content: 'Hello',
+    });
+    await settle();
+
+    const chronicle = services.to('chronicle.chitty.cc').find((request) => request.body?.action === 'message.delivery_failed');
+    expect(chronicle?.body).toMatchObject({ severity: 'error', details: { status: 'undelivered' } });
+  });
+
+  it('scripts rate limiting with Retry-After', async () => {
+    openphone.script({ match: 'POST /messages', status: 429, retryAfterSeconds: 2 });
+
+    const response = await openphone.fetch(
+      new Request(`${FAKE_API_URL}/messages`, {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${testEnv.env.OPENPHONE_API_KEY}` },
+        body: JSON.stringify({ from: '+13125550100', to: ['+13125550147'], content: 'Hi' }),
+      })
+    );
+
+    expect(response.status).toBe(429);
+    expect(response.headers.get('Retry-After')).toBe('2');
+  });
+
+  it('rejects requests without the API key', async () => {
+    const response = await openphone.fetch(new Request(`${FAKE_API_URL}/phone-numbers`));
+    expect(response.status).toBe(401);
+  });
+
+  it('lists phone numbers through the provider interface', async () => {
+    expect(await getTelephonyProvider(testEnv.env, 'openphone').listNumbers()).toEqual([
+      { id: 'PNa8Kc2m1Qx', phoneNumber: '+13125550100', name: 'Reception', provider: 'openphone' },
+    ]);
+  });
+
+  it('simulates inbound SMS and calls end to end', async () => {
+    fakeNeon.on(/^UPDATE reception_calls SET status/, () => [{ id: 'call-row', identity_id: null, metadata: {} }]);
+
+    const message = await openphone.receiveMessage('+13125550147', 'Is parking included?');
+    const call = await openphone.receiveCall('+13125550147');
+    await settle();
+
+    expect(fakeNeon.rows('reception_messages')).toEqual([
+      expect.objectContaining({ message_id: message.id, direction: 'inbound', body: 'Is parking included?' }),
+    ]);
+    expect(fakeNeon.rows('reception_calls')).toEqual([expect.objectContaining({ call_id: call.id })]);
+
+    // call.completed fetched the final call details from the fake API
+    expect(openphone.requests).toContainEqual(expect.objectContaining({ method: 'GET', path: `/calls/${call.id}` }));
+  });
+
+  describe('client resilience', () => {
+    const send = () =>
+      createOpenPhoneClient(testEnv.env).sendMessage({ from: '+13125550100', to: ['+13125550147'], content: 'Hi' });
+    const sendRequests = () => openphone.requests.filter((request) => request.method === 'POST' && request.path === '/messages');
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('waits out Retry-After before retrying a rate-limited send', async () => {
+      vi.useFakeTimers();
+      openphone.script({ match: 'POST /messages', status: 429, retryAfterSeconds: 2 });
+
+      const sent = send();
+      await vi.advanceTimersByTimeAsync(1999);
+      expect(sendRequests()).toHaveLength(1);
+
+      await vi.advanceTimersByTimeAsync(1);
+      expect((await sent).status).toBe('queued');
+      expect(sendRequests()).toHaveLength(2);
+    });
+
+    it('reuses the idempotency key so a lost response is not sent twice', async () => {
+      vi.spyOn(Math, 'random').mockReturnValue(0);
+      openphone.script({ match: 'POST /messages', status: 502, applied: true });
+
+      const sent = await send();
+
+      expect(sendRequests()).toHaveLength(2);
+      expect(openphone.messages.size).toBe(1);
+      expect(openphone.messages.has(sent.id)).toBe(true);
+    });
+
+    it('times out slow responses and retries them', async () => {
+      vi.spyOn(Math, 'random').mockReturnValue(0);
+      openphone.script({ match: 'GET /phone-numbers', delayMs: 60_000 });
+
+      const client = new OpenPhoneClient({ apiKey: testEnv.env.OPENPHONE_API_KEY, baseUrl: FAKE_API_URL, timeoutMs: 20 });
+      const response = await client.getPhoneNumbers();
+
+      expect(response.data).toHaveLength(1);
+      expect(openphone.requests.filter((request) => request.path === '/phone-numbers')).toHaveLength(2);
+    });
+
+    it('does not retry validation errors', async () => {
+      openphone.script({ match: 'POST /messages', status: 422, body: { message: 'Invalid recipient' } });
+
+      await expect(send()).rejects.toBeInstanceOf(OpenPhoneValidationError);
+      expect(sendRequests()).toHaveLength(1);
+    });
+
+    it('returns 429 from send-message once retries are exhausted', async () => {
+      installApiToken(['reception:sms:send'], { identity_id: 'identity-1' });
+      openphone.script({ match: 'POST /messages', times: Infinity, status: 429, retryAfterSeconds: 0 });
+
+      const response = await app.request(
+        '/api/v1/send-message',
+        {
+          method: 'POST',
+          headers: { Authorization: 'Bearer staff-token', 'Content-Type': 'application/json' },
+          body: JSON.stringify({ from: '+13125550100', to: ['+13125550147'], content: 'Hi' }),
+        },
+        testEnv.env
+      );
+
+      expect(response.status).toBe(429);
+      expect(response.headers.get('Retry-After')).toBe('0');
+      expect(await response.json()).toMatchObject({ success: false, error: { code: 'RATE_LIMITED' } });
+      expect(sendRequests()).toHaveLength(4);
+    });
+  });
+
+  describe('listings and contacts', () => {
+    const client = () => createOpenPhoneClient(testEnv.env);
+
+    it('follows nextPageToken through message listings', async () => {
+      for (const body of ['One', 'Two', 'Three']) {
+        await openphone.receiveMessage('+13125550147', body);
+      }
+      await openphone.receiveMessage('+17735550199', 'Someone else');
+
+      const bodies: string[] = [];
+      for await (const message of client().listMessages({
+        phoneNumberId: 'PNa8Kc2m1Qx',
+        participants: ['+13125550147'],
+        maxResults: 2,
+      })) {
+        bodies.push(message.body);
+      }
+
+      expect(bodies.sort()).toEqual(['One', 'Three', 'Two']);
+      expect(openphone.requests.filter((request) => request.path === '/messages')).toHaveLength(2);
+    });
+
+    it('lists conversations and the recordings and transcripts of calls', async () => {
+      const call = await openphone.receiveCall('+13125550147');
+      await openphone.settle();
+
+      const conversations = [];
+      for await (const conversation of client().listConversations({ phoneNumbers: ['+13125550100'] })) {
+        conversations.push(conversation);
+      }
+      expect(conversations).toEqual([expect.objectContaining({ participants: ['+13125550147'], lastActivityId: call.id })]);
+
+      const params = { phoneNumberId: 'PNa8Kc2m1Qx', participants: ['+13125550147'] };
+      const recordings = [];
+      for await (const recording of client().listCallRecordings(params)) {
+        recordings.push(recording);
+      }
+      const transcripts = [];
+      for await (const transcript of client().listCallTranscripts(params)) {
+        transcripts.push(transcript);
+      }
+
+      expect(recordings).toEqual([expect.objectContaining({ callId: call.id, status: 'completed' })]);
+      expect(transcripts).toEqual([expect.objectContaining({ callId: call.id, status: 'completed' })]);
+      expect(await client().getCallTranscript('ACmissing')).toBeNull();
+    });
+
+    it('creates, then updates, the OpenPhone contact for an identity', async () => {
+      installApiToken(['reception:contacts:write']);
+      let metadata: Record<string, string> = { name: 'Dana Ross' };
+      fakeNeon.on(/FROM identities i\s+LEFT JOIN identity_phones/, () => [
+        { id: 'identity-1', did: 'did:chitty:person:7f3a', metadata, phone_numbers: ['+13125550147'] },
+      ]);
+
+      const sync = async () => {
+        const response = await app.request(
+          '/api/v1/contacts/identity-1/sync',
+          { method: 'POST', headers: { Authorization: 'Bearer staff-token' } },
+          testEnv.env
+        );
+        expect(response.status).toBe(200);
+        return ((await response.json()) as any).data;
+      };
+
+      const created = await sync();
+      expect(created).toMatchObject({ action: 'created', externalId: 'did:chitty:person:7f3a' });
+      expect(await sync()).toMatchObject({ action: 'unchanged', contactId: created.contactId });
+
+      metadata = { name: 'Dana Ross', company: 'Lakeview Rentals' };
+      expect(await sync()).toMatchObject({ action: 'updated', contactId: created.contactId });
+
+      expect([...openphone.contacts.values()]).toEqual([
+        expect.objectContaining({
+          externalId: 'did:chitty:person:7f3a',
+          defaultFields: expect.objectContaining({ firstName: 'Dana', lastName: 'Ross', company: 'Lakeview Rentals' }),
+        }),
+      ]);
+      expect(fakeNeon.statements(/INSERT INTO audit_logs/).map((statement) => statement.params[1])).toEqual([
+        'contact.synced',
+        'contact.synced',
+        'contact.synced',
+      ]);
+    });
+  });
+
+  describe('MMS media', () => {
+    const PNG = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+    const mediaId = (n: number) => `00000000-0000-4000-8000-${String(n).padStart(12, '0')}`;
+    const authorized = (init: RequestInit = {}) => ({
+      ...init,
+      headers: { Authorization: 'Bearer staff-token', ...(init.headers as Record<string, string>) },
+    });
+
+    // reception_message_media rows kept by the generic INSERT capture, updated in place
+    beforeEach(() => {
+      installApiToken(['reception:media:*', 'reception:sms:send']);
+      const mediaRows = () => fakeNeon.rows('reception_message_media');
+      fakeNeon.on(/^INSERT INTO reception_message_media/, ([messageId, providerMediaId, direction, position, sourceUrl, contentType, sizeBytes, uploadedBy]) => {
+        const claimed = providerMediaId && mediaRows().find((row) => row.provider_media_id === providerMediaId);
+        if (claimed) {
+          // Failed downloads are claimed again
+          if (claimed.status !== 'failed') return [];
+          Object.assign(claimed, { status: 'pending', source_url: sourceUrl, error: null });
+          return [{ ...claimed }];
+        }
+        const row = {
+          id: mediaId(mediaRows().length + 1),
+          message_id: messageId,
+          provider_media_id: providerMediaId,
+          direction,
+          position,
+          source_url: sourceUrl,
+          storage_key: null,
+          content_type: contentType,
+          size_bytes: sizeBytes,
+          status: 'pending',
+          error: null,
+          uploaded_by: uploadedBy,
+        };
+        (fakeNeon.tables.reception_message_media ||= []).push(row);
+        return [{ ...row }];
+      });
+      fakeNeon.on(/^UPDATE reception_message_media SET status/, ([id, status, storageKey, contentType, sizeBytes, error]) => {
+        const row = mediaRows().find((candidate) => candidate.id === id);
+        if (!row) return [];
+        Object.assign(row, {
+          status,
+          storage_key: storageKey ?? row.storage_key,
+          content_type: contentType ?? row.content_type,
+          size_bytes: sizeBytes ?? row.size_bytes,
+          error,
+        });
+        return [{ ...row }];
+      });
+      fakeNeon.on(/^SELECT \* FROM reception_message_media WHERE provider_media_id/, ([providerMediaId]) =>
+        mediaRows().filter((row) => row.provider_media_id === providerMediaId).map((row) => ({ ...row }))
+      );
+      fakeNeon.on(/^SELECT \* FROM reception_message_media WHERE id/, ([id]) =>
+        mediaRows().filter((row) => row.id === id).map((row) => ({ ...row }))
+      );
+      fakeNeon.on(/^SELECT \* FROM reception_message_media WHERE message_id/, ([messageId]) =>
+        mediaRows().filter((row) => row.message_id === messageId).map((row) => ({ ...row }))
+      );
+      fakeNeon.on(/^SELECT \* FROM reception_message_media WHERE id = \$1 AND direction = 'outbound'/, ([id, uploadedBy]) =>
+        mediaRows()
+          .filter((row) => row.id === id && row.direction === 'outbound' && row.status === 'stored' && row.message_id === null)
+          .filter((row) => !uploadedBy || row.uploaded_by === uploadedBy)
+          .map((row) => ({ ...row }))
+      );
+      fakeNeon.on(/^UPDATE reception_message_media m SET message_id/, ([ids, messageId]) => {
+        ids.forEach((id: string, index: number) => {
+          const row = mediaRows().find((candidate) => candidate.id === id && candidate.message_id === null);
+          if (row) Object.assign(row, { message_id: messageId, position: index });
+        });
+        return [];
+      });
+    });
+
+    it('stores inbound media and serves it through signed URLs', async () => {
+      const message = await openphone.receiveMessage('+13125550147', 'Photo of the leak', undefined, [
+        { contentType: 'image/png', content: PNG },
+        { contentType: 'application/x-msdownload', content: 'MZ' },
+      ]);
+      await settle();
+
+      expect(fakeNeon.rows('reception_message_media')).toEqual([
+        expect.objectContaining({ message_id: message.id, position: 0, status: 'stored', size_bytes: PNG.byteLength }),
+        expect.objectContaining({ position: 1, status: 'rejected', error: 'Unsupported media type: application/x-msdownload' }),
+      ]);
+      expect([...testEnv.mediaBucket.objects.keys()]).toEqual([`inbound/${message.id}/${mediaId(1)}`]);
+
+      const listing = await app.request(`/api/v1/media?messageId=${message.id}`, authorized(), testEnv.env);
+      const [stored, rejected] = ((await listing.json()) as any).data;
+      expect(rejected.url).toBeNull();
+
+      const content = await app.request(stored.url, undefined, testEnv.env);
+      expect(content.status).toBe(200);
+      expect(content.headers.get('Content-Type')).toBe('image/png');
+      expect(new Uint8Array(await content.arrayBuffer())).toEqual(PNG);
+
+      const tampered = await app.request(stored.url.replace(mediaId(1), mediaId(2)), undefined, testEnv.env);
+      expect(tampered.status).toBe(403);
+    });
+
+    it('retries the event when a download fails temporarily', async () => {
+      openphone.script({ match: 'GET /media/', status: 503 });
+      const message = await openphone.receiveMessage('+13125550147', 'Photo of the leak', undefined, [
+        { contentType: 'image/png', content: PNG },
+      ]);
+      await settle();
+
+      expect(testEnv.queue.retried).toHaveLength(1);
+      expect(fakeNeon.rows('reception_message_media')).toEqual([
+        expect.objectContaining({ message_id: message.id, status: 'stored', error: null }),
+      ]);
+      expect([...testEnv.mediaBucket.objects.keys()]).toEqual([`inbound/${message.id}/${mediaId(1)}`]);
+    });
+
+    it('records media that is gone for good without retrying', async () => {
+      openphone.script({ match: 'GET /media/', status: 404 });
+      await openphone.receiveMessage('+13125550147', 'Photo of the leak', undefined, [
+        { contentType: 'image/png', content: PNG },
+      ]);
+      await settle();
+
+      expect(testEnv.queue.retried).toHaveLength(0);
+      expect(fakeNeon.rows('reception_message_media')).toEqual([
+        expect.objectContaining({ status: 'failed', error: 'Download failed: HTTP 404' }),
+      ]);
+    });
+
+    it('uploads media and sends it as MMS through signed URLs', async () => {
+      const upload = await app.request(
+        '/api/v1/media',
+        authorized({ method: 'POST', headers: { 'Content-Type': 'image/png' }, body: PNG }),
+        testEnv.env
+      );
+      expect(upload.status).toBe(201);
+      const { data: media } = (await upload.json()) as any;
+
+      const response = await app.request(
+        '/api/v1/send-message',
+        authorized({
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            from: '+13125550100',
+            to: ['+13125550147'],
+            content: 'Parking map attached',
+            mediaUrls: ['https://example.com/welcome.pdf'],
+            mediaIds: [media.id],
+          }),
+        }),
+        testEnv.env
+      );
+      expect(response.status).toBe(200);
+      const { data: sent } = (await response.json()) as any;
+
+      const [send] = openphone.requests.filter((request) => request.method === 'POST' && request.path === '/messages');
+      expect(send.body.mediaUrls).toEqual([
+        'https://example.com/welcome.pdf',
+        expect.stringMatching(new RegExp(`^http://localhost/api/v1/media/${media.id}/content\\?expires=`)),
+      ]);
+      const fetched = await app.request(send.body.mediaUrls[1], undefined, testEnv.env);
+      expect(new Uint8Array(await fetched.arrayBuffer())).toEqual(PNG);
+
+      const [attach] = fakeNeon.statements(/^UPDATE reception_message_media m SET message_id/);
+      expect(attach.params).toEqual([[media.id], sent.id]);
+    });
+
+    it("only sends unsent uploads of the token's identity", async () => {
+      const token = installApiToken(['reception:media:*', 'reception:sms:send']);
+      const upload = await app.request(
+        '/api/v1/media',
+        authorized({ method: 'POST', headers: { 'Content-Type': 'image/png' }, body: PNG }),
+        testEnv.env
+      );
+      const { data: media } = (await upload.json()) as any;
+      const send = () =>
+        app.request(
+          '/api/v1/send-message',
+          authorized({
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ from: '+13125550100', to: ['+13125550147'], content: 'Map', mediaIds: [media.id] }),
+          }),
+          testEnv.env
+        );
+
+      token.identity_id = 'identity-other';
+      expect((await send()).status).toBe(400);
+      token.scopes = [...token.scopes, 'reception:admin'];
+      const sent = await send();
+      expect(sent.status).toBe(200);
+      const { data: message } = (await sent.json()) as any;
+
+      // Once sent, an upload can neither be sent again nor linked to another message
+      const again = await send();
+      expect(again.status).toBe(400);
+      expect(await again.json()).toMatchObject({ error: { code: 'INVALID_REQUEST' } });
+      expect(fakeNeon.rows('reception_message_media')[0].message_id).toBe(message.id);
+      expect(openphone.requests.filter((request) => request.path === '/messages')).toHaveLength(1);
+    });
+
+    it('rejects unsupported uploads and invalid attachments', async () => {
+      const upload = await app.request(
+        '/api/v1/media',
+        authorized({ method: 'POST', headers: { 'Content-Type': 'application/zip' }, body: 'PK' }),
+        testEnv.env
+      );
+      expect(upload.status).toBe(400);
+      expect(await upload.json()).toMatchObject({ error: { code: 'INVALID_MEDIA' } });
+
+      const send = (attachments: Record<string, unknown>) =>
+        app.request(
+          '/api/v1/send-message',
+          authorized({
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ from: '+13125550100', to: ['+13125550147'], content: 'Hi', ...attachments }),
+          }),
+          testEnv.env
+        );
+
+      const unknown = await send({ mediaIds: ['media-missing'] });
+      expect(unknown.status).toBe(400);
+      expect(await unknown.json()).toMatchObject({ error: { code: 'VALIDATION_FAILED', fields: [{ field: 'mediaIds.0' }] } });
+      expect((await send({ mediaIds: [mediaId(99)] })).status).toBe(400);
+
+      const lookup = await app.request('/api/v1/media/not-a-uuid', authorized(), testEnv.env);
+      expect(lookup.status).toBe(400);
+      expect(await lookup.json()).toMatchObject({ error: { code: 'VALIDATION_FAILED' } });
+      expect(fakeNeon.statements(/FROM reception_message_media WHERE id = \$1$/)).toEqual([]);
+      expect((await send({ mediaUrls: Array(11).fill('https://example.com/a.png') })).status).toBe(400);
+      expect((await send({ mediaUrls: ['file:///etc/passwd'] })).status).toBe(400);
+      expect(openphone.requests.filter((request) => request.path === '/messages')).toEqual([]);
+    });
+  });
+});
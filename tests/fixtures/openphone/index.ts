@@ -0,0 +1,25 @@
+// OpenPhone webhook fixture library
+// One representative event per WebhookEventType; the JSON files can also be fed
+// to scripts/replay-webhook.ts against a running worker
+
+import type { OpenPhoneWebhookEvent, WebhookEventType } from '@/types/openphone';
+import callInitiated from './call.initiated.json';
+import callCompleted from './call.completed.json';
+import messageCreated from './message.created.json';
+import messageUpdated from './message.updated.json';
+import voicemailCreated from './voicemail.created.json';
+
+export const openPhoneFixtures: Record<WebhookEventType, OpenPhoneWebhookEvent> = {
+  'call.initiated': callInitiated as OpenPhoneWebhookEvent,
+  'call.completed': callCompleted as OpenPhoneWebhookEvent,
+  'message.created': messageCreated as OpenPhoneWebhookEvent,
+  'message.updated': messageUpdated as OpenPhoneWebhookEvent,
+  'voicemail.created': voicemailCreated as OpenPhoneWebhookEvent,
+};
+
+/**
+ * Get a deep copy of a fixture so tests can mutate it freely
+ */
+export function fixture(type: WebhookEventType, overrides: Partial<OpenPhoneWebhookEvent> = {}): OpenPhoneWebhookEvent {
+  return { ...structuredClone(openPhoneFixtures[type]), ...overrides };
+}
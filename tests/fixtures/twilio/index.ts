@@ -0,0 +1,21 @@
+// Twilio callback fixtures
+// Form parameters of representative Twilio webhooks, stored as JSON objects
+
+import smsReceived from './sms.received.json';
+import messageStatus from './message.status.json';
+import callCompleted from './call.completed.json';
+
+export const twilioFixtures = {
+  'sms.received': smsReceived,
+  'message.status': messageStatus,
+  'call.completed': callCompleted,
+} satisfies Record<string, Record<string, string>>;
+
+export type TwilioFixtureName = keyof typeof twilioFixtures;
+
+/**
+ * Get a copy of a fixture's parameters with overrides applied
+ */
+export function twilioFixture(name: TwilioFixtureName, overrides: Record<string, string> = {}): Record<string, string> {
+  return { ...twilioFixtures[name], ...overrides };
+}
@@ -0,0 +1,322 @@
+// In-memory stand-in for the Neon serverless driver
+// Emulates the webhook ledger tables closely enough for the full handler chain,
+// captures plain INSERTs and upserts generically and records every statement for assertions.
+//
+// Usage:
+//   vi.mock('@neondatabase/serverless', async () => (await import('./helpers/fake-neon')).neonModule);
+
+export interface RecordedQuery {
+  sql: string;
+  params: any[];
+}
+
+type QueryHandler = (params: any[], sql: string) => any[];
+
+interface Override {
+  match: RegExp;
+  handler: QueryHandler;
+}
+
+/** CHECK constraints from migration.sql that generic INSERTs are held to */
+const CHECK_CONSTRAINTS: Record<string, Record<string, string[]>> = {
+  reception_calls: { direction: ['inbound', 'outbound'] },
+  reception_messages: { direction: ['inbound', 'outbound'] },
+};
+
+function normalize(sql: string): string {
+  return sql.replace(/\s+/g, ' ').trim();
+}
+
+export class FakeNeon {
+  queries: RecordedQuery[] = [];
+  webhookEvents = new Map<string, any>();
+  deadLetters = new Map<string, any>();
+  tables: Record<string, any[]> = {};
+  private overrides: Override[] = [];
+  private nextId = 1;
+
+  reset(): void {
+    this.queries = [];
+    this.webhookEvents.clear();
+    this.deadLetters.clear();
+    this.tables = {};
+    this.overrides = [];
+    this.nextId = 1;
+  }
+
+  /**
+   * Answer statements matching `match` with a custom handler (checked before the built-ins)
+   */
+  on(match: RegExp, handler: QueryHandler): void {
+    this.overrides.unshift({ match, handler });
+  }
+
+  /**
+   * Make statements matching `match` throw, as a Neon outage would
+   */
+  failOn(match: RegExp, message: string = 'connection terminated unexpectedly'): void {
+    this.on(match, () => {
+      throw new Error(message);
+    });
+  }
+
+  rows(table: string): any[] {
+    return this.tables[table] || [];
+  }
+
+  statements(match: RegExp): RecordedQuery[] {
+    return this.queries.filter((query) => match.test(query.sql));
+  }
+
+  async run(rawSql: string, params: any[] = []): Promise<any[]> {
+    const sql = normalize(rawSql);
+    this.queries.push({ sql, params });
+
+    for (const override of this.overrides) {
+      if (override.match.test(sql)) {
+        return override.handler(params, sql);
+      }
+    }
+
+    return this.builtin(sql, params);
+  }
+
+  private builtin(sql: string, params: any[]): any[] {
+    const now = new Date().toISOString();
+
+    // Webhook ledger
+    if (sql.includes('INSERT INTO reception_webhook_events')) {
+      const [eventId, eventType, payload] = params;
+      const existing = this.webhookEvents.get(eventId);
+      if (existing) {
+        const accepted = existing.status === 'received';
+        existing.delivery_count += 1;
+        existing.last_received_at = now;
+        return [{ status: existing.status, delivery_count: existing.delivery_count, accepted }];
+      }
+      this.webhookEvents.set(eventId, {
+        event_id: eventId,
+        event_type: eventType,
+        status: 'received',
+        delivery_count: 1,
+        attempts: 0,
+        payload: JSON.parse(payload),
+        minted_identity_id: null,
+        outcome: null,
+        last_error: null,
+        first_received_at: now,
+        last_received_at: now,
+        processing_started_at: null,
+        processed_at: null,
+      });
+      return [{ status: 'received', delivery_count: 1, accepted: true }];
+    }
+
+    if (sql.startsWith('UPDATE reception_webhook_events')) {
+      const entry = this.webhookEvents.get(params[0]);
+      if (!entry) return [];
+
+      if (sql.includes('SET minted_identity_id')) {
+        entry.minted_identity_id = params[1];
+        return [];
+      }
+      if (sql.includes('delivery_count = delivery_count + 1')) {
+        entry.delivery_count += 1;
+        return [];
+      }
+      if (sql.includes("status = 'processing'")) {
+        if (!['received', 'queued', 'failed'].includes(entry.status)) return [];
+        Object.assign(entry, { status: 'processing', attempts: entry.attempts + 1, processing_started_at: now });
+        return [{ ...entry }];
+      }
+      if (sql.includes("status = 'processed'")) {
+        Object.assign(entry, { status: 'processed', outcome: JSON.parse(params[1]), last_error: null, processed_at: now });
+        return [];
+      }
+      if (sql.includes("status = 'failed'")) {
+        Object.assign(entry, { status: 'failed', last_error: params[1] });
+        return [];
+      }
+      if (sql.includes("status = 'received'")) {
+        if (!['processed', 'failed'].includes(entry.status)) return [];
+        Object.assign(entry, { status: 'received', attempts: 0 });
+        return [{ ...entry }];
+      }
+      if (sql.includes('status = $2')) {
+        entry.status = params[1];
+        return [];
+      }
+    }
+
+    if (sql.startsWith('SELECT minted_identity_id FROM reception_webhook_events')) {
+      const entry = this.webhookEvents.get(params[0]);
+      return entry ? [{ minted_identity_id: entry.minted_identity_id }] : [];
+    }
+
+    if (sql.startsWith('SELECT * FROM reception_webhook_events')) {
+      const entry = this.webhookEvents.get(params[0]);
+      return entry ? [{ ...entry }] : [];
+    }
+
+    // Webhook dead letters
+    if (sql.includes('INSERT INTO reception_webhook_dead_letters')) {
+      const [eventId, error] = params;
+      const entry = this.webhookEvents.get(eventId);
+      if (!entry) return [];
+      Object.assign(entry, { status: 'dead_lettered', last_error: error });
+
+      const existing = [...this.deadLetters.values()].find((dl) => dl.event_id === eventId);
+      const deadLetter = {
+        id: existing?.id ?? `dl-${this.nextId++}`,
+        event_id: eventId,
+        event_type: entry.event_type,
+        payload: entry.payload,
+        attempts: entry.attempts,
+        last_error: error,
+        status: 'pending',
+        redrive_count: existing?.redrive_count ?? 0,
+        dead_lettered_at: now,
+        redriven_at: existing?.redriven_at ?? null,
+      };
+      this.deadLetters.set(deadLetter.id, deadLetter);
+      return [{ ...deadLetter }];
+    }
+
+    if (sql.includes('UPDATE reception_webhook_dead_letters')) {
+      const deadLetter = this.deadLetters.get(params[0]);
+      if (!deadLetter || deadLetter.status !== 'pending') return [];
+      Object.assign(deadLetter, { status: 'redriven', redrive_count: deadLetter.redrive_count + 1, redriven_at: now });
+      const entry = this.webhookEvents.get(deadLetter.event_id);
+      if (entry) Object.assign(entry, { status: 'queued', attempts: 0, last_error: null });
+      return [{ event_id: deadLetter.event_id }];
+    }
+
+    if (sql.startsWith('SELECT * FROM reception_webhook_dead_letters')) {
+      const deadLetter = this.deadLetters.get(params[0]);
+      return deadLetter ? [{ ...deadLetter }] : [];
+    }
+
+    // Generic INSERT ... VALUES (...) capture, honouring ON CONFLICT (cols) DO NOTHING / DO UPDATE.
+    // Upserts keep the stored row and report `inserted` the way RETURNING (xmax = 0) does
+    const insert = parseInsert(sql);
+    if (insert) {
+      const row: Record<string, any> = { id: `row-${this.nextId++}`, created_at: now };
+      insert.columns.forEach((column, index) => {
+        row[column] = this.resolveValue(insert.values[index], params, now);
+      });
+      for (const [column, allowed] of Object.entries(CHECK_CONSTRAINTS[insert.table] ?? {})) {
+        if (column in row && !allowed.includes(row[column])) {
+          throw new Error(`new row for relation "${insert.table}" violates check constraint "${insert.table}_${column}_check"`);
+        }
+      }
+
+      const rows = (this.tables[insert.table] ||= []);
+      const conflict = insert.conflictColumns
+        ? rows.find((existing) => insert.conflictColumns!.every((column) => existing[column] === row[column]))
+        : undefined;
+      if (conflict) {
+        return insert.conflictAction === 'UPDATE' ? [{ ...conflict, inserted: false }] : [];
+      }
+      rows.push(row);
+      return [insert.conflictAction === 'UPDATE' ? { ...row, inserted: true } : { ...row }];
+    }
+
+    return [];
+  }
+
+  private resolveValue(token: string, params: any[], now: string): any {
+    const placeholder = token.match(/^\$(\d+)$/);
+    if (placeholder) return params[Number(placeholder[1]) - 1];
+    if (token === 'NOW()') return now;
+    if (token === 'NULL') return null;
+    const literal = token.match(/^'(.*)'$/);
+    if (literal) return literal[1];
+    return token;
+  }
+}
+
+/**
+ * Split a parenthesised list on top-level commas, starting at the '(' at `start`
+ */
+function readList(sql: string, start: number): { items: string[]; end: number } | null {
+  if (sql[start] !== '(') return null;
+
+  const items: string[] = [];
+  let depth = 0;
+  let current = '';
+  let quoted = false;
+
+  for (let i = start; i < sql.length; i++) {
+    const char = sql[i];
+    if (char === "'") quoted = !quoted;
+    if (!quoted && char === '(') {
+      depth++;
+      if (depth === 1) continue;
+    }
+    if (!quoted && char === ')') {
+      depth--;
+      if (depth === 0) {
+        items.push(current.trim());
+        return { items, end: i + 1 };
+      }
+    }
+    if (!quoted && depth === 1 && char === ',') {
+      items.push(current.trim());
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+
+  return null;
+}
+
+function parseInsert(sql: string): {
+  table: string;
+  columns: string[];
+  values: string[];
+  conflictColumns?: string[];
+  conflictAction?: 'NOTHING' | 'UPDATE';
+} | null {
+  const head = sql.match(/^INSERT INTO (\w+) /);
+  if (!head) return null;
+
+  const columns = readList(sql, head[0].length);
+  if (!columns) return null;
+
+  const valuesAt = sql.indexOf('VALUES (', columns.end);
+  if (valuesAt === -1) return null;
+
+  const values = readList(sql, valuesAt + 'VALUES '.length);
+  if (!values) return null;
+
+  const conflict = sql.slice(values.end).match(/^ ON CONFLICT \(([\w, ]+)\) DO (NOTHING|UPDATE)/);
+  return {
+    table: head[1],
+    columns: columns.items,
+    values: values.items,
+    conflictColumns: conflict?.[1].split(', '),
+    conflictAction: conflict?.[2] as 'NOTHING' | 'UPDATE' | undefined,
+  };
+}
+
+export const fakeNeon = new FakeNeon();
+
+/**
+ * Drop-in replacement for the parts of @neondatabase/serverless the worker uses:
+ * called as sql(text, params) by Database and as a tagged template by the MCP tools
+ */
+function neon() {
+  return (first: string | TemplateStringsArray, ...rest: any[]) => {
+    if (typeof first === 'string') {
+      return fakeNeon.run(first, rest[0] || []);
+    }
+    const text = first.reduce((acc, part, index) => acc + (index > 0 ? `$${index}` : '') + part, '');
+    return fakeNeon.run(text, rest);
+  };
+}
+
+export const neonModule = {
+  neon,
+  neonConfig: {} as Record<string, unknown>,
+};
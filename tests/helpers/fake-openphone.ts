@@ -0,0 +1,572 @@
+// Fake OpenPhone API
+// Implements messages (with MMS media), calls, conversations, contacts, recordings (with audio) and phone
+// numbers in memory (with OpenPhone-style pagination) and sends signed webhooks
+// back to the worker. Used by the tests through its fetch handler and served locally
+// by scripts/fake-openphone.ts. Relative imports keep it runnable under ts-node.
+
+import type {
+  CallObject,
+  CallRecordingObject,
+  CallTranscriptObject,
+  ContactObject,
+  ConversationObject,
+  MediaObject,
+  MessageObject,
+  MessageStatus,
+  OpenPhoneWebhookEvent,
+  PhoneNumberObject,
+  WebhookEventType,
+} from '../../src/types/openphone';
+import { signOpenPhoneWebhook } from '../../src/lib/openphone';
+
+/**
+ * A scripted deviation from the happy path, matched against `METHOD /path` (without /v1)
+ */
+export interface FakeScenario {
+  match: string; // e.g. 'POST /messages', 'GET /calls/', or '*' for every request
+  times?: number; // how many matching requests it applies to (default 1, Infinity for all)
+  status?: number; // respond with this HTTP status instead of handling the request
+  retryAfterSeconds?: number; // Retry-After header for 429/503 responses
+  body?: unknown; // response body for `status`
+  deliveryStatus?: Extract<MessageStatus, 'delivered' | 'failed' | 'undelivered'>; // receipt for sent messages
+  deliveryDelayMs?: number; // delay before the delivery receipt webhook
+  delayMs?: number; // hold the response this long; aborted requests stop waiting
+  applied?: boolean; // with `status`: handle the request anyway, then reply with `status` (a lost response)
+}
+
+// Named scenarios for the local server's --scenario flag
+export const FAKE_OPENPHONE_SCENARIOS: Record<string, FakeScenario[]> = {
+  'rate-limited': [{ match: 'POST /messages', times: 2, status: 429, retryAfterSeconds: 1 }],
+  'upstream-error': [{ match: '*', times: 3, status: 503 }],
+  'lost-response': [{ match: 'POST /messages', status: 502, applied: true }],
+  'timeout': [{ match: '*', delayMs: 15_000 }],
+  'delivery-failure': [{ match: 'POST /messages', times: Infinity, deliveryStatus: 'undelivered' }],
+  'slow-delivery': [{ match: 'POST /messages', times: Infinity, deliveryDelayMs: 30_000 }],
+};
+
+export interface FakeOpenPhoneOptions {
+  apiKey?: string; // when set, requests must carry it
+  webhookUrl?: string; // where webhooks are sent (default: http://localhost:8787/webhooks/openphone)
+  webhookSecret?: string; // base64 signing key; webhooks are not sent without one
+  phoneNumbers?: PhoneNumberObject[];
+  deliver?: (request: Request) => Response | Promise<Response>; // defaults to global fetch
+  deliveryDelayMs?: number; // default delay before delivery receipts
+  callDurationSeconds?: number;
+  origin?: string; // where the fake is reachable, used in media URLs (default: http://localhost:8790)
+}
+
+// An attachment of a simulated inbound MMS
+export interface FakeMediaFile {
+  contentType: string;
+  content: string | Uint8Array;
+}
+
+export interface SentWebhook {
+  event: OpenPhoneWebhookEvent;
+  status: number | null; // null when delivery threw
+}
+
+const DEFAULT_PHONE_NUMBERS: PhoneNumberObject[] = [
+  { id: 'PNa8Kc2m1Qx', number: '+13125550100', formattedNumber: '(312) 555-0100', name: 'Reception' },
+];
+
+function json(data: unknown, status: number = 200, headers: Record<string, string> = {}): Response {
+  return Response.json(data, { status, headers });
+}
+
+/**
+ * Stand-in MP3 bytes: an ID3 header followed by a deterministic pattern, 1 KB per second
+ */
+function fakeRecordingAudio(durationSeconds: number): Uint8Array {
+  const bytes = new Uint8Array(Math.max(durationSeconds, 1) * 1024);
+  bytes.set([0x49, 0x44, 0x33, 0x04]);
+  for (let i = 4; i < bytes.length; i++) bytes[i] = i % 251;
+  return bytes;
+}
+
+function randomId(prefix: string): string {
+  return prefix + crypto.randomUUID().replace(/-/g, '');
+}
+
+export class FakeOpenPhoneServer {
+  messages = new Map<string, MessageObject>();
+  calls = new Map<string, CallObject>();
+  conversations = new Map<string, ConversationObject>();
+  contacts = new Map<string, ContactObject>();
+  recordings = new Map<string, CallRecordingObject[]>(); // by call id
+  transcripts = new Map<string, CallTranscriptObject>(); // by call id
+  mediaFiles = new Map<string, { contentType: string; bytes: Uint8Array }>(); // served at /media/:id
+  webhooks: SentWebhook[] = [];
+  requests: { method: string; path: string; body: any }[] = [];
+
+  private scenarios: (FakeScenario & { remaining: number })[] = [];
+  private idempotentResponses = new Map<string, { status: number; body: unknown }>();
+  private pending = new Set<Promise<void>>();
+  private options: FakeOpenPhoneOptions;
+
+  constructor(options: FakeOpenPhoneOptions = {}) {
+    this.options = options;
+  }
+
+  get phoneNumbers(): PhoneNumberObject[] {
+    return this.options.phoneNumbers || DEFAULT_PHONE_NUMBERS;
+  }
+
+  /**
+   * Queue scenarios; earlier ones win when several match
+   */
+  script(...scenarios: FakeScenario[]): this {
+    for (const scenario of scenarios) {
+      this.scenarios.push({ ...scenario, remaining: scenario.times ?? 1 });
+    }
+    return this;
+  }
+
+  reset(): void {
+    this.messages.clear();
+    this.calls.clear();
+    this.conversations.clear();
+    this.contacts.clear();
+    this.recordings.clear();
+    this.transcripts.clear();
+    this.mediaFiles.clear();
+    this.webhooks = [];
+    this.requests = [];
+    this.scenarios = [];
+    this.idempotentResponses.clear();
+  }
+
+  /**
+   * Wait for every scheduled webhook to be delivered
+   */
+  async settle(): Promise<void> {
+    while (this.pending.size > 0) {
+      await Promise.all([...this.pending]);
+    }
+  }
+
+  /**
+   * Simulate an inbound SMS (or MMS, with media) to one of our numbers
+   */
+  async receiveMessage(
+    from: string,
+    body: string,
+    to: string = this.phoneNumbers[0].number,
+    media: FakeMediaFile[] = []
+  ): Promise<MessageObject> {
+    const message: MessageObject = {
+      id: randomId('AC'),
+      createdAt: new Date().toISOString(),
+      direction: 'incoming',
+      from: { phoneNumber: from },
+      to: [{ phoneNumber: to }],
+      body,
+      media: media.length > 0 ? media.map((file) => this.addMediaFile(file)) : undefined,
+      status: 'received',
+      phoneNumberId: this.lineId(to),
+    };
+    this.messages.set(message.id, message);
+    this.touchConversation(message.phoneNumberId, from, message);
+    this.schedule('message.created', message, 0);
+    return message;
+  }
+
+  /**
+   * Simulate an inbound call that rings and completes
+   */
+  async receiveCall(from: string, to: string = this.phoneNumbers[0].number): Promise<CallObject> {
+    const call = this.startCall('incoming', from, to);
+    this.schedule('call.initiated', call, 0);
+    this.completeCall(call);
+    return call;
+  }
+
+  /**
+   * Fetch-style handler: the tests call it directly, the local server adapts node:http to it
+   */
+  fetch = async (request: Request): Promise<Response> => {
+    const url = new URL(request.url);
+    const path = url.pathname.replace(/^\/v1(?=\/)/, '');
+    const text = request.method === 'GET' ? '' : await request.text();
+    const body = text ? JSON.parse(text) : null;
+    this.requests.push({ method: request.method, path, body });
+
+    // Media links are pre-signed, so they are served without the API key
+    const mediaFile = request.method === 'GET' ? this.mediaFiles.get(path.replace(/^\/media\//, '')) : undefined;
+    if (mediaFile) {
+      const scenario = this.takeScenario(`GET ${path}`);
+      if (scenario?.status) return this.scripted(scenario);
+      return new Response(mediaFile.bytes, {
+        headers: { 'Content-Type': mediaFile.contentType, 'Content-Length': String(mediaFile.bytes.byteLength) },
+      });
+    }
+
+    if (this.options.apiKey) {
+      const key = (request.headers.get('Authorization') || '').replace(/^Bearer\s+/i, '');
+      if (key !== this.options.apiKey) {
+        return json({ message: 'Unauthorized' }, 401);
+      }
+    }
+
+    const scenario = this.takeScenario(`${request.method} ${path}`);
+    if (scenario?.delayMs) {
+      await this.wait(scenario.delayMs, request.signal);
+    }
+    if (scenario?.status && !scenario.applied) {
+      return this.scripted(scenario);
+    }
+
+    // Writes with a known Idempotency-Key replay the first response instead of sending again
+    const idempotencyKey = request.method === 'POST' ? request.headers.get('Idempotency-Key') : null;
+    const replayed = idempotencyKey ? this.idempotentResponses.get(idempotencyKey) : undefined;
+    const response = replayed
+      ? json(replayed.body, replayed.status)
+      : this.route(request.method, path, url.searchParams, body, scenario);
+
+    if (idempotencyKey && !replayed && response.ok) {
+      this.idempotentResponses.set(idempotencyKey, { status: response.status, body: await response.clone().json() });
+    }
+
+    return scenario?.status ? this.scripted(scenario) : response;
+  };
+
+  private route(
+    method: string,
+    path: string,
+    query: URLSearchParams,
+    body: any,
+    scenario: FakeScenario | null
+  ): Response {
+    if (method === 'POST' && path === '/messages') {
+      return this.sendMessage(body, scenario);
+    }
+    if (method === 'POST' && path === '/calls') {
+      return this.makeCall(body);
+    }
+    if (method === 'POST' && path === '/contacts') {
+      return this.createContact(body);
+    }
+    if (method === 'GET' && path === '/phone-numbers') {
+      return json({ data: this.phoneNumbers });
+    }
+    if (method === 'GET' && path === '/messages') {
+      return this.page([...this.messages.values()].filter((message) => this.matches(message, query)), query);
+    }
+    if (method === 'GET' && path === '/calls') {
+      return this.page([...this.calls.values()].filter((call) => this.matches(call, query)), query);
+    }
+    if (method === 'GET' && path === '/conversations') {
+      const lines = query.getAll('phoneNumbers');
+      const conversations = [...this.conversations.values()].filter(
+        (conversation) =>
+          lines.length === 0 ||
+          lines.some((line) => line === conversation.phoneNumberId || this.lineId(line) === conversation.phoneNumberId)
+      );
+      return this.page(conversations, query);
+    }
+    if (method === 'GET' && path === '/contacts') {
+      const externalIds = query.getAll('externalIds');
+      const sources = query.getAll('sources');
+      const contacts = [...this.contacts.values()].filter(
+        (contact) =>
+          (externalIds.length === 0 || externalIds.includes(contact.externalId || '')) &&
+          (sources.length === 0 || sources.includes(contact.source || ''))
+      );
+      return this.page(contacts, query);
+    }
+
+    const [, resource, id] = path.split('/');
+    if (method === 'GET' && resource === 'messages' && id) {
+      const message = this.messages.get(id);
+      return message ? json({ data: message }) : json({ message: 'Message not found' }, 404);
+    }
+    if (method === 'GET' && resource === 'calls' && id) {
+      const call = this.calls.get(id);
+      return call ? json({ data: call }) : json({ message: 'Call not found' }, 404);
+    }
+    if (method === 'GET' && resource === 'call-recordings' && id) {
+      return this.calls.has(id) ? json({ data: this.recordings.get(id) || [] }) : json({ message: 'Call not found' }, 404);
+    }
+    if (method === 'GET' && resource === 'call-transcripts' && id) {
+      const transcript = this.transcripts.get(id);
+      return transcript ? json({ data: transcript }) : json({ message: 'Transcript not found' }, 404);
+    }
+    if (method === 'GET' && resource === 'contacts' && id) {
+      const contact = this.contacts.get(id);
+      return contact ? json({ data: contact }) : json({ message: 'Contact not found' }, 404);
+    }
+    if (method === 'PATCH' && resource === 'contacts' && id) {
+      return this.updateContact(id, body);
+    }
+
+    return json({ message: `No route for ${method} ${path}` }, 404);
+  }
+
+  private scripted(scenario: FakeScenario): Response {
+    const headers: Record<string, string> = {};
+    if (scenario.retryAfterSeconds !== undefined) {
+      headers['Retry-After'] = String(scenario.retryAfterSeconds);
+    }
+    return json(scenario.body ?? { message: `Scripted ${scenario.status}` }, scenario.status, headers);
+  }
+
+  private wait(ms: number, signal: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(resolve, ms);
+      signal.addEventListener(
+        'abort',
+        () => {
+          clearTimeout(timer);
+          reject(new DOMException('The operation was aborted', 'AbortError'));
+        },
+        { once: true }
+      );
+    });
+  }
+
+  private sendMessage(body: any, scenario: FakeScenario | null): Response {
+    if (!body?.from || !Array.isArray(body.to) || body.to.length === 0 || typeof body.content !== 'string') {
+      return json({ message: 'from, to[] and content are required' }, 400);
+    }
+
+    const message: MessageObject = {
+      id: randomId('AC'),
+      createdAt: new Date().toISOString(),
+      direction: 'outgoing',
+      from: { phoneNumber: body.from },
+      to: body.to.map((phoneNumber: string) => ({ phoneNumber })),
+      body: body.content,
+      media: Array.isArray(body.mediaUrls)
+        ? body.mediaUrls.map((url: string) => ({ id: randomId('ME'), url, contentType: 'application/octet-stream', size: 0 }))
+        : undefined,
+      status: 'queued',
+      phoneNumberId: this.lineId(body.from),
+    };
+    this.messages.set(message.id, message);
+    this.touchConversation(message.phoneNumberId, body.to[0], message);
+
+    // OpenPhone reports the outgoing message, then its delivery receipt
+    this.schedule('message.created', message, 0);
+    const deliveryStatus = scenario?.deliveryStatus || 'delivered';
+    const delay = scenario?.deliveryDelayMs ?? this.options.deliveryDelayMs ?? 0;
+    this.schedule('message.updated', message, delay, () => {
+      message.status = deliveryStatus;
+      message.updatedAt = new Date().toISOString();
+    });
+
+    return json({ data: { id: message.id, status: message.status, createdAt: message.createdAt } }, 202);
+  }
+
+  private makeCall(body: any): Response {
+    if (!body?.from || !body?.to) {
+      return json({ message: 'from and to are required' }, 400);
+    }
+
+    const call = this.startCall('outgoing', body.from, body.to);
+    this.schedule('call.initiated', call, 0);
+    this.completeCall(call);
+
+    return json({ data: { id: call.id, callId: call.id, status: call.status, createdAt: call.createdAt } }, 202);
+  }
+
+  private startCall(direction: CallObject['direction'], from: string, to: string): CallObject {
+    const call: CallObject = {
+      id: randomId('AC'),
+      createdAt: new Date().toISOString(),
+      direction,
+      status: 'ringing',
+      from: { phoneNumber: from },
+      to: [{ phoneNumber: to }],
+      phoneNumberId: this.lineId(direction === 'incoming' ? to : from),
+    };
+    this.calls.set(call.id, call);
+    this.touchConversation(call.phoneNumberId, direction === 'incoming' ? from : to, call);
+    return call;
+  }
+
+  private completeCall(call: CallObject): void {
+    const duration = this.options.callDurationSeconds ?? 30;
+    this.schedule('call.completed', call, 0, () => {
+      const answeredAt = new Date(call.createdAt);
+      call.status = 'completed';
+      call.duration = duration;
+      call.answeredAt = answeredAt.toISOString();
+      call.completedAt = new Date(answeredAt.getTime() + duration * 1000).toISOString();
+
+      // Every completed call is recorded and transcribed; the audio is served like media
+      const audio = this.addMediaFile({ contentType: 'audio/mpeg', content: fakeRecordingAudio(duration) });
+      this.recordings.set(call.id, [
+        {
+          id: randomId('RC'),
+          duration,
+          startTime: call.answeredAt,
+          status: 'completed',
+          type: 'audio/mpeg',
+          url: audio.url,
+        },
+      ]);
+      this.transcripts.set(call.id, {
+        callId: call.id,
+        createdAt: call.completedAt,
+        duration,
+        status: 'completed',
+        dialogue: [{ content: 'Hello, thanks for calling.', start: 0, end: 2, identifier: call.to[0].phoneNumber }],
+      });
+    });
+  }
+
+  private createContact(body: any): Response {
+    if (!body?.defaultFields?.firstName) {
+      return json({ message: 'defaultFields.firstName is required' }, 400);
+    }
+
+    const now = new Date().toISOString();
+    const contact: ContactObject = {
+      id: randomId('CT'),
+      externalId: body.externalId ?? null,
+      source: body.source ?? null,
+      sourceUrl: body.sourceUrl ?? null,
+      defaultFields: {
+        firstName: null,
+        lastName: null,
+        company: null,
+        role: null,
+        emails: [],
+        phoneNumbers: [],
+        ...body.defaultFields,
+      },
+      customFields: [],
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.contacts.set(contact.id, contact);
+    return json({ data: contact }, 201);
+  }
+
+  private updateContact(id: string, body: any): Response {
+    const contact = this.contacts.get(id);
+    if (!contact) {
+      return json({ message: 'Contact not found' }, 404);
+    }
+
+    contact.defaultFields = { ...contact.defaultFields, ...body?.defaultFields };
+    contact.updatedAt = new Date().toISOString();
+    return json({ data: contact });
+  }
+
+  private addMediaFile(file: FakeMediaFile): MediaObject {
+    const id = randomId('ME');
+    const bytes = typeof file.content === 'string' ? new TextEncoder().encode(file.content) : file.content;
+    this.mediaFiles.set(id, { contentType: file.contentType, bytes });
+
+    const origin = this.options.origin || 'http://localhost:8790';
+    return { id, url: `${origin}/media/${id}`, contentType: file.contentType, size: bytes.byteLength };
+  }
+
+  private touchConversation(lineId: string, participant: string, activity: CallObject | MessageObject): void {
+    const key = `${lineId}:${participant}`;
+    const conversation = this.conversations.get(key) || {
+      id: randomId('CN'),
+      phoneNumberId: lineId,
+      participants: [participant],
+      createdAt: activity.createdAt,
+      updatedAt: activity.createdAt,
+    };
+    conversation.updatedAt = activity.createdAt;
+    conversation.lastActivityAt = activity.createdAt;
+    conversation.lastActivityId = activity.id;
+    this.conversations.set(key, conversation);
+  }
+
+  /**
+   * Whether a call or message matches the phoneNumberId/participants/created* filters
+   */
+  private matches(object: CallObject | MessageObject, query: URLSearchParams): boolean {
+    const lineId = query.get('phoneNumberId');
+    const parties = [object.from.phoneNumber, ...object.to.map((to) => to.phoneNumber)];
+    const after = query.get('createdAfter');
+    const before = query.get('createdBefore');
+
+    return (
+      (!lineId || object.phoneNumberId === lineId) &&
+      query.getAll('participants').every((participant) => parties.includes(participant)) &&
+      (!after || object.createdAt > after) &&
+      (!before || object.createdAt < before)
+    );
+  }
+
+  /**
+   * One page of `items`, newest first; pageToken is the offset of the next page
+   */
+  private page<T extends { createdAt: string }>(items: T[], query: URLSearchParams): Response {
+    const size = Math.min(parseInt(query.get('maxResults') || '', 10) || 10, 100);
+    const offset = parseInt(query.get('pageToken') || '', 10) || 0;
+    const sorted = [...items].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+    return json({
+      data: sorted.slice(offset, offset + size),
+      totalItems: sorted.length,
+      nextPageToken: offset + size < sorted.length ? String(offset + size) : null,
+    });
+  }
+
+  private lineId(phoneNumber: string): string {
+    return this.phoneNumbers.find((line) => line.number === phoneNumber)?.id || 'PNunknown';
+  }
+
+  private takeScenario(route: string): FakeScenario | null {
+    const scenario = this.scenarios.find(
+      (candidate) => candidate.remaining > 0 && (candidate.match === '*' || route.startsWith(candidate.match))
+    );
+    if (!scenario) return null;
+
+    scenario.remaining--;
+    return scenario;
+  }
+
+  /**
+   * Send a webhook after `delayMs`, applying `update` to the object first
+   */
+  private schedule(
+    type: WebhookEventType,
+    object: CallObject | MessageObject,
+    delayMs: number,
+    update?: () => void
+  ): void {
+    const delivery = new Promise<void>((resolve) => setTimeout(resolve, delayMs))
+      .then(async () => {
+        update?.();
+        await this.sendWebhook({
+          id: randomId('EV'),
+          object: 'event',
+          type,
+          createdAt: new Date().toISOString(),
+          data: { object: structuredClone(object) },
+        });
+      })
+      .finally(() => this.pending.delete(delivery));
+    this.pending.add(delivery);
+  }
+
+  private async sendWebhook(event: OpenPhoneWebhookEvent): Promise<void> {
+    if (!this.options.webhookSecret) return;
+
+    const payload = JSON.stringify(event);
+    const request = new Request(this.options.webhookUrl || 'http://localhost:8787/webhooks/openphone', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'openphone-signature': await signOpenPhoneWebhook(payload, this.options.webhookSecret),
+      },
+      body: payload,
+    });
+
+    try {
+      const response = await (this.options.deliver || fetch)(request);
+      this.webhooks.push({ event, status: response.status });
+    } catch (error) {
+      console.error('Fake OpenPhone webhook delivery failed:', error);
+      this.webhooks.push({ event, status: null });
+    }
+  }
+}
@@ -0,0 +1,126 @@
+// Stand-ins for the ChittyOS services and the telephony provider APIs
+// Installed as the global fetch; every outbound request is recorded
+
+export interface RecordedRequest {
+  method: string;
+  url: string;
+  host: string;
+  path: string;
+  body: any;
+}
+
+type Responder = (request: RecordedRequest) => Response | Promise<Response>;
+
+function json(data: unknown, status: number = 200): Response {
+  return Response.json(data, { status });
+}
+
+export class FakeServices {
+  requests: RecordedRequest[] = [];
+  private responders = new Map<string, Responder>();
+  private mintCount = 0;
+
+  constructor() {
+    this.reset();
+  }
+
+  reset(): void {
+    this.requests = [];
+    this.mintCount = 0;
+    this.responders.clear();
+
+    // Unknown callers by default, so the handlers exercise the minting path
+    this.respond('id.chitty.cc', 'GET /api/v2/identity/resolve/phone/', () =>
+      json({ success: false, error: 'not_found' }, 404)
+    );
+    this.respond('id.chitty.cc', 'POST /api/v2/chittyid/mint', () => {
+      this.mintCount++;
+      return json({
+        success: true,
+        data: {
+          id: `00000000-0000-4000-8000-${String(this.mintCount).padStart(12, '0')}`,
+          did: `did:chitty:test-${this.mintCount}`,
+        },
+      });
+    });
+    this.respond('router.chitty.cc', 'POST /api/v1/route/call', () =>
+      json({ success: true, data: { action: 'answer', priority: 'normal', aiAnalysis: 'test routing' } })
+    );
+    this.respond('router.chitty.cc', 'POST /api/v1/analyze/message', () =>
+      json({
+        success: true,
+        data: {
+          intent: 'booking_inquiry',
+          sentiment: 'neutral',
+          suggestedResponse: 'Thanks! Someone will follow up shortly.',
+          requiresHuman: true,
+          priority: 5,
+        },
+      })
+    );
+    this.respond('trust.chitty.cc', 'GET /api/v1/trust-score/', () =>
+      json({ success: true, data: { trustScore: 72, riskLevel: 'low', factors: [] } })
+    );
+    this.respond('chronicle.chitty.cc', 'POST /api/v1/events', () => json({ success: true }));
+  }
+
+  /**
+   * Register a responder for `METHOD /path-prefix` on a host (later registrations win)
+   */
+  respond(host: string, route: string, responder: Responder): void {
+    this.responders.set(`${host} ${route}`, responder);
+  }
+
+  /**
+   * Make every request to a host fail at the network level
+   */
+  failHost(host: string): void {
+    this.respond(host, '', () => {
+      throw new TypeError('fetch failed');
+    });
+  }
+
+  to(host: string): RecordedRequest[] {
+    return this.requests.filter((request) => request.host === host);
+  }
+
+  fetch = async (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+    const request = new Request(input, init);
+    const url = new URL(request.url);
+    // Read string bodies synchronously so fire-and-forget calls are recorded immediately
+    const text = typeof init?.body === 'string' ? init.body : request.body ? await request.text() : '';
+
+    const recorded: RecordedRequest = {
+      method: request.method,
+      url: request.url,
+      host: url.host,
+      path: url.pathname,
+      body: text ? safeParse(text) : null,
+    };
+    this.requests.push(recorded);
+
+    const key = `${recorded.method} ${recorded.path}`;
+    let best: { length: number; responder: Responder } | null = null;
+    for (const [route, responder] of this.responders) {
+      const [host, ...rest] = route.split(' ');
+      const prefix = rest.join(' ');
+      if (host === url.host && key.startsWith(prefix) && (!best || prefix.length > best.length)) {
+        best = { length: prefix.length, responder };
+      }
+    }
+
+    if (!best) {
+      return json({ error: `No fake responder for ${url.host} ${key}` }, 404);
+    }
+
+    return best.responder(recorded);
+  };
+}
+
+function safeParse(text: string): any {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
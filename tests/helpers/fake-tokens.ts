@@ -0,0 +1,48 @@
+// api_tokens fixtures for the fake Neon driver
+// Suites authenticate either with one token that accepts any bearer value, or against rows in
+// fakeNeon.tables.api_tokens looked up by hash the way queries.validateToken does
+
+import { fakeNeon } from './fake-neon';
+
+export interface FakeApiToken {
+  id: string;
+  identity_id: string;
+  identity_did: string;
+  name: string;
+  scopes: string[];
+  status: string;
+  expires_at: string | null;
+}
+
+/**
+ * Accept any bearer token as one staff token holding `scopes`
+ * The returned row is what lookups answer with: change its scopes, expires_at or status (e.g.
+ * 'revoked' to make lookups come back empty) between requests
+ */
+export function installApiToken(scopes: string[] = [], overrides: Partial<FakeApiToken> = {}): FakeApiToken {
+  const token: FakeApiToken = {
+    id: 'token-1',
+    identity_id: 'identity-staff',
+    identity_did: 'did:chitty:staff',
+    name: 'staff',
+    scopes,
+    status: 'active',
+    expires_at: null,
+    ...overrides,
+  };
+
+  fakeNeon.on(/FROM api_tokens t/, () => (token.status === 'active' ? [token] : []));
+  return token;
+}
+
+/**
+ * Authenticate against the active rows of fakeNeon.tables.api_tokens by token_hash
+ */
+export function installApiTokenTable(): void {
+  fakeNeon.on(/FROM api_tokens t/, ([tokenHash]) =>
+    fakeNeon
+      .rows('api_tokens')
+      .filter((row) => row.token_hash === tokenHash && row.status === 'active')
+      .map((row) => ({ ...row, identity_did: `did:chitty:${row.identity_id}` }))
+  );
+}
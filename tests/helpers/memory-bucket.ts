@@ -0,0 +1,41 @@
+// In-memory stand-in for an R2 bucket (put/get/delete, ranged gets)
+
+interface StoredObject {
+  bytes: Uint8Array;
+  contentType?: string;
+}
+
+export class MemoryBucket {
+  objects = new Map<string, StoredObject>();
+
+  async put(
+    key: string,
+    value: ArrayBuffer | Uint8Array | string,
+    options: { httpMetadata?: { contentType?: string } } = {}
+  ): Promise<void> {
+    const bytes = typeof value === 'string' ? new TextEncoder().encode(value) : new Uint8Array(value);
+    this.objects.set(key, { bytes, contentType: options.httpMetadata?.contentType });
+  }
+
+  async get(key: string, options: { range?: { offset: number; length: number } } = {}): Promise<any> {
+    const object = this.objects.get(key);
+    if (!object) return null;
+
+    const { offset = 0, length = object.bytes.byteLength - offset } = options.range ?? {};
+    return {
+      key,
+      size: object.bytes.byteLength,
+      httpMetadata: { contentType: object.contentType },
+      range: options.range,
+      body: new Response(object.bytes.slice(offset, offset + length)).body,
+    };
+  }
+
+  async delete(key: string): Promise<void> {
+    this.objects.delete(key);
+  }
+
+  asBinding(): R2Bucket {
+    return this as unknown as R2Bucket;
+  }
+}
@@ -0,0 +1,68 @@
+// In-memory stand-in for a Durable Object namespace: one instance per name, each with its own
+// storage, called through stubs the way the worker calls them (requests run one at a time per object)
+
+interface DurableObjectLike {
+  fetch(request: Request): Promise<Response>;
+}
+
+class MemoryStorage {
+  data = new Map<string, unknown>();
+
+  async get<T>(key: string): Promise<T | undefined> {
+    const value = this.data.get(key);
+    return value === undefined ? undefined : structuredClone(value as T);
+  }
+
+  async put(key: string, value: unknown): Promise<void> {
+    this.data.set(key, structuredClone(value));
+  }
+
+  async delete(key: string): Promise<boolean> {
+    return this.data.delete(key);
+  }
+}
+
+export class MemoryDurableObjectNamespace {
+  instances = new Map<string, { object: DurableObjectLike; storage: MemoryStorage; queue: Promise<unknown> }>();
+
+  constructor(private create: (state: DurableObjectState) => DurableObjectLike) {}
+
+  idFromName(name: string): DurableObjectId {
+    return { name, toString: () => name, equals: (other: DurableObjectId) => other.toString() === name } as DurableObjectId;
+  }
+
+  get(id: DurableObjectId): DurableObjectStub {
+    const name = id.toString();
+    return {
+      id,
+      fetch: (input: RequestInfo | URL, init?: RequestInit) => {
+        const instance = this.instance(name);
+        const response = instance.queue.then(() => instance.object.fetch(new Request(input, init)));
+        instance.queue = response.catch(() => undefined);
+        return response;
+      },
+    } as unknown as DurableObjectStub;
+  }
+
+  /**
+   * Storage of the object with this name (created on first use)
+   */
+  storage(name: string): MemoryStorage {
+    return this.instance(name).storage;
+  }
+
+  private instance(name: string) {
+    let instance = this.instances.get(name);
+    if (!instance) {
+      const storage = new MemoryStorage();
+      const state = { id: this.idFromName(name), storage } as unknown as DurableObjectState;
+      instance = { object: this.create(state), storage, queue: Promise.resolve() };
+      this.instances.set(name, instance);
+    }
+    return instance;
+  }
+
+  asBinding(): DurableObjectNamespace {
+    return this as unknown as DurableObjectNamespace;
+  }
+}
@@ -0,0 +1,45 @@
+// In-memory stand-in for a Workers KV namespace (get/put/delete/list)
+
+interface StoredValue {
+  value: string;
+  expiresAt: number | null;
+}
+
+export class MemoryKV {
+  store = new Map<string, StoredValue>();
+
+  async get(key: string, type?: 'text' | 'json' | { type?: 'text' | 'json' }): Promise<any> {
+    const entry = this.store.get(key);
+    if (!entry) return null;
+
+    if (entry.expiresAt !== null && entry.expiresAt <= Date.now()) {
+      this.store.delete(key);
+      return null;
+    }
+
+    const format = typeof type === 'object' ? type.type : type;
+    return format === 'json' ? JSON.parse(entry.value) : entry.value;
+  }
+
+  async put(key: string, value: string, options: { expirationTtl?: number } = {}): Promise<void> {
+    this.store.set(key, {
+      value,
+      expiresAt: options.expirationTtl ? Date.now() + options.expirationTtl * 1000 : null,
+    });
+  }
+
+  async delete(key: string): Promise<void> {
+    this.store.delete(key);
+  }
+
+  async list(options: { prefix?: string } = {}): Promise<{ keys: { name: string }[]; list_complete: boolean }> {
+    const keys = [...this.store.keys()]
+      .filter((name) => !options.prefix || name.startsWith(options.prefix))
+      .map((name) => ({ name }));
+    return { keys, list_complete: true };
+  }
+
+  asBinding(): KVNamespace {
+    return this as unknown as KVNamespace;
+  }
+}
@@ -0,0 +1,67 @@
+// In-memory stand-in for a Cloudflare Queue producer plus a drain helper
+// that runs the consumer until the queue is empty (retry delays are ignored)
+
+interface PendingMessage<T> {
+  id: string;
+  body: T;
+  attempts: number;
+}
+
+export class MemoryQueue<T> {
+  pending: PendingMessage<T>[] = [];
+  retried: { body: T; attempts: number; delaySeconds?: number }[] = [];
+  private nextId = 1;
+
+  async send(body: T): Promise<void> {
+    this.pending.push({ id: `msg-${this.nextId++}`, body, attempts: 1 });
+  }
+
+  async sendBatch(messages: Iterable<{ body: T }>): Promise<void> {
+    for (const message of messages) {
+      await this.send(message.body);
+    }
+  }
+
+  /**
+   * Deliver pending messages to the consumer in batches until nothing is left
+   */
+  async drain(
+    consumer: (batch: MessageBatch<T>) => Promise<void>,
+    maxRounds: number = 20
+  ): Promise<void> {
+    for (let round = 0; round < maxRounds && this.pending.length > 0; round++) {
+      const delivering = this.pending;
+      this.pending = [];
+
+      const messages = delivering.map((pending) => {
+        let settled = false;
+        return {
+          id: pending.id,
+          timestamp: new Date(),
+          body: pending.body,
+          attempts: pending.attempts,
+          ack: () => {
+            settled = true;
+          },
+          retry: (options?: { delaySeconds?: number }) => {
+            if (settled) return;
+            settled = true;
+            this.retried.push({ body: pending.body, attempts: pending.attempts, delaySeconds: options?.delaySeconds });
+            this.pending.push({ ...pending, attempts: pending.attempts + 1 });
+          },
+        };
+      });
+
+      await consumer({
+        queue: 'memory-queue',
+        messages,
+        ackAll: () => messages.forEach((message) => message.ack()),
+        retryAll: () => messages.forEach((message) => message.retry()),
+      } as unknown as MessageBatch<T>);
+    }
+  }
+
+  asBinding(): Queue<T> {
+    return this as unknown as Queue<T>;
+  }
+}
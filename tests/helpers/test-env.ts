@@ -0,0 +1,67 @@
+// Builds a worker Env backed by the in-memory stand-ins
+
+import type { BackfillQueueMessage, Env, WebhookQueueMessage } from '@/types/env';
+import { clearTokenCache } from '@/lib/token-cache';
+import { RateLimiter } from '@/lib/rate-limit';
+import { MemoryBucket } from './memory-bucket';
+import { MemoryDurableObjectNamespace } from './memory-durable-object';
+import { MemoryKV } from './memory-kv';
+import { MemoryQueue } from './memory-queue';
+
+// OpenPhone signing secrets are base64-encoded keys
+export const TEST_WEBHOOK_SECRET = 'dGVzdC13ZWJob29rLXNpZ25pbmcta2V5';
+
+// Twilio signs callbacks with the account auth token over the public webhook URL
+export const TEST_TWILIO_AUTH_TOKEN = 'test-twilio-auth-token';
+export const TEST_TWILIO_WEBHOOK_URL = 'https://reception.example.com/webhooks/twilio';
+
+export interface TestEnv {
+  env: Env;
+  kv: MemoryKV;
+  queue: MemoryQueue<WebhookQueueMessage>;
+  backfillQueue: MemoryQueue<BackfillQueueMessage>;
+  mediaBucket: MemoryBucket;
+  recordingsBucket: MemoryBucket;
+  rateLimiter: MemoryDurableObjectNamespace;
+}
+
+export function createTestEnv(overrides: Partial<Env> = {}): TestEnv {
+  // A fresh env stands for a fresh isolate: nothing cached from earlier tests
+  clearTokenCache();
+
+  const kv = new MemoryKV();
+  const queue = new MemoryQueue<WebhookQueueMessage>();
+  const backfillQueue = new MemoryQueue<BackfillQueueMessage>();
+  const mediaBucket = new MemoryBucket();
+  const recordingsBucket = new MemoryBucket();
+  const rateLimiter = new MemoryDurableObjectNamespace((state) => new RateLimiter(state, env));
+
+  const env = {
+    OPENPHONE_API_KEY: 'op_test_key',
+    OPENPHONE_WEBHOOK_SECRET: TEST_WEBHOOK_SECRET,
+    TWILIO_ACCOUNT_SID: 'ACtest00000000000000000000000000',
+    TWILIO_AUTH_TOKEN: TEST_TWILIO_AUTH_TOKEN,
+    TWILIO_WEBHOOK_URL: TEST_TWILIO_WEBHOOK_URL,
+    CHITTY_ID_SERVICE_TOKEN: 'test-id-token',
+    CHITTY_AUTH_SERVICE_TOKEN: 'test-auth-token',
+    CHITTY_CONNECT_SERVICE_TOKEN: 'test-connect-token',
+    NEON_DATABASE_URL: 'postgresql://fake@localhost/chittyos-core',
+    JWT_SECRET: 'test-jwt-secret',
+    ENCRYPTION_KEY: 'test-encryption-key',
+    MEDIA_URL_SECRET: 'test-media-url-secret',
+    ENVIRONMENT: 'development',
+    AI: {
+      run: async () => ({ response: '' }),
+    } as unknown as Ai,
+    RECEPTION_KV: kv.asBinding(),
+    CALL_STATE: {} as DurableObjectNamespace,
+    RATE_LIMITER: rateLimiter.asBinding(),
+    WEBHOOK_QUEUE: queue.asBinding(),
+    BACKFILL_QUEUE: backfillQueue.asBinding(),
+    MEDIA_BUCKET: mediaBucket.asBinding(),
+    RECORDINGS_BUCKET: recordingsBucket.asBinding(),
+    ...overrides,
+  } as Env;
+
+  return { env, kv, queue, backfillQueue, mediaBucket, recordingsBucket, rateLimiter };
+}
@@ -0,0 +1,117 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { app } from '@/index';
+import { createServiceJwt, signServiceRequest } from '@/lib/service-auth';
+import { fakeNeon } from './helpers/fake-neon';
+import { createTestEnv, type TestEnv } from './helpers/test-env';
+
+vi.mock('@neondatabase/serverless', async () => (await import('./helpers/fake-neon')).neonModule);
+
+const TOKEN_HASH = 'a'.repeat(64);
+
+describe('service-only routes', () => {
+  let testEnv: TestEnv;
+
+  const signedPost = async (service: string, secret: string, path: string, body: unknown) => {
+    const json = JSON.stringify(body);
+    const headers = await signServiceRequest(service, secret, { method: 'POST', pathAndQuery: path, body: json });
+    return app.request(path, { method: 'POST', headers: { ...headers, 'Content-Type': 'application/json' }, body: json }, testEnv.env);
+  };
+
+  beforeEach(() => {
+    fakeNeon.reset();
+    fakeNeon.on(/FROM reception_calls WHERE call_id/, ([callId]) =>
+      callId === 'AC1' ? [{ id: 'call-row', call_id: 'AC1', metadata: {} }] : []
+    );
+
+    testEnv = createTestEnv({ CHITTY_ROUTER_SERVICE_TOKEN: 'router-secret' });
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('stores a signed ChittyRouter routing decision on the call', async () => {
+    const response = await signedPost('ChittyRouter', 'router-secret', '/internal/v1/calls/AC1/routing', {
+      action: 'route',
+      destination: '(312) 555-0199',
+      priority: 'high',
+    });
+
+    expect(response.status).toBe(200);
+    const [update] = fakeNeon.statements(/UPDATE reception_calls\s+SET metadata/);
+    expect(update.params[0]).toBe('AC1');
+    expect(JSON.parse(update.params[1])).toMatchObject({
+      routing: { action: 'route', destination: '+13125550199', decidedBy: 'ChittyRouter' },
+    });
+
+    const missing = await signedPost('ChittyRouter', 'router-secret', '/internal/v1/calls/AC9/routing', {
+      action: 'voicemail',
+      priority: 'low',
+    });
+    expect(missing.status).toBe(404);
+  });
+
+  it('invalidates cached tokens for ChittyAuth with a service JWT', async () => {
+    testEnv.kv.store.set(`token:${TOKEN_HASH}`, { value: '{}', expiresAt: null });
+    const token = await createServiceJwt('ChittyAuth', testEnv.env.CHITTY_AUTH_SERVICE_TOKEN);
+    const revoke = () =>
+      app.request(
+        '/internal/v1/tokens/revoked',
+        {
+          method: 'POST',
+          headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+          body: JSON.stringify({ tokenHashes: [TOKEN_HASH] }),
+        },
+        testEnv.env
+      );
+
+    const response = await revoke();
+    expect(response.status).toBe(200);
+    expect(testEnv.kv.store.has(`token:${TOKEN_HASH}`)).toBe(false);
+
+    // JWTs are single-use
+    const replayed = await revoke();
+    expect(replayed.status).toBe(401);
+    expect(await replayed.json()).toMatchObject({ error: { code: 'UNAUTHORIZED', details: 'replayed' } });
+  });
+
+  it("refuses a service JWT signed with another service's secret", async () => {
+    const token = await createServiceJwt('ChittyAuth', 'router-secret');
+    const response = await app.request(
+      '/internal/v1/tokens/revoked',
+      {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ tokenHashes: [TOKEN_HASH] }),
+      },
+      testEnv.env
+    );
+
+    expect(response.status).toBe(401);
+    expect(await response.json()).toMatchObject({ error: { details: 'signature_mismatch' } });
+  });
+
+  it('rejects unsigned callers, API tokens and routes outside the registry', async () => {
+    const unsigned = await app.request(
+      '/internal/v1/tokens/revoked',
+      { method: 'POST', headers: { Authorization: 'Bearer staff-token' }, body: '{}' },
+      testEnv.env
+    );
+    expect(unsigned.status).toBe(401);
+    expect(await unsigned.json()).toMatchObject({ error: { code: 'UNAUTHORIZED', details: 'malformed_token' } });
+
+    const wrongSecret = await signedPost('ChittyRouter', 'guessed', '/internal/v1/calls/AC1/routing', {});
+    expect(wrongSecret.status).toBe(401);
+
+    const notPermitted = await signedPost('ChittyRouter', 'router-secret', '/internal/v1/tokens/revoked', {
+      tokenHashes: [TOKEN_HASH],
+    });
+    expect(notPermitted.status).toBe(403);
+    expect(await notPermitted.json()).toMatchObject({
+      error: { code: 'FORBIDDEN', message: 'Service ChittyRouter may not call POST /internal/v1/tokens/revoked' },
+    });
+    expect(fakeNeon.statements(/UPDATE reception_calls/)).toEqual([]);
+  });
+});
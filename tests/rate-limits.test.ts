@@ -0,0 +1,247 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { app } from '@/index';
+import type { RateLimitConfig } from '@/lib/rate-limit';
+import { fakeNeon } from './helpers/fake-neon';
+import { installApiToken } from './helpers/fake-tokens';
+import { FakeOpenPhoneServer } from './helpers/fake-openphone';
+import { FakeServices } from './helpers/fake-services';
+import { createTestEnv, TEST_WEBHOOK_SECRET, type TestEnv } from './helpers/test-env';
+
+vi.mock('@neondatabase/serverless', async () => (await import('./helpers/fake-neon')).neonModule);
+
+const FAKE_API_URL = 'http://fake-openphone.local/v1';
+const LINE = '+13125550100';
+const GUEST = '+13125550147';
+const OTHER_GUEST = '+13125550148';
+
+describe('outbound rate limits', () => {
+  let openphone: FakeOpenPhoneServer;
+  let services: FakeServices;
+  let testEnv: TestEnv;
+
+  const setup = (limits: RateLimitConfig) => {
+    testEnv = createTestEnv({ OPENPHONE_API_BASE_URL: FAKE_API_URL, RATE_LIMITS: JSON.stringify(limits) });
+    openphone = new FakeOpenPhoneServer({
+      apiKey: testEnv.env.OPENPHONE_API_KEY,
+      webhookSecret: TEST_WEBHOOK_SECRET,
+      deliver: async () => new Response(null, { status: 200 }),
+      origin: 'http://fake-openphone.local',
+    });
+  };
+  const send = (to: string[], ip: string = '203.0.113.7') =>
+    app.request(
+      '/api/v1/send-message',
+      {
+        method: 'POST',
+        headers: { Authorization: 'Bearer staff-token', 'Content-Type': 'application/json', 'CF-Connecting-IP': ip },
+        body: JSON.stringify({ from: LINE, to, content: 'Your check-in code is 4821' }),
+      },
+      testEnv.env
+    );
+  const alerts = () => services.to('chronicle.chitty.cc').filter((request) => request.body.action === 'rate_limit.exceeded');
+
+  beforeEach(() => {
+    fakeNeon.reset();
+    installApiToken(['reception:sms:send']);
+
+    services = new FakeServices();
+    setup({});
+    vi.stubGlobal('fetch', (input: RequestInfo | URL, init?: RequestInit) => {
+      const request = new Request(input, init);
+      return new URL(request.url).host === 'fake-openphone.local' ? openphone.fetch(request) : services.fetch(input, init);
+    });
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2025-03-04T22:41:18Z'));
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('answers 429 with reset headers once a destination is over its window', async () => {
+    setup({ 'reception:sms:send': [{ per: 'destination', limit: 2, window: 600 }] });
+
+    expect((await send([GUEST])).status).toBe(200);
+    vi.advanceTimersByTime(60_000);
+    expect((await send([GUEST])).status).toBe(200);
+
+    const limited = await send([GUEST]);
+    expect(limited.status).toBe(429);
+    expect(limited.headers.get('Retry-After')).toBe('540');
+    expect(limited.headers.get('X-RateLimit-Limit')).toBe('2');
+    expect(limited.headers.get('X-RateLimit-Remaining')).toBe('0');
+    expect(limited.headers.get('X-RateLimit-Reset')).toBe(String(Date.parse('2025-03-04T22:51:18Z') / 1000));
+    expect(await limited.json()).toEqual({
+      success: false,
+      error: {
+        code: 'RATE_LIMITED',
+        message: 'Rate limit exceeded: 2 per 600 seconds per destination number',
+        limit: 2,
+        window: 600,
+        per: 'destination',
+        resetAt: '2025-03-04T22:51:18.000Z',
+      },
+    });
+    expect(openphone.messages.size).toBe(2);
+
+    // Other numbers are unaffected, and the window slides
+    expect((await send([OTHER_GUEST])).status).toBe(200);
+    vi.advanceTimersByTime(540_000);
+    expect((await send([GUEST])).status).toBe(200);
+  });
+
+  it('alerts ChittyChronicle once per exhausted window', async () => {
+    setup({ 'reception:sms:send': [{ per: 'token', limit: 1, window: 60 }] });
+
+    await send([GUEST]);
+    await send([GUEST]);
+    await send([GUEST]);
+
+    expect(alerts()).toHaveLength(1);
+    expect(alerts()[0].body).toMatchObject({
+      identityId: 'identity-staff',
+      resourceType: 'api_token',
+      resourceId: 'token-1',
+      severity: 'warning',
+      details: { scope: 'reception:sms:send', key: 'token:token-1', limit: 1, window: 60 },
+    });
+
+    vi.advanceTimersByTime(60_000);
+    await send([GUEST]);
+    await send([GUEST]);
+    expect(alerts()).toHaveLength(2);
+  });
+
+  it('still answers 429 when ChittyChronicle is unreachable', async () => {
+    setup({ 'reception:sms:send': [{ per: 'token', limit: 1, window: 60 }] });
+    services.respond('chronicle.chitty.cc', 'POST /api/v1/events', () => {
+      throw new TypeError('fetch failed');
+    });
+
+    await send([GUEST]);
+    expect((await send([GUEST])).status).toBe(429);
+    expect(alerts()).toHaveLength(1);
+    expect(console.error).toHaveBeenCalledWith('ChittyChronicle logging failed:', expect.any(TypeError));
+  });
+
+  it('counts recipients and does not count refused sends', async () => {
+    setup({
+      'reception:sms:send': [
+        { per: 'token', limit: 3, window: 60 },
+        { per: 'destination', limit: 1, window: 60 },
+      ],
+    });
+
+    expect((await send([GUEST])).status).toBe(200);
+    // Refused for GUEST; neither OTHER_GUEST nor the token is charged
+    expect((await send([OTHER_GUEST, GUEST])).status).toBe(429);
+    expect((await send([OTHER_GUEST])).status).toBe(200);
+
+    const overToken = await send(['+13125550149', '+13125550150']);
+    expect(overToken.status).toBe(429);
+    expect((await overToken.json<any>()).error.per).toBe('token');
+  });
+
+  it('does not count sends the provider refuses', async () => {
+    setup({
+      'reception:sms:send': [
+        { per: 'token', limit: 2, window: 60 },
+        { per: 'destination', limit: 1, window: 60 },
+      ],
+    });
+    openphone.script({ match: 'POST /messages', status: 400, times: 2 });
+
+    expect((await send([GUEST])).status).toBe(400);
+    const call = await app.request(
+      '/mcp',
+      {
+        method: 'POST',
+        headers: { Authorization: 'Bearer staff-token', 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          method: 'tools/call',
+          params: { name: 'send_sms', arguments: { from: LINE, to: [GUEST], content: 'Again' } },
+        }),
+      },
+      testEnv.env
+    );
+    expect(call.status).toBe(500);
+
+    expect((await send([GUEST])).status).toBe(200);
+    expect((await send([OTHER_GUEST])).status).toBe(200);
+    expect((await send([GUEST])).status).toBe(429);
+  });
+
+  it('enforces daily quotas and per-IP limits', async () => {
+    setup({
+      'reception:sms:send': [
+        { per: 'identity', limit: 2, window: 'day' },
+        { per: 'ip', limit: 1, window: 60 },
+      ],
+    });
+
+    expect((await send([GUEST], '203.0.113.7')).status).toBe(200);
+    expect((await send([GUEST], '203.0.113.7')).status).toBe(429);
+    expect((await send([GUEST], '198.51.100.4')).status).toBe(200);
+
+    const quota = await send([GUEST], '192.0.2.1');
+    expect(quota.status).toBe(429);
+    expect((await quota.json<any>()).error).toMatchObject({ per: 'identity', window: 'day', resetAt: '2025-03-05T00:00:00.000Z' });
+
+    vi.setSystemTime(new Date('2025-03-05T00:00:01Z'));
+    expect((await send([GUEST], '192.0.2.1')).status).toBe(200);
+  });
+
+  it('answers 500 without sending when RATE_LIMITS is malformed', async () => {
+    testEnv.env.RATE_LIMITS = '{"reception:sms:send":"lots"}';
+
+    const rest = await send([GUEST]);
+    expect(rest.status).toBe(500);
+    expect((await rest.json<any>()).error).toMatchObject({
+      code: 'SEND_MESSAGE_FAILED',
+      message: 'RATE_LIMITS is not a valid rate limit configuration',
+    });
+
+    const call = await app.request(
+      '/mcp',
+      {
+        method: 'POST',
+        headers: { Authorization: 'Bearer staff-token', 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          method: 'tools/call',
+          params: { name: 'send_sms', arguments: { from: LINE, to: [GUEST], content: 'Again' } },
+        }),
+      },
+      testEnv.env
+    );
+    expect(call.status).toBe(500);
+    expect((await call.json<any>()).error.code).toBe('INTERNAL_ERROR');
+    expect(openphone.messages.size).toBe(0);
+  });
+
+  it('applies the same limits to the send_sms MCP tool', async () => {
+    setup({ 'reception:sms:send': [{ per: 'destination', limit: 1, window: 600 }] });
+    expect((await send([GUEST])).status).toBe(200);
+
+    const call = await app.request(
+      '/mcp',
+      {
+        method: 'POST',
+        headers: { Authorization: 'Bearer staff-token', 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          method: 'tools/call',
+          params: { name: 'send_sms', arguments: { from: LINE, to: [GUEST], content: 'Again' } },
+        }),
+      },
+      testEnv.env
+    );
+
+    expect(call.status).toBe(429);
+    expect(call.headers.get('Retry-After')).toBe('600');
+    expect((await call.json<any>()).error.code).toBe('RATE_LIMITED');
+    expect(openphone.messages.size).toBe(1);
+  });
+});
@@ -0,0 +1,292 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { app } from '@/index';
+import { createDatabase } from '@/lib/database';
+import { purgeExpiredRecordings } from '@/lib/recordings';
+import { handleWebhookQueue } from '@/lib/webhook-queue';
+import { replayWebhookEvent } from '@/lib/webhook-replay';
+import { fixture } from './fixtures/openphone';
+import { fakeNeon } from './helpers/fake-neon';
+import { installApiToken, type FakeApiToken } from './helpers/fake-tokens';
+import { FakeOpenPhoneServer } from './helpers/fake-openphone';
+import { FakeServices } from './helpers/fake-services';
+import { createTestEnv, TEST_WEBHOOK_SECRET, type TestEnv } from './helpers/test-env';
+
+vi.mock('@neondatabase/serverless', async () => (await import('./helpers/fake-neon')).neonModule);
+
+const FAKE_API_URL = 'http://fake-openphone.local/v1';
+const DAY_MS = 24 * 60 * 60 * 1000;
+// The ChittyID FakeServices mints for the first unknown caller
+const CALLER_IDENTITY = '00000000-0000-4000-8000-000000000001';
+
+/**
+ * reception_call_recordings rows claimed by provider recording ID, updated in place
+ */
+function installRecordingStore(): void {
+  const rows = () => fakeNeon.rows('reception_call_recordings');
+
+  fakeNeon.on(
+    /^INSERT INTO reception_call_recordings/,
+    ([callId, voicemailId, source, providerRecordingId, sourceUrl, durationSeconds, recordedAt]) => {
+      const claimed = rows().find((row) => row.provider_recording_id === providerRecordingId);
+      if (claimed) {
+        // Failed downloads are claimed again
+        if (claimed.status !== 'failed') return [];
+        Object.assign(claimed, { status: 'pending', source_url: sourceUrl, error: null });
+        return [{ ...claimed }];
+      }
+      const row = {
+        id: `recording-${rows().length + 1}`,
+        call_id: callId,
+        voicemail_id: voicemailId,
+        source,
+        provider_recording_id: providerRecordingId,
+        source_url: sourceUrl,
+        storage_key: null,
+        content_type: null,
+        size_bytes: null,
+        duration_seconds: durationSeconds,
+        status: 'pending',
+        error: null,
+        recorded_at: recordedAt,
+        deleted_at: null,
+      };
+      (fakeNeon.tables.reception_call_recordings ||= []).push(row);
+      return [{ ...row }];
+    }
+  );
+
+  fakeNeon.on(/^UPDATE reception_call_recordings SET status = \$2/, ([id, status, storageKey, contentType, sizeBytes, error]) => {
+    const row = rows().find((candidate) => candidate.id === id);
+    if (!row) return [];
+    Object.assign(row, {
+      status,
+      storage_key: storageKey ?? row.storage_key,
+      content_type: contentType ?? row.content_type,
+      size_bytes: sizeBytes ?? row.size_bytes,
+      error,
+    });
+    return [{ ...row }];
+  });
+  fakeNeon.on(/^SELECT \* FROM reception_call_recordings WHERE provider_recording_id/, ([providerRecordingId]) =>
+    rows()
+      .filter((row) => row.provider_recording_id === providerRecordingId)
+      .map((row) => ({ ...row }))
+  );
+  // Recordings of a call or voicemail, limited to those the identity owns when one is given
+  const owns = (row: Record<string, any>, identityId: string) =>
+    fakeNeon.rows('reception_calls').some((call) => call.call_id === row.call_id && call.identity_id === identityId) ||
+    fakeNeon.rows('reception_voicemails').some((voicemail) => voicemail.voicemail_id === row.voicemail_id && voicemail.identity_id === identityId);
+  fakeNeon.on(/^SELECT \* FROM reception_call_recordings r WHERE \(r.call_id = \$1 OR r.voicemail_id/, ([id, identityId]) =>
+    rows()
+      .filter((row) => (row.call_id === id || row.voicemail_id === id) && (!identityId || owns(row, identityId)))
+      .map((row) => ({ ...row }))
+  );
+  fakeNeon.on(/^SELECT \* FROM reception_call_recordings WHERE status = 'stored'/, ([cutoff, limit]) =>
+    rows()
+      .filter((row) => row.status === 'stored' && row.recorded_at < cutoff)
+      .slice(0, limit)
+      .map((row) => ({ ...row }))
+  );
+  fakeNeon.on(/^UPDATE reception_call_recordings SET status = 'deleted'/, ([id]) => {
+    const row = rows().find((candidate) => candidate.id === id);
+    if (row) Object.assign(row, { status: 'deleted', storage_key: null });
+    return [];
+  });
+}
+
+describe('call recording archive', () => {
+  let services: FakeServices;
+  let openphone: FakeOpenPhoneServer;
+  let testEnv: TestEnv;
+  let scopes: string[];
+  let token: FakeApiToken;
+
+  const settle = async () => {
+    await openphone.settle();
+    await testEnv.queue.drain((batch) => handleWebhookQueue(batch, testEnv.env));
+  };
+  const play = (id: string, headers: Record<string, string> = {}) =>
+    app.request(
+      `/api/v1/calls/${id}/recording`,
+      { headers: { Authorization: 'Bearer staff-token', ...headers } },
+      testEnv.env
+    );
+  const accessAudits = () => fakeNeon.rows('audit_logs').filter((audit) => audit.action === 'recording.accessed');
+  const recordedAudio = (callId: string) => {
+    const [recording] = openphone.recordings.get(callId)!;
+    return openphone.mediaFiles.get(new URL(recording.url!).pathname.replace(/^\/media\//, ''))!.bytes;
+  };
+
+  beforeEach(() => {
+    fakeNeon.reset();
+    scopes = ['reception:recordings:read'];
+    token = installApiToken(scopes, { identity_id: CALLER_IDENTITY });
+    fakeNeon.on(/^UPDATE reception_calls SET status/, () => [{ id: 'call-row', identity_id: null, metadata: {} }]);
+    installRecordingStore();
+
+    services = new FakeServices();
+    testEnv = createTestEnv({ OPENPHONE_API_BASE_URL: FAKE_API_URL });
+    openphone = new FakeOpenPhoneServer({
+      apiKey: testEnv.env.OPENPHONE_API_KEY,
+      webhookSecret: TEST_WEBHOOK_SECRET,
+      deliver: (request) => app.request(request, undefined, testEnv.env),
+      origin: 'http://fake-openphone.local',
+    });
+
+    vi.stubGlobal('fetch', (input: RequestInfo | URL, init?: RequestInit) => {
+      const request = new Request(input, init);
+      return new URL(request.url).host === 'fake-openphone.local' ? openphone.fetch(request) : services.fetch(input, init);
+    });
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('archives the recording of a completed call and streams it with range requests', async () => {
+    const call = await openphone.receiveCall('+13125550147');
+    await settle();
+
+    const audio = recordedAudio(call.id);
+    const [recording] = fakeNeon.rows('reception_call_recordings');
+    expect(recording).toMatchObject({
+      call_id: call.id,
+      source: 'call',
+      status: 'stored',
+      content_type: 'audio/mpeg',
+      size_bytes: audio.byteLength,
+      storage_key: `recordings/call/${recording.id}`,
+    });
+    expect(testEnv.recordingsBucket.objects.has(recording.storage_key)).toBe(true);
+    expect(fakeNeon.statements(/^UPDATE reception_calls SET recording_url/).map((statement) => statement.params)).toEqual([
+      [call.id, `/api/v1/calls/${call.id}/recording`],
+    ]);
+
+    const full = await play(call.id);
+    expect(full.status).toBe(200);
+    expect(full.headers.get('Content-Type')).toBe('audio/mpeg');
+    expect(full.headers.get('Accept-Ranges')).toBe('bytes');
+    expect(new Uint8Array(await full.arrayBuffer())).toEqual(audio);
+
+    const partial = await play(call.id, { Range: 'bytes=0-3' });
+    expect(partial.status).toBe(206);
+    expect(partial.headers.get('Content-Range')).toBe(`bytes 0-3/${audio.byteLength}`);
+    expect(partial.headers.get('Content-Length')).toBe('4');
+    expect(new Uint8Array(await partial.arrayBuffer())).toEqual(audio.slice(0, 4));
+
+    const outside = await play(call.id, { Range: `bytes=${audio.byteLength}-` });
+    expect(outside.status).toBe(416);
+    expect(outside.headers.get('Content-Range')).toBe(`bytes */${audio.byteLength}`);
+
+    const audits = accessAudits();
+    expect(audits.map((audit) => [audit.action, audit.resource_id, audit.identity_id])).toEqual([
+      ['recording.accessed', recording.id, CALLER_IDENTITY],
+      ['recording.accessed', recording.id, CALLER_IDENTITY],
+    ]);
+    expect(JSON.parse(audits[1].details)).toMatchObject({ callId: call.id, range: 'bytes=0-3' });
+  });
+
+  it('retries the event when a recording download fails temporarily', async () => {
+    openphone.script({ match: 'GET /media/', status: 503 });
+    const call = await openphone.receiveCall('+13125550147');
+    await settle();
+
+    expect(testEnv.queue.retried).toHaveLength(1);
+    const [recording] = fakeNeon.rows('reception_call_recordings');
+    expect(recording).toMatchObject({ call_id: call.id, status: 'stored', error: null });
+    expect(testEnv.recordingsBucket.objects.has(recording.storage_key)).toBe(true);
+    expect((await play(call.id)).status).toBe(200);
+  });
+
+  it('records recordings that are gone for good without retrying', async () => {
+    openphone.script({ match: 'GET /media/', status: 404 });
+    await openphone.receiveCall('+13125550147');
+    await settle();
+
+    expect(testEnv.queue.retried).toHaveLength(0);
+    expect(fakeNeon.rows('reception_call_recordings')).toEqual([
+      expect.objectContaining({ status: 'failed', error: 'Download failed: HTTP 404' }),
+    ]);
+    expect(testEnv.recordingsBucket.objects.size).toBe(0);
+  });
+
+  it('requires a token with the recordings scope', async () => {
+    const call = await openphone.receiveCall('+13125550147');
+    await settle();
+
+    const anonymous = await app.request(`/api/v1/calls/${call.id}/recording`, undefined, testEnv.env);
+    expect(anonymous.status).toBe(401);
+
+    scopes.length = 0;
+    const forbidden = await play(call.id);
+    expect(forbidden.status).toBe(403);
+    expect(await forbidden.json()).toMatchObject({ error: { code: 'FORBIDDEN' } });
+    expect(accessAudits()).toEqual([]);
+
+    scopes.push('reception:recordings:read');
+    expect((await play('ACunknown')).status).toBe(404);
+  });
+
+  it("only streams recordings of the token's identity unless it holds reception:admin", async () => {
+    const call = await openphone.receiveCall('+13125550147');
+    await settle();
+
+    token.identity_id = 'identity-other';
+    const foreign = await play(call.id);
+    expect(foreign.status).toBe(404);
+    expect(accessAudits()).toEqual([]);
+
+    scopes.push('reception:admin');
+    expect((await play(call.id)).status).toBe(200);
+  });
+
+  it('archives voicemail recordings under the voicemail ID', async () => {
+    const audio = new Uint8Array([0x49, 0x44, 0x33, 0x04, 0x00, 0x01, 0x02, 0x03]);
+    services.respond('storage.openphone.co', 'GET /voicemails/', () =>
+      new Response(audio, { headers: { 'Content-Type': 'audio/mpeg' } })
+    );
+
+    const event = fixture('voicemail.created');
+    await replayWebhookEvent(
+      (request) => app.request(request, undefined, testEnv.env),
+      event,
+      TEST_WEBHOOK_SECRET,
+      'http://localhost/webhooks/openphone'
+    );
+    await testEnv.queue.drain((batch) => handleWebhookQueue(batch, testEnv.env));
+
+    const voicemailId = 'VMf1a3c5e7b9d14f2a4c6e8b0d2f4a6c8e';
+    expect(fakeNeon.rows('reception_call_recordings')).toEqual([
+      expect.objectContaining({ voicemail_id: voicemailId, source: 'voicemail', status: 'stored', duration_seconds: 42 }),
+    ]);
+    expect(fakeNeon.statements(/^UPDATE reception_voicemails SET recording_url/).map((statement) => statement.params)).toEqual([
+      [voicemailId, `/api/v1/calls/${voicemailId}/recording`],
+    ]);
+
+    const response = await play(voicemailId);
+    expect(response.status).toBe(200);
+    expect(new Uint8Array(await response.arrayBuffer())).toEqual(audio);
+  });
+
+  it('purges recordings past the retention period and reports them as expired', async () => {
+    testEnv.env.RECORDING_RETENTION_DAYS = '30';
+    const db = createDatabase(testEnv.env);
+    const call = await openphone.receiveCall('+13125550147');
+    await settle();
+
+    expect(await purgeExpiredRecordings(testEnv.env, db)).toMatchObject({ deleted: 0 });
+    expect((await play(call.id)).status).toBe(200);
+
+    expect(await purgeExpiredRecordings(testEnv.env, db, Date.now() + 31 * DAY_MS)).toMatchObject({ deleted: 1 });
+    expect(testEnv.recordingsBucket.objects.size).toBe(0);
+    expect(fakeNeon.rows('reception_call_recordings')).toEqual([expect.objectContaining({ status: 'deleted' })]);
+    expect(fakeNeon.rows('audit_logs').map((audit) => audit.action)).toContain('recordings.purged');
+
+    const expired = await play(call.id);
+    expect(expired.status).toBe(410);
+    expect(await expired.json()).toMatchObject({ error: { code: 'RECORDING_EXPIRED' } });
+  });
+});
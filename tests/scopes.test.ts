@@ -0,0 +1,102 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { app } from '@/index';
+import { fakeNeon } from './helpers/fake-neon';
+import { installApiToken } from './helpers/fake-tokens';
+import { createTestEnv, type TestEnv } from './helpers/test-env';
+
+vi.mock('@neondatabase/serverless', async () => (await import('./helpers/fake-neon')).neonModule);
+
+// Every token-authenticated /api/v1 route and the scope it needs
+const ROUTES: [string, string, string][] = [
+  ['GET', '/api/v1/debug-env', 'reception:admin'],
+  ['POST', '/api/v1/send-message', 'reception:sms:send'],
+  ['POST', '/api/v1/make-call', 'reception:calls:write'],
+  ['GET', '/api/v1/calls', 'reception:history:read'],
+  ['GET', '/api/v1/calls/AC1', 'reception:history:read'],
+  ['GET', '/api/v1/calls/AC1/recording', 'reception:recordings:read'],
+  ['GET', '/api/v1/messages', 'reception:history:read'],
+  ['GET', '/api/v1/exports/calls', 'reception:history:export'],
+  ['GET', '/api/v1/webhook-events', 'reception:admin'],
+  ['POST', '/api/v1/webhook-events/evt-1/replay', 'reception:admin'],
+  ['GET', '/api/v1/dead-letters', 'reception:admin'],
+  ['POST', '/api/v1/dead-letters/dl-1/redrive', 'reception:admin'],
+  ['GET', '/api/v1/voicemails', 'reception:voicemails:read'],
+  ['POST', '/api/v1/voicemails/vm-1/handled', 'reception:voicemails:write'],
+  ['POST', '/api/v1/voicemails/vm-1/assign', 'reception:voicemails:write'],
+  ['GET', '/api/v1/phone-lines', 'reception:admin'],
+  ['PUT', '/api/v1/phone-lines/%2B13125550100/provider', 'reception:admin'],
+  ['POST', '/api/v1/contacts/identity-1/sync', 'reception:contacts:write'],
+  ['GET', '/api/v1/contacts/%2B13125550147/timeline', 'reception:history:read'],
+  ['GET', '/api/v1/backfill-jobs', 'reception:admin'],
+  ['POST', '/api/v1/backfill-jobs', 'reception:admin'],
+  ['POST', '/api/v1/media', 'reception:media:write'],
+  ['GET', '/api/v1/media?messageId=AC1', 'reception:media:read'],
+  ['GET', '/api/v1/media/media-1', 'reception:media:read'],
+];
+
+describe('scope enforcement', () => {
+  let testEnv: TestEnv;
+  let scopes: string[];
+
+  const call = (method: string, path: string, body?: unknown) =>
+    app.request(
+      path,
+      {
+        method,
+        headers: { Authorization: 'Bearer staff-token', 'Content-Type': 'application/json' },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      },
+      testEnv.env
+    );
+
+  beforeEach(() => {
+    fakeNeon.reset();
+    scopes = [];
+    installApiToken(scopes);
+    testEnv = createTestEnv();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it.each(ROUTES)('%s %s requires %s', async (method, path, scope) => {
+    const response = await call(method, path, method === 'GET' ? undefined : {});
+
+    expect(response.status).toBe(403);
+    expect(await response.json()).toEqual({
+      success: false,
+      error: { code: 'FORBIDDEN', message: `Missing required scope: ${scope}`, missingScopes: [scope] },
+    });
+  });
+
+  it('lets wildcard scopes through', async () => {
+    scopes.push('reception:voicemails:*');
+    expect((await call('GET', '/api/v1/voicemails')).status).toBe(200);
+    expect((await call('GET', '/api/v1/calls')).status).toBe(403);
+
+    scopes.push('reception:*');
+    expect((await call('GET', '/api/v1/calls')).status).toBe(200);
+  });
+
+  it('keeps the health and status endpoints public', async () => {
+    expect((await app.request('/api/v1/health', undefined, testEnv.env)).status).toBe(200);
+    expect((await app.request('/api/v1/status', undefined, testEnv.env)).status).toBe(200);
+  });
+
+  it('checks the scope of each MCP tool', async () => {
+    scopes.push('reception:history:read');
+    const send = await call('POST', '/mcp', {
+      method: 'tools/call',
+      params: { name: 'send_sms', arguments: { from: '+13125550100', to: ['+13125550147'], content: 'Hi' } },
+    });
+
+    expect(send.status).toBe(403);
+    expect(await send.json()).toMatchObject({ error: { code: 'FORBIDDEN', missingScopes: ['reception:sms:send'] } });
+
+    const history = await call('POST', '/mcp', { method: 'tools/call', params: { name: 'get_call_history', arguments: {} } });
+    expect(history.status).toBe(200);
+  });
+});
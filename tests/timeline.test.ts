@@ -0,0 +1,153 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { app } from '@/index';
+import { fakeNeon } from './helpers/fake-neon';
+import { installApiToken, type FakeApiToken } from './helpers/fake-tokens';
+import { createTestEnv, type TestEnv } from './helpers/test-env';
+
+vi.mock('@neondatabase/serverless', async () => (await import('./helpers/fake-neon')).neonModule);
+
+const CONTACT = '+13125550147';
+const STAFF_IDENTITY = '00000000-0000-4000-8000-000000000001';
+
+/**
+ * Timeline rows as the UNION query returns them, newest first, with the identity each belongs to
+ */
+const TIMELINE_ROWS = [
+  {
+    identity_id: STAFF_IDENTITY,
+    type: 'message',
+    entry_key: 'message:9b1f',
+    occurred_at: '2025-03-05T09:15:02.000451Z',
+    data: { messageId: 'AC9b1f', direction: 'outbound', from: '+13125550100', to: CONTACT, body: 'A technician is on the way.', status: 'delivered', sessionId: 's-1', media: [] },
+  },
+  {
+    identity_id: STAFF_IDENTITY,
+    type: 'call',
+    entry_key: 'call:7c2e',
+    occurred_at: '2025-03-05T09:10:00.000000Z',
+    data: {
+      callId: 'ACcall',
+      direction: 'inbound',
+      from: CONTACT,
+      to: '+13125550100',
+      status: 'completed',
+      durationSeconds: 95,
+      recordingUrl: '/api/v1/calls/ACcall/recording',
+      summary: 'Guest in 1204 reported a leak; a technician was dispatched.',
+      actionItems: ['Follow up after the repair'],
+      transcript: { source: 'whisper', speakerDetection: 'pauses', text: 'Front desk. There is a leak.', segments: [] },
+    },
+  },
+  {
+    identity_id: STAFF_IDENTITY,
+    type: 'voicemail',
+    entry_key: 'voicemail:41aa',
+    occurred_at: '2025-03-04T22:41:18.000000Z',
+    data: { voicemailId: 'VMf1a3', from: CONTACT, to: '+13125550100', intent: 'maintenance', urgency: 'high', status: 'handled', summary: 'Leak under the sink', transcript: null },
+  },
+  {
+    identity_id: STAFF_IDENTITY,
+    type: 'session',
+    entry_key: 'session:0d3b',
+    occurred_at: '2025-03-04T22:41:18.000000Z',
+    data: { sessionId: 's-1', status: 'active', summary: 'Leak reported and fixed', lastInteractionAt: '2025-03-05T09:15:02Z' },
+  },
+];
+
+describe('contact timeline', () => {
+  let testEnv: TestEnv;
+  let token: FakeApiToken;
+
+  const timeline = (phone: string, query = '') =>
+    app.request(
+      `/api/v1/contacts/${encodeURIComponent(phone)}/timeline${query}`,
+      { headers: { Authorization: 'Bearer staff-token' } },
+      testEnv.env
+    );
+
+  beforeEach(() => {
+    fakeNeon.reset();
+    token = installApiToken(['reception:history:read'], { identity_id: STAFF_IDENTITY });
+    // Mirrors the identity and keyset conditions of queries.getContactTimeline
+    fakeNeon.on(/^SELECT type, entry_key/, ([phone, beforeAt, beforeKey, types, limit, identityId]) =>
+      TIMELINE_ROWS.filter((row) => row.data.from === phone || row.data.to === phone || row.type === 'session')
+        .filter((row) => !identityId || row.identity_id === identityId)
+        .filter((row) => !types || types.includes(row.type))
+        .filter((row) => !beforeAt || row.occurred_at < beforeAt || (row.occurred_at === beforeAt && row.entry_key < beforeKey))
+        .slice(0, limit)
+    );
+
+    testEnv = createTestEnv();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('merges calls, messages, voicemails and sessions newest first', async () => {
+    const response = await timeline(CONTACT);
+    expect(response.status).toBe(200);
+
+    const body: any = await response.json();
+    expect(body.data.map((entry: any) => [entry.type, entry.occurredAt])).toEqual([
+      ['message', '2025-03-05T09:15:02.000451Z'],
+      ['call', '2025-03-05T09:10:00.000000Z'],
+      ['voicemail', '2025-03-04T22:41:18.000000Z'],
+      ['session', '2025-03-04T22:41:18.000000Z'],
+    ]);
+    expect(body.data[1]).toMatchObject({
+      id: 'call:7c2e',
+      data: { summary: expect.stringContaining('technician'), transcript: { source: 'whisper' } },
+    });
+    expect(body.metadata).toMatchObject({ phoneNumber: CONTACT, count: 4, nextCursor: null });
+  });
+
+  it('pages with the cursor without skipping entries that share a timestamp', async () => {
+    const seen: string[] = [];
+    let cursor: string | null = null;
+    let pages = 0;
+
+    do {
+      const response = await timeline(CONTACT, `?limit=1${cursor ? `&cursor=${cursor}` : ''}`);
+      const body: any = await response.json();
+      seen.push(...body.data.map((entry: any) => entry.id));
+      cursor = body.metadata.nextCursor;
+      pages++;
+    } while (cursor && pages < 10);
+
+    expect(seen).toEqual(TIMELINE_ROWS.map((row) => row.entry_key));
+    // The page size plus one row is requested to detect a next page
+    expect(fakeNeon.statements(/^SELECT type, entry_key/)[0].params).toEqual([CONTACT, null, null, null, 2, STAFF_IDENTITY]);
+  });
+
+  it('filters by entry type', async () => {
+    const body: any = await (await timeline(CONTACT, '?types=call,voicemail')).json();
+    expect(body.data.map((entry: any) => entry.type)).toEqual(['call', 'voicemail']);
+  });
+
+  it("only shows another identity's entries to reception:admin", async () => {
+    token.identity_id = '00000000-0000-4000-8000-000000000002';
+    const foreign: any = await (await timeline(CONTACT)).json();
+    expect(foreign.data).toEqual([]);
+
+    token.scopes = ['reception:history:read', 'reception:admin'];
+    const admin: any = await (await timeline(CONTACT)).json();
+    expect(admin.data).toHaveLength(4);
+    expect(fakeNeon.statements(/^SELECT type, entry_key/)[1].params[5]).toBeNull();
+  });
+
+  it('rejects invalid phone numbers, cursors and types', async () => {
+    for (const response of [
+      await timeline('555-0147'),
+      await timeline(CONTACT, '?cursor=garbage'),
+      await timeline(CONTACT, '?types=fax'),
+    ]) {
+      expect(response.status).toBe(400);
+      expect(await response.json()).toMatchObject({ success: false, error: { code: 'VALIDATION_FAILED' } });
+    }
+
+    const anonymous = await app.request(`/api/v1/contacts/${encodeURIComponent(CONTACT)}/timeline`, undefined, testEnv.env);
+    expect(anonymous.status).toBe(401);
+  });
+});
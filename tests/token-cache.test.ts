@@ -0,0 +1,93 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { app } from '@/index';
+import { hashToken } from '@/lib/auth';
+import { clearTokenCache, invalidateCachedToken, LAST_USED_INTERVAL_SECONDS } from '@/lib/token-cache';
+import { fakeNeon } from './helpers/fake-neon';
+import { installApiToken, type FakeApiToken } from './helpers/fake-tokens';
+import { createTestEnv, type TestEnv } from './helpers/test-env';
+
+vi.mock('@neondatabase/serverless', async () => (await import('./helpers/fake-neon')).neonModule);
+
+describe('token cache', () => {
+  let testEnv: TestEnv;
+  let token: FakeApiToken;
+
+  const listTools = () =>
+    app.request(
+      '/mcp',
+      {
+        method: 'POST',
+        headers: { Authorization: 'Bearer staff-token', 'Content-Type': 'application/json' },
+        body: JSON.stringify({ method: 'tools/list' }),
+      },
+      testEnv.env
+    );
+  const lookups = () => fakeNeon.statements(/FROM api_tokens t/);
+  const lastUsedWrites = () => fakeNeon.statements(/UPDATE api_tokens SET last_used_at/);
+
+  beforeEach(() => {
+    fakeNeon.reset();
+    token = installApiToken();
+
+    testEnv = createTestEnv();
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('hashes tokens with SHA-256', async () => {
+    expect(await hashToken('abc')).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+  });
+
+  it('looks a token up once and shares it with other isolates through KV', async () => {
+    for (let i = 0; i < 3; i++) {
+      expect((await listTools()).status).toBe(200);
+    }
+    expect(lookups()).toHaveLength(1);
+    expect(testEnv.kv.store.has(`token:${await hashToken('staff-token')}`)).toBe(true);
+
+    // A cold isolate reads KV instead of the database
+    clearTokenCache();
+    expect((await listTools()).status).toBe(200);
+    expect(lookups()).toHaveLength(1);
+  });
+
+  it('stops accepting a token once it is invalidated', async () => {
+    expect((await listTools()).status).toBe(200);
+
+    token.status = 'revoked';
+    await invalidateCachedToken(testEnv.env, await hashToken('staff-token'));
+
+    expect((await listTools()).status).toBe(401);
+    expect(lookups()).toHaveLength(2);
+  });
+
+  it('never serves a token past its expiry', async () => {
+    token.expires_at = new Date(Date.now() + 10_000).toISOString();
+    expect((await listTools()).status).toBe(200);
+    // Too close to expiry for KV's minimum TTL
+    expect(testEnv.kv.store.has(`token:${await hashToken('staff-token')}`)).toBe(false);
+
+    vi.advanceTimersByTime(11_000);
+    token.status = 'revoked';
+    expect((await listTools()).status).toBe(401);
+  });
+
+  it('writes last_used_at at most once per token per interval', async () => {
+    for (let i = 0; i < 3; i++) await listTools();
+    await vi.waitFor(() => expect(lastUsedWrites()).toHaveLength(1));
+
+    // Another isolate sees the KV marker
+    clearTokenCache();
+    await listTools();
+
+    vi.advanceTimersByTime(LAST_USED_INTERVAL_SECONDS * 1000);
+    await listTools();
+    await vi.waitFor(() => expect(lastUsedWrites()).toHaveLength(2));
+  });
+});
@@ -0,0 +1,270 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { app } from '@/index';
+import { hashToken } from '@/lib/auth';
+import { fakeNeon } from './helpers/fake-neon';
+import { installApiTokenTable } from './helpers/fake-tokens';
+import { createTestEnv, type TestEnv } from './helpers/test-env';
+
+vi.mock('@neondatabase/serverless', async () => (await import('./helpers/fake-neon')).neonModule);
+
+const ADMIN_TOKEN_ID = '7d1c2a4e-3b5f-4c6d-8e9f-0a1b2c3d4e5f';
+const ADMIN_IDENTITY = '11111111-1111-4111-8111-111111111111';
+const OTHER_IDENTITY = '22222222-2222-4222-8222-222222222222';
+
+describe('API token management', () => {
+  let testEnv: TestEnv;
+
+  const request = (path: string, init: { method?: string; body?: unknown; token?: string } = {}) =>
+    app.request(
+      path,
+      {
+        method: init.method ?? 'GET',
+        headers: { Authorization: `Bearer ${init.token ?? 'admin-token'}`, 'Content-Type': 'application/json' },
+        body: init.body === undefined ? undefined : JSON.stringify(init.body),
+      },
+      testEnv.env
+    );
+  const tokenRows = () => fakeNeon.rows('api_tokens');
+  const audits = (action: string) => fakeNeon.rows('audit_logs').filter((row) => row.action === action);
+
+  beforeEach(async () => {
+    fakeNeon.reset();
+    fakeNeon.tables.api_tokens = [
+      {
+        id: ADMIN_TOKEN_ID,
+        identity_id: ADMIN_IDENTITY,
+        token_hash: await hashToken('admin-token'),
+        name: 'admin',
+        scopes: ['reception:admin', 'reception:history:*', 'reception:sms:send'],
+        status: 'active',
+        expires_at: null,
+        last_used_at: null,
+      },
+    ];
+
+    // api_tokens backed by the fake table: lookups by hash (authenticate) and by id, updates of
+    // active rows, each limited to managed tokens of the given identity (null for any)
+    const managed = (row: Record<string, any>, identityId: string | null) =>
+      (!identityId || row.identity_id === identityId) &&
+      row.scopes.some((scope: string) => scope.startsWith('reception:')) &&
+      !row.scopes.includes('*');
+    installApiTokenTable();
+    fakeNeon.on(/^INSERT INTO api_tokens/, ([identityId, tokenHash, name, scopes, expiresAt]) => {
+      const row = {
+        id: crypto.randomUUID(),
+        identity_id: identityId,
+        token_hash: tokenHash,
+        name,
+        scopes,
+        status: 'active',
+        expires_at: expiresAt,
+        last_used_at: null,
+      };
+      tokenRows().push(row);
+      return [{ ...row }];
+    });
+    fakeNeon.on(/FROM api_tokens WHERE id = \$1/, ([id, identityId]) =>
+      tokenRows().filter((row) => row.id === id && managed(row, identityId))
+    );
+    fakeNeon.on(/FROM api_tokens WHERE \(\$1::uuid/, ([identityId]) =>
+      [...tokenRows()].reverse().filter((row) => managed(row, identityId))
+    );
+    fakeNeon.on(/^UPDATE api_tokens SET/, ([id, identityId, value], sql) => {
+      const row = tokenRows().find((candidate) => candidate.id === id && candidate.status === 'active' && managed(candidate, identityId));
+      if (!row) return [];
+      // Re-scoping keeps the scopes of other services
+      if (sql.includes('SET scopes')) row.scopes = [...row.scopes.filter((scope: string) => !scope.startsWith('reception:')), ...value];
+      if (sql.includes('SET expires_at')) row.expires_at = value;
+      if (sql.includes("SET status = 'revoked'")) row.status = 'revoked';
+      return [{ ...row }];
+    });
+
+    testEnv = createTestEnv();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('mints a token that is shown once, stored hashed and usable right away', async () => {
+    const response = await request('/api/v1/tokens', {
+      method: 'POST',
+      body: { name: 'front desk tablet', scopes: ['reception:history:read', 'reception:history:read'] },
+    });
+
+    expect(response.status).toBe(201);
+    const { data } = await response.json<any>();
+    expect(data.token).toMatch(/^chittyos_[0-9a-f]{64}$/);
+    expect(data).toMatchObject({ identity_id: ADMIN_IDENTITY, scopes: ['reception:history:read'], status: 'active' });
+
+    const stored = tokenRows().find((row) => row.id === data.id);
+    expect(stored.token_hash).toBe(await hashToken(data.token));
+    expect(JSON.stringify(tokenRows())).not.toContain(data.token);
+
+    const [audit] = audits('token.created');
+    expect(audit).toMatchObject({ identity_id: ADMIN_IDENTITY, resource_type: 'api_token', resource_id: data.id });
+    expect(audit.details).not.toContain(data.token);
+    expect(audit.details).not.toContain(stored.token_hash);
+
+    const lines = await request('/api/v1/phone-lines', { token: data.token });
+    expect(lines.status).toBe(403);
+    expect((await request('/api/v1/calls', { token: data.token })).status).not.toBe(401);
+  });
+
+  it('refuses unknown scopes, past expiries and scopes the caller does not hold', async () => {
+    const invalid = await request('/api/v1/tokens', {
+      method: 'POST',
+      body: { name: 'bad', scopes: ['reception:everything', '*', 'billing:invoices:read'], expiresAt: '2020-01-01T00:00:00Z' },
+    });
+    expect(invalid.status).toBe(400);
+    expect((await invalid.json<any>()).error.fields.map((field: any) => field.field)).toEqual([
+      'scopes.0',
+      'scopes.1',
+      'scopes.2',
+      'expiresAt',
+    ]);
+
+    const escalation = await request('/api/v1/tokens', {
+      method: 'POST',
+      body: { name: 'too much', scopes: ['reception:voicemails:*'] },
+    });
+    expect(escalation.status).toBe(403);
+    expect((await escalation.json<any>()).error.missingScopes).toEqual([
+      'reception:voicemails:read',
+      'reception:voicemails:write',
+    ]);
+    expect(tokenRows()).toHaveLength(1);
+  });
+
+  it('re-scopes, re-expires and lists tokens with last_used_at', async () => {
+    const { data: minted } = await (
+      await request('/api/v1/tokens', { method: 'POST', body: { name: 'reports', scopes: ['reception:history:read'] } })
+    ).json<any>();
+
+    // Cached by a first use, then re-scoped
+    expect((await request('/api/v1/calls', { token: minted.token })).status).toBe(200);
+    const rescoped = await request(`/api/v1/tokens/${minted.id}/scopes`, {
+      method: 'PUT',
+      body: { scopes: ['reception:sms:send'] },
+    });
+    expect(rescoped.status).toBe(200);
+    expect((await rescoped.json<any>()).data).not.toHaveProperty('token_hash');
+    expect((await request('/api/v1/calls', { token: minted.token })).status).toBe(403);
+
+    const expiresAt = new Date(Date.now() + 86400_000).toISOString();
+    const reexpired = await request(`/api/v1/tokens/${minted.id}/expiry`, { method: 'PUT', body: { expiresAt } });
+    expect((await reexpired.json<any>()).data.expires_at).toBe(expiresAt);
+
+    const list = await (await request('/api/v1/tokens?limit=10')).json<any>();
+    expect(list.data.map((token: any) => token.id)).toEqual([minted.id, ADMIN_TOKEN_ID]);
+    expect(list.data[1]).toHaveProperty('last_used_at');
+    expect(audits('token.scopes_updated')).toHaveLength(1);
+    expect(audits('token.expiry_updated')).toHaveLength(1);
+  });
+
+  it('revokes a token immediately, even while cached', async () => {
+    const { data: minted } = await (
+      await request('/api/v1/tokens', { method: 'POST', body: { name: 'kiosk', scopes: ['reception:history:read'] } })
+    ).json<any>();
+    expect((await request('/api/v1/calls', { token: minted.token })).status).toBe(200);
+
+    const revoked = await request(`/api/v1/tokens/${minted.id}/revoke`, { method: 'POST' });
+    expect(revoked.status).toBe(200);
+    expect((await revoked.json<any>()).data.status).toBe('revoked');
+    expect((await request('/api/v1/calls', { token: minted.token })).status).toBe(401);
+    expect(audits('token.revoked')).toHaveLength(1);
+
+    expect((await request(`/api/v1/tokens/${minted.id}/revoke`, { method: 'POST' })).status).toBe(409);
+    expect((await request('/api/v1/tokens/missing/revoke', { method: 'POST' })).status).toBe(404);
+    expect((await request(`/api/v1/tokens/${crypto.randomUUID()}/revoke`, { method: 'POST' })).status).toBe(404);
+  });
+
+  it("mints and manages only the caller's tokens without reception:tokens:any_identity", async () => {
+    const foreignId = crypto.randomUUID();
+    tokenRows().push({
+      id: foreignId,
+      identity_id: OTHER_IDENTITY,
+      token_hash: 'b'.repeat(64),
+      name: 'someone else',
+      scopes: ['reception:history:read'],
+      status: 'active',
+      expires_at: null,
+      last_used_at: null,
+    });
+
+    const mintForOther = await request('/api/v1/tokens', {
+      method: 'POST',
+      body: { name: 'theirs', scopes: ['reception:history:read'], identityId: OTHER_IDENTITY },
+    });
+    expect(mintForOther.status).toBe(403);
+    expect((await mintForOther.json<any>()).error.missingScopes).toEqual(['reception:tokens:any_identity']);
+
+    expect((await (await request('/api/v1/tokens')).json<any>()).data.map((token: any) => token.id)).toEqual([ADMIN_TOKEN_ID]);
+    expect((await request(`/api/v1/tokens?identityId=${OTHER_IDENTITY}`)).status).toBe(403);
+    expect((await request(`/api/v1/tokens/${foreignId}`)).status).toBe(404);
+    expect((await request(`/api/v1/tokens/${foreignId}/scopes`, { method: 'PUT', body: { scopes: ['reception:sms:send'] } })).status).toBe(404);
+    expect((await request(`/api/v1/tokens/${foreignId}/revoke`, { method: 'POST' })).status).toBe(404);
+    expect(tokenRows()[1]).toMatchObject({ scopes: ['reception:history:read'], status: 'active' });
+
+    tokenRows()[0].scopes.push('reception:tokens:any_identity');
+    expect((await request(`/api/v1/tokens/${foreignId}`)).status).toBe(200);
+    const minted = await request('/api/v1/tokens', {
+      method: 'POST',
+      body: { name: 'theirs', scopes: ['reception:history:read'], identityId: OTHER_IDENTITY },
+    });
+    expect(minted.status).toBe(201);
+    expect((await minted.json<any>()).data.identity_id).toBe(OTHER_IDENTITY);
+  });
+
+  it("keeps other services' scopes and refuses changes to tokens above the caller", async () => {
+    const sharedId = crypto.randomUUID();
+    const strongerId = crypto.randomUUID();
+    tokenRows().push(
+      {
+        id: sharedId,
+        identity_id: ADMIN_IDENTITY,
+        token_hash: 'c'.repeat(64),
+        name: 'shared',
+        scopes: ['evidence:cases:read', 'reception:history:read'],
+        status: 'active',
+        expires_at: null,
+        last_used_at: null,
+      },
+      {
+        id: strongerId,
+        identity_id: ADMIN_IDENTITY,
+        token_hash: 'd'.repeat(64),
+        name: 'stronger',
+        scopes: ['reception:*'],
+        status: 'active',
+        expires_at: null,
+        last_used_at: null,
+      }
+    );
+    const expiresAt = new Date(Date.now() + 86400_000).toISOString();
+
+    const rescoped = await request(`/api/v1/tokens/${sharedId}/scopes`, { method: 'PUT', body: { scopes: ['reception:sms:send'] } });
+    expect(rescoped.status).toBe(200);
+    expect((await rescoped.json<any>()).data.scopes).toEqual(['evidence:cases:read', 'reception:sms:send']);
+
+    const sharedExpiry = await request(`/api/v1/tokens/${sharedId}/expiry`, { method: 'PUT', body: { expiresAt } });
+    expect(sharedExpiry.status).toBe(403);
+
+    // The caller lacks most of reception:*, so it may neither narrow nor re-expire that token
+    const narrowed = await request(`/api/v1/tokens/${strongerId}/scopes`, { method: 'PUT', body: { scopes: ['reception:sms:send'] } });
+    expect(narrowed.status).toBe(403);
+    expect((await narrowed.json<any>()).error.missingScopes).toContain('reception:recordings:read');
+    expect((await request(`/api/v1/tokens/${strongerId}/expiry`, { method: 'PUT', body: { expiresAt } })).status).toBe(403);
+    expect(tokenRows()[2]).toMatchObject({ scopes: ['reception:*'], expires_at: null });
+
+    expect((await request('/api/v1/tokens/not-a-token-id')).status).toBe(404);
+    expect((await request('/api/v1/tokens/not-a-token-id/expiry', { method: 'PUT', body: { expiresAt } })).status).toBe(404);
+  });
+
+  it('requires the admin scope', async () => {
+    tokenRows()[0].scopes = ['reception:history:read'];
+    expect((await request('/api/v1/tokens')).status).toBe(403);
+  });
+});
@@ -0,0 +1,222 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { app } from '@/index';
+import { handleToolCall } from '@/mcp/server';
+import { WHISPER_MODEL } from '@/lib/transcription';
+import { handleWebhookQueue } from '@/lib/webhook-queue';
+import { replayWebhookEvent } from '@/lib/webhook-replay';
+import { fixture } from './fixtures/openphone';
+import { fakeNeon } from './helpers/fake-neon';
+import { installApiToken, type FakeApiToken } from './helpers/fake-tokens';
+import { FakeOpenPhoneServer } from './helpers/fake-openphone';
+import { FakeServices } from './helpers/fake-services';
+import { createTestEnv, TEST_WEBHOOK_SECRET, type TestEnv } from './helpers/test-env';
+
+vi.mock('@neondatabase/serverless', async () => (await import('./helpers/fake-neon')).neonModule);
+
+const FAKE_API_URL = 'http://fake-openphone.local/v1';
+
+const WHISPER_RESPONSE = {
+  text: 'Hi, front desk. My key card stopped working. Sorry about that, I will reset it.',
+  transcription_info: { language: 'en', duration: 9 },
+  segments: [
+    { start: 0, end: 1.2, text: ' Hi, front desk.' },
+    { start: 3.1, end: 5.4, text: ' My key card stopped working.' },
+    { start: 7.0, end: 9.0, text: ' Sorry about that, I will reset it.' },
+  ],
+};
+
+/**
+ * reception_call_recordings and reception_transcripts rows kept by the generic INSERT capture
+ */
+function installTranscriptStore(): void {
+  const recordings = () => fakeNeon.rows('reception_call_recordings');
+  const transcripts = () => fakeNeon.rows('reception_transcripts');
+
+  fakeNeon.on(/^UPDATE reception_call_recordings SET status = \$2/, ([id, status, storageKey, contentType, sizeBytes]) => {
+    const row = recordings().find((candidate) => candidate.id === id);
+    if (row) Object.assign(row, { status, storage_key: storageKey, content_type: contentType, size_bytes: sizeBytes });
+    return row ? [{ ...row }] : [];
+  });
+  fakeNeon.on(/^SELECT \* FROM reception_call_recordings r WHERE \(r.call_id = \$1 OR r.voicemail_id/, ([id]) =>
+    recordings().filter((row) => row.call_id === id || row.voicemail_id === id).map((row) => ({ ...row }))
+  );
+  fakeNeon.on(/^SELECT \* FROM reception_transcripts WHERE call_id = \$1 OR voicemail_id/, ([id]) =>
+    transcripts().filter((row) => row.call_id === id || row.voicemail_id === id).map((row) => ({ ...row }))
+  );
+}
+
+describe('recording transcription', () => {
+  let services: FakeServices;
+  let openphone: FakeOpenPhoneServer;
+  let testEnv: TestEnv;
+  let aiRun: ReturnType<typeof vi.fn>;
+  let token: FakeApiToken;
+
+  const settle = async () => {
+    await openphone.settle();
+    await testEnv.queue.drain((batch) => handleWebhookQueue(batch, testEnv.env));
+  };
+  const whisperCalls = () => aiRun.mock.calls.filter(([model]) => model === WHISPER_MODEL);
+
+  beforeEach(() => {
+    fakeNeon.reset();
+    token = installApiToken(['reception:history:read']);
+    fakeNeon.on(/^UPDATE reception_calls SET status/, () => [{ id: 'call-row', identity_id: null, metadata: {} }]);
+    installTranscriptStore();
+
+    services = new FakeServices();
+    aiRun = vi.fn(async (model: string) => (model === WHISPER_MODEL ? WHISPER_RESPONSE : { response: '' }));
+    testEnv = createTestEnv({ OPENPHONE_API_BASE_URL: FAKE_API_URL, AI: { run: aiRun } as unknown as Ai });
+    openphone = new FakeOpenPhoneServer({
+      apiKey: testEnv.env.OPENPHONE_API_KEY,
+      webhookSecret: TEST_WEBHOOK_SECRET,
+      deliver: (request) => app.request(request, undefined, testEnv.env),
+      origin: 'http://fake-openphone.local',
+    });
+
+    vi.stubGlobal('fetch', (input: RequestInfo | URL, init?: RequestInit) => {
+      const request = new Request(input, init);
+      return new URL(request.url).host === 'fake-openphone.local' ? openphone.fetch(request) : services.fetch(input, init);
+    });
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('keeps the provider transcript with its speakers without running Whisper', async () => {
+    const call = await openphone.receiveCall('+13125550147');
+    await settle();
+
+    expect(fakeNeon.rows('reception_transcripts')).toEqual([
+      expect.objectContaining({
+        call_id: call.id,
+        source: 'provider',
+        speaker_detection: 'provider',
+        text: 'Hello, thanks for calling.',
+      }),
+    ]);
+    expect(JSON.parse(fakeNeon.rows('reception_transcripts')[0].segments)).toEqual([
+      { start: 0, end: 2, speaker: call.to[0].phoneNumber, text: 'Hello, thanks for calling.' },
+    ]);
+    expect(fakeNeon.statements(/^UPDATE reception_calls SET transcription/).map((statement) => statement.params)).toEqual([
+      [call.id, 'Hello, thanks for calling.'],
+    ]);
+    expect(whisperCalls()).toEqual([]);
+  });
+
+  it('runs Whisper over the archived recording when the provider has no transcript', async () => {
+    openphone.script({ match: 'GET /call-transcripts', status: 404, times: Infinity });
+    const call = await openphone.receiveCall('+13125550147');
+    await settle();
+
+    expect(whisperCalls()).toHaveLength(1);
+    expect(typeof whisperCalls()[0][1].audio).toBe('string');
+
+    const [recording] = fakeNeon.rows('reception_call_recordings');
+    const [transcript] = fakeNeon.rows('reception_transcripts');
+    expect(transcript).toMatchObject({
+      call_id: call.id,
+      recording_id: recording.id,
+      source: 'whisper',
+      model: WHISPER_MODEL,
+      language: 'en',
+      speaker_detection: 'pauses',
+      text: 'Hi, front desk. My key card stopped working. Sorry about that, I will reset it.',
+    });
+    // Pauses of 1.5 s or more hand the turn over: the answering line speaks first
+    expect(JSON.parse(transcript.segments).map((segment: any) => segment.speaker)).toEqual([
+      call.to[0].phoneNumber,
+      call.from.phoneNumber,
+      call.to[0].phoneNumber,
+    ]);
+  });
+
+  it('returns the transcript on the call detail API and in the conversation context tool', async () => {
+    const call = await openphone.receiveCall('+13125550147');
+    await settle();
+    const callRow = {
+      id: 'call-row',
+      identity_id: 'identity-staff',
+      call_id: call.id,
+      from_number: call.from.phoneNumber,
+      to_number: call.to[0].phoneNumber,
+      transcription: 'Hello, thanks for calling.',
+      created_at: new Date().toISOString(),
+    };
+    fakeNeon.on(/^SELECT \* FROM reception_calls WHERE call_id = \$1/, ([id, identityId]) =>
+      id === call.id && (!identityId || identityId === callRow.identity_id) ? [callRow] : []
+    );
+
+    const response = await app.request(
+      `/api/v1/calls/${call.id}`,
+      { headers: { Authorization: 'Bearer staff-token' } },
+      testEnv.env
+    );
+    expect(response.status).toBe(200);
+    const body: any = await response.json();
+    expect(body.data).toMatchObject({
+      call_id: call.id,
+      transcript: { source: 'provider', text: 'Hello, thanks for calling.', speakerDetection: 'provider' },
+      recording: { status: 'stored', contentType: 'audio/mpeg', url: `/api/v1/calls/${call.id}/recording` },
+    });
+
+    const missing = await app.request('/api/v1/calls/ACunknown', { headers: { Authorization: 'Bearer staff-token' } }, testEnv.env);
+    expect(missing.status).toBe(404);
+
+    // Calls of other identities need reception:admin
+    token.identity_id = 'identity-other';
+    const foreign = await app.request(`/api/v1/calls/${call.id}`, { headers: { Authorization: 'Bearer staff-token' } }, testEnv.env);
+    expect(foreign.status).toBe(404);
+    token.scopes.push('reception:admin');
+    const admin = await app.request(`/api/v1/calls/${call.id}`, { headers: { Authorization: 'Bearer staff-token' } }, testEnv.env);
+    expect(admin.status).toBe(200);
+
+    fakeNeon.on(/FROM reception_calls c LEFT JOIN reception_transcripts t/, ([, , , identityId]) =>
+      !identityId || identityId === callRow.identity_id
+        ? [{ ...callRow, type: 'call', transcript_segments: fakeNeon.rows('reception_transcripts')[0].segments, transcript_source: 'provider' }]
+        : []
+    );
+    const getContext = (identityId: string, scopes: string[] = ['reception:history:read']) =>
+      handleToolCall('get_conversation_context', { phoneNumber: call.from.phoneNumber }, testEnv.env, {
+        scopes,
+        tokenId: 'token-1',
+        identityId,
+      });
+    const context = await getContext('identity-staff');
+    expect(context.interactions).toEqual([
+      expect.objectContaining({ type: 'call', transcription: 'Hello, thanks for calling.', transcript_source: 'provider' }),
+    ]);
+    expect((await getContext('identity-other')).interactions).toEqual([]);
+    expect((await getContext('identity-other', ['reception:history:read', 'reception:admin'])).interactions).toHaveLength(1);
+  });
+
+  it('transcribes voicemails without a provider transcription before triage', async () => {
+    services.respond('storage.openphone.co', 'GET /voicemails/', () =>
+      new Response(new Uint8Array([0x49, 0x44, 0x33, 0x04]), { headers: { 'Content-Type': 'audio/mpeg' } })
+    );
+    const event = fixture('voicemail.created');
+    delete (event.data.object as { transcription?: string }).transcription;
+
+    await replayWebhookEvent(
+      (request) => app.request(request, undefined, testEnv.env),
+      event,
+      TEST_WEBHOOK_SECRET,
+      'http://localhost/webhooks/openphone'
+    );
+    await testEnv.queue.drain((batch) => handleWebhookQueue(batch, testEnv.env));
+
+    expect(fakeNeon.rows('reception_transcripts')).toEqual([
+      expect.objectContaining({ voicemail_id: 'VMf1a3c5e7b9d14f2a4c6e8b0d2f4a6c8e', source: 'whisper', speaker_detection: 'single' }),
+    ]);
+    // Triage saw the Whisper text
+    const triagePrompt = aiRun.mock.calls.find(([model]) => model !== WHISPER_MODEL)?.[1];
+    expect(JSON.stringify(triagePrompt)).toContain('My key card stopped working.');
+    expect(fakeNeon.rows('reception_voicemails')).toEqual([
+      expect.objectContaining({ transcription: WHISPER_RESPONSE.text }),
+    ]);
+  });
+});
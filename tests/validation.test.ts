@@ -0,0 +1,135 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { app } from '@/index';
+import { fakeNeon } from './helpers/fake-neon';
+import { installApiToken } from './helpers/fake-tokens';
+import { FakeOpenPhoneServer } from './helpers/fake-openphone';
+import { FakeServices } from './helpers/fake-services';
+import { createTestEnv, TEST_WEBHOOK_SECRET, type TestEnv } from './helpers/test-env';
+
+vi.mock('@neondatabase/serverless', async () => (await import('./helpers/fake-neon')).neonModule);
+
+const FAKE_API_URL = 'http://fake-openphone.local/v1';
+
+describe('request validation', () => {
+  let openphone: FakeOpenPhoneServer;
+  let testEnv: TestEnv;
+
+  const post = (path: string, body: unknown) =>
+    app.request(
+      path,
+      {
+        method: 'POST',
+        headers: { Authorization: 'Bearer staff-token', 'Content-Type': 'application/json' },
+        body: typeof body === 'string' ? body : JSON.stringify(body),
+      },
+      testEnv.env
+    );
+
+  beforeEach(() => {
+    fakeNeon.reset();
+    installApiToken(['reception:sms:send', 'reception:calls:write', 'reception:voicemails:read', 'reception:history:read']);
+
+    const services = new FakeServices();
+    testEnv = createTestEnv({ OPENPHONE_API_BASE_URL: FAKE_API_URL });
+    openphone = new FakeOpenPhoneServer({
+      apiKey: testEnv.env.OPENPHONE_API_KEY,
+      webhookSecret: TEST_WEBHOOK_SECRET,
+      deliver: async () => new Response(null, { status: 200 }),
+      origin: 'http://fake-openphone.local',
+    });
+
+    vi.stubGlobal('fetch', (input: RequestInfo | URL, init?: RequestInit) => {
+      const request = new Request(input, init);
+      return new URL(request.url).host === 'fake-openphone.local' ? openphone.fetch(request) : services.fetch(input, init);
+    });
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('rejects a malformed message before it reaches OpenPhone', async () => {
+    const response = await post('/api/v1/send-message', { from: '+13125550100', to: ['front desk'], content: '' });
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({
+      success: false,
+      error: {
+        code: 'VALIDATION_FAILED',
+        message: 'Invalid to.0, content',
+        fields: [
+          { field: 'to.0', message: 'Must be a phone number in E.164 format, e.g. +13125550147' },
+          { field: 'content', message: expect.any(String) },
+        ],
+      },
+    });
+    expect(openphone.messages.size).toBe(0);
+  });
+
+  it('sends to E.164-normalized numbers', async () => {
+    const response = await post('/api/v1/send-message', {
+      from: '(312) 555-0100',
+      to: ['312.555.0147'],
+      content: 'Your check-in code is 4821',
+    });
+
+    expect(response.status).toBe(200);
+    const [message] = [...openphone.messages.values()];
+    expect(message).toMatchObject({ from: { phoneNumber: '+13125550100' }, to: [{ phoneNumber: '+13125550147' }] });
+    const [record] = fakeNeon.rows('reception_messages');
+    expect(record).toMatchObject({ from_number: '+13125550100', to_number: '+13125550147' });
+  });
+
+  it('reports malformed JSON and missing bodies', async () => {
+    const malformed = await post('/api/v1/make-call', '{"from": ');
+    expect(malformed.status).toBe(400);
+    expect(await malformed.json()).toMatchObject({
+      error: { code: 'VALIDATION_FAILED', fields: [{ field: 'body', message: 'Malformed JSON' }] },
+    });
+
+    const empty = await post('/api/v1/make-call', '');
+    expect((await empty.json<any>()).error.fields.map((field: any) => field.field)).toEqual(['from', 'to']);
+  });
+
+  it('validates query strings', async () => {
+    const response = await app.request(
+      '/api/v1/voicemails?limit=ten&urgency=whenever',
+      { headers: { Authorization: 'Bearer staff-token' } },
+      testEnv.env
+    );
+
+    expect(response.status).toBe(400);
+    expect((await response.json<any>()).error.fields.map((field: any) => field.field)).toEqual(['limit', 'urgency']);
+  });
+
+  it('publishes MCP input schemas and validates tool arguments', async () => {
+    const list = await (await post('/mcp', { method: 'tools/list' })).json<any>();
+    const sendSms = list.tools.find((tool: any) => tool.name === 'send_sms');
+    expect(sendSms.inputSchema).toMatchObject({
+      type: 'object',
+      required: ['from', 'to', 'content'],
+      properties: { to: { type: 'array', items: { type: 'string' } } },
+    });
+    expect(sendSms.inputSchema.$schema).toBeUndefined();
+
+    const call = await post('/mcp', {
+      method: 'tools/call',
+      params: { name: 'get_conversation_context', arguments: { phoneNumber: 'unknown', days: 90 } },
+    });
+    expect(call.status).toBe(400);
+    expect((await call.json<any>()).error).toMatchObject({
+      code: 'VALIDATION_FAILED',
+      fields: [{ field: 'phoneNumber' }, { field: 'days' }],
+    });
+  });
+
+  it('validates Sona chat messages', async () => {
+    const response = await post('/sona/chat', { message: '   ', sessionId: 'test-1' });
+
+    expect(response.status).toBe(400);
+    expect((await response.json<any>()).error.fields).toEqual([{ field: 'message', message: expect.any(String) }]);
+  });
+});
@@ -0,0 +1,513 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { app } from '@/index';
+import { handleWebhookQueue } from '@/lib/webhook-queue';
+import { replayWebhookEvent, withFreshEventId } from '@/lib/webhook-replay';
+import type { WebhookEventType } from '@/types/openphone';
+import { fixture, openPhoneFixtures } from './fixtures/openphone';
+import { fakeNeon } from './helpers/fake-neon';
+import { FakeServices } from './helpers/fake-services';
+import { twilioFixture } from './fixtures/twilio';
+import { signTwilioWebhook } from '@/lib/twilio';
+import {
+  createTestEnv,
+  TEST_TWILIO_AUTH_TOKEN,
+  TEST_TWILIO_WEBHOOK_URL,
+  TEST_WEBHOOK_SECRET,
+  type TestEnv,
+} from './helpers/test-env';
+
+vi.mock('@neondatabase/serverless', async () => (await import('./helpers/fake-neon')).neonModule);
+
+const WEBHOOK_URL = 'http://localhost/webhooks/openphone';
+
+describe('OpenPhone webhook handler chain', () => {
+  let services: FakeServices;
+  let testEnv: TestEnv;
+
+  const deliver = (event: Parameters<typeof replayWebhookEvent>[1], secret = TEST_WEBHOOK_SECRET) =>
+    replayWebhookEvent((request) => app.request(request, undefined, testEnv.env), event, secret, WEBHOOK_URL);
+
+  const drain = () => testEnv.queue.drain((batch) => handleWebhookQueue(batch, testEnv.env));
+
+  beforeEach(() => {
+    fakeNeon.reset();
+    services = new FakeServices();
+    vi.stubGlobal('fetch', services.fetch);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    testEnv = createTestEnv();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it.each(Object.keys(openPhoneFixtures) as WebhookEventType[])('acknowledges and processes %s', async (type) => {
+    const event = fixture(type);
+
+    const response = await deliver(event);
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({ success: true, received: event.id, queued: true });
+    expect(fakeNeon.webhookEvents.get(event.id)?.status).toBe('queued');
+
+    await drain();
+
+    expect(fakeNeon.webhookEvents.get(event.id)).toMatchObject({ status: 'processed', attempts: 1 });
+  });
+
+  it('rejects deliveries signed with the wrong secret and audits the reason', async () => {
+    const response = await deliver(fixture('call.initiated'), 'd3Jvbmctc2VjcmV0');
+
+    expect(response.status).toBe(401);
+    expect(await response.json()).toMatchObject({ reason: 'signature_mismatch' });
+    expect(fakeNeon.webhookEvents.size).toBe(0);
+    expect(testEnv.queue.pending).toHaveLength(0);
+
+    const [audit] = fakeNeon.rows('audit_logs');
+    expect(audit).toMatchObject({ action: 'webhook.rejected', resource_type: 'webhook' });
+    expect(JSON.parse(audit.details)).toMatchObject({ reason: 'signature_mismatch' });
+  });
+
+  it('stores an inbound call and mints an identity for an unknown caller', async () => {
+    await deliver(fixture('call.initiated'));
+    await drain();
+
+    const [call] = fakeNeon.rows('reception_calls');
+    expect(call).toMatchObject({
+      call_id: 'ACa1f0b7d0e8c24a5bb8f1a5e1c0d2a001',
+      direction: 'inbound',
+      from_number: '+13125550147',
+      to_number: '+13125550100',
+    });
+    expect(services.to('id.chitty.cc').some((request) => request.path === '/api/v2/chittyid/mint')).toBe(true);
+    expect(await testEnv.kv.get('call:ACa1f0b7d0e8c24a5bb8f1a5e1c0d2a001', 'json')).toMatchObject({
+      routingDecision: { action: 'answer' },
+    });
+  });
+
+  it('acknowledges provider retries as duplicates without reprocessing', async () => {
+    const event = fixture('message.created');
+
+    await deliver(event);
+    await drain();
+    const retry = await deliver(event);
+
+    expect(await retry.json()).toMatchObject({ success: true, duplicate: true });
+    expect(testEnv.queue.pending).toHaveLength(0);
+    expect(fakeNeon.rows('reception_messages')).toHaveLength(1);
+    expect(services.to('id.chitty.cc').filter((request) => request.path === '/api/v2/chittyid/mint')).toHaveLength(1);
+  });
+
+  it('retries failed processing and dead-letters after the maximum attempts', async () => {
+    testEnv = createTestEnv({ WEBHOOK_MAX_ATTEMPTS: '3' });
+    fakeNeon.failOn(/^INSERT INTO reception_calls/);
+    const event = fixture('call.initiated');
+
+    await deliver(event);
+    await drain();
+
+    expect(testEnv.queue.retried).toHaveLength(2);
+    expect(fakeNeon.webhookEvents.get(event.id)).toMatchObject({ status: 'dead_lettered', attempts: 3 });
+
+    const [deadLetter] = fakeNeon.deadLetters.values();
+    expect(deadLetter).toMatchObject({ event_id: event.id, status: 'pending' });
+    expect(services.to('chronicle.chitty.cc').some((request) => request.body?.action === 'webhook.dead_lettered')).toBe(true);
+  });
+
+  it('reuses the ChittyID minted by a failed attempt when the event is retried', async () => {
+    let failures = 1;
+    fakeNeon.on(/^INSERT INTO reception_messages/, () => {
+      if (failures-- > 0) throw new Error('connection terminated unexpectedly');
+      return [{ id: 'message-row' }];
+    });
+    const event = fixture('message.created');
+
+    await deliver(event);
+    await drain();
+
+    expect(testEnv.queue.retried).toHaveLength(1);
+    expect(fakeNeon.webhookEvents.get(event.id)).toMatchObject({ status: 'processed', attempts: 2 });
+    expect(services.to('id.chitty.cc').filter((request) => request.path === '/api/v2/chittyid/mint')).toHaveLength(1);
+    const [, retried] = fakeNeon.statements(/^INSERT INTO reception_messages/);
+    expect(retried.params[0]).toBe(fakeNeon.webhookEvents.get(event.id)?.minted_identity_id);
+  });
+
+  it('does not count ledger outages against an event', async () => {
+    testEnv = createTestEnv({ WEBHOOK_MAX_ATTEMPTS: '2' });
+    let outages = 2;
+    fakeNeon.on(/^UPDATE reception_webhook_events SET status = 'processing'/, () => {
+      if (outages-- > 0) throw new Error('connection terminated unexpectedly');
+      const entry = [...fakeNeon.webhookEvents.values()][0];
+      Object.assign(entry, { status: 'processing', attempts: entry.attempts + 1 });
+      return [{ ...entry }];
+    });
+    fakeNeon.failOn(/^INSERT INTO reception_calls/);
+    const event = fixture('call.initiated');
+
+    await deliver(event);
+    await drain();
+
+    // Two outages, then two real attempts before the event is dead-lettered
+    expect(testEnv.queue.retried).toHaveLength(3);
+    expect(fakeNeon.webhookEvents.get(event.id)).toMatchObject({ status: 'dead_lettered', attempts: 2 });
+  });
+
+  it('does not re-run handlers when recording a processed event fails', async () => {
+    fakeNeon.failOn(/^UPDATE reception_webhook_events SET status = 'processed'/);
+    const event = fixture('voicemail.created');
+
+    await deliver(event);
+    await drain();
+
+    expect(testEnv.queue.retried).toHaveLength(0);
+    expect(fakeNeon.webhookEvents.get(event.id)).toMatchObject({ status: 'processing', attempts: 1 });
+    expect(fakeNeon.rows('reception_callback_tasks')).toHaveLength(1);
+    expect(console.error).toHaveBeenCalledWith('Webhook event processed but not recorded:', expect.objectContaining({ eventId: event.id }));
+  });
+
+  it('processes a replayed event once it has a fresh ID', async () => {
+    const event = fixture('message.created');
+
+    await deliver(event);
+    await drain();
+
+    const replay = withFreshEventId(event, 'test');
+    const response = await deliver(replay);
+    await drain();
+
+    expect(await response.json()).toMatchObject({ queued: true });
+    expect(fakeNeon.webhookEvents.get(replay.id)?.status).toBe('processed');
+  });
+
+  it('runs the post-call pipeline for call.completed', async () => {
+    testEnv = createTestEnv({
+      AI: {
+        run: async () => ({
+          response: '{"summary": "Guest asked about April availability.", "actionItems": ["Send River North listing"]}',
+        }),
+      } as unknown as Ai,
+    });
+    services.respond('api.openphone.com', 'GET /v1/calls/', () =>
+      Response.json({ data: { answeredAt: '2025-03-04T15:02:14.000Z', completedAt: '2025-03-04T15:07:41.000Z' } })
+    );
+    // The row call.initiated stored, with the direction OpenPhone's 'incoming' maps to
+    fakeNeon.on(/^UPDATE reception_calls SET status/, ([callId]) =>
+      fakeNeon.rows('reception_calls').filter((row) => row.call_id === callId && row.direction === 'inbound')
+    );
+    fakeNeon.on(/^INSERT INTO reception_sessions/, () => [{ id: 'session-1' }]);
+
+    await deliver(fixture('call.initiated'));
+    await deliver(fixture('call.completed'));
+    await drain();
+    const [{ identity_id: identityId }] = fakeNeon.rows('reception_calls');
+
+    const [update] = fakeNeon.statements(/^UPDATE reception_calls SET status/);
+    expect(update.params).toEqual([
+      'ACa1f0b7d0e8c24a5bb8f1a5e1c0d2a001',
+      'completed',
+      331,
+      '2025-03-04T15:02:14.000Z',
+      '2025-03-04T15:07:41.000Z',
+      'https://storage.openphone.co/recordings/RCd3e5f7a9b1c34d6e8f0a2b4c6d8e0f1a.mp3',
+    ]);
+
+    const [attach] = fakeNeon.statements(/^UPDATE reception_sessions SET ai_summary/);
+    expect(attach.params[0]).toBe('session-1');
+    expect(attach.params[1]).toBe('Guest asked about April availability.');
+    expect(JSON.parse(attach.params[2])).toMatchObject({ actionItems: ['Send River North listing'] });
+
+    const chronicle = services.to('chronicle.chitty.cc').find((request) => request.body?.action === 'call.completed');
+    expect(chronicle?.body).toMatchObject({ identityId, resourceId: 'ACa1f0b7d0e8c24a5bb8f1a5e1c0d2a001' });
+  });
+
+  it('persists voicemails, flags emergencies and opens a callback task', async () => {
+    await deliver(fixture('voicemail.created'));
+    await drain();
+
+    const [voicemail] = fakeNeon.rows('reception_voicemails');
+    expect(voicemail).toMatchObject({
+      voicemail_id: 'VMf1a3c5e7b9d14f2a4c6e8b0d2f4a6c8e',
+      from_number: '+13125550199',
+      urgency: 'emergency',
+      is_emergency: true,
+    });
+
+    const [task] = fakeNeon.rows('reception_callback_tasks');
+    expect(task).toMatchObject({ voicemail_id: voicemail.id, phone_number: '+13125550199', priority: 'emergency' });
+    const slaMinutes = (new Date(task.due_at).getTime() - Date.now()) / 60000;
+    expect(slaMinutes).toBeGreaterThan(14);
+    expect(slaMinutes).toBeLessThanOrEqual(15);
+
+    const chronicle = services.to('chronicle.chitty.cc').find((request) => request.body?.action === 'voicemail.received');
+    expect(chronicle?.body.severity).toBe('critical');
+  });
+
+  it('opens the callback task when a retry finds the voicemail already stored', async () => {
+    let failures = 1;
+    fakeNeon.on(/^UPDATE reception_voicemails SET recording_url/, () => {
+      if (failures-- > 0) throw new Error('connection terminated unexpectedly');
+      return [];
+    });
+    fakeNeon.on(/^SELECT id FROM reception_voicemails WHERE voicemail_id/, ([voicemailId]) =>
+      fakeNeon.rows('reception_voicemails').filter((row) => row.voicemail_id === voicemailId)
+    );
+
+    await deliver(fixture('voicemail.created'));
+    await drain();
+
+    expect(testEnv.queue.retried).toHaveLength(1);
+    expect(fakeNeon.rows('reception_voicemails')).toHaveLength(1);
+    const [voicemail] = fakeNeon.rows('reception_voicemails');
+    expect(fakeNeon.rows('reception_callback_tasks')).toEqual([expect.objectContaining({ voicemail_id: voicemail.id })]);
+  });
+
+  it('records delivery status transitions from message.updated', async () => {
+    fakeNeon.on(/^UPDATE reception_messages SET/, () => [
+      { id: 'message-row', identity_id: 'identity-1', direction: 'outbound', status: 'delivered' },
+    ]);
+
+    await deliver(fixture('message.updated'));
+    await drain();
+
+    const [update] = fakeNeon.statements(/^UPDATE reception_messages SET/);
+    expect(update.params.slice(0, 3)).toEqual(['ACm2c4e6a8b0d24f6a8c0e2b4d6f8a0c2e', 'delivered', 4]);
+    expect(JSON.parse(update.params[3])).toEqual({
+      status: 'delivered',
+      at: '2025-03-04T16:25:39.000Z',
+      eventId: 'EV9a1c3e5b7d9f4a2c4e6b8d0f2a4c6e8b',
+    });
+    expect(services.to('chronicle.chitty.cc').some((request) => request.body?.action === 'message.delivery_failed')).toBe(false);
+  });
+
+  it('reports failed deliveries to ChittyChronicle as errors', async () => {
+    fakeNeon.on(/^UPDATE reception_messages SET/, () => [
+      { id: 'message-row', identity_id: 'identity-1', direction: 'outbound', status: 'undelivered' },
+    ]);
+    const event = fixture('message.updated');
+    event.data.object = { ...event.data.object, status: 'undelivered' } as typeof event.data.object;
+
+    await deliver(event);
+    await drain();
+
+    const chronicle = services.to('chronicle.chitty.cc').find((request) => request.body?.action === 'message.delivery_failed');
+    expect(chronicle?.body).toMatchObject({
+      severity: 'error',
+      identityId: 'identity-1',
+      resourceId: 'ACm2c4e6a8b0d24f6a8c0e2b4d6f8a0c2e',
+      details: { status: 'undelivered' },
+    });
+  });
+
+  describe('SMS auto-replies', () => {
+    const LINE = '+13125550100';
+    const GUEST = '+13125550147';
+
+    beforeEach(() => {
+      services.respond('router.chitty.cc', 'POST /api/v1/analyze/message', () =>
+        Response.json({
+          success: true,
+          data: {
+            intent: 'booking_inquiry',
+            sentiment: 'neutral',
+            suggestedResponse: 'Yes, it is available. Want the details?',
+            requiresHuman: false,
+            priority: 5,
+          },
+        })
+      );
+      services.respond('api.openphone.com', 'POST /v1/messages', () =>
+        Response.json({ data: { id: 'ACm-auto-reply-1', status: 'queued', createdAt: '2025-03-04T16:20:05.000Z' } })
+      );
+      fakeNeon.on(/^INSERT INTO reception_sessions/, () => [{ id: 'session-1' }]);
+      fakeNeon.on(/^SELECT \* FROM reception_opt_outs/, ([phone, line]) =>
+        fakeNeon.rows('reception_opt_outs').filter((row) => row.phone_number === phone && row.line_number === line)
+      );
+    });
+
+    const enableLine = () =>
+      fakeNeon.on(/^SELECT \* FROM reception_phone_lines/, (params) =>
+        params[0] === LINE ? [{ phone_number: LINE, auto_reply_enabled: true }] : []
+      );
+
+    it('sends the suggested response from the receiving line and records it in the session', async () => {
+      enableLine();
+
+      await deliver(fixture('message.created'));
+      await drain();
+
+      const sent = services.to('api.openphone.com').find((request) => request.path === '/v1/messages');
+      expect(sent?.body).toEqual({ from: LINE, to: [GUEST], content: 'Yes, it is available. Want the details?' });
+
+      const reply = fakeNeon.rows('reception_messages').find((row) => row.direction === 'outbound');
+      expect(reply).toMatchObject({
+        message_id: 'ACm-auto-reply-1',
+        from_number: LINE,
+        to_number: GUEST,
+        status: 'queued',
+        session_id: 'session-1',
+      });
+    });
+
+    it('does not reply when the line has auto-reply disabled', async () => {
+      await deliver(fixture('message.created'));
+      await drain();
+
+      expect(services.to('api.openphone.com')).toHaveLength(0);
+      expect(fakeNeon.webhookEvents.get('EV5e7a9c1b3d5f4e6a8c0b2d4f6a8c0e2b')?.outcome).toMatchObject({
+        autoReply: { sent: false, reason: 'line_disabled' },
+      });
+    });
+
+    it('records STOP as an opt-out and never replies to opted-out numbers', async () => {
+      enableLine();
+      const stop = fixture('message.created');
+      stop.data.object = { ...stop.data.object, body: 'STOP' } as typeof stop.data.object;
+
+      await deliver(stop);
+      await drain();
+
+      expect(fakeNeon.rows('reception_opt_outs')).toEqual([
+        expect.objectContaining({ phone_number: GUEST, keyword: 'STOP', line_number: LINE }),
+      ]);
+
+      await deliver(fixture('message.created'));
+      await drain();
+
+      expect(services.to('api.openphone.com')).toHaveLength(0);
+    });
+
+    it('applies START to the line it was sent to only', async () => {
+      const OTHER_LINE = '+13125550101';
+      const text = (id: string, line: string, body: string) => {
+        const message = fixture('message.created', { id });
+        message.data.object = {
+          ...message.data.object,
+          id: `ACm-${id}`,
+          body,
+          to: [{ phoneNumber: line }],
+        } as typeof message.data.object;
+        return message;
+      };
+      fakeNeon.on(/^DELETE FROM reception_opt_outs/, ([phone, line]) => {
+        fakeNeon.tables.reception_opt_outs = fakeNeon
+          .rows('reception_opt_outs')
+          .filter((row) => row.phone_number !== phone || row.line_number !== line);
+        return [];
+      });
+
+      await deliver(text('EV-stop', LINE, 'STOP'));
+      await deliver(text('EV-start-other', OTHER_LINE, 'START'));
+      await drain();
+      expect(fakeNeon.rows('reception_opt_outs')).toEqual([expect.objectContaining({ phone_number: GUEST, line_number: LINE })]);
+
+      await deliver(text('EV-start', LINE, 'START'));
+      await drain();
+      expect(fakeNeon.rows('reception_opt_outs')).toEqual([]);
+    });
+
+    it('rate limits auto-replies per conversation', async () => {
+      enableLine();
+
+      for (let i = 0; i < 4; i++) {
+        const message = fixture('message.created', { id: `EV-rate-${i}` });
+        message.data.object = { ...message.data.object, id: `ACm-inbound-${i}` } as typeof message.data.object;
+        await deliver(message);
+        await drain();
+      }
+
+      expect(services.to('api.openphone.com').filter((request) => request.path === '/v1/messages')).toHaveLength(3);
+      expect(fakeNeon.webhookEvents.get('EV-rate-3')?.outcome).toMatchObject({
+        autoReply: { sent: false, reason: 'rate_limited' },
+      });
+    });
+  });
+
+  describe('Twilio callbacks', () => {
+    const deliverTwilio = async (params: Record<string, string>, token = TEST_TWILIO_AUTH_TOKEN) =>
+      app.request(
+        '/webhooks/twilio',
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/x-www-form-urlencoded',
+            'X-Twilio-Signature': await signTwilioWebhook(TEST_TWILIO_WEBHOOK_URL, params, token),
+          },
+          body: new URLSearchParams(params).toString(),
+        },
+        testEnv.env
+      );
+
+    it('normalizes an inbound SMS into the shared pipeline', async () => {
+      const response = await deliverTwilio(twilioFixture('sms.received'));
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get('Content-Type')).toContain('text/xml');
+
+      await drain();
+
+      const eventId = 'twilio:SM3f6a9c2e5b8d1f4a7c0e3b6d9f2a5c8e:received';
+      expect(fakeNeon.webhookEvents.get(eventId)).toMatchObject({ status: 'processed', event_type: 'message.created' });
+      expect(fakeNeon.rows('reception_messages')).toEqual([
+        expect.objectContaining({
+          message_id: 'SM3f6a9c2e5b8d1f4a7c0e3b6d9f2a5c8e',
+          direction: 'inbound',
+          from_number: '+13125550163',
+          to_number: '+13125550111',
+        }),
+      ]);
+    });
+
+    it('de-duplicates Twilio retries of the same callback', async () => {
+      await deliverTwilio(twilioFixture('sms.received'));
+      await deliverTwilio(twilioFixture('sms.received'));
+
+      expect(testEnv.queue.pending).toHaveLength(1);
+    });
+
+    it('rejects callbacks with an invalid X-Twilio-Signature', async () => {
+      const response = await deliverTwilio(twilioFixture('sms.received'), 'not-the-auth-token');
+
+      expect(response.status).toBe(401);
+      expect(fakeNeon.webhookEvents.size).toBe(0);
+      const [audit] = fakeNeon.rows('audit_logs');
+      expect(audit).toMatchObject({ action: 'webhook.rejected', resource_id: 'twilio' });
+    });
+
+    it('reports undelivered status callbacks as failed deliveries', async () => {
+      await deliverTwilio(twilioFixture('message.status'));
+      await drain();
+
+      const chronicle = services.to('chronicle.chitty.cc').find((request) => request.body?.action === 'message.delivery_failed');
+      expect(chronicle?.body).toMatchObject({ severity: 'error', details: { status: 'undelivered' } });
+    });
+
+    it('sends auto-replies for Twilio lines through Twilio', async () => {
+      fakeNeon.on(/^SELECT \* FROM reception_phone_lines/, (params) =>
+        params[0] === '+13125550111' ? [{ phone_number: '+13125550111', provider: 'twilio', auto_reply_enabled: true }] : []
+      );
+      services.respond('router.chitty.cc', 'POST /api/v1/analyze/message', () =>
+        Response.json({
+          success: true,
+          data: { intent: 'booking_inquiry', sentiment: 'neutral', suggestedResponse: 'We do!', requiresHuman: false, priority: 5 },
+        })
+      );
+      services.respond('api.twilio.com', 'POST /2010-04-01/Accounts/', () =>
+        Response.json({ sid: 'SMreply1', status: 'queued', date_created: 'Tue, 04 Mar 2025 17:12:31 +0000' }, { status: 201 })
+      );
+
+      await deliverTwilio(twilioFixture('sms.received'));
+      await drain();
+
+      const [sent] = services.to('api.twilio.com');
+      expect(sent.path).toBe('/2010-04-01/Accounts/ACtest00000000000000000000000000/Messages.json');
+      expect(Object.fromEntries(new URLSearchParams(sent.body))).toMatchObject({
+        From: '+13125550111',
+        To: '+13125550163',
+        Body: 'We do!',
+        StatusCallback: TEST_TWILIO_WEBHOOK_URL,
+      });
+      expect(services.to('api.openphone.com')).toHaveLength(0);
+    });
+  });
+});
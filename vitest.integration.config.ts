@@ -0,0 +1,11 @@
+import { defineConfig } from 'vitest/config';
+import baseConfig from './vitest.config';
+
+// The base config, narrowed to the suites under tests/ (mergeConfig would append to include)
+export default defineConfig({
+  ...baseConfig,
+  test: {
+    ...baseConfig.test,
+    include: baseConfig.test?.include?.filter((pattern) => pattern.startsWith('tests/')),
+  },
+});